@@ -6,22 +6,50 @@
  */
 
 import type { ExtensionAPI } from "@mariozechner/pi-coding-agent";
+import { createRequestApprovalTool } from "./src/approval.js";
+import { type ChatClient, createChatClient } from "./src/chat-client.js";
+import { createHumanLoopCommand } from "./src/commands.js";
 import { loadConfig } from "./src/config.js";
+import {
+  formatInboxIntro,
+  formatInboxMessage,
+  type Inbox,
+  inboxTopic,
+  startInbox,
+} from "./src/inbox.js";
+import { collectMetadata, formatMetadata } from "./src/metadata.js";
+import {
+  createNotifier,
+  formatSessionShutdown,
+  formatSessionStart,
+  type Notifier,
+  notificationTopic,
+  summariseAgentRun,
+} from "./src/notifications.js";
 import { ASK_HUMAN_GUIDANCE } from "./src/prompt.js";
 import { cleanupAllQueues } from "./src/queue-registry.js";
+import {
+  type RemoteControl,
+  startRemoteControl,
+} from "./src/remote-control.js";
+import { formatSelfTestReport, runSelfTest } from "./src/self-test.js";
+import { clearSessionActivity } from "./src/session-activity.js";
 import { createAskHumanTool } from "./src/tool.js";
-import { createZulipClient, type ZulipClient } from "./src/zulip-client.js";
+import { createToolCallGuard } from "./src/tool-guard.js";
 
 export default function (pi: ExtensionAPI): void {
   // Load configuration - we do this at startup but allow extension to load
-  // even if misconfigured. The tool will return errors on first call if needed.
+  // even if misconfigured. The tool falls back to Pi's UI in interactive mode
+  // and returns errors on first call in print mode.
   let config: ReturnType<typeof loadConfig> | null = null;
-  let zulipClient: ZulipClient | null = null;
+  let chatClient: ChatClient | null = null;
   let configError: Error | null = null;
 
   try {
     config = loadConfig();
-    zulipClient = createZulipClient(config);
+    if (config.backend !== "terminal") {
+      chatClient = createChatClient(config);
+    }
   } catch (error) {
     // Configuration not set - extension will load but tool will return errors on first call
     // This is intentional to avoid crashing Pi when extension is loaded but not configured
@@ -31,8 +59,136 @@ export default function (pi: ExtensionAPI): void {
     );
   }
 
-  // Always register the ask_human tool - it will handle config errors lazily
-  pi.registerTool(createAskHumanTool(config, zulipClient, configError));
+  // Always register the tools - they handle config errors lazily
+  pi.registerTool(createAskHumanTool(config, chatClient, configError));
+  pi.registerTool(createRequestApprovalTool(config, chatClient, configError));
+
+  // Remote control, once started (`/human-loop resume` releases a pause)
+  let remoteControl: RemoteControl | null = null;
+
+  // Let the developer inspect and manage conversations from Pi
+  pi.registerCommand(
+    "human-loop",
+    createHumanLoopCommand(
+      config,
+      chatClient,
+      configError,
+      () => remoteControl,
+    ),
+  );
+
+  // Hold dangerous tool calls until a human approves them (opt-in policy)
+  pi.on("tool_call", createToolCallGuard(config, chatClient));
+
+  // Check the chat connection before the agent needs it (opt-in)
+  pi.on("session_start", async (_event, ctx) => {
+    void _event;
+
+    if (!config?.selfTest || !chatClient) {
+      return;
+    }
+    const problems = await runSelfTest(config, chatClient);
+    if (problems.length === 0) {
+      return;
+    }
+    const report = formatSelfTestReport(problems);
+    if (ctx.hasUI) {
+      ctx.ui.notify(`pi-human-loop: ${report}`, "error");
+    } else {
+      console.warn(`pi-human-loop: ${report}`);
+    }
+  });
+
+  // Pass what humans post in the agent inbox topic to the session (opt-in)
+  let inbox: Inbox | null = null;
+  pi.on("session_start", async (_event, ctx) => {
+    void _event;
+
+    if (!config?.inbox || !chatClient) {
+      return;
+    }
+    const { deliverAs } = config.inbox;
+    try {
+      const metadata = await collectMetadata(ctx, config.redactMetadata);
+      inbox = await startInbox(
+        chatClient,
+        config,
+        inboxTopic(config, ctx.sessionManager?.getSessionId()),
+        formatInboxIntro(config.inbox, formatMetadata(metadata)),
+        (message) => {
+          const text = formatInboxMessage(message);
+          if (ctx.isIdle()) {
+            pi.sendUserMessage(text);
+          } else {
+            pi.sendUserMessage(text, { deliverAs });
+          }
+        },
+      );
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      console.warn(`pi-human-loop: Could not open the agent inbox: ${reason}`);
+    }
+  });
+
+  // Obey !stop, !pause and !resume posted in this session's threads (opt-in)
+  pi.on("session_start", async (_event, ctx) => {
+    void _event;
+
+    if (!config?.remoteControl || !chatClient) {
+      return;
+    }
+    try {
+      remoteControl = await startRemoteControl(chatClient, config, {
+        abort: () => ctx.abort(),
+        notify: (message) => {
+          if (ctx.hasUI) {
+            ctx.ui.notify(`pi-human-loop: ${message}`, "warning");
+          } else {
+            console.warn(`pi-human-loop: ${message}`);
+          }
+        },
+      });
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      console.warn(`pi-human-loop: Could not start remote control: ${reason}`);
+    }
+  });
+  pi.on("tool_call", async (_event, _ctx) => {
+    void _event;
+    void _ctx;
+
+    return await remoteControl?.holdToolCall();
+  });
+
+  // Report the session's progress in its own topic (opt-in)
+  let notifier: Notifier | null = null;
+  pi.on("session_start", async (_event, ctx) => {
+    void _event;
+
+    if (!config?.notifications || !chatClient) {
+      return;
+    }
+    notifier = createNotifier(
+      chatClient,
+      { ...config, notifications: config.notifications },
+      notificationTopic(config, ctx.sessionManager?.getSessionId()),
+    );
+    const metadata = await collectMetadata(ctx, config.redactMetadata);
+    await notifier.notify(
+      "start",
+      formatSessionStart(formatMetadata(metadata)),
+    );
+  });
+  pi.on("agent_end", async (event, _ctx) => {
+    void _ctx;
+
+    await notifier?.notify("agent-end", summariseAgentRun(event.messages));
+  });
+  pi.on("tool_result", async (event, _ctx) => {
+    void _ctx;
+
+    await notifier?.recordToolResult(event);
+  });
 
   // Inject usage guidance into system prompt
   pi.on("before_agent_start", async (event, _ctx) => {
@@ -48,6 +204,15 @@ export default function (pi: ExtensionAPI): void {
     void _event;
     void _ctx;
 
+    // Release held tool calls first, before anything that waits on chat
+    await remoteControl?.stop();
+    remoteControl = null;
+    await notifier?.notify("shutdown", formatSessionShutdown());
+    notifier = null;
+    await inbox?.stop();
+    inbox = null;
     await cleanupAllQueues();
+    // History and threads belong to this session, not the next in this process
+    clearSessionActivity();
   });
 }
@@ -0,0 +1,485 @@
+/**
+ * request_approval tool definition and approval flow.
+ *
+ * Posts a proposed action (command, change summary, risk level) to the chat
+ * backend and waits for an explicit approve/deny, given as a ✅/❌ reaction
+ * or a `/approve` or `/deny <reason>` reply. `requestApproval()` is exported
+ * so other code can gate risky operations on the same flow.
+ */
+
+import type {
+  AgentToolResult,
+  AgentToolUpdateCallback,
+  ExtensionAPI,
+  ExtensionContext,
+} from "@mariozechner/pi-coding-agent";
+import { Type } from "@sinclair/typebox";
+import {
+  BACKEND_LABELS,
+  type ChatClient,
+  type ChatMessage,
+  formatTopic,
+} from "./chat-client.js";
+import { APPROVE_EMOJI, DENY_EMOJI } from "./choices.js";
+import type { Config } from "./config.js";
+import { startEscalation } from "./escalation.js";
+import { registerQueue, unregisterQueue } from "./queue-registry.js";
+import {
+  getThreadStream,
+  trackPendingQuestion,
+  trackSessionThread,
+  untrackPendingQuestion,
+} from "./session-activity.js";
+import { confirmInTerminal } from "./terminal.js";
+import { formatDuration, withDeadline } from "./wait.js";
+
+export type RiskLevel = "low" | "medium" | "high";
+
+export const RISK_LEVELS: readonly RiskLevel[] = ["low", "medium", "high"];
+
+const RISK_ICONS: Record<RiskLevel, string> = {
+  low: "🟢",
+  medium: "🟠",
+  high: "🔴",
+};
+
+/**
+ * A proposed action awaiting approval.
+ */
+export interface ApprovalRequest {
+  action: string;
+  command?: string;
+  diff_summary?: string;
+  risk: RiskLevel;
+  thread_id?: string;
+  timeout_seconds?: number;
+}
+
+/**
+ * The outcome of an approval request.
+ */
+export interface ApprovalDecision {
+  approved: boolean;
+  status: "approved" | "denied" | "timed_out" | "cancelled";
+  /** Who decided: sender identity, or "terminal". */
+  approver?: string;
+  reason?: string;
+  thread_id?: string;
+}
+
+type RegisterToolArgument = Parameters<ExtensionAPI["registerTool"]>[0];
+
+type RequestApprovalDetails = Partial<ApprovalDecision>;
+
+interface RequestApprovalResult
+  extends AgentToolResult<RequestApprovalDetails> {
+  content: Array<{ type: "text"; text: string }>;
+  isError: boolean;
+}
+
+type RequestApprovalTool = Omit<RegisterToolArgument, "execute"> & {
+  execute(
+    toolCallId: string,
+    params: unknown,
+    signal: AbortSignal | undefined,
+    onUpdate: AgentToolUpdateCallback<RequestApprovalDetails> | undefined,
+    ctx: ExtensionContext,
+  ): Promise<RequestApprovalResult>;
+};
+
+/**
+ * Generates a topic name for a new approval request.
+ */
+function generateApprovalTopic(action: string): string {
+  const firstLine = action.split("\n")[0]?.trim() ?? action;
+  return formatTopic(`Approval #${Date.now().toString(36)}`, firstLine);
+}
+
+/**
+ * Formats the approval request for posting to the chat backend.
+ */
+export function formatApprovalMessage(request: ApprovalRequest): string {
+  const sections = [
+    `🛡️ **Approval needed** · ${RISK_ICONS[request.risk]} risk: **${request.risk.toUpperCase()}**`,
+    `**Action:** ${request.action}`,
+  ];
+  if (request.command) {
+    sections.push(`**Command:**\n\`\`\`\n${request.command}\n\`\`\``);
+  }
+  if (request.diff_summary) {
+    sections.push(`**Changes:**\n${request.diff_summary}`);
+  }
+  sections.push(
+    `_React with ${APPROVE_EMOJI.unicode} to approve or ${DENY_EMOJI.unicode} to deny, or reply \`/approve\` or \`/deny <reason>\`. The agent is waiting._`,
+  );
+  return sections.join("\n\n");
+}
+
+/**
+ * Reads an explicit decision from a reply.
+ *
+ * @returns The decision, or null if the reply is neither an approve/deny
+ * reaction nor a `/approve` or `/deny` command
+ */
+export function parseApprovalReply(
+  reply: Pick<ChatMessage, "content" | "reaction">,
+): { approved: boolean; reason?: string } | null {
+  if (reply.reaction === APPROVE_EMOJI.name) {
+    return { approved: true };
+  }
+  if (reply.reaction === DENY_EMOJI.name) {
+    return { approved: false };
+  }
+
+  const text = reply.content.trim();
+  const match = /^\/(approve|deny)\b\s*([\s\S]*)$/i.exec(text);
+  if (!match) {
+    return null;
+  }
+
+  const reason = match[2]?.trim();
+  return {
+    approved: match[1]?.toLowerCase() === "approve",
+    ...(reason ? { reason } : {}),
+  };
+}
+
+/**
+ * Posts an approval request and waits for an explicit decision.
+ *
+ * Replies that are not a decision get a short hint and the wait continues.
+ * Without a decision before the timeout the action counts as denied. The
+ * wait is tracked as a pending question, so `/human-loop cancel` and `!stop`
+ * can end it.
+ *
+ * @throws {Error} If the chat backend cannot be reached
+ */
+export async function requestApproval(
+  config: Config,
+  chatClient: ChatClient,
+  request: ApprovalRequest,
+  signal: AbortSignal | undefined,
+  onUpdate?: (status: string) => void,
+): Promise<ApprovalDecision> {
+  const timeoutMs =
+    request.timeout_seconds != null
+      ? request.timeout_seconds * 1000
+      : config.timeoutMs;
+  const topic = request.thread_id ?? generateApprovalTopic(request.action);
+  // In a routed question's thread, post where the conversation is
+  const stream =
+    (request.thread_id && getThreadStream(request.thread_id)) || config.stream;
+
+  onUpdate?.("posting");
+  const messageId = await chatClient.postMessage(
+    stream,
+    topic,
+    formatApprovalMessage(request),
+  );
+  const threadId = chatClient.resolveThreadId?.(topic, messageId) ?? topic;
+  trackSessionThread(threadId, stream);
+
+  if (chatClient.addReaction) {
+    try {
+      await chatClient.addReaction(stream, messageId, APPROVE_EMOJI.name);
+      await chatClient.addReaction(stream, messageId, DENY_EMOJI.name);
+    } catch {
+      // Best-effort; the human can still answer with a command
+    }
+  }
+
+  const registration = await chatClient.registerEventQueue(
+    stream,
+    threadId,
+    messageId,
+  );
+  const { queueId } = registration;
+  let { lastEventId } = registration;
+  registerQueue(queueId, chatClient);
+
+  // Let `/human-loop cancel` stop the wait as well as the caller's signal
+  const cancellation = new AbortController();
+  trackPendingQuestion({
+    threadId,
+    stream,
+    question: request.action,
+    since: Date.now(),
+    cancel: () => cancellation.abort(),
+  });
+
+  const deadline = withDeadline(
+    signal
+      ? AbortSignal.any([signal, cancellation.signal])
+      : cancellation.signal,
+    timeoutMs,
+  );
+  const stopEscalation = startEscalation(
+    chatClient,
+    { ...config, stream },
+    threadId,
+  );
+
+  try {
+    onUpdate?.("waiting");
+
+    while (true) {
+      const reply = await chatClient.pollForReply(
+        queueId,
+        lastEventId,
+        config.botEmail,
+        deadline.signal,
+      );
+
+      if (reply === null) {
+        break;
+      }
+
+      const decision = parseApprovalReply(reply);
+      if (decision) {
+        return {
+          ...decision,
+          status: decision.approved ? "approved" : "denied",
+          approver: reply.sender_email,
+          thread_id: threadId,
+        };
+      }
+
+      // A reply that is not a decision; keep waiting for one
+      if (reply.lastEventId == null) {
+        break;
+      }
+      lastEventId = reply.lastEventId;
+      try {
+        await chatClient.postMessage(
+          stream,
+          threadId,
+          "_Please answer with `/approve` or `/deny <reason>` (or react with ✅/❌)._",
+        );
+      } catch {
+        // Best-effort hint
+      }
+    }
+  } finally {
+    untrackPendingQuestion(threadId);
+    stopEscalation();
+    deadline.dispose();
+    try {
+      await chatClient.deregisterQueue(queueId);
+    } catch {
+      // Silently ignore cleanup errors
+    } finally {
+      unregisterQueue(queueId);
+    }
+  }
+
+  if (deadline.timedOut() && timeoutMs != null && !signal?.aborted) {
+    if (config.timeoutNotice !== false) {
+      try {
+        await chatClient.postMessage(
+          stream,
+          threadId,
+          `⏱️ _No decision within ${formatDuration(timeoutMs)}. The action is treated as denied._`,
+        );
+      } catch {
+        // Best-effort notice
+      }
+    }
+    return { approved: false, status: "timed_out", thread_id: threadId };
+  }
+
+  if (cancellation.signal.aborted && !signal?.aborted) {
+    try {
+      await chatClient.postMessage(
+        stream,
+        threadId,
+        "🛑 _Cancelled from Pi. The action is treated as denied._",
+      );
+    } catch {
+      // Best-effort notice
+    }
+  }
+
+  return { approved: false, status: "cancelled", thread_id: threadId };
+}
+
+/**
+ * Builds the tool result for an approval decision.
+ */
+function decisionResult(
+  decision: ApprovalDecision,
+  timeoutMs: number | undefined,
+): RequestApprovalResult {
+  const reason = decision.reason ? `: ${decision.reason}` : "";
+  let text: string;
+  switch (decision.status) {
+    case "approved":
+      text = `Approved by ${decision.approver}${reason}. Proceed with the action.`;
+      break;
+    case "denied":
+      text = `Denied by ${decision.approver}${reason}. Do not perform the action.`;
+      break;
+    case "timed_out":
+      text = `No decision within ${formatDuration(timeoutMs ?? 0)}. Treat the action as denied.`;
+      break;
+    case "cancelled":
+      text = "Approval request cancelled. Do not perform the action.";
+      break;
+  }
+
+  return {
+    content: [{ type: "text", text }],
+    isError: false,
+    details: decision,
+  };
+}
+
+/**
+ * Creates the request_approval tool definition.
+ */
+export function createRequestApprovalTool(
+  config: Config | null,
+  chatClient: ChatClient | null,
+  configError: Error | null = null,
+): RequestApprovalTool {
+  const isTerminal = config?.backend === "terminal";
+  const backendLabel =
+    config && config.backend !== "terminal"
+      ? BACKEND_LABELS[config.backend]
+      : "Zulip";
+
+  return {
+    name: "request_approval",
+    label: "Request Approval",
+    description: isTerminal
+      ? "Ask the developer at the Pi terminal to approve or deny a risky action before performing it"
+      : `Ask the team in ${backendLabel} to approve or deny a risky action before performing it`,
+    parameters: Type.Object({
+      action: Type.String({
+        description: "What you intend to do and why",
+      }),
+      command: Type.Optional(
+        Type.String({
+          description: "The exact command you intend to run, if any",
+        }),
+      ),
+      diff_summary: Type.Optional(
+        Type.String({
+          description: "Summary of the changes the action makes",
+        }),
+      ),
+      risk: Type.Unsafe<RiskLevel>({
+        type: "string",
+        enum: [...RISK_LEVELS],
+        description: "How risky the action is: low, medium or high",
+      }),
+      thread_id: Type.Optional(
+        Type.String({
+          description:
+            "Post in an existing conversation (a thread_id from ask_human or request_approval)",
+        }),
+      ),
+      timeout_seconds: Type.Optional(
+        Type.Number({
+          description:
+            "Treat the action as denied if nobody decides within this many seconds",
+          minimum: 1,
+        }),
+      ),
+    }),
+    async execute(
+      _toolCallId: string,
+      params: unknown,
+      signal: AbortSignal | undefined,
+      onUpdate: AgentToolUpdateCallback<RequestApprovalDetails> | undefined,
+      ctx: ExtensionContext,
+    ) {
+      void _toolCallId;
+
+      const request = params as ApprovalRequest;
+      const timeoutMs =
+        request.timeout_seconds != null
+          ? request.timeout_seconds * 1000
+          : config?.timeoutMs;
+
+      try {
+        if (signal?.aborted) {
+          return decisionResult(
+            { approved: false, status: "cancelled" },
+            timeoutMs,
+          );
+        }
+
+        // Fall back to Pi's own UI when no chat backend is available
+        const chatUnavailable = configError != null || !config || !chatClient;
+        if ((isTerminal || chatUnavailable) && ctx.hasUI) {
+          const { approved, timedOut } = await confirmInTerminal(
+            ctx.ui,
+            `🛡️ Approve ${request.risk}-risk action?`,
+            [request.action, request.command, request.diff_summary]
+              .filter(Boolean)
+              .join("\n\n"),
+            signal,
+            timeoutMs,
+          );
+          return decisionResult(
+            approved
+              ? { approved, status: "approved", approver: "terminal" }
+              : timedOut
+                ? { approved, status: "timed_out" }
+                : signal?.aborted
+                  ? { approved, status: "cancelled" }
+                  : { approved, status: "denied", approver: "terminal" },
+            timeoutMs,
+          );
+        }
+
+        if (configError || !config || !chatClient) {
+          throw (
+            configError ??
+            new Error(
+              isTerminal
+                ? "The terminal backend needs Pi's interactive UI, which is not available in print mode"
+                : "Configuration not loaded",
+            )
+          );
+        }
+
+        const decision = await requestApproval(
+          config,
+          chatClient,
+          request,
+          signal,
+          (status) => {
+            onUpdate?.({
+              content: [
+                {
+                  type: "text",
+                  text:
+                    status === "posting"
+                      ? `Posting approval request to ${backendLabel}...`
+                      : "Waiting for approval...",
+                },
+              ],
+              details: {},
+            });
+          },
+        );
+        return decisionResult(decision, timeoutMs);
+      } catch (error) {
+        // Fail closed: without a decision the action is not approved
+        const errorMessage =
+          error instanceof Error ? error.message : String(error);
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Failed to request approval: ${errorMessage}. Treat the action as denied.`,
+            },
+          ],
+          isError: true,
+          details: { approved: false },
+        };
+      }
+    },
+  };
+}
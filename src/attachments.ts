@@ -0,0 +1,143 @@
+/**
+ * File attachments for ask_human.
+ *
+ * Uploads files the agent names in `attachments` so they can be linked in
+ * the question, and downloads files humans upload in their replies into a
+ * temporary directory the agent can read from.
+ */
+
+import { mkdtemp, readFile, realpath, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import type { ChatClient } from "./chat-client.js";
+
+/**
+ * A file uploaded to the chat backend.
+ */
+export interface UploadedFile {
+  name: string;
+  url: string;
+}
+
+/**
+ * Whether a path lies inside a directory.
+ */
+function isInside(directory: string, filePath: string): boolean {
+  const relative = path.relative(directory, filePath);
+  return !(
+    relative === ".." ||
+    relative.startsWith(`..${path.sep}`) ||
+    path.isAbsolute(relative)
+  );
+}
+
+/**
+ * The error for a file outside the working directory.
+ */
+function outsideError(filePath: string): Error {
+  return new Error(
+    `Cannot attach ${filePath}: only files inside the working directory can be attached`,
+  );
+}
+
+/**
+ * Uploads the given files (paths relative to `cwd`).
+ *
+ * Only files inside `cwd` are shared, never e.g. ~/.ssh or /etc, and
+ * symlinks are followed before checking.
+ *
+ * @throws {Error} If a file is outside `cwd`, or cannot be read or uploaded
+ */
+export async function uploadAttachments(
+  client: ChatClient,
+  cwd: string,
+  filePaths: string[],
+): Promise<UploadedFile[]> {
+  for (const filePath of filePaths) {
+    if (!isInside(cwd, path.resolve(cwd, filePath))) {
+      throw outsideError(filePath);
+    }
+  }
+
+  const upload = client.uploadFile;
+  if (!upload) {
+    return [];
+  }
+
+  const realCwd = await realpath(cwd);
+  const uploaded: UploadedFile[] = [];
+  for (const filePath of filePaths) {
+    const name = path.basename(filePath);
+    let realPath: string;
+    let data: Uint8Array;
+    try {
+      realPath = await realpath(path.resolve(cwd, filePath));
+      data = await readFile(realPath);
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      throw new Error(`Cannot read attachment ${filePath}: ${reason}`);
+    }
+    if (!isInside(realCwd, realPath)) {
+      throw outsideError(filePath);
+    }
+    uploaded.push({ name, url: await upload(name, data) });
+  }
+  return uploaded;
+}
+
+/**
+ * Formats the attachment list for the question message.
+ *
+ * Files the backend cannot upload are listed by their local path.
+ */
+export function formatAttachments(
+  uploaded: UploadedFile[],
+  notUploaded: string[],
+): string {
+  const lines = uploaded.map((file) => `- [${file.name}](${file.url})`);
+  for (const filePath of notUploaded) {
+    lines.push(`- \`${filePath}\` (on the agent's machine)`);
+  }
+  return lines.length > 0 ? `**Attachments:**\n${lines.join("\n")}` : "";
+}
+
+/**
+ * Downloads the files linked from a reply into a new temporary directory.
+ *
+ * Links that are not uploads on the chat backend are skipped, as are
+ * downloads that fail.
+ *
+ * @returns The local paths of the downloaded files
+ */
+export async function downloadAttachments(
+  client: ChatClient,
+  links: string[],
+): Promise<string[]> {
+  const download = client.downloadFile;
+  if (!download || links.length === 0) {
+    return [];
+  }
+
+  let directory: string | null = null;
+  const saved: string[] = [];
+  for (const link of links) {
+    try {
+      const file = await download(link);
+      if (!file) {
+        continue;
+      }
+      directory ??= await mkdtemp(path.join(tmpdir(), "pi-human-loop-"));
+      // Keep only the base name, and never overwrite an earlier download
+      let localPath = path.join(directory, path.basename(file.name) || "file");
+      while (saved.includes(localPath)) {
+        const { name, ext } = path.parse(localPath);
+        localPath = path.join(directory, `${name}-${saved.length}${ext}`);
+      }
+      await writeFile(localPath, file.data);
+      saved.push(localPath);
+    } catch {
+      // Best-effort; the link is still in the reply
+    }
+  }
+  return saved;
+}
@@ -0,0 +1,268 @@
+/**
+ * Transport-neutral chat client interface.
+ *
+ * The ask_human tool only talks to a `ChatClient`; each chat backend
+ * (Zulip, Slack, Matrix) provides an implementation, selected by `config.backend`.
+ */
+
+import type { Config, ConfigError } from "./config.js";
+import { createMatrixClient } from "./matrix-client.js";
+import { withControlCommands } from "./remote-control.js";
+import { withResponderPolicy } from "./responders.js";
+import { createSlackClient } from "./slack-client.js";
+import { createZulipClient } from "./zulip-client.js";
+
+/**
+ * Chat backends the extension can talk to.
+ */
+export type ChatBackend = "zulip" | "slack" | "matrix";
+
+export const CHAT_BACKENDS: readonly ChatBackend[] = [
+  "zulip",
+  "slack",
+  "matrix",
+];
+
+/**
+ * Human-readable backend names, used in tool descriptions and progress updates.
+ */
+export const BACKEND_LABELS: Record<ChatBackend, string> = {
+  zulip: "Zulip",
+  slack: "Slack",
+  matrix: "Matrix",
+};
+
+/**
+ * Longest topic the backends keep: Zulip truncates topics beyond 60
+ * characters, and a subscription narrowed to the full name would then never
+ * see a reply.
+ */
+export const MAX_TOPIC_LENGTH = 60;
+
+/**
+ * Builds a topic name from a fixed head (e.g. `Agent Q #<id>`) and a
+ * summary, shortening the summary so the topic fits in `MAX_TOPIC_LENGTH`.
+ */
+export function formatTopic(head: string, summary: string): string {
+  const room = MAX_TOPIC_LENGTH - head.length - " — ".length;
+  if (room < "x...".length) {
+    return head.slice(0, MAX_TOPIC_LENGTH);
+  }
+  const shortSummary =
+    summary.length > room ? `${summary.slice(0, room - 3)}...` : summary;
+  return shortSummary ? `${head} — ${shortSummary}` : head;
+}
+
+/**
+ * A message received from the chat backend.
+ */
+export interface ChatMessage {
+  id: string;
+  /** Sender identity: email address on Zulip, user ID on other backends. */
+  sender_email: string;
+  /** Numeric user ID, on backends where it differs from `sender_email`. */
+  sender_id?: string;
+  content: string;
+  /** URLs linked from the message, on backends that extract them. */
+  links?: string[];
+  /** Answer emoji name (see `ANSWER_EMOJIS`) when this is a reaction. */
+  reaction?: string;
+  /**
+   * Thread the message was posted in, on backends that report it (needed
+   * for messages from `registerStreamQueue` subscriptions).
+   */
+  topic?: string;
+  /**
+   * Subscription position just after this message; pass it back to
+   * `pollForReply` to wait for the next one.
+   */
+  lastEventId?: string;
+}
+
+/**
+ * Operations the ask_human tool needs from a chat backend.
+ *
+ * A conversation lives in a `stream` (channel/room) and a `topic` (thread).
+ */
+export interface ChatClient {
+  /**
+   * Posts a message into a conversation.
+   *
+   * @returns The backend's ID for the posted message
+   */
+  postMessage(stream: string, topic: string, content: string): Promise<string>;
+
+  /**
+   * Maps the topic a message was posted to onto the conversation's thread ID.
+   *
+   * Backends whose threads are identified by their first message (Slack,
+   * Matrix) return the posted message ID for new conversations. When
+   * omitted, the topic itself is the thread ID.
+   */
+  resolveThreadId?(topic: string, postedMessageId: string): string;
+
+  /**
+   * Formats a clickable reference to a conversation, for posting elsewhere.
+   *
+   * When omitted, callers fall back to a plain-text description.
+   */
+  formatThreadLink?(stream: string, threadId: string): string;
+
+  /**
+   * Formats a block that is collapsed until the reader expands it.
+   *
+   * When omitted, long context is uploaded or cut instead.
+   */
+  formatCollapsible?(summary: string, body: string): string;
+
+  /**
+   * Adds an answer reaction (an `ANSWER_EMOJIS` name) to a posted message.
+   *
+   * Backends without reactions omit this; humans then answer by text.
+   */
+  addReaction?(stream: string, messageId: string, emoji: string): Promise<void>;
+
+  /**
+   * Uploads a file so that messages can link to it.
+   *
+   * Backends without uploads omit this; attachments are then listed by
+   * their local path.
+   *
+   * @returns The URL (or server-relative path) to link to
+   */
+  uploadFile?(name: string, data: Uint8Array): Promise<string>;
+
+  /**
+   * Downloads a file a human uploaded, given a link from their reply.
+   *
+   * @returns The file, or null if the link is not an upload on this backend
+   */
+  downloadFile?(
+    url: string,
+  ): Promise<{ name: string; data: Uint8Array } | null>;
+
+  /**
+   * Opens a reply subscription for a conversation.
+   *
+   * When `reactionMessageId` is given, answer reactions to that message are
+   * delivered as replies too.
+   *
+   * @returns An opaque subscription ID and the position to start waiting from
+   */
+  registerEventQueue(
+    stream: string,
+    topic: string,
+    reactionMessageId?: string,
+  ): Promise<{ queueId: string; lastEventId: string }>;
+
+  /**
+   * Opens a subscription to every conversation in a stream, for remote
+   * control commands. Messages it delivers carry their `topic`. Backends
+   * without stream-wide subscriptions omit this.
+   *
+   * @returns An opaque subscription ID and the position to start waiting from
+   */
+  registerStreamQueue?(
+    stream: string,
+  ): Promise<{ queueId: string; lastEventId: string }>;
+
+  /**
+   * Looks up the first human reply already posted in a conversation after
+   * `afterMessageId`, to catch replies that arrived before the subscription
+   * was opened (or while nobody was polling it).
+   *
+   * Backends whose subscriptions already include such replies omit this.
+   *
+   * @param accept Decides whether a human message counts as a reply; the
+   *   lookup continues past those it rejects
+   * @returns The human message, or null if there is none yet
+   */
+  findReplySince?(
+    stream: string,
+    topic: string,
+    afterMessageId: string,
+    botEmail: string,
+    accept?: (message: ChatMessage) => Promise<boolean>,
+  ): Promise<ChatMessage | null>;
+
+  /**
+   * Waits for the first message (or watched reaction) in the subscription
+   * not sent by the bot.
+   *
+   * @param onPosition Called with the subscription position when the wait
+   *   moves past events that are not replies, so that a caller can record
+   *   the last event seen. Backends whose positions are cheap to replay may
+   *   never call it.
+   * @returns The human message, or null if aborted
+   */
+  pollForReply(
+    queueId: string,
+    lastEventId: string,
+    botEmail: string,
+    signal: AbortSignal,
+    onPosition?: (lastEventId: string) => void,
+  ): Promise<ChatMessage | null>;
+
+  /**
+   * Whether a user (by `sender_id`, or `sender_email` when there is none)
+   * is a bot account. Backends without a bot flag omit this.
+   */
+  isBotUser?(userId: string): Promise<boolean>;
+
+  /**
+   * Lists the user IDs in a user group, for `group:<name>` responder
+   * entries. Backends without user groups omit this.
+   *
+   * @throws {Error} If the group does not exist or the lookup fails
+   */
+  getUserGroupMembers?(group: string): Promise<string[]>;
+
+  /**
+   * Checks that the server is reachable, the bot's credentials are accepted
+   * and the bot can see and read each stream, subscribing it to streams it
+   * is missing from when `subscribe` is set. Backends without such checks
+   * omit this.
+   *
+   * @returns The problems found, naming the setting to fix
+   */
+  checkConnection?(
+    streams: string[],
+    subscribe: boolean,
+  ): Promise<ConfigError[]>;
+
+  /**
+   * Closes a reply subscription. Best-effort; must not throw.
+   */
+  deregisterQueue(queueId: string): Promise<void>;
+}
+
+/**
+ * Creates the chat client for the backend selected in the configuration.
+ *
+ * Replies from bots and from senders outside `config.responders` are
+ * filtered out (see `withResponderPolicy`), and so are remote control
+ * commands when they are enabled (see `withControlCommands`).
+ *
+ * @throws {Error} For the terminal backend, which does not use a chat client
+ */
+export function createChatClient(config: Config): ChatClient {
+  const backend = createBackendClient(config);
+  const client = withResponderPolicy(backend, config.responders);
+  return config.remoteControl ? withControlCommands(client, backend) : client;
+}
+
+/**
+ * Creates the backend's own client, without responder filtering.
+ */
+function createBackendClient(config: Config): ChatClient {
+  switch (config.backend) {
+    case "zulip":
+      return createZulipClient(config);
+    case "slack":
+      return createSlackClient(config);
+    case "matrix":
+      return createMatrixClient(config);
+    case "terminal":
+      throw new Error("The terminal backend does not use a chat client");
+  }
+}
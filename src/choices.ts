@@ -0,0 +1,146 @@
+/**
+ * Multiple-choice questions and answer reactions.
+ *
+ * Options are listed with numbers and answered either by reacting with the
+ * matching number emoji or by replying with the option's number or label.
+ * Approval requests are answered with the approve/deny reactions.
+ */
+
+import type { ChatBackend } from "./chat-client.js";
+
+/**
+ * An emoji humans can react with to answer, with its name on each backend.
+ * Matrix reactions use the Unicode emoji itself.
+ */
+export interface AnswerEmoji {
+  /** Backend-neutral name used by `ChatClient` reactions. */
+  name: string;
+  zulip: string;
+  slack: string;
+  unicode: string;
+}
+
+/**
+ * Number emojis used to answer options, by position.
+ */
+export const OPTION_EMOJIS: readonly AnswerEmoji[] = [
+  { name: "one", zulip: "one", slack: "one", unicode: "1️⃣" },
+  { name: "two", zulip: "two", slack: "two", unicode: "2️⃣" },
+  { name: "three", zulip: "three", slack: "three", unicode: "3️⃣" },
+  { name: "four", zulip: "four", slack: "four", unicode: "4️⃣" },
+  { name: "five", zulip: "five", slack: "five", unicode: "5️⃣" },
+  { name: "six", zulip: "six", slack: "six", unicode: "6️⃣" },
+  { name: "seven", zulip: "seven", slack: "seven", unicode: "7️⃣" },
+  { name: "eight", zulip: "eight", slack: "eight", unicode: "8️⃣" },
+  { name: "nine", zulip: "nine", slack: "nine", unicode: "9️⃣" },
+];
+
+/**
+ * Reactions that approve or deny an approval request.
+ */
+export const APPROVE_EMOJI: AnswerEmoji = {
+  name: "approve",
+  zulip: "check",
+  slack: "white_check_mark",
+  unicode: "✅",
+};
+
+export const DENY_EMOJI: AnswerEmoji = {
+  name: "deny",
+  zulip: "cross_mark",
+  slack: "x",
+  unicode: "❌",
+};
+
+/**
+ * Every reaction that counts as an answer.
+ */
+export const ANSWER_EMOJIS: readonly AnswerEmoji[] = [
+  ...OPTION_EMOJIS,
+  APPROVE_EMOJI,
+  DENY_EMOJI,
+];
+
+/**
+ * The most options a question may offer (one per number emoji).
+ */
+export const MAX_OPTIONS = OPTION_EMOJIS.length;
+
+/**
+ * Returns an answer emoji's name (or Unicode emoji) on a backend.
+ */
+function nativeEmoji(emoji: AnswerEmoji, backend: ChatBackend): string {
+  return backend === "matrix" ? emoji.unicode : emoji[backend];
+}
+
+/**
+ * Translates an answer emoji name into the backend's own emoji.
+ *
+ * @returns The backend emoji, or undefined for unknown names
+ */
+export function toNativeEmoji(
+  name: string,
+  backend: ChatBackend,
+): string | undefined {
+  const emoji = ANSWER_EMOJIS.find((candidate) => candidate.name === name);
+  return emoji ? nativeEmoji(emoji, backend) : undefined;
+}
+
+/**
+ * Translates a reaction received from a backend into an answer emoji name.
+ *
+ * @returns The answer emoji name, or undefined for any other reaction
+ */
+export function fromNativeEmoji(
+  native: string,
+  backend: ChatBackend,
+): string | undefined {
+  return ANSWER_EMOJIS.find((emoji) => nativeEmoji(emoji, backend) === native)
+    ?.name;
+}
+
+/**
+ * Formats the numbered option list appended to a question.
+ */
+export function formatOptions(options: string[]): string {
+  const lines = options.map(
+    (option, index) => `${OPTION_EMOJIS[index]?.unicode} ${option}`,
+  );
+  return `**Options:**
+${lines.join("\n")}
+
+_React with an option's number, or reply with its number or text._`;
+}
+
+/**
+ * Resolves a human's answer to an option index.
+ *
+ * Accepts an option emoji reaction, or a text reply consisting of the
+ * option number ("2", "2.", "#2", "option 2") or its exact label (case
+ * insensitive).
+ *
+ * @returns The zero-based option index, or null if the answer matches none
+ */
+export function matchOption(
+  options: string[],
+  answer: { content: string; reaction?: string },
+): number | null {
+  if (answer.reaction != null) {
+    const index = OPTION_EMOJIS.findIndex(
+      (emoji) => emoji.name === answer.reaction,
+    );
+    return index >= 0 && index < options.length ? index : null;
+  }
+
+  const text = answer.content.trim();
+  const numberMatch = /^(?:option\s*)?#?(\d+)[.)]?$/i.exec(text);
+  if (numberMatch) {
+    const index = Number(numberMatch[1]) - 1;
+    return index >= 0 && index < options.length ? index : null;
+  }
+
+  const index = options.findIndex(
+    (option) => option.trim().toLowerCase() === text.toLowerCase(),
+  );
+  return index >= 0 ? index : null;
+}
@@ -0,0 +1,124 @@
+/**
+ * Multi-message reply collection for ask_human.
+ *
+ * After the first human reply, keeps gathering messages in the thread until
+ * it goes quiet for `config.replyQuietMs` or a human sends a terminator
+ * (`/done`, or a ✅ reaction on the question), so that an answer written
+ * across several messages reaches the agent in full.
+ */
+
+import type { ChatClient, ChatMessage } from "./chat-client.js";
+import { APPROVE_EMOJI } from "./choices.js";
+import { withDeadline } from "./wait.js";
+
+/**
+ * Command that ends reply collection early.
+ */
+export const DONE_COMMAND = "/done";
+
+/**
+ * One message of a collected reply, for the tool result's details.
+ */
+export interface CollectedMessage {
+  sender: string;
+  content: string;
+}
+
+/**
+ * Splits a trailing `/done` off a message.
+ */
+export function splitDoneCommand(content: string): {
+  content: string;
+  done: boolean;
+} {
+  const text = content.trim();
+  if (!/(^|\s)\/done$/i.test(text)) {
+    return { content, done: false };
+  }
+  if (text.length === DONE_COMMAND.length) {
+    return { content: "", done: true };
+  }
+
+  const index = content.toLowerCase().lastIndexOf(DONE_COMMAND);
+  const rest =
+    content.slice(0, index) + content.slice(index + DONE_COMMAND.length);
+  return { content: rest.trim(), done: true };
+}
+
+/**
+ * Collects the human's reply, starting from the first message.
+ *
+ * Reactions answer in one click, so a first reply that is a reaction is
+ * returned on its own. Polling errors end collection with what has been
+ * gathered so far. A message delivered twice (e.g. the first reply, found
+ * by `findReplySince` and then polled again) is collected once, and only
+ * new messages restart the quiet period.
+ *
+ * @param lastEventId Subscription position to resume from when `first`
+ * does not carry one (e.g. it was found by `findReplySince`)
+ * @returns The messages in order; never empty
+ */
+export async function collectReplies(
+  client: ChatClient,
+  queueId: string,
+  first: ChatMessage,
+  lastEventId: string,
+  botEmail: string,
+  quietMs: number,
+  signal: AbortSignal | undefined,
+): Promise<ChatMessage[]> {
+  if (first.reaction) {
+    return [first];
+  }
+
+  const messages: ChatMessage[] = [];
+  const seen = new Set<string>();
+  let position = first.lastEventId ?? lastEventId;
+  let next: ChatMessage | null = first;
+  // The thread is quiet once no new message arrives for `quietMs`; events
+  // that are skipped or seen before do not restart the wait
+  let quiet = withDeadline(signal, quietMs);
+
+  try {
+    while (next) {
+      if (next.reaction === APPROVE_EMOJI.name) {
+        break;
+      }
+      if (!next.reaction && !seen.has(next.id)) {
+        seen.add(next.id);
+        const { content, done } = splitDoneCommand(next.content);
+        if (content) {
+          messages.push({ ...next, content });
+        }
+        if (done) {
+          break;
+        }
+        if (next !== first) {
+          quiet.dispose();
+          quiet = withDeadline(signal, quietMs);
+        }
+      }
+      if (next !== first && !next.lastEventId) {
+        // Cannot resume past this message without its position
+        break;
+      }
+      position = next.lastEventId ?? position;
+
+      // Wait for the next message, or until the thread has been quiet long enough
+      try {
+        next = await client.pollForReply(
+          queueId,
+          position,
+          botEmail,
+          quiet.signal,
+        );
+      } catch {
+        next = null;
+      }
+    }
+  } finally {
+    quiet.dispose();
+  }
+
+  return messages.length > 0 ? messages : [first];
+}
@@ -0,0 +1,372 @@
+/**
+ * `/human-loop` slash command.
+ *
+ * Lets the developer at the Pi terminal see what the agent has asked and
+ * manage its conversations:
+ *
+ * - `status`: configuration health, open questions and how long they have waited
+ * - `history`: questions asked this session and their answers
+ * - `cancel <thread>`: stops waiting on a question
+ * - `resume`: lets an agent paused from chat continue
+ * - `test`: posts a test message and waits for a reply, to check the round trip
+ */
+
+import type {
+  ExtensionAPI,
+  ExtensionCommandContext,
+} from "@mariozechner/pi-coding-agent";
+import { BACKEND_LABELS, type ChatClient } from "./chat-client.js";
+import type { Config } from "./config.js";
+import { createConversationStore } from "./conversation-store.js";
+import { registerQueue, unregisterQueue } from "./queue-registry.js";
+import type { RemoteControl } from "./remote-control.js";
+import { runSelfTest } from "./self-test.js";
+import {
+  findPendingQuestion,
+  getHistory,
+  getPendingQuestions,
+  type HistoryEntry,
+} from "./session-activity.js";
+import { formatDuration, withDeadline } from "./wait.js";
+
+type RegisterCommandOptions = Parameters<ExtensionAPI["registerCommand"]>[1];
+
+/**
+ * Subcommands, with their descriptions for completion and usage.
+ */
+export const HUMAN_LOOP_SUBCOMMANDS = {
+  status: "Configuration health and open questions",
+  history: "Questions asked this session and their answers",
+  cancel: "Stop waiting on a question: cancel <thread>",
+  resume: "Let an agent paused from chat (!pause) continue",
+  test: "Post a test message and wait for a reply",
+} as const;
+
+/**
+ * Topic the `test` subcommand posts to.
+ */
+export const TEST_TOPIC = "pi-human-loop test";
+
+/**
+ * How long `test` waits for a reply, in ms.
+ */
+export const TEST_REPLY_TIMEOUT_MS = 2 * 60 * 1000;
+
+/**
+ * Formats how long ago something started, to the second under a minute
+ * and to the minute above.
+ */
+function formatElapsed(since: number): string {
+  const elapsed = Date.now() - since;
+  return formatDuration(
+    elapsed >= 60000 ? Math.floor(elapsed / 60000) * 60000 : elapsed,
+  );
+}
+
+/**
+ * Shortens text to one line for listings.
+ */
+function truncate(text: string, length = 80): string {
+  const line = text.trim().replace(/\s+/g, " ");
+  return line.length > length ? `${line.slice(0, length - 1)}…` : line;
+}
+
+/**
+ * Lists the subcommands.
+ */
+function usage(): string {
+  return [
+    "Usage: /human-loop <command>",
+    ...Object.entries(HUMAN_LOOP_SUBCOMMANDS).map(
+      ([name, description]) => `  ${name.padEnd(8)}${description}`,
+    ),
+  ].join("\n");
+}
+
+/**
+ * Describes the configuration, open questions and questions asked so far.
+ */
+async function status(
+  config: Config | null,
+  chatClient: ChatClient | null,
+  configError: Error | null,
+  cwd: string | undefined,
+): Promise<string> {
+  const lines: string[] = [];
+  if (configError || !config) {
+    lines.push(
+      `Configuration error: ${configError?.message ?? "configuration not loaded"}`,
+      "Questions fall back to Pi's own UI.",
+    );
+  } else if (config.backend === "terminal") {
+    lines.push("Backend: terminal (questions are asked in Pi's own UI)");
+  } else {
+    lines.push(
+      `Backend: ${BACKEND_LABELS[config.backend]}, stream "${config.stream}"`,
+    );
+    if (config.routes?.length) {
+      lines.push(`Routing rules: ${config.routes.length}`);
+    }
+    if (chatClient?.checkConnection) {
+      // A status query only reads: never subscribe the bot here
+      const problems = await runSelfTest(config, chatClient, false);
+      lines.push(
+        problems.length === 0
+          ? "Connection: OK"
+          : `Connection problems:\n${problems.map((e) => `  ${e.var}: ${e.message}`).join("\n")}`,
+      );
+    }
+  }
+
+  const pending = getPendingQuestions();
+  if (pending.length === 0) {
+    lines.push("Not waiting on any question.");
+  } else {
+    lines.push(
+      `Waiting on ${pending.length} question${pending.length === 1 ? "" : "s"}:`,
+    );
+    for (const question of pending) {
+      lines.push(
+        `- ${question.threadId} (${question.stream}), waiting ${formatElapsed(question.since)}: ${truncate(question.question)}`,
+      );
+    }
+  }
+
+  // Questions left open by earlier sessions, resumed when asked again
+  if (cwd) {
+    const waiting = new Set(pending.map((question) => question.threadId));
+    const earlier = (await createConversationStore(cwd).list()).filter(
+      (conversation) => !waiting.has(conversation.thread_id),
+    );
+    if (earlier.length > 0) {
+      lines.push(
+        `Unanswered from earlier sessions: ${earlier.length} (resumed if the agent asks again)`,
+      );
+    }
+  }
+
+  const history = getHistory();
+  if (history.length > 0) {
+    const answered = history.filter((entry) => entry.outcome === "answered");
+    lines.push(
+      `Answered this session: ${answered.length} of ${history.length}`,
+    );
+  }
+  return lines.join("\n");
+}
+
+const OUTCOME_LABELS: Record<HistoryEntry["outcome"], string> = {
+  answered: "answered",
+  timed_out: "timed out",
+  cancelled: "cancelled",
+  failed: "failed",
+};
+
+/**
+ * Lists the questions asked this session, oldest first.
+ */
+function history(): string {
+  const entries = getHistory();
+  if (entries.length === 0) {
+    return "No questions asked this session.";
+  }
+  return entries
+    .map((entry, index) => {
+      const by = entry.responder ? ` by ${entry.responder}` : "";
+      const took = formatDuration(entry.finishedAt - entry.askedAt);
+      return [
+        `${index + 1}. ${truncate(entry.question)}`,
+        `   ${OUTCOME_LABELS[entry.outcome]}${by} after ${took}${entry.threadId ? ` (${entry.threadId})` : ""}`,
+        `   ${truncate(entry.answer, 200)}`,
+      ].join("\n");
+    })
+    .join("\n");
+}
+
+/**
+ * Posts a test message and waits for a human to reply to it.
+ */
+async function roundTripTest(
+  config: Config,
+  chatClient: ChatClient,
+  ctx: ExtensionCommandContext,
+): Promise<void> {
+  const label =
+    config.backend === "terminal" ? "" : BACKEND_LABELS[config.backend];
+  const messageId = await chatClient.postMessage(
+    config.stream,
+    TEST_TOPIC,
+    `🧪 **pi-human-loop test**\n\nReply in this thread within ${formatDuration(TEST_REPLY_TIMEOUT_MS)} to confirm that answers reach the agent.`,
+  );
+  const threadId =
+    chatClient.resolveThreadId?.(TEST_TOPIC, messageId) ?? TEST_TOPIC;
+  const { queueId, lastEventId } = await chatClient.registerEventQueue(
+    config.stream,
+    threadId,
+  );
+  registerQueue(queueId, chatClient);
+  ctx.ui.notify(
+    `Posted a test message to ${label} (${config.stream}). Reply to it within ${formatDuration(TEST_REPLY_TIMEOUT_MS)}...`,
+    "info",
+  );
+
+  const postedAt = Date.now();
+  const deadline = withDeadline(undefined, TEST_REPLY_TIMEOUT_MS);
+  try {
+    const reply = await chatClient
+      .pollForReply(queueId, lastEventId, config.botEmail, deadline.signal)
+      .catch((error: unknown) => {
+        if (deadline.timedOut()) {
+          return null;
+        }
+        throw error;
+      });
+    if (!reply) {
+      ctx.ui.notify(
+        `The test message was posted, but no reply arrived within ${formatDuration(TEST_REPLY_TIMEOUT_MS)}.`,
+        "warning",
+      );
+      return;
+    }
+
+    try {
+      await chatClient.postMessage(
+        config.stream,
+        threadId,
+        "✅ _Round trip works: the agent received your reply._",
+      );
+    } catch {
+      // Best-effort confirmation; the result is reported in Pi
+    }
+    ctx.ui.notify(
+      `Round trip works: ${reply.sender_email} replied after ${formatElapsed(postedAt)}.`,
+      "info",
+    );
+  } finally {
+    deadline.dispose();
+    try {
+      await chatClient.deregisterQueue(queueId);
+    } catch {
+      // Silently ignore cleanup errors
+    } finally {
+      unregisterQueue(queueId);
+    }
+  }
+}
+
+/**
+ * Creates the `/human-loop` command definition.
+ *
+ * @param getRemoteControl Running remote control, if any (for `resume`)
+ */
+export function createHumanLoopCommand(
+  config: Config | null,
+  chatClient: ChatClient | null,
+  configError: Error | null = null,
+  getRemoteControl: () => RemoteControl | null = () => null,
+): RegisterCommandOptions {
+  return {
+    description:
+      "Inspect and manage human-loop conversations (status, history, cancel, resume, test)",
+    getArgumentCompletions(prefix) {
+      const [subcommand = "", ...rest] = prefix.trimStart().split(/\s+/);
+      const argument = rest.join(" ").toLowerCase();
+      if (rest.length === 0) {
+        const matches = Object.entries(HUMAN_LOOP_SUBCOMMANDS)
+          .filter(([name]) => name.startsWith(subcommand))
+          .map(([name, description]) => ({
+            value: name,
+            label: name,
+            description,
+          }));
+        return matches.length > 0 ? matches : null;
+      }
+      if (subcommand === "cancel") {
+        const matches = getPendingQuestions()
+          .filter((question) =>
+            question.threadId.toLowerCase().includes(argument),
+          )
+          .map((question) => ({
+            value: `cancel ${question.threadId}`,
+            label: question.threadId,
+            description: truncate(question.question, 60),
+          }));
+        return matches.length > 0 ? matches : null;
+      }
+      return null;
+    },
+    async handler(args, ctx) {
+      const [subcommand = "", ...rest] = args.trim().split(/\s+/);
+      const argument = rest.join(" ");
+
+      switch (subcommand) {
+        case "status":
+          ctx.ui.notify(
+            await status(config, chatClient, configError, ctx.cwd),
+            "info",
+          );
+          return;
+
+        case "history":
+          ctx.ui.notify(history(), "info");
+          return;
+
+        case "cancel": {
+          const pending = getPendingQuestions();
+          const question = argument
+            ? findPendingQuestion(argument)
+            : pending.length === 1
+              ? (pending[0] ?? null)
+              : null;
+          if (!question) {
+            ctx.ui.notify(
+              pending.length === 0
+                ? "Not waiting on any question."
+                : argument
+                  ? `No single open question matches "${argument}". Open threads: ${pending.map((q) => q.threadId).join(", ")}`
+                  : `Name the thread to cancel: ${pending.map((q) => q.threadId).join(", ")}`,
+              "warning",
+            );
+            return;
+          }
+          question.cancel();
+          ctx.ui.notify(`Cancelled: ${truncate(question.question)}`, "info");
+          return;
+        }
+
+        case "resume":
+          if (getRemoteControl()?.resume()) {
+            ctx.ui.notify("Resumed: the agent is continuing.", "info");
+          } else {
+            ctx.ui.notify("The agent is not paused.", "warning");
+          }
+          return;
+
+        case "test":
+          if (configError || !config || !chatClient) {
+            ctx.ui.notify(
+              `Cannot test: ${configError?.message ?? (config?.backend === "terminal" ? "the terminal backend has no chat to test" : "configuration not loaded")}`,
+              "error",
+            );
+            return;
+          }
+          try {
+            await roundTripTest(config, chatClient, ctx);
+          } catch (error) {
+            const message =
+              error instanceof Error ? error.message : String(error);
+            ctx.ui.notify(`Test failed: ${message}`, "error");
+          }
+          return;
+
+        default:
+          ctx.ui.notify(
+            subcommand
+              ? `Unknown command "${subcommand}".\n${usage()}`
+              : usage(),
+            subcommand ? "warning" : "info",
+          );
+      }
+    },
+  };
+}
@@ -0,0 +1,284 @@
+/**
+ * Configuration files.
+ *
+ * Settings can be shared in JSON files as well as set in the environment:
+ * a user-level `~/.pi/agent/human-loop.json`, then a project-level
+ * `.pi/human-loop.json`, then environment variables, each overriding the
+ * one before. Files use the environment variable names as keys. Zulip
+ * credentials can also come from a `zuliprc` file (`ZULIPRC`).
+ *
+ * The project file is repository content, so it may only hold shared,
+ * non-secret settings (see `CONNECTION_SETTINGS`).
+ */
+
+import { readFileSync } from "node:fs";
+import type { ConfigError } from "./config.js";
+
+/**
+ * Project configuration file, relative to the working directory.
+ */
+export const PROJECT_CONFIG_PATH = ".pi/human-loop.json";
+
+/**
+ * User configuration file, relative to the home directory.
+ */
+export const USER_CONFIG_PATH = ".pi/agent/human-loop.json";
+
+/**
+ * Settings that configuration files may contain.
+ */
+export const SETTING_NAMES = [
+  "HUMAN_LOOP_BACKEND",
+  "ZULIP_SERVER_URL",
+  "ZULIP_BOT_EMAIL",
+  "ZULIP_BOT_API_KEY",
+  "ZULIP_STREAM",
+  "ZULIP_POLL_INTERVAL_MS",
+  "ZULIPRC",
+  "SLACK_BOT_TOKEN",
+  "SLACK_CHANNEL",
+  "SLACK_API_URL",
+  "SLACK_BOT_USER_ID",
+  "SLACK_POLL_INTERVAL_MS",
+  "MATRIX_HOMESERVER_URL",
+  "MATRIX_USER_ID",
+  "MATRIX_ACCESS_TOKEN",
+  "MATRIX_ROOM_ID",
+  "MATRIX_POLL_INTERVAL_MS",
+  "HUMAN_LOOP_TIMEOUT_MS",
+  "HUMAN_LOOP_TIMEOUT_NOTICE",
+  "HUMAN_LOOP_REPLY_QUIET_MS",
+  "HUMAN_LOOP_REMIND_AFTER_MS",
+  "HUMAN_LOOP_MENTION_AFTER_MS",
+  "HUMAN_LOOP_MENTION",
+  "HUMAN_LOOP_CROSSPOST_AFTER_MS",
+  "HUMAN_LOOP_CROSSPOST_STREAM",
+  "HUMAN_LOOP_APPROVE_COMMANDS",
+  "HUMAN_LOOP_APPROVE_PATHS",
+  "HUMAN_LOOP_ALLOWED_RESPONDERS",
+  "HUMAN_LOOP_DENIED_RESPONDERS",
+  "HUMAN_LOOP_QUESTION_TEMPLATE",
+  "HUMAN_LOOP_FOLLOW_UP_TEMPLATE",
+  "HUMAN_LOOP_REDACT_METADATA",
+  "HUMAN_LOOP_ROUTES",
+  "HUMAN_LOOP_SELF_TEST",
+  "HUMAN_LOOP_AUTO_SUBSCRIBE",
+  "HUMAN_LOOP_INBOX",
+  "HUMAN_LOOP_INBOX_TOPIC",
+  "HUMAN_LOOP_INBOX_DELIVERY",
+  "HUMAN_LOOP_REMOTE_CONTROL",
+  "HUMAN_LOOP_NOTIFY",
+  "HUMAN_LOOP_NOTIFY_TOPIC",
+  "HUMAN_LOOP_NOTIFY_TOOL_FAILURES",
+] as const;
+
+/**
+ * Where the chat server is and how to log in to it. Only the user file and
+ * the environment may set these: a project file must not be able to choose
+ * the server that the user's credentials are sent to.
+ */
+export const CONNECTION_SETTINGS: readonly (typeof SETTING_NAMES)[number][] = [
+  "ZULIP_SERVER_URL",
+  "ZULIP_BOT_EMAIL",
+  "ZULIP_BOT_API_KEY",
+  "ZULIPRC",
+  "SLACK_BOT_TOKEN",
+  "SLACK_API_URL",
+  "SLACK_BOT_USER_ID",
+  "MATRIX_HOMESERVER_URL",
+  "MATRIX_USER_ID",
+  "MATRIX_ACCESS_TOKEN",
+];
+
+/**
+ * Settings as strings, keyed by environment variable name.
+ */
+export type Settings = Record<string, string | undefined>;
+
+/**
+ * Reads a file, treating a missing file as absent.
+ *
+ * @returns The contents, or null when the file does not exist or cannot be
+ *   read (recorded in `errors`)
+ */
+function readOptionalFile(
+  filePath: string,
+  name: string,
+  errors: ConfigError[],
+): string | null {
+  try {
+    return readFileSync(filePath, "utf8");
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+      const reason = error instanceof Error ? error.message : String(error);
+      errors.push({
+        type: "invalid",
+        var: name,
+        message: `${filePath} cannot be read: ${reason}`,
+      });
+    }
+    return null;
+  }
+}
+
+/**
+ * Converts a setting's JSON value to the string an environment variable
+ * would hold: lists are comma-separated, and routing rules stay JSON.
+ *
+ * @returns The string, or null when the value has the wrong type
+ */
+function toSettingString(name: string, value: unknown): string | null {
+  if (name === "HUMAN_LOOP_ROUTES") {
+    return Array.isArray(value)
+      ? JSON.stringify(value)
+      : typeof value === "string"
+        ? value
+        : null;
+  }
+  if (
+    typeof value === "string" ||
+    typeof value === "number" ||
+    typeof value === "boolean"
+  ) {
+    return String(value);
+  }
+  if (
+    Array.isArray(value) &&
+    value.every((entry) => typeof entry === "string")
+  ) {
+    return value.join(",");
+  }
+  return null;
+}
+
+/**
+ * Reads and validates a JSON configuration file.
+ *
+ * @param layer Which file this is: a project file may not set
+ *   `CONNECTION_SETTINGS`
+ * @returns Its settings, or none when the file does not exist
+ */
+export function readSettingsFile(
+  filePath: string,
+  errors: ConfigError[],
+  layer: "user" | "project" = "user",
+): Settings {
+  const text = readOptionalFile(filePath, filePath, errors);
+  if (text === null) {
+    return {};
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    parsed = null;
+  }
+  if (typeof parsed !== "object" || parsed === null || Array.isArray(parsed)) {
+    errors.push({
+      type: "invalid",
+      var: filePath,
+      message: `${filePath} must contain a JSON object of settings`,
+    });
+    return {};
+  }
+
+  const settings: Settings = {};
+  for (const [name, value] of Object.entries(parsed)) {
+    if (!(SETTING_NAMES as readonly string[]).includes(name)) {
+      errors.push({
+        type: "invalid",
+        var: name,
+        message: `${name} in ${filePath} is not a known setting`,
+      });
+      continue;
+    }
+    if (
+      layer === "project" &&
+      (CONNECTION_SETTINGS as readonly string[]).includes(name)
+    ) {
+      errors.push({
+        type: "invalid",
+        var: name,
+        message: `${name} cannot be set in the project file ${filePath}; set it in ~/${USER_CONFIG_PATH} or the environment`,
+      });
+      continue;
+    }
+    const setting = toSettingString(name, value);
+    if (setting === null) {
+      errors.push({
+        type: "invalid",
+        var: name,
+        message: `${name} in ${filePath} must be a string, number, boolean or list of strings`,
+      });
+      continue;
+    }
+    settings[name] = setting;
+  }
+  return settings;
+}
+
+/**
+ * Reads the Zulip credentials from a `zuliprc` file (the `[api]` section's
+ * `email`, `key` and `site`), as written by Zulip's "Download zuliprc".
+ *
+ * @returns The `ZULIP_*` settings it provides
+ */
+export function readZuliprc(filePath: string, errors: ConfigError[]): Settings {
+  let text: string;
+  try {
+    text = readFileSync(filePath, "utf8");
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    errors.push({
+      type: "invalid",
+      var: "ZULIPRC",
+      message: `ZULIPRC file ${filePath} cannot be read: ${reason}`,
+    });
+    return {};
+  }
+
+  const api: Record<string, string> = {};
+  let section = "";
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line || line.startsWith("#") || line.startsWith(";")) {
+      continue;
+    }
+    const header = /^\[(.+)\]$/.exec(line);
+    if (header) {
+      section = (header[1] ?? "").trim().toLowerCase();
+      continue;
+    }
+    const separator = line.search(/[=:]/);
+    if (section === "api" && separator > 0) {
+      api[line.slice(0, separator).trim().toLowerCase()] = line
+        .slice(separator + 1)
+        .trim();
+    }
+  }
+
+  if (!api.email && !api.key && !api.site) {
+    errors.push({
+      type: "invalid",
+      var: "ZULIPRC",
+      message: `ZULIPRC file ${filePath} has no [api] section with email, key and site`,
+    });
+    return {};
+  }
+
+  const settings: Settings = {};
+  if (api.site) {
+    // Like Zulip's own clients, default to HTTPS for bare host names
+    settings.ZULIP_SERVER_URL = /^[a-z][a-z\d+.-]*:\/\//i.test(api.site)
+      ? api.site
+      : `https://${api.site}`;
+  }
+  if (api.email) {
+    settings.ZULIP_BOT_EMAIL = api.email;
+  }
+  if (api.key) {
+    settings.ZULIP_BOT_API_KEY = api.key;
+  }
+  return settings;
+}
@@ -1,15 +1,166 @@
 /**
  * Configuration for the pi-human-loop extension.
  *
- * Reads environment variables and validates them.
+ * Reads environment variables, layered over the configuration files in
+ * `src/config-files.ts`, and validates them.
  */
 
+import { readFileSync, realpathSync } from "node:fs";
+import { homedir } from "node:os";
+import path from "node:path";
+import { CHAT_BACKENDS, type ChatBackend } from "./chat-client.js";
+import {
+  PROJECT_CONFIG_PATH,
+  readSettingsFile,
+  readZuliprc,
+  type Settings,
+  USER_CONFIG_PATH,
+} from "./config-files.js";
+import { METADATA_FIELDS, type MetadataField } from "./metadata.js";
+import {
+  NOTIFICATION_EVENTS,
+  type NotificationEvent,
+} from "./notifications.js";
+import {
+  findUnknownPlaceholders,
+  type MessageTemplates,
+  TEMPLATE_PLACEHOLDERS,
+} from "./templates.js";
+
+/**
+ * Where questions are asked: a chat backend, or Pi's own terminal UI.
+ */
+export type Backend = ChatBackend | "terminal";
+
+export const BACKENDS: readonly Backend[] = [...CHAT_BACKENDS, "terminal"];
+
+/**
+ * When and how to widen the audience for an unanswered question.
+ *
+ * Delays are measured from when the agent starts waiting for a reply.
+ */
+export interface EscalationConfig {
+  /** Post a reminder in the thread after this many ms. */
+  remindAfterMs?: number;
+  /** Post `mention` in the thread after this many ms. */
+  mentionAfterMs?: number;
+  /** Backend mention syntax for a user or group (e.g. `@*oncall*` on Zulip). */
+  mention?: string;
+  /** Post a link to the thread in `crossPostStream` after this many ms. */
+  crossPostAfterMs?: number;
+  crossPostStream?: string;
+}
+
+/**
+ * Tool calls that must be approved by a human before they run.
+ */
+export interface ApprovalPolicy {
+  /** Regular expressions matched against bash commands. */
+  commandPatterns: RegExp[];
+  /** Globs matched against write/edit paths, relative to the working directory. */
+  pathPatterns: string[];
+}
+
+/**
+ * Who may answer questions and approval requests.
+ *
+ * Entries are sender emails or user IDs, or `group:<name>` for a chat user
+ * group (Zulip group name or Slack user group ID).
+ */
+export interface ResponderPolicy {
+  /** When non-empty, only these senders may answer. */
+  allow: string[];
+  /** Senders whose replies are always ignored. */
+  deny: string[];
+}
+
+/**
+ * Sends matching questions to a stream other than the default.
+ *
+ * A rule matches when any of its criteria do; see `src/routing.ts` for the
+ * order in which rules are tried.
+ */
+export interface RoutingRule {
+  /** Globs matched against the working directory and its parents. */
+  cwd: string[];
+  /** Globs matched against file paths mentioned in the question. */
+  paths: string[];
+  /** Values of the ask_human `category` parameter. */
+  categories: string[];
+  stream: string;
+  /** Prepended to the topics of new questions. */
+  topicPrefix?: string;
+}
+
+/**
+ * The operator inbox: a topic watched in the background whose messages are
+ * passed to the agent.
+ */
+export interface InboxConfig {
+  /** Topic to watch (default: one per session, see `src/inbox.ts`). */
+  topic?: string;
+  /** How messages reach an agent that is busy: as steering or follow-ups. */
+  deliverAs: "steer" | "followUp";
+}
+
+/**
+ * Control commands (`!stop`, `!pause`, `!resume`) accepted from chat.
+ */
+export interface RemoteControlConfig {
+  /** Who may send them: sender emails or user IDs, or `group:<name>`. */
+  controllers: string[];
+}
+
+/**
+ * Lifecycle notifications posted to a per-session topic.
+ */
+export interface NotificationsConfig {
+  /** The events to post. */
+  events: NotificationEvent[];
+  /** Topic to post in (default: one per session, see `src/notifications.ts`). */
+  topic?: string;
+  /** Consecutive failed tool calls that are reported. */
+  toolFailureThreshold: number;
+}
+
+/**
+ * Extension configuration.
+ *
+ * The connection fields are named after Zulip but hold each backend's
+ * equivalent (e.g. for Slack: API URL, bot user ID, bot token, channel ID;
+ * for Matrix: homeserver URL, user ID, access token, room ID). They are
+ * empty for the terminal backend.
+ */
 export interface Config {
+  backend: Backend;
   serverUrl: string;
   botEmail: string;
   botApiKey: string;
   stream: string;
   pollIntervalMs: number;
+  /** Maximum time to wait for a reply, in ms. Unset means wait indefinitely. */
+  timeoutMs?: number;
+  /** Whether to post a "no longer waiting" note on timeout (default: true). */
+  timeoutNotice?: boolean;
+  /**
+   * After the first reply, keep collecting messages until the thread has
+   * been quiet this long, in ms. Unset returns the first reply on its own.
+   */
+  replyQuietMs?: number;
+  escalation?: EscalationConfig;
+  approvalPolicy?: ApprovalPolicy;
+  responders?: ResponderPolicy;
+  templates?: MessageTemplates;
+  /** Metadata fields to leave out of questions. */
+  redactMetadata?: MetadataField[];
+  routes?: RoutingRule[];
+  /** Check the chat connection when a session starts. */
+  selfTest?: boolean;
+  /** Let the startup check subscribe the bot to streams it is missing from. */
+  autoSubscribe?: boolean;
+  inbox?: InboxConfig;
+  remoteControl?: RemoteControlConfig;
+  notifications?: NotificationsConfig;
 }
 
 export interface ConfigError {
@@ -18,6 +169,22 @@ export interface ConfigError {
   message: string;
 }
 
+/**
+ * Where the configuration files are looked up (defaults: the working and
+ * home directories).
+ */
+export interface LoadConfigOptions {
+  cwd?: string;
+  homeDir?: string;
+}
+
+/**
+ * The settings `loadConfig()` is reading: environment variables over
+ * configuration files. Only replaced for the duration of a (synchronous)
+ * `loadConfig()` call.
+ */
+let settings: Settings = process.env;
+
 /**
  * Validates that a URL starts with http:// or https://
  */
@@ -31,99 +198,890 @@ function isValidUrl(value: string): boolean {
 }
 
 /**
- * Loads and validates configuration from environment variables.
+ * Builds the error thrown when validation fails, carrying the individual
+ * `ConfigError` records for programmatic inspection.
+ */
+function createValidationError(
+  errors: ConfigError[],
+  hint: string,
+): Error & { configErrors: ConfigError[] } {
+  const message = errors.map((e) => `  ${e.var}: ${e.message}`).join("\n");
+  const error = new Error(
+    `Configuration validation failed:\n${message}\n\n${hint}`,
+  ) as Error & { configErrors: ConfigError[] };
+  error.configErrors = errors;
+  return error;
+}
+
+/**
+ * Type guard for supported backend names.
+ */
+function isBackend(value: string): value is Backend {
+  return (BACKENDS as readonly string[]).includes(value);
+}
+
+/**
+ * Throws the validation error when any errors have been collected.
+ */
+function throwIfErrors(errors: ConfigError[], hint: string): void {
+  if (errors.length > 0) {
+    throw createValidationError(errors, hint);
+  }
+}
+
+/**
+ * Reads a required environment variable, recording an error when unset.
+ */
+function readRequired(
+  name: string,
+  message: string,
+  errors: ConfigError[],
+): string | undefined {
+  const value = settings[name];
+  if (!value) {
+    errors.push({ type: "missing", var: name, message });
+  }
+  return value;
+}
+
+/**
+ * Validates that an already-read URL value uses http:// or https://.
+ */
+function checkUrl(
+  name: string,
+  value: string | undefined,
+  errors: ConfigError[],
+): void {
+  if (value && !isValidUrl(value)) {
+    errors.push({
+      type: "invalid_url",
+      var: name,
+      message: `${name} must be a valid URL starting with http:// or https://`,
+    });
+  }
+}
+
+/**
+ * Parses an optional positive integer environment variable.
  *
- * @throws {Error} If validation fails, with a descriptive message
+ * @returns The parsed value, or undefined when unset or invalid
  */
-export function loadConfig(): Config {
-  const errors: ConfigError[] = [];
+function readOptionalPositiveInt(
+  name: string,
+  errors: ConfigError[],
+): number | undefined {
+  const valueStr = settings[name];
+  if (!valueStr) {
+    return undefined;
+  }
 
-  // Read required environment variables
-  const serverUrl = process.env.ZULIP_SERVER_URL;
-  const botEmail = process.env.ZULIP_BOT_EMAIL;
-  const botApiKey = process.env.ZULIP_BOT_API_KEY;
-  const stream = process.env.ZULIP_STREAM;
+  const parsed = Number.parseInt(valueStr, 10);
+  if (Number.isNaN(parsed) || parsed <= 0) {
+    errors.push({
+      type: "invalid",
+      var: name,
+      message: `${name} must be a positive integer`,
+    });
+    return undefined;
+  }
+  return parsed;
+}
 
-  // Validate required variables
-  if (!serverUrl) {
+/**
+ * Parses an optional positive integer environment variable with a default.
+ */
+function readPositiveInt(
+  name: string,
+  defaultValue: number,
+  errors: ConfigError[],
+): number {
+  return readOptionalPositiveInt(name, errors) ?? defaultValue;
+}
+
+/**
+ * Parses an optional boolean environment variable (true/false, 1/0, yes/no,
+ * on/off).
+ *
+ * @returns The parsed value, or undefined when unset or invalid
+ */
+function readBoolean(name: string, errors: ConfigError[]): boolean | undefined {
+  const valueStr = settings[name]?.trim().toLowerCase();
+  if (!valueStr) {
+    return undefined;
+  }
+
+  if (["true", "1", "yes", "on"].includes(valueStr)) {
+    return true;
+  }
+  if (["false", "0", "no", "off"].includes(valueStr)) {
+    return false;
+  }
+
+  errors.push({
+    type: "invalid",
+    var: name,
+    message: `${name} must be true or false`,
+  });
+  return undefined;
+}
+
+/**
+ * Connection settings shared by every backend.
+ */
+type ConnectionSettings = Omit<Config, "backend">;
+
+/**
+ * Reads the Zulip connection settings (`ZULIP_*`).
+ */
+function readZulipSettings(errors: ConfigError[]): ConnectionSettings {
+  const serverUrl = readRequired(
+    "ZULIP_SERVER_URL",
+    "Zulip server URL is required",
+    errors,
+  );
+  checkUrl("ZULIP_SERVER_URL", serverUrl, errors);
+  const botEmail = readRequired(
+    "ZULIP_BOT_EMAIL",
+    "Bot email address is required",
+    errors,
+  );
+  const botApiKey = readRequired(
+    "ZULIP_BOT_API_KEY",
+    "Bot API key is required",
+    errors,
+  );
+  const stream = readRequired(
+    "ZULIP_STREAM",
+    "Stream name is required",
+    errors,
+  );
+  throwIfErrors(errors, "Please set the required environment variables.");
+
+  const pollIntervalMs = readPositiveInt(
+    "ZULIP_POLL_INTERVAL_MS",
+    5000,
+    errors,
+  );
+  throwIfErrors(errors, "Please fix the above configuration errors.");
+
+  return {
+    serverUrl: serverUrl!,
+    botEmail: botEmail!,
+    botApiKey: botApiKey!,
+    stream: stream!,
+    pollIntervalMs,
+  };
+}
+
+/**
+ * Reads the Slack connection settings (`SLACK_*`).
+ *
+ * The bot user ID is optional: messages posted by any bot are ignored anyway.
+ */
+function readSlackSettings(errors: ConfigError[]): ConnectionSettings {
+  const botApiKey = readRequired(
+    "SLACK_BOT_TOKEN",
+    "Slack bot token is required",
+    errors,
+  );
+  const stream = readRequired(
+    "SLACK_CHANNEL",
+    "Slack channel ID is required",
+    errors,
+  );
+  throwIfErrors(errors, "Please set the required environment variables.");
+
+  const serverUrl = settings.SLACK_API_URL || "https://slack.com/api";
+  checkUrl("SLACK_API_URL", serverUrl, errors);
+  const pollIntervalMs = readPositiveInt(
+    "SLACK_POLL_INTERVAL_MS",
+    5000,
+    errors,
+  );
+  throwIfErrors(errors, "Please fix the above configuration errors.");
+
+  return {
+    serverUrl,
+    botEmail: settings.SLACK_BOT_USER_ID ?? "",
+    botApiKey: botApiKey!,
+    stream: stream!,
+    pollIntervalMs,
+  };
+}
+
+/**
+ * Reads the Matrix connection settings (`MATRIX_*`).
+ */
+function readMatrixSettings(errors: ConfigError[]): ConnectionSettings {
+  const serverUrl = readRequired(
+    "MATRIX_HOMESERVER_URL",
+    "Matrix homeserver URL is required",
+    errors,
+  );
+  checkUrl("MATRIX_HOMESERVER_URL", serverUrl, errors);
+  const botEmail = readRequired(
+    "MATRIX_USER_ID",
+    "Bot user ID is required",
+    errors,
+  );
+  const botApiKey = readRequired(
+    "MATRIX_ACCESS_TOKEN",
+    "Bot access token is required",
+    errors,
+  );
+  const stream = readRequired("MATRIX_ROOM_ID", "Room ID is required", errors);
+  throwIfErrors(errors, "Please set the required environment variables.");
+
+  const pollIntervalMs = readPositiveInt(
+    "MATRIX_POLL_INTERVAL_MS",
+    5000,
+    errors,
+  );
+  throwIfErrors(errors, "Please fix the above configuration errors.");
+
+  return {
+    serverUrl: serverUrl!,
+    botEmail: botEmail!,
+    botApiKey: botApiKey!,
+    stream: stream!,
+    pollIntervalMs,
+  };
+}
+
+/**
+ * The terminal backend asks through Pi's UI and needs no connection.
+ */
+function readTerminalSettings(): ConnectionSettings {
+  return {
+    serverUrl: "",
+    botEmail: "",
+    botApiKey: "",
+    stream: "",
+    pollIntervalMs: 5000,
+  };
+}
+
+/**
+ * Connection settings reader for each backend.
+ */
+const SETTINGS_READERS: Record<
+  Backend,
+  (errors: ConfigError[]) => ConnectionSettings
+> = {
+  zulip: readZulipSettings,
+  slack: readSlackSettings,
+  matrix: readMatrixSettings,
+  terminal: readTerminalSettings,
+};
+
+/**
+ * Reads the escalation ladder (`HUMAN_LOOP_REMIND_*`, `HUMAN_LOOP_MENTION*`,
+ * `HUMAN_LOOP_CROSSPOST_*`).
+ *
+ * @returns The configured steps, or undefined when none are enabled
+ */
+function readEscalationSettings(
+  errors: ConfigError[],
+): EscalationConfig | undefined {
+  const escalation: EscalationConfig = {};
+
+  const remindAfterMs = readOptionalPositiveInt(
+    "HUMAN_LOOP_REMIND_AFTER_MS",
+    errors,
+  );
+  if (remindAfterMs !== undefined) {
+    escalation.remindAfterMs = remindAfterMs;
+  }
+
+  const mentionAfterMs = readOptionalPositiveInt(
+    "HUMAN_LOOP_MENTION_AFTER_MS",
+    errors,
+  );
+  if (mentionAfterMs !== undefined) {
+    const mention = readRequired(
+      "HUMAN_LOOP_MENTION",
+      "HUMAN_LOOP_MENTION is required when HUMAN_LOOP_MENTION_AFTER_MS is set",
+      errors,
+    );
+    if (mention) {
+      escalation.mentionAfterMs = mentionAfterMs;
+      escalation.mention = mention;
+    }
+  }
+
+  const crossPostAfterMs = readOptionalPositiveInt(
+    "HUMAN_LOOP_CROSSPOST_AFTER_MS",
+    errors,
+  );
+  if (crossPostAfterMs !== undefined) {
+    const crossPostStream = readRequired(
+      "HUMAN_LOOP_CROSSPOST_STREAM",
+      "HUMAN_LOOP_CROSSPOST_STREAM is required when HUMAN_LOOP_CROSSPOST_AFTER_MS is set",
+      errors,
+    );
+    if (crossPostStream) {
+      escalation.crossPostAfterMs = crossPostAfterMs;
+      escalation.crossPostStream = crossPostStream;
+    }
+  }
+
+  return Object.keys(escalation).length > 0 ? escalation : undefined;
+}
+
+/**
+ * Splits a comma-separated list, dropping empty entries.
+ */
+function readList(name: string): string[] {
+  return (settings[name] ?? "")
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter((entry) => entry.length > 0);
+}
+
+/**
+ * Reads the tool-call approval policy (`HUMAN_LOOP_APPROVE_COMMANDS`,
+ * `HUMAN_LOOP_APPROVE_PATHS`).
+ *
+ * @returns The policy, or undefined when no patterns are configured
+ */
+function readApprovalPolicy(errors: ConfigError[]): ApprovalPolicy | undefined {
+  const commandPatterns: RegExp[] = [];
+  for (const source of readList("HUMAN_LOOP_APPROVE_COMMANDS")) {
+    try {
+      commandPatterns.push(new RegExp(source));
+    } catch {
+      errors.push({
+        type: "invalid",
+        var: "HUMAN_LOOP_APPROVE_COMMANDS",
+        message: `HUMAN_LOOP_APPROVE_COMMANDS contains an invalid regular expression: ${source}`,
+      });
+    }
+  }
+  const pathPatterns = readList("HUMAN_LOOP_APPROVE_PATHS");
+
+  if (commandPatterns.length === 0 && pathPatterns.length === 0) {
+    return undefined;
+  }
+  return { commandPatterns, pathPatterns };
+}
+
+/**
+ * Reads the responder allow/deny lists (`HUMAN_LOOP_ALLOWED_RESPONDERS`,
+ * `HUMAN_LOOP_DENIED_RESPONDERS`).
+ *
+ * @returns The policy, or undefined when neither list is set
+ */
+function readResponderPolicy(
+  backend: Backend,
+  errors: ConfigError[],
+): ResponderPolicy | undefined {
+  const allow = readList("HUMAN_LOOP_ALLOWED_RESPONDERS");
+  const deny = readList("HUMAN_LOOP_DENIED_RESPONDERS");
+  if (allow.length === 0 && deny.length === 0) {
+    return undefined;
+  }
+
+  if (backend === "matrix") {
+    for (const [name, entries] of [
+      ["HUMAN_LOOP_ALLOWED_RESPONDERS", allow],
+      ["HUMAN_LOOP_DENIED_RESPONDERS", deny],
+    ] as const) {
+      if (entries.some((entry) => entry.startsWith("group:"))) {
+        errors.push({
+          type: "invalid",
+          var: name,
+          message: `${name} cannot use group: entries with the Matrix backend`,
+        });
+      }
+    }
+  }
+  return { allow, deny };
+}
+
+/**
+ * Reads a message template from the file named by an environment variable,
+ * checking that it only uses known placeholders.
+ *
+ * @returns The template, or undefined when unset or invalid
+ */
+function readTemplate(name: string, errors: ConfigError[]): string | undefined {
+  const filePath = settings[name];
+  if (!filePath) {
+    return undefined;
+  }
+
+  let template: string;
+  try {
+    // Resolved from the project directory by layerSettings
+    template = readFileSync(filePath, "utf8");
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
     errors.push({
-      type: "missing",
-      var: "ZULIP_SERVER_URL",
-      message: "Zulip server URL is required",
+      type: "invalid",
+      var: name,
+      message: `${name} cannot be read: ${reason}`,
     });
-  } else if (!isValidUrl(serverUrl)) {
+    return undefined;
+  }
+
+  const unknown = findUnknownPlaceholders(template);
+  if (unknown.length > 0) {
     errors.push({
-      type: "invalid_url",
-      var: "ZULIP_SERVER_URL",
+      type: "invalid",
+      var: name,
+      message: `${name} uses unknown placeholders: ${unknown.map((p) => `{{${p}}}`).join(", ")} (available: ${TEMPLATE_PLACEHOLDERS.join(", ")})`,
+    });
+    return undefined;
+  }
+  return template;
+}
+
+/**
+ * Reads the message templates (`HUMAN_LOOP_QUESTION_TEMPLATE`,
+ * `HUMAN_LOOP_FOLLOW_UP_TEMPLATE`).
+ *
+ * @returns The templates, or undefined when neither is set
+ */
+function readTemplates(errors: ConfigError[]): MessageTemplates | undefined {
+  const templates: MessageTemplates = {};
+  const question = readTemplate("HUMAN_LOOP_QUESTION_TEMPLATE", errors);
+  if (question !== undefined) {
+    templates.question = question;
+  }
+  const followUp = readTemplate("HUMAN_LOOP_FOLLOW_UP_TEMPLATE", errors);
+  if (followUp !== undefined) {
+    templates.followUp = followUp;
+  }
+  return Object.keys(templates).length > 0 ? templates : undefined;
+}
+
+/**
+ * Reads the metadata fields to redact (`HUMAN_LOOP_REDACT_METADATA`).
+ *
+ * @returns The fields, or undefined when unset or invalid
+ */
+function readRedactedMetadata(
+  errors: ConfigError[],
+): MetadataField[] | undefined {
+  const entries = readList("HUMAN_LOOP_REDACT_METADATA").map((entry) =>
+    entry.toLowerCase(),
+  );
+  if (entries.length === 0) {
+    return undefined;
+  }
+
+  const unknown = entries.filter(
+    (entry) => !(METADATA_FIELDS as readonly string[]).includes(entry),
+  );
+  if (unknown.length > 0) {
+    errors.push({
+      type: "invalid",
+      var: "HUMAN_LOOP_REDACT_METADATA",
+      message: `HUMAN_LOOP_REDACT_METADATA contains unknown fields: ${unknown.join(", ")} (available: ${METADATA_FIELDS.join(", ")})`,
+    });
+    return undefined;
+  }
+  return entries as MetadataField[];
+}
+
+/**
+ * Reads the operator inbox settings (`HUMAN_LOOP_INBOX*`).
+ *
+ * @returns The inbox, or undefined when it is not enabled
+ */
+function readInboxSettings(
+  backend: Backend,
+  errors: ConfigError[],
+): InboxConfig | undefined {
+  if (!readBoolean("HUMAN_LOOP_INBOX", errors)) {
+    return undefined;
+  }
+  if (backend === "terminal") {
+    errors.push({
+      type: "invalid",
+      var: "HUMAN_LOOP_INBOX",
+      message: "HUMAN_LOOP_INBOX needs a chat backend",
+    });
+    return undefined;
+  }
+
+  const delivery = settings.HUMAN_LOOP_INBOX_DELIVERY?.trim().toLowerCase();
+  let deliverAs: InboxConfig["deliverAs"] = "steer";
+  if (delivery === "followup" || delivery === "follow-up") {
+    deliverAs = "followUp";
+  } else if (delivery && delivery !== "steer") {
+    errors.push({
+      type: "invalid",
+      var: "HUMAN_LOOP_INBOX_DELIVERY",
+      message: "HUMAN_LOOP_INBOX_DELIVERY must be steer or follow-up",
+    });
+  }
+
+  const topic = settings.HUMAN_LOOP_INBOX_TOPIC?.trim();
+  return topic ? { topic, deliverAs } : { deliverAs };
+}
+
+/**
+ * Reads who may control the agent from chat (`HUMAN_LOOP_REMOTE_CONTROL`).
+ *
+ * @returns The settings, or undefined when remote control is not enabled
+ */
+function readRemoteControl(
+  backend: Backend,
+  errors: ConfigError[],
+): RemoteControlConfig | undefined {
+  const controllers = readList("HUMAN_LOOP_REMOTE_CONTROL");
+  if (controllers.length === 0) {
+    return undefined;
+  }
+  if (backend !== "zulip") {
+    errors.push({
+      type: "invalid",
+      var: "HUMAN_LOOP_REMOTE_CONTROL",
       message:
-        "ZULIP_SERVER_URL must be a valid URL starting with http:// or https://",
+        "HUMAN_LOOP_REMOTE_CONTROL is only supported with the Zulip backend",
     });
+    return undefined;
   }
+  return { controllers };
+}
 
-  if (!botEmail) {
+/**
+ * Reads the lifecycle notification settings (`HUMAN_LOOP_NOTIFY*`).
+ *
+ * @returns The settings, or undefined when no events are enabled
+ */
+function readNotifications(
+  backend: Backend,
+  errors: ConfigError[],
+): NotificationsConfig | undefined {
+  const entries = readList("HUMAN_LOOP_NOTIFY").map((entry) =>
+    entry.toLowerCase(),
+  );
+  if (entries.length === 0) {
+    return undefined;
+  }
+  if (backend === "terminal") {
     errors.push({
-      type: "missing",
-      var: "ZULIP_BOT_EMAIL",
-      message: "Bot email address is required",
+      type: "invalid",
+      var: "HUMAN_LOOP_NOTIFY",
+      message: "HUMAN_LOOP_NOTIFY needs a chat backend",
     });
+    return undefined;
   }
 
-  if (!botApiKey) {
+  const unknown = entries.filter(
+    (entry) =>
+      entry !== "all" &&
+      !(NOTIFICATION_EVENTS as readonly string[]).includes(entry),
+  );
+  if (unknown.length > 0) {
     errors.push({
-      type: "missing",
-      var: "ZULIP_BOT_API_KEY",
-      message: "Bot API key is required",
+      type: "invalid",
+      var: "HUMAN_LOOP_NOTIFY",
+      message: `HUMAN_LOOP_NOTIFY contains unknown events: ${unknown.join(", ")} (available: all, ${NOTIFICATION_EVENTS.join(", ")})`,
     });
+    return undefined;
+  }
+
+  const notifications: NotificationsConfig = {
+    events: entries.includes("all")
+      ? [...NOTIFICATION_EVENTS]
+      : NOTIFICATION_EVENTS.filter((event) => entries.includes(event)),
+    toolFailureThreshold: readPositiveInt(
+      "HUMAN_LOOP_NOTIFY_TOOL_FAILURES",
+      3,
+      errors,
+    ),
+  };
+  const topic = settings.HUMAN_LOOP_NOTIFY_TOPIC?.trim();
+  if (topic) {
+    notifications.topic = topic;
+  }
+  return notifications;
+}
+
+/**
+ * Reads a rule field that may be a string or a list of strings.
+ *
+ * @returns The values, or null when the field has the wrong type
+ */
+function readStringOrList(value: unknown): string[] | null {
+  if (value === undefined) {
+    return [];
   }
+  const values = Array.isArray(value) ? value : [value];
+  return values.every((entry) => typeof entry === "string" && entry !== "")
+    ? (values as string[])
+    : null;
+}
 
-  if (!stream) {
+/**
+ * Reads the routing rules (`HUMAN_LOOP_ROUTES`, a JSON array of
+ * `{ cwd?, paths?, category?, stream, topicPrefix? }` objects).
+ *
+ * @returns The rules, or undefined when unset or invalid
+ */
+function readRoutes(errors: ConfigError[]): RoutingRule[] | undefined {
+  const name = "HUMAN_LOOP_ROUTES";
+  const value = settings[name]?.trim();
+  if (!value) {
+    return undefined;
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(value);
+  } catch {
     errors.push({
-      type: "missing",
-      var: "ZULIP_STREAM",
-      message: "Stream name is required",
+      type: "invalid",
+      var: name,
+      message: `${name} must be a JSON array of routing rules`,
     });
+    return undefined;
+  }
+  if (!Array.isArray(parsed)) {
+    errors.push({
+      type: "invalid",
+      var: name,
+      message: `${name} must be a JSON array of routing rules`,
+    });
+    return undefined;
   }
 
-  if (errors.length > 0) {
-    const message = errors.map((e) => `  ${e.var}: ${e.message}`).join("\n");
-    const error = new Error(
-      `Configuration validation failed:\n${message}\n\nPlease set the required environment variables.`,
-    ) as Error & { configErrors: ConfigError[] };
-    error.configErrors = errors;
-    throw error;
-  }
-
-  // Parse optional poll interval
-  let pollIntervalMs = 5000; // Default 5 seconds
-  const pollIntervalStr = process.env.ZULIP_POLL_INTERVAL_MS;
-  if (pollIntervalStr) {
-    const parsed = Number.parseInt(pollIntervalStr, 10);
-    if (Number.isNaN(parsed) || parsed <= 0) {
+  const routes: RoutingRule[] = [];
+  for (const [index, entry] of parsed.entries()) {
+    const invalid = (reason: string) =>
       errors.push({
         type: "invalid",
-        var: "ZULIP_POLL_INTERVAL_MS",
-        message: "ZULIP_POLL_INTERVAL_MS must be a positive integer",
+        var: name,
+        message: `${name} rule ${index + 1} ${reason}`,
       });
+    if (typeof entry !== "object" || entry === null) {
+      invalid("must be an object");
+      continue;
+    }
+
+    const rule = entry as Record<string, unknown>;
+    const cwd = readStringOrList(rule.cwd);
+    const paths = readStringOrList(rule.paths);
+    const categories = readStringOrList(rule.category);
+    if (!cwd || !paths || !categories) {
+      invalid("must give cwd, paths and category as strings or string lists");
+      continue;
+    }
+    if (typeof rule.stream !== "string" || !rule.stream) {
+      invalid("needs a stream");
+      continue;
+    }
+    if (cwd.length + paths.length + categories.length === 0) {
+      invalid("needs at least one of cwd, paths or category");
+      continue;
+    }
+    if (
+      rule.topicPrefix !== undefined &&
+      typeof rule.topicPrefix !== "string"
+    ) {
+      invalid("must give topicPrefix as a string");
+      continue;
+    }
+
+    routes.push({
+      cwd,
+      paths,
+      categories,
+      stream: rule.stream,
+      ...(rule.topicPrefix ? { topicPrefix: rule.topicPrefix } : {}),
+    });
+  }
+  return routes.length > 0 ? routes : undefined;
+}
+
+/**
+ * Settings that name a template file.
+ */
+const TEMPLATE_SETTINGS = [
+  "HUMAN_LOOP_QUESTION_TEMPLATE",
+  "HUMAN_LOOP_FOLLOW_UP_TEMPLATE",
+] as const;
+
+/**
+ * Merges the configuration layers: user file, project file, `zuliprc`,
+ * then non-empty environment variables.
+ *
+ * File paths are resolved from the project directory, with `~` for the
+ * home directory. Template files named by the project file must be inside
+ * the project directory once symlinks are followed, since their contents
+ * are posted with questions.
+ */
+function layerSettings(
+  options: LoadConfigOptions,
+  errors: ConfigError[],
+): Settings {
+  const cwd = options.cwd ?? process.cwd();
+  const home = options.homeDir ?? homedir();
+  const resolvePath = (filePath: string) =>
+    path.resolve(cwd, filePath.replace(/^~(?=$|\/)/, home));
+
+  const user = readSettingsFile(path.join(home, USER_CONFIG_PATH), errors);
+  const project = readSettingsFile(
+    path.join(cwd, PROJECT_CONFIG_PATH),
+    errors,
+    "project",
+  );
+  for (const name of TEMPLATE_SETTINGS) {
+    const template = project[name];
+    if (!template) {
+      continue;
+    }
+    // Follow symlinks, so a link in the project cannot lead outside it; a
+    // missing file is reported when the template is read
+    let filePath = resolvePath(template);
+    let projectDir = cwd;
+    try {
+      filePath = realpathSync(filePath);
+      projectDir = realpathSync(cwd);
+    } catch {
+      // Keep the paths as written
+    }
+    const relative = path.relative(projectDir, filePath);
+    if (
+      relative === ".." ||
+      relative.startsWith(`..${path.sep}`) ||
+      path.isAbsolute(relative)
+    ) {
+      errors.push({
+        type: "invalid",
+        var: name,
+        message: `${name} in ${path.join(cwd, PROJECT_CONFIG_PATH)} must be a file inside the project directory`,
+      });
+      delete project[name];
     } else {
-      pollIntervalMs = parsed;
+      project[name] = filePath;
     }
   }
+  const layered: Settings = { ...user, ...project };
 
-  // Check for poll interval errors
-  if (errors.length > 0) {
-    const message = errors.map((e) => `  ${e.var}: ${e.message}`).join("\n");
-    const error = new Error(
-      `Configuration validation failed:\n${message}\n\nPlease fix the above configuration errors.`,
-    ) as Error & { configErrors: ConfigError[] };
-    error.configErrors = errors;
-    throw error;
+  const environment = Object.fromEntries(
+    Object.entries(process.env).filter(([, value]) => value),
+  );
+  const zuliprc = environment.ZULIPRC ?? layered.ZULIPRC;
+  if (zuliprc) {
+    Object.assign(layered, readZuliprc(resolvePath(zuliprc), errors));
   }
 
-  return {
-    serverUrl: serverUrl!,
-    botEmail: botEmail!,
-    botApiKey: botApiKey!,
-    stream: stream!,
-    pollIntervalMs,
-  };
+  const merged: Settings = { ...layered, ...environment };
+  for (const name of TEMPLATE_SETTINGS) {
+    const template = merged[name];
+    if (template) {
+      merged[name] = resolvePath(template);
+    }
+  }
+  return merged;
+}
+
+/**
+ * Loads and validates configuration from configuration files and
+ * environment variables.
+ *
+ * @throws {Error} If validation fails, with a descriptive message
+ */
+export function loadConfig(options: LoadConfigOptions = {}): Config {
+  const errors: ConfigError[] = [];
+  settings = layerSettings(options, errors);
+  try {
+    return readConfig(errors);
+  } finally {
+    settings = process.env;
+  }
+}
+
+/**
+ * Reads the configuration from the layered settings.
+ */
+function readConfig(errors: ConfigError[]): Config {
+  // Select the backend (defaults to Zulip)
+  const backendStr = settings.HUMAN_LOOP_BACKEND?.trim().toLowerCase();
+  let backend: Backend = "zulip";
+  if (backendStr) {
+    if (isBackend(backendStr)) {
+      backend = backendStr;
+    } else {
+      errors.push({
+        type: "invalid",
+        var: "HUMAN_LOOP_BACKEND",
+        message: `HUMAN_LOOP_BACKEND must be one of: ${BACKENDS.join(", ")}`,
+      });
+      throw createValidationError(
+        errors,
+        "Please fix the above configuration errors.",
+      );
+    }
+  }
+
+  const config: Config = { backend, ...SETTINGS_READERS[backend](errors) };
+
+  // Optional behaviour settings shared by every backend
+  const timeoutMs = readOptionalPositiveInt("HUMAN_LOOP_TIMEOUT_MS", errors);
+  if (timeoutMs !== undefined) {
+    config.timeoutMs = timeoutMs;
+  }
+  const timeoutNotice = readBoolean("HUMAN_LOOP_TIMEOUT_NOTICE", errors);
+  if (timeoutNotice !== undefined) {
+    config.timeoutNotice = timeoutNotice;
+  }
+  const replyQuietMs = readOptionalPositiveInt(
+    "HUMAN_LOOP_REPLY_QUIET_MS",
+    errors,
+  );
+  if (replyQuietMs !== undefined) {
+    config.replyQuietMs = replyQuietMs;
+  }
+  const escalation = readEscalationSettings(errors);
+  if (escalation) {
+    config.escalation = escalation;
+  }
+  const approvalPolicy = readApprovalPolicy(errors);
+  if (approvalPolicy) {
+    config.approvalPolicy = approvalPolicy;
+  }
+  const responders = readResponderPolicy(backend, errors);
+  if (responders) {
+    config.responders = responders;
+  }
+  const templates = readTemplates(errors);
+  if (templates) {
+    config.templates = templates;
+  }
+  const redactMetadata = readRedactedMetadata(errors);
+  if (redactMetadata) {
+    config.redactMetadata = redactMetadata;
+  }
+  const routes = readRoutes(errors);
+  if (routes) {
+    config.routes = routes;
+  }
+  const selfTest = readBoolean("HUMAN_LOOP_SELF_TEST", errors);
+  if (selfTest !== undefined) {
+    config.selfTest = selfTest;
+  }
+  const autoSubscribe = readBoolean("HUMAN_LOOP_AUTO_SUBSCRIBE", errors);
+  if (autoSubscribe !== undefined) {
+    config.autoSubscribe = autoSubscribe;
+  }
+  const inbox = readInboxSettings(backend, errors);
+  if (inbox) {
+    config.inbox = inbox;
+  }
+  const remoteControl = readRemoteControl(backend, errors);
+  if (remoteControl) {
+    config.remoteControl = remoteControl;
+  }
+  const notifications = readNotifications(backend, errors);
+  if (notifications) {
+    config.notifications = notifications;
+  }
+  throwIfErrors(errors, "Please fix the above configuration errors.");
+
+  return config;
 }
@@ -0,0 +1,192 @@
+/**
+ * Rendering of the agent's context in questions.
+ *
+ * A short preview (the first `CONTEXT_PREVIEW_LINES` lines, up to
+ * `CONTEXT_PREVIEW_LENGTH` characters) is always shown inline. When the
+ * context is longer, the full text goes into a collapsible
+ * block on backends that have one (Zulip spoilers), or into an uploaded
+ * file when it is too long for a message; only when neither is possible is
+ * it cut, and the caller reports that to the agent. Code-looking context is
+ * wrapped in a fenced block, tagged with its language when recognisable.
+ */
+
+import type { ChatClient } from "./chat-client.js";
+
+/**
+ * Number of context lines shown inline.
+ */
+export const CONTEXT_PREVIEW_LINES = 10;
+
+/**
+ * Longest preview, in characters: a few very long lines (a minified stack
+ * trace, a one-line JSON blob) are cut to this.
+ */
+export const CONTEXT_PREVIEW_LENGTH = 2000;
+
+/**
+ * Longest full context (in characters, once fenced) put in the message,
+ * inline or in a collapsible block. Leaves room for the rest of the
+ * question within Zulip's 10,000 character message limit; longer context
+ * is uploaded instead.
+ */
+export const MAX_COLLAPSIBLE_LENGTH = 8000;
+
+/**
+ * Name of the uploaded file holding context too long for a message.
+ */
+const CONTEXT_FILE_NAME = "context.txt";
+
+/**
+ * Context formatted for the question message.
+ */
+export interface RenderedContext {
+  text: string;
+  /** Lines of context in total. */
+  totalLines: number;
+  /** Lines the human can see, when the rest was cut. */
+  shownLines?: number;
+  /** Characters the human can see, when the preview itself was cut. */
+  shownLength?: number;
+  /** Characters of context in total, when the preview itself was cut. */
+  totalLength?: number;
+}
+
+/**
+ * Patterns recognising a language from content typical of agent context:
+ * stack traces, compiler output, diffs and source code. The first match
+ * wins.
+ */
+const LANGUAGE_PATTERNS: [language: string, pattern: RegExp][] = [
+  ["diff", /^(diff --git |@@ -\d+(,\d+)? \+\d+(,\d+)? @@)/m],
+  ["python", /^Traceback \(most recent call last\):|^\s*File ".+", line \d+/m],
+  ["python", /^(def \w+\(.*\):|class \w+(\(.*\))?:|from [\w.]+ import )/m],
+  ["typescript", /\berror TS\d+:|^\s+at .+\.tsx?:\d+:\d+\)?$/m],
+  ["javascript", /^\s+at .+\.[cm]?jsx?:\d+:\d+\)?$/m],
+  ["java", /^\s+at [\w$.]+\([\w$]+\.java:\d+\)$/m],
+  ["go", /^goroutine \d+ \[|^package \w+$|^func (\(.+\) )?\w+\(/m],
+  ["rust", /^thread '.+' panicked at|^error\[E\d+\]:|^\s*(pub )?fn \w+/m],
+  ["console", /^\$ \S/m],
+];
+
+/**
+ * Detects the language of code-looking text.
+ *
+ * @returns The language tag for a fenced block, or null if not recognised
+ */
+export function detectLanguage(text: string): string | null {
+  const trimmed = text.trim();
+  if (/^[[{]/.test(trimmed)) {
+    try {
+      JSON.parse(trimmed);
+      return "json";
+    } catch {
+      // Not JSON
+    }
+  }
+
+  for (const [language, pattern] of LANGUAGE_PATTERNS) {
+    if (pattern.test(text)) {
+      return language;
+    }
+  }
+  return null;
+}
+
+/**
+ * Whether text reads as code or program output rather than prose: at least
+ * a third of its lines are indented or end in a brace or semicolon.
+ */
+export function looksLikeCode(text: string): boolean {
+  const lines = text.split("\n").filter((line) => line.trim() !== "");
+  const codeLines = lines.filter((line) =>
+    /^(\s{2,}|\t)\S|[{};]\s*$/.test(line),
+  ).length;
+  return lines.length > 0 && codeLines * 3 >= lines.length;
+}
+
+/**
+ * Wraps text in a fenced block, with a fence longer than any backtick run
+ * inside it so that nested fences stay intact.
+ *
+ * @param info Text after the opening fence (language or block type)
+ */
+export function codeFence(text: string, info = ""): string {
+  const longestRun = Math.max(
+    2,
+    ...(text.match(/`+/g) ?? []).map((run) => run.length),
+  );
+  const fence = "`".repeat(longestRun + 1);
+  return `${fence}${info}\n${text}\n${fence}`;
+}
+
+/**
+ * Renders context for a question, uploading it in full when it does not fit.
+ *
+ * Never throws: when an upload fails the context is cut to the preview.
+ */
+export async function renderContext(
+  client: ChatClient,
+  context: string,
+): Promise<RenderedContext> {
+  const content = context.replace(/\s+$/, "");
+  const lines = content.split("\n");
+  const totalLines = lines.length;
+  const language = detectLanguage(content);
+  const format = (text: string) =>
+    language !== null || looksLikeCode(content)
+      ? codeFence(text, language ?? "")
+      : text;
+
+  const full = format(content);
+  if (
+    totalLines <= CONTEXT_PREVIEW_LINES &&
+    full.length <= MAX_COLLAPSIBLE_LENGTH
+  ) {
+    return { text: full, totalLines };
+  }
+
+  let previewText = lines.slice(0, CONTEXT_PREVIEW_LINES).join("\n");
+  const previewCut = previewText.length > CONTEXT_PREVIEW_LENGTH;
+  if (previewCut) {
+    previewText = `${previewText.slice(0, CONTEXT_PREVIEW_LENGTH)}…`;
+  }
+  const preview = format(previewText);
+  const summary = `Full context (${totalLines} ${totalLines === 1 ? "line" : "lines"})`;
+
+  if (client.formatCollapsible && full.length <= MAX_COLLAPSIBLE_LENGTH) {
+    return {
+      text: `${preview}\n${client.formatCollapsible(summary, full)}`,
+      totalLines,
+    };
+  }
+
+  if (client.uploadFile) {
+    try {
+      const url = await client.uploadFile(
+        CONTEXT_FILE_NAME,
+        new TextEncoder().encode(content),
+      );
+      return { text: `${preview}\n[${summary}](${url})`, totalLines };
+    } catch {
+      // Fall back to the preview alone
+    }
+  }
+
+  if (previewCut) {
+    const omitted = content.length - CONTEXT_PREVIEW_LENGTH;
+    return {
+      text: `${preview}\n_… ${omitted} more characters not shown_`,
+      totalLines,
+      shownLines: previewText.split("\n").length,
+      shownLength: CONTEXT_PREVIEW_LENGTH,
+      totalLength: content.length,
+    };
+  }
+
+  const omitted = totalLines - CONTEXT_PREVIEW_LINES;
+  return {
+    text: `${preview}\n_… ${omitted} more ${omitted === 1 ? "line" : "lines"} not shown_`,
+    totalLines,
+    shownLines: CONTEXT_PREVIEW_LINES,
+  };
+}
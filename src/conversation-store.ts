@@ -0,0 +1,213 @@
+/**
+ * On-disk store of open ask_human conversations.
+ *
+ * Records each unanswered question (topic, posted message and reply
+ * subscription) under the project's `.pi` directory, so that a restarted Pi
+ * session can resume waiting for the answer instead of asking again. The
+ * stream of every question thread is kept too, answered or not, so that a
+ * follow-up asked after a restart goes to the thread's own stream.
+ */
+
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import path from "node:path";
+import type { Backend } from "./config.js";
+
+/**
+ * Location of the store, relative to the project directory.
+ */
+export const CONVERSATION_STORE_PATH = path.join(
+  ".pi",
+  "human-loop",
+  "conversations.json",
+);
+
+/**
+ * Location of the thread streams, relative to the project directory.
+ */
+export const THREAD_STORE_PATH = path.join(".pi", "human-loop", "threads.json");
+
+/**
+ * Open conversations older than this are dropped on the next write.
+ */
+const STALE_AFTER_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Thread streams older than this are dropped on the next write.
+ */
+const THREAD_STALE_AFTER_MS = 30 * 24 * 60 * 60 * 1000;
+
+/**
+ * A question that has been posted but not yet answered.
+ */
+export interface OpenConversation {
+  thread_id: string;
+  backend: Backend;
+  stream: string;
+  question: string;
+  /** ID of the posted question message. */
+  message_id: string;
+  /** Reply subscription, as returned by `registerEventQueue()`. */
+  queue_id: string;
+  /** Last event seen on the subscription. */
+  last_event_id: string;
+  /** ISO timestamp of when the question was posted. */
+  asked_at: string;
+}
+
+/**
+ * The stream a question thread was posted to.
+ */
+export interface ThreadRecord {
+  thread_id: string;
+  backend: Backend;
+  stream: string;
+  /** ISO timestamp of when the question was posted. */
+  asked_at: string;
+}
+
+/**
+ * Reads and writes the open conversations of one project.
+ */
+export interface ConversationStore {
+  list(): Promise<OpenConversation[]>;
+  /** Finds an open conversation for the same question on the same stream. */
+  find(
+    backend: Backend,
+    stream: string,
+    question: string,
+  ): Promise<OpenConversation | null>;
+  save(conversation: OpenConversation): Promise<void>;
+  remove(threadId: string): Promise<void>;
+  /** Records the stream a question thread was posted to. */
+  saveThread(thread: ThreadRecord): Promise<void>;
+  /** The stream a question thread was posted to, if recorded. */
+  findThreadStream(backend: Backend, threadId: string): Promise<string | null>;
+}
+
+/**
+ * Normalises question text so that trivially different re-asks match.
+ */
+function normalizeQuestion(question: string): string {
+  return question.trim().replace(/\s+/g, " ").toLowerCase();
+}
+
+/**
+ * Creates the store for the project rooted at `cwd`.
+ *
+ * A missing or unreadable file reads as no open conversations, and write
+ * failures are ignored: persistence is best-effort and never blocks a
+ * question. Writes are serialised and atomic (temp file plus rename).
+ */
+export function createConversationStore(cwd: string): ConversationStore {
+  const filePath = path.join(cwd, CONVERSATION_STORE_PATH);
+  const threadsPath = path.join(cwd, THREAD_STORE_PATH);
+  let pending: Promise<unknown> = Promise.resolve();
+
+  async function read<T>(file: string): Promise<T[]> {
+    try {
+      const data = JSON.parse(await readFile(file, "utf8")) as unknown;
+      return Array.isArray(data) ? (data as T[]) : [];
+    } catch {
+      return [];
+    }
+  }
+
+  async function write<T>(file: string, entries: T[]): Promise<void> {
+    try {
+      await mkdir(path.dirname(file), { recursive: true });
+      const tempPath = `${file}.${process.pid}.tmp`;
+      await writeFile(tempPath, `${JSON.stringify(entries, null, 2)}\n`);
+      await rename(tempPath, file);
+    } catch {
+      // Best-effort; the question is still asked, just not resumable
+    }
+  }
+
+  /**
+   * Applies a change to a stored list, one change at a time, dropping
+   * entries older than `staleAfterMs`.
+   */
+  function update<T extends { asked_at: string }>(
+    file: string,
+    staleAfterMs: number,
+    change: (entries: T[]) => T[],
+  ): Promise<void> {
+    const next = pending.then(async () => {
+      const cutoff = Date.now() - staleAfterMs;
+      const fresh = (await read<T>(file)).filter(
+        (entry) => Date.parse(entry.asked_at) >= cutoff,
+      );
+      await write(file, change(fresh));
+    });
+    pending = next;
+    return next;
+  }
+
+  async function list(): Promise<OpenConversation[]> {
+    await pending;
+    return await read<OpenConversation>(filePath);
+  }
+
+  return {
+    list,
+
+    async find(backend, stream, question) {
+      const normalized = normalizeQuestion(question);
+      const conversations = await list();
+      return (
+        conversations.find(
+          (conversation) =>
+            conversation.backend === backend &&
+            conversation.stream === stream &&
+            normalizeQuestion(conversation.question) === normalized,
+        ) ?? null
+      );
+    },
+
+    save(conversation) {
+      return update<OpenConversation>(
+        filePath,
+        STALE_AFTER_MS,
+        (conversations) => [
+          ...conversations.filter(
+            (existing) => existing.thread_id !== conversation.thread_id,
+          ),
+          conversation,
+        ],
+      );
+    },
+
+    remove(threadId) {
+      return update<OpenConversation>(
+        filePath,
+        STALE_AFTER_MS,
+        (conversations) =>
+          conversations.filter(
+            (conversation) => conversation.thread_id !== threadId,
+          ),
+      );
+    },
+
+    saveThread(thread) {
+      return update<ThreadRecord>(
+        threadsPath,
+        THREAD_STALE_AFTER_MS,
+        (threads) => [
+          ...threads.filter(
+            (existing) => existing.thread_id !== thread.thread_id,
+          ),
+          thread,
+        ],
+      );
+    },
+
+    async findThreadStream(backend, threadId) {
+      await pending;
+      const thread = (await read<ThreadRecord>(threadsPath)).find(
+        (existing) =>
+          existing.backend === backend && existing.thread_id === threadId,
+      );
+      return thread?.stream ?? null;
+    },
+  };
+}
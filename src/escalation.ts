@@ -0,0 +1,105 @@
+/**
+ * Escalation ladder for unanswered questions.
+ *
+ * While the agent waits for a reply, posts a reminder in the thread, then
+ * mentions the configured user or group, then cross-posts a link to a
+ * second stream, as configured in `config.escalation`.
+ */
+
+import type { ChatClient } from "./chat-client.js";
+import type { Config } from "./config.js";
+import { formatDuration } from "./wait.js";
+
+/**
+ * Topic used for cross-posted links in the escalation stream.
+ */
+export const CROSSPOST_TOPIC = "Unanswered agent questions";
+
+/**
+ * A single message to post once the question has waited `afterMs`.
+ */
+export interface EscalationStep {
+  afterMs: number;
+  stream: string;
+  topic: string;
+  content: string;
+}
+
+/**
+ * Builds the escalation steps for a thread, in the order they fire.
+ */
+export function buildEscalationSteps(
+  chatClient: ChatClient,
+  config: Config,
+  threadId: string,
+): EscalationStep[] {
+  const escalation = config.escalation;
+  if (!escalation) {
+    return [];
+  }
+
+  const steps: EscalationStep[] = [];
+
+  if (escalation.remindAfterMs != null) {
+    steps.push({
+      afterMs: escalation.remindAfterMs,
+      stream: config.stream,
+      topic: threadId,
+      content: `⏰ **Reminder:** the agent has been waiting ${formatDuration(escalation.remindAfterMs)} for a reply in this topic.`,
+    });
+  }
+
+  if (escalation.mentionAfterMs != null && escalation.mention) {
+    steps.push({
+      afterMs: escalation.mentionAfterMs,
+      stream: config.stream,
+      topic: threadId,
+      content: `🚨 ${escalation.mention} the agent has been waiting ${formatDuration(escalation.mentionAfterMs)} for a reply in this topic.`,
+    });
+  }
+
+  if (escalation.crossPostAfterMs != null && escalation.crossPostStream) {
+    const link =
+      chatClient.formatThreadLink?.(config.stream, threadId) ??
+      `"${threadId}" in ${config.stream}`;
+    steps.push({
+      afterMs: escalation.crossPostAfterMs,
+      stream: escalation.crossPostStream,
+      topic: CROSSPOST_TOPIC,
+      content: `🚨 An agent question has been unanswered for ${formatDuration(escalation.crossPostAfterMs)}: ${link}`,
+    });
+  }
+
+  return steps.sort((a, b) => a.afterMs - b.afterMs);
+}
+
+/**
+ * Schedules the escalation steps for a thread.
+ *
+ * Posting is best-effort: failures are ignored so they never interrupt the
+ * wait for a reply.
+ *
+ * @returns A function that cancels any steps that have not fired yet
+ */
+export function startEscalation(
+  chatClient: ChatClient,
+  config: Config,
+  threadId: string,
+): () => void {
+  const timers = buildEscalationSteps(chatClient, config, threadId).map(
+    (step) =>
+      setTimeout(() => {
+        chatClient
+          .postMessage(step.stream, step.topic, step.content)
+          .catch(() => {
+            // Best-effort escalation; keep waiting either way
+          });
+      }, step.afterMs),
+  );
+
+  return () => {
+    for (const timer of timers) {
+      clearTimeout(timer);
+    }
+  };
+}
@@ -0,0 +1,43 @@
+/**
+ * Minimal glob matching for configured path patterns.
+ *
+ * Supports `**` (any number of path segments), `*` (anything but `/`) and
+ * `?` (one character other than `/`). Paths use `/` separators.
+ */
+
+/**
+ * Compiles a glob pattern into an anchored regular expression.
+ */
+export function globToRegExp(pattern: string): RegExp {
+  let source = "";
+  let index = 0;
+
+  while (index < pattern.length) {
+    const char = pattern.charAt(index);
+    if (pattern.startsWith("**/", index)) {
+      source += "(?:.*/)?";
+      index += 3;
+    } else if (pattern.startsWith("**", index)) {
+      source += ".*";
+      index += 2;
+    } else if (char === "*") {
+      source += "[^/]*";
+      index++;
+    } else if (char === "?") {
+      source += "[^/]";
+      index++;
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+      index++;
+    }
+  }
+
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Whether a `/`-separated path matches a glob pattern.
+ */
+export function matchesGlob(path: string, pattern: string): boolean {
+  return globToRegExp(pattern).test(path);
+}
@@ -0,0 +1,89 @@
+/**
+ * Operator inbox.
+ *
+ * With `HUMAN_LOOP_INBOX` set, each session gets a topic in the default
+ * stream that the extension watches in the background. Whatever a human
+ * posts there is passed to the running Pi session as a user message, so a
+ * teammate can redirect the agent without waiting to be asked.
+ */
+
+import type { ChatClient, ChatMessage } from "./chat-client.js";
+import type { Config, InboxConfig } from "./config.js";
+import { trackSessionThread } from "./session-activity.js";
+import { watchSubscription } from "./watch.js";
+
+/**
+ * Prefix of the per-session inbox topic.
+ */
+export const INBOX_TOPIC_PREFIX = "Agent inbox";
+
+/**
+ * A running inbox.
+ */
+export interface Inbox {
+  /** Thread ID of the inbox topic. */
+  threadId: string;
+  /** Stops watching and closes the subscription. */
+  stop(): Promise<void>;
+}
+
+/**
+ * The topic to watch: the configured one, or one per session.
+ */
+export function inboxTopic(config: Config, sessionId?: string): string {
+  if (config.inbox?.topic) {
+    return config.inbox.topic;
+  }
+  return sessionId
+    ? `${INBOX_TOPIC_PREFIX} — session ${sessionId.slice(0, 8)}`
+    : INBOX_TOPIC_PREFIX;
+}
+
+/**
+ * Formats the message that opens the inbox topic.
+ *
+ * @param metadata Session metadata line (see `formatMetadata`), if any
+ */
+export function formatInboxIntro(inbox: InboxConfig, metadata: string): string {
+  const when =
+    inbox.deliverAs === "steer"
+      ? "as soon as it finishes its current step"
+      : "once it finishes its current task";
+  const intro = `📥 **Agent inbox**\n\nMessages posted in this topic are passed to the agent ${when}.`;
+  return metadata ? `${intro}\n\n${metadata}` : intro;
+}
+
+/**
+ * Formats an inbox message as the user message the agent receives.
+ */
+export function formatInboxMessage(message: ChatMessage): string {
+  return `Message from ${message.sender_email} via the agent inbox:\n\n${message.content}`;
+}
+
+/**
+ * Announces the inbox in its topic and starts watching it.
+ *
+ * @param intro Message posted to open the topic
+ * @param deliver Called with each message a human posts in the topic
+ * @throws {Error} If the topic cannot be opened or subscribed to
+ */
+export async function startInbox(
+  chatClient: ChatClient,
+  config: Config,
+  topic: string,
+  intro: string,
+  deliver: (message: ChatMessage) => void,
+): Promise<Inbox> {
+  const messageId = await chatClient.postMessage(config.stream, topic, intro);
+  const threadId = chatClient.resolveThreadId?.(topic, messageId) ?? topic;
+  trackSessionThread(threadId);
+
+  const watch = await watchSubscription(
+    chatClient,
+    config.botEmail,
+    () => chatClient.registerEventQueue(config.stream, threadId),
+    deliver,
+    "the agent inbox",
+  );
+  return { threadId, stop: () => watch.stop() };
+}
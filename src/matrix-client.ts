@@ -0,0 +1,536 @@
+/**
+ * Matrix client-server API wrapper.
+ *
+ * Matrix implementation of `ChatClient`. Each question is a room message and
+ * follow-ups and replies are threaded under it (`m.thread` relations, with
+ * `m.in_reply_to` for clients without thread support). Replies are found by
+ * long-polling `/sync`, the Matrix counterpart of Zulip's `/events`.
+ */
+
+import type { ChatClient, ChatMessage } from "./chat-client.js";
+import { fromNativeEmoji, toNativeEmoji } from "./choices.js";
+import type { Config } from "./config.js";
+import { waitWithAbort } from "./wait.js";
+
+interface MatrixEvent {
+  event_id: string;
+  type: string;
+  sender: string;
+  content: {
+    body?: string;
+    "m.relates_to"?: {
+      rel_type?: string;
+      event_id?: string;
+      key?: string;
+      "m.in_reply_to"?: { event_id?: string };
+    };
+  };
+}
+
+interface SyncResponse {
+  next_batch: string;
+  rooms?: {
+    join?: Record<string, { timeline?: { events?: MatrixEvent[] } }>;
+  };
+}
+
+/**
+ * How long the homeserver may hold a `/sync` request open, in ms.
+ */
+const SYNC_TIMEOUT_MS = 30000;
+
+/**
+ * Builds an inline `/sync` filter that only returns one room's timeline.
+ */
+function buildSyncFilter(roomId: string): string {
+  return JSON.stringify({
+    presence: { types: [] },
+    account_data: { types: [] },
+    room: {
+      rooms: [roomId],
+      account_data: { types: [] },
+      ephemeral: { types: [] },
+      state: { types: [] },
+      timeline: { types: ["m.room.message", "m.reaction"], limit: 50 },
+    },
+  });
+}
+
+/**
+ * Escapes text for Matrix HTML.
+ */
+function escapeHtml(text: string): string {
+  return text
+    .replaceAll("&", "&amp;")
+    .replaceAll("<", "&lt;")
+    .replaceAll(">", "&gt;")
+    .replaceAll('"', "&quot;");
+}
+
+/**
+ * Converts the Markdown produced by `formatMessage` into Matrix HTML
+ * (`formatted_body`).
+ *
+ * Fenced code blocks become `<pre><code>` blocks; everything else has its
+ * bold, heading, inline code and link syntax rewritten, and its line
+ * breaks kept.
+ */
+export function toMatrixHtml(markdown: string): string {
+  const parts = markdown.split(/(```[^\n]*\n[\s\S]*?```)/);
+
+  return parts
+    .map((part) => {
+      const fence = /^```([^\n]*)\n([\s\S]*?)\n?```$/.exec(part);
+      if (fence) {
+        const language = fence[1]?.trim();
+        const attribute = language
+          ? ` class="language-${escapeHtml(language)}"`
+          : "";
+        return `<pre><code${attribute}>${escapeHtml(fence[2] ?? "")}</code></pre>`;
+      }
+
+      return escapeHtml(part)
+        .replace(/^#{1,6}\s+(.+)$/gm, "<strong>$1</strong>")
+        .replace(/\*\*(.+?)\*\*/g, "<strong>$1</strong>")
+        .replace(/`([^`\n]+)`/g, "<code>$1</code>")
+        .replace(/\[([^\]]+)\]\(([^)\s]+)\)/g, '<a href="$2">$1</a>')
+        .replace(/\n/g, "<br>");
+    })
+    .join("");
+}
+
+/**
+ * Removes the quoted reply fallback (`> <@user> ...`) clients prepend to
+ * replies, leaving only the text the human typed.
+ */
+export function stripReplyFallback(body: string): string {
+  const lines = body.split("\n");
+  let index = 0;
+  while (index < lines.length && lines[index]?.startsWith(">")) {
+    index++;
+  }
+  if (index === 0) {
+    return body;
+  }
+  return lines.slice(index).join("\n").trim();
+}
+
+/**
+ * Whether an event belongs to the thread under `rootId`, as a threaded
+ * message or a plain reply to the root.
+ */
+function isInThread(event: MatrixEvent, rootId: string): boolean {
+  const relation = event.content["m.relates_to"];
+  return (
+    (relation?.rel_type === "m.thread" && relation.event_id === rootId) ||
+    relation?.["m.in_reply_to"]?.event_id === rootId
+  );
+}
+
+/**
+ * Splits a subscription position into its sync token and the last event
+ * already returned from that token's batch, if any.
+ *
+ * A reply is not always the last event of its `/sync` batch, so its
+ * position is the token the batch was fetched with plus the reply's event
+ * ID (`<token> <eventId>`): resuming from it fetches the batch again and
+ * continues after the reply instead of skipping the rest of the batch.
+ */
+function parsePosition(position: string): {
+  since: string;
+  after: string | undefined;
+} {
+  const [since = "", after] = position.split(" ");
+  return { since, after };
+}
+
+/**
+ * Creates a new Matrix client with the given configuration.
+ */
+export function createMatrixClient(config: Config): ChatClient {
+  const baseUrl = config.serverUrl.replace(/\/$/, "");
+  const authHeader = `Bearer ${config.botApiKey}`;
+  const pollIntervalMs = config.pollIntervalMs;
+  let txnCounter = 0;
+
+  /**
+   * Sends a room event with a fresh transaction ID.
+   */
+  async function sendEvent(
+    roomId: string,
+    eventType: string,
+    content: Record<string, unknown>,
+  ): Promise<Response> {
+    const txnId = `pi-human-loop-${Date.now()}-${txnCounter++}`;
+    const url = `${baseUrl}/_matrix/client/v3/rooms/${encodeURIComponent(roomId)}/send/${eventType}/${txnId}`;
+
+    return await fetch(url, {
+      method: "PUT",
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: authHeader,
+      },
+      body: JSON.stringify(content),
+    });
+  }
+
+  /**
+   * Runs a `/sync` request for a single room.
+   */
+  async function sync(
+    roomId: string,
+    since: string | null,
+    timeoutMs: number,
+    signal?: AbortSignal,
+  ): Promise<Response> {
+    const url = new URL(`${baseUrl}/_matrix/client/v3/sync`);
+    url.searchParams.set("filter", buildSyncFilter(roomId));
+    url.searchParams.set("timeout", timeoutMs.toString());
+    if (since) {
+      url.searchParams.set("since", since);
+    }
+
+    return await fetch(url.toString(), {
+      method: "GET",
+      headers: { Authorization: authHeader },
+      ...(signal ? { signal } : {}),
+    });
+  }
+
+  /**
+   * Splits a subscription ID back into its room, thread root event and the
+   * event whose reactions to watch, if any.
+   *
+   * Room and event IDs never contain spaces, so spaces separate them. The
+   * subscription is encoded entirely in the ID so that a restarted session
+   * can resume polling it.
+   */
+  function parseQueueId(queueId: string): {
+    roomId: string;
+    rootId: string;
+    reactionTarget?: string;
+  } {
+    const [roomId = "", rootId = "", reactionTarget] = queueId.split(" ");
+    return reactionTarget
+      ? { roomId, rootId, reactionTarget }
+      : { roomId, rootId };
+  }
+
+  const client: ChatClient = {
+    /**
+     * Sends a text message to a Matrix room.
+     *
+     * When `topic` is an event ID the message joins that event's thread;
+     * otherwise it starts a new thread headed by the topic text.
+     *
+     * @returns The event ID of the sent message
+     * @throws {Error} If the API request fails
+     */
+    async postMessage(
+      stream: string,
+      topic: string,
+      content: string,
+    ): Promise<string> {
+      const isReply = topic.startsWith("$");
+      const response = await sendEvent(stream, "m.room.message", {
+        msgtype: "m.text",
+        body: isReply ? content : `${topic}\n\n${content}`,
+        format: "org.matrix.custom.html",
+        formatted_body: isReply
+          ? toMatrixHtml(content)
+          : `<strong>${escapeHtml(topic)}</strong><br><br>${toMatrixHtml(content)}`,
+        ...(isReply
+          ? {
+              "m.relates_to": {
+                rel_type: "m.thread",
+                event_id: topic,
+                is_falling_back: true,
+                "m.in_reply_to": { event_id: topic },
+              },
+            }
+          : {}),
+      });
+
+      if (!response.ok) {
+        const text = await response.text();
+        throw new Error(
+          `Failed to send Matrix message: ${response.status} ${response.statusText} - ${text}`,
+        );
+      }
+
+      const data = (await response.json()) as { event_id: string };
+      return data.event_id;
+    },
+
+    /**
+     * Annotates an event with the Unicode emoji for an answer reaction.
+     *
+     * @throws {Error} If the API request fails
+     */
+    async addReaction(
+      stream: string,
+      messageId: string,
+      emoji: string,
+    ): Promise<void> {
+      const key = toNativeEmoji(emoji, "matrix") ?? emoji;
+      const response = await sendEvent(stream, "m.reaction", {
+        "m.relates_to": {
+          rel_type: "m.annotation",
+          event_id: messageId,
+          key,
+        },
+      });
+
+      if (!response.ok) {
+        const text = await response.text();
+        throw new Error(
+          `Failed to add Matrix reaction: ${response.status} ${response.statusText} - ${text}`,
+        );
+      }
+    },
+
+    /**
+     * New questions are threaded under their own event.
+     */
+    resolveThreadId(topic: string, postedMessageId: string): string {
+      return topic.startsWith("$") ? topic : postedMessageId;
+    },
+
+    /**
+     * Links to the thread's root event via matrix.to.
+     */
+    formatThreadLink(stream: string, threadId: string): string {
+      return `https://matrix.to/#/${encodeURIComponent(stream)}/${encodeURIComponent(threadId)}`;
+    },
+
+    /**
+     * Takes an initial sync token so only newer events are considered.
+     *
+     * @returns The queue ID (`roomId threadRootId [reactionEventId]`) and the
+     * sync token
+     * @throws {Error} If the API request fails
+     */
+    async registerEventQueue(
+      stream: string,
+      topic: string,
+      reactionMessageId?: string,
+    ): Promise<{ queueId: string; lastEventId: string }> {
+      const response = await sync(stream, null, 0);
+
+      if (!response.ok) {
+        const text = await response.text();
+        throw new Error(
+          `Failed to start Matrix sync: ${response.status} ${response.statusText} - ${text}`,
+        );
+      }
+
+      const data = (await response.json()) as SyncResponse;
+      const queueId = reactionMessageId
+        ? `${stream} ${topic} ${reactionMessageId}`
+        : `${stream} ${topic}`;
+      return { queueId, lastEventId: data.next_batch };
+    },
+
+    /**
+     * Pages forward from `afterMessageId` (`GET /context` for a token, then
+     * `GET /messages`) and returns the first message in the thread not sent
+     * by the bot that `accept` takes.
+     *
+     * @returns The human message, or null if there is none yet
+     * @throws {Error} If the API request fails
+     */
+    async findReplySince(
+      stream: string,
+      topic: string,
+      afterMessageId: string,
+      botEmail: string,
+      accept?: (message: ChatMessage) => Promise<boolean>,
+    ): Promise<ChatMessage | null> {
+      const roomUrl = `${baseUrl}/_matrix/client/v3/rooms/${encodeURIComponent(stream)}`;
+      const headers = { Authorization: authHeader };
+
+      const contextResponse = await fetch(
+        `${roomUrl}/context/${encodeURIComponent(afterMessageId)}?limit=0`,
+        { method: "GET", headers },
+      );
+      if (!contextResponse.ok) {
+        const text = await contextResponse.text();
+        throw new Error(
+          `Failed to fetch Matrix event context: ${contextResponse.status} ${contextResponse.statusText} - ${text}`,
+        );
+      }
+      const { end } = (await contextResponse.json()) as { end?: string };
+      if (!end) {
+        return null;
+      }
+
+      const url = new URL(`${roomUrl}/messages`);
+      url.searchParams.set("from", end);
+      url.searchParams.set("dir", "f");
+      url.searchParams.set("limit", "100");
+      url.searchParams.set(
+        "filter",
+        JSON.stringify({ types: ["m.room.message"] }),
+      );
+      const response = await fetch(url.toString(), { method: "GET", headers });
+      if (!response.ok) {
+        const text = await response.text();
+        throw new Error(
+          `Failed to fetch Matrix messages: ${response.status} ${response.statusText} - ${text}`,
+        );
+      }
+
+      const data = (await response.json()) as { chunk?: MatrixEvent[] };
+      for (const event of data.chunk ?? []) {
+        if (
+          event.type !== "m.room.message" ||
+          event.sender === botEmail ||
+          !isInThread(event, topic)
+        ) {
+          continue;
+        }
+        const reply: ChatMessage = {
+          id: event.event_id,
+          sender_email: event.sender,
+          content: stripReplyFallback(event.content.body ?? ""),
+        };
+        if (!accept || (await accept(reply))) {
+          return reply;
+        }
+      }
+      return null;
+    },
+
+    /**
+     * Long-polls `/sync` until someone other than the bot replies in the
+     * thread or reacts with an answer emoji on the watched event.
+     *
+     * @returns The human message, or null if aborted
+     * @throws {Error} On fatal HTTP errors (after retries)
+     */
+    async pollForReply(
+      queueId: string,
+      lastEventId: string,
+      botEmail: string,
+      signal: AbortSignal,
+    ): Promise<ChatMessage | null> {
+      const { roomId, rootId, reactionTarget } = parseQueueId(queueId);
+      let { since, after } = parsePosition(lastEventId);
+      let retryCount = 0;
+      const maxRetries = 10;
+
+      while (!signal.aborted) {
+        try {
+          const response = await sync(roomId, since, SYNC_TIMEOUT_MS, signal);
+
+          if (signal.aborted) {
+            return null;
+          }
+
+          if (!response.ok) {
+            // Retry on server errors
+            if (response.status >= 500 && retryCount < maxRetries) {
+              const delay = Math.min(pollIntervalMs * 2 ** retryCount, 60000);
+              const delayElapsed = await waitWithAbort(delay, signal);
+              if (!delayElapsed) {
+                return null;
+              }
+              retryCount++;
+              continue;
+            }
+
+            const text = await response.text();
+            throw new Error(
+              `Failed to poll Matrix sync: ${response.status} ${response.statusText} - ${text}`,
+            );
+          }
+
+          // Reset retry count on success
+          retryCount = 0;
+
+          const data = (await response.json()) as SyncResponse;
+          const batch = since;
+          const timeline = data.rooms?.join?.[roomId]?.timeline?.events ?? [];
+          // Skip what was already returned from this batch (when it is no
+          // longer in the batch, everything is new)
+          const start = after
+            ? timeline.findIndex((event) => event.event_id === after) + 1
+            : 0;
+          const events = timeline.slice(start);
+          since = data.next_batch;
+          after = undefined;
+
+          // The position just after an event of this batch
+          const positionAfter = (event: MatrixEvent) =>
+            event === events[events.length - 1]
+              ? data.next_batch
+              : `${batch} ${event.event_id}`;
+
+          for (const event of events) {
+            const relation = event.content["m.relates_to"];
+            const reaction =
+              event.type === "m.reaction" &&
+              relation?.rel_type === "m.annotation" &&
+              relation.event_id === reactionTarget &&
+              event.sender !== botEmail
+                ? fromNativeEmoji(relation.key ?? "", "matrix")
+                : undefined;
+            if (reaction) {
+              return {
+                id: event.event_id,
+                sender_email: event.sender,
+                content: "",
+                reaction,
+                lastEventId: positionAfter(event),
+              };
+            }
+
+            if (
+              event.type === "m.room.message" &&
+              event.sender !== botEmail &&
+              isInThread(event, rootId)
+            ) {
+              return {
+                id: event.event_id,
+                sender_email: event.sender,
+                content: stripReplyFallback(event.content.body ?? ""),
+                lastEventId: positionAfter(event),
+              };
+            }
+          }
+        } catch (error) {
+          // If it's an abort error, return null
+          if (signal.aborted) {
+            return null;
+          }
+
+          // If it's a fetch error (network issue), retry
+          if (error instanceof TypeError && retryCount < maxRetries) {
+            const delay = Math.min(pollIntervalMs * 2 ** retryCount, 60000);
+            const delayElapsed = await waitWithAbort(delay, signal);
+            if (!delayElapsed) {
+              return null;
+            }
+            retryCount++;
+            continue;
+          }
+
+          // Re-throw other errors
+          throw error;
+        }
+      }
+
+      // Aborted
+      return null;
+    },
+
+    /**
+     * Forgets the subscription: `/sync` tokens are not server-side resources.
+     */
+    async deregisterQueue(queueId: string): Promise<void> {
+      void queueId;
+    },
+  };
+
+  return client;
+}
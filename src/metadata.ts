@@ -0,0 +1,135 @@
+/**
+ * Session metadata shown with each question.
+ *
+ * Tells the human which machine, repository, commit and Pi session asked,
+ * as a compact line under the question (the `{{metadata}}` template field).
+ * Fields listed in `HUMAN_LOOP_REDACT_METADATA` are never collected.
+ */
+
+import { homedir, hostname } from "node:os";
+import type { ExtensionContext } from "@mariozechner/pi-coding-agent";
+import { getRepoInfo } from "./repo-info.js";
+
+/**
+ * Metadata fields, in display order.
+ */
+export const METADATA_FIELDS = [
+  "repository",
+  "branch",
+  "commit",
+  "dirty",
+  "cwd",
+  "host",
+  "model",
+  "session_id",
+] as const;
+
+export type MetadataField = (typeof METADATA_FIELDS)[number];
+
+/**
+ * Collected metadata; redacted and unknown fields are absent.
+ */
+export interface SessionMetadata {
+  repository?: string;
+  branch?: string;
+  commit?: string;
+  /** Whether the working tree has uncommitted changes. */
+  dirty?: boolean;
+  cwd?: string;
+  host?: string;
+  model?: string;
+  session_id?: string;
+}
+
+/**
+ * Fields that need git to look up.
+ */
+const REPO_FIELDS: MetadataField[] = [
+  "repository",
+  "branch",
+  "commit",
+  "dirty",
+];
+
+/**
+ * Shortens a path under the home directory to `~/…`.
+ */
+function tildify(directory: string): string {
+  const home = homedir();
+  return home && (directory === home || directory.startsWith(`${home}/`))
+    ? `~${directory.slice(home.length)}`
+    : directory;
+}
+
+/**
+ * Collects metadata about the session asking a question.
+ *
+ * @param redact Fields to leave out (they are not looked up at all)
+ */
+export async function collectMetadata(
+  ctx: ExtensionContext,
+  redact: readonly MetadataField[] = [],
+): Promise<SessionMetadata> {
+  const include = (field: MetadataField) => !redact.includes(field);
+  const cwd = ctx.cwd;
+  const collected: SessionMetadata = {};
+
+  if (cwd && REPO_FIELDS.some(include)) {
+    const repo = await getRepoInfo(cwd);
+    for (const field of ["repository", "branch", "commit"] as const) {
+      if (include(field) && repo[field]) {
+        collected[field] = repo[field];
+      }
+    }
+    if (include("dirty") && repo.commit) {
+      collected.dirty = repo.dirty;
+    }
+  }
+
+  const values: Partial<Record<MetadataField, string | undefined>> = {
+    cwd: cwd && tildify(cwd),
+    host: hostname(),
+    model: ctx.model?.id,
+    session_id: ctx.sessionManager?.getSessionId(),
+  };
+  for (const field of ["cwd", "host", "model", "session_id"] as const) {
+    const value = values[field];
+    if (include(field) && value) {
+      collected[field] = value;
+    }
+  }
+  return collected;
+}
+
+/**
+ * Formats metadata as a single compact line, or "" when there is none.
+ */
+export function formatMetadata(metadata: SessionMetadata): string {
+  const parts: string[] = [];
+  const labels: [keyof SessionMetadata, string][] = [
+    ["repository", "repo"],
+    ["branch", "branch"],
+    ["commit", "commit"],
+  ];
+  for (const [field, label] of labels) {
+    if (metadata[field]) {
+      parts.push(`${label} \`${metadata[field]}\``);
+    }
+  }
+  if (metadata.dirty) {
+    parts.push("uncommitted changes");
+  }
+  if (metadata.cwd) {
+    parts.push(`in \`${metadata.cwd}\``);
+  }
+  if (metadata.host) {
+    parts.push(`on \`${metadata.host}\``);
+  }
+  if (metadata.model) {
+    parts.push(`model \`${metadata.model}\``);
+  }
+  if (metadata.session_id) {
+    parts.push(`session \`${metadata.session_id}\``);
+  }
+  return parts.length > 0 ? `_Asked from_ ${parts.join(" · ")}` : "";
+}
@@ -0,0 +1,232 @@
+/**
+ * Lifecycle notifications.
+ *
+ * With `HUMAN_LOOP_NOTIFY` set, the extension reports what an unattended
+ * session is doing in a per-session topic of the default stream: when it
+ * starts, each time the agent finishes a run, when tool calls keep
+ * failing, and when it shuts down. Notifications are best-effort; a post
+ * that fails is logged and never interrupts the agent.
+ */
+
+import type {
+  AgentEndEvent,
+  ToolResultEvent,
+} from "@mariozechner/pi-coding-agent";
+import type { ChatClient } from "./chat-client.js";
+import type { Config, NotificationsConfig } from "./config.js";
+import { trackSessionThread } from "./session-activity.js";
+import { formatDuration } from "./wait.js";
+
+export const NOTIFICATION_EVENTS = [
+  "start",
+  "agent-end",
+  "tool-failures",
+  "shutdown",
+] as const;
+
+export type NotificationEvent = (typeof NOTIFICATION_EVENTS)[number];
+
+/**
+ * Prefix of the per-session notification topic.
+ */
+export const NOTIFICATION_TOPIC_PREFIX = "Agent activity";
+
+/**
+ * Posts notifications to the session's topic.
+ */
+export interface Notifier {
+  /** Posts a message if the event is enabled. */
+  notify(event: NotificationEvent, message: string): Promise<void>;
+  /**
+   * Counts consecutive failed tool calls, and reports a run of them once
+   * it reaches the configured threshold.
+   */
+  recordToolResult(
+    result: Pick<ToolResultEvent, "toolName" | "isError" | "content">,
+  ): Promise<void>;
+}
+
+/**
+ * The topic to post in: the configured one, or one per session.
+ */
+export function notificationTopic(config: Config, sessionId?: string): string {
+  if (config.notifications?.topic) {
+    return config.notifications.topic;
+  }
+  return sessionId
+    ? `${NOTIFICATION_TOPIC_PREFIX} — session ${sessionId.slice(0, 8)}`
+    : NOTIFICATION_TOPIC_PREFIX;
+}
+
+/**
+ * Shortens text for a notification.
+ */
+function truncate(text: string, length: number): string {
+  const trimmed = text.trim();
+  return trimmed.length > length ? `${trimmed.slice(0, length - 1)}…` : trimmed;
+}
+
+/**
+ * Formats the session start notification.
+ *
+ * @param metadata Session metadata line (see `formatMetadata`), if any
+ */
+export function formatSessionStart(metadata: string): string {
+  const intro = "▶️ **Session started**";
+  return metadata ? `${intro}\n\n${metadata}` : intro;
+}
+
+/**
+ * Formats the session shutdown notification.
+ */
+export function formatSessionShutdown(): string {
+  return "⏹️ **Session ended**";
+}
+
+/**
+ * Summarises an agent run: how long it took, its tool calls, how it
+ * ended and the start of the agent's final message.
+ */
+export function summariseAgentRun(messages: AgentEndEvent["messages"]): string {
+  let toolCalls = 0;
+  let failures = 0;
+  let first: number | undefined;
+  let last: number | undefined;
+  let finalText = "";
+  let stopReason: string | undefined;
+  let errorMessage: string | undefined;
+
+  for (const message of messages) {
+    if (
+      message.role !== "user" &&
+      message.role !== "assistant" &&
+      message.role !== "toolResult"
+    ) {
+      continue;
+    }
+    first ??= message.timestamp;
+    last = message.timestamp;
+    if (message.role === "toolResult") {
+      toolCalls++;
+      if (message.isError) {
+        failures++;
+      }
+    } else if (message.role === "assistant") {
+      stopReason = message.stopReason;
+      errorMessage = message.errorMessage;
+      const text = message.content
+        .map((part) => (part.type === "text" ? part.text : ""))
+        .join("")
+        .trim();
+      if (text) {
+        finalText = text;
+      }
+    }
+  }
+
+  const heading =
+    stopReason === "aborted"
+      ? "⏹️ **Agent stopped**"
+      : stopReason === "error"
+        ? "⚠️ **Agent run failed**"
+        : "✅ **Agent finished**";
+  // To the second under a minute and to the minute above
+  const elapsed = first !== undefined && last !== undefined ? last - first : 0;
+  const details = [
+    ...(elapsed > 0
+      ? [
+          `after ${formatDuration(elapsed >= 60000 ? Math.floor(elapsed / 60000) * 60000 : elapsed)}`,
+        ]
+      : []),
+    `${toolCalls} tool call${toolCalls === 1 ? "" : "s"}${failures > 0 ? ` (${failures} failed)` : ""}`,
+  ].join(", ");
+
+  const lines = [`${heading} — ${details}`];
+  if (stopReason === "error" && errorMessage) {
+    lines.push(`Error: ${truncate(errorMessage, 300)}`);
+  }
+  if (finalText) {
+    lines.push(`> ${truncate(finalText, 500).replace(/\n/g, "\n> ")}`);
+  }
+  return lines.join("\n\n");
+}
+
+/**
+ * Formats the notification for a run of failed tool calls.
+ */
+export function formatToolFailures(
+  count: number,
+  toolName: string,
+  error: string,
+): string {
+  const message = `⚠️ **${count} tool calls in a row have failed** (latest: \`${toolName}\`)`;
+  return error ? `${message}\n\n> ${truncate(error, 300)}` : message;
+}
+
+/**
+ * Creates a notifier for a session. The topic is opened by the first
+ * notification posted.
+ *
+ * @param topic Topic to post in (see `notificationTopic`)
+ */
+export function createNotifier(
+  chatClient: ChatClient,
+  config: Config & { notifications: NotificationsConfig },
+  topic: string,
+): Notifier {
+  const { events, toolFailureThreshold } = config.notifications;
+  let threadId: string | null = null;
+  let consecutiveFailures = 0;
+  // Posts one at a time, so that later posts land in the opened thread
+  let queue: Promise<void> = Promise.resolve();
+
+  const post = (message: string): Promise<void> => {
+    queue = queue.then(async () => {
+      try {
+        const messageId = await chatClient.postMessage(
+          config.stream,
+          threadId ?? topic,
+          message,
+        );
+        if (!threadId) {
+          threadId = chatClient.resolveThreadId?.(topic, messageId) ?? topic;
+          trackSessionThread(threadId);
+        }
+      } catch (error) {
+        const reason = error instanceof Error ? error.message : String(error);
+        console.warn(`pi-human-loop: Could not post a notification: ${reason}`);
+      }
+    });
+    return queue;
+  };
+
+  const notify = async (
+    event: NotificationEvent,
+    message: string,
+  ): Promise<void> => {
+    if (events.includes(event)) {
+      await post(message);
+    }
+  };
+
+  return {
+    notify,
+    async recordToolResult(result) {
+      if (!result.isError) {
+        consecutiveFailures = 0;
+        return;
+      }
+      consecutiveFailures++;
+      if (consecutiveFailures !== toolFailureThreshold) {
+        return;
+      }
+      const error = result.content
+        .map((part) => (part.type === "text" ? part.text : ""))
+        .join("");
+      await notify(
+        "tool-failures",
+        formatToolFailures(consecutiveFailures, result.toolName, error),
+      );
+    },
+  };
+}
@@ -1,12 +1,12 @@
 /**
- * System prompt guidance for the ask_human tool.
+ * System prompt guidance for the ask_human and request_approval tools.
  *
  * Injected into Pi's system prompt via the before_agent_start event.
  */
 
 export const ASK_HUMAN_GUIDANCE = `## Human Assistance (ask_human tool)
 
-You have access to an \`ask_human\` tool that posts questions to the team's Zulip chat and waits for a human response.
+You have access to an \`ask_human\` tool that posts questions to the team's chat (Zulip, Slack or Matrix) and waits for a human response.
 
 ### When to use ask_human
 
@@ -28,6 +28,12 @@ Do NOT use it for:
 ### How to use it
 
 1. Call \`ask_human\` with your question, relevant context, and your confidence level (0-100)
-2. The tool will block until a human responds — this is expected
-3. If the response includes a \`thread_id\`, use it in follow-up \`ask_human\` calls to continue the same conversation
-4. Once you have enough information, proceed with your task — do not keep asking unnecessarily`;
+2. The tool will block until a human responds — this is expected. If you cannot wait indefinitely, pass \`timeout_seconds\` and a \`default_answer\` to proceed with when nobody replies in time
+3. When choosing between a few known alternatives, pass them as \`options\`; the response then includes the chosen \`option_index\` and \`option\` in its details
+4. To share a full log or patch, pass its path in \`attachments\`. Files the human sends back are saved locally and listed in \`details.files\`
+5. If the response includes a \`thread_id\`, use it in follow-up \`ask_human\` calls to continue the same conversation
+6. Once you have enough information, proceed with your task — do not keep asking unnecessarily
+
+### Approval for risky actions (request_approval tool)
+
+Before a destructive or hard-to-reverse action (deleting data, force-pushing, running migrations, changing production configuration), call \`request_approval\` with the action, the exact command or a summary of the changes, and a risk level (low, medium or high). Only proceed if the result has \`approved: true\`; a denial, timeout or error means do not perform the action.`;
@@ -1,22 +1,23 @@
 /**
  * Queue registry for cleanup on session shutdown.
  *
- * Manages active Zulip event queues that need cleanup when the session ends.
+ * Manages active reply subscriptions (e.g. Zulip event queues) that need
+ * cleanup when the session ends.
  * This module is shared between index.ts and src/tool.ts to avoid circular dependencies.
  */
 
-import type { ZulipClient } from "./zulip-client.js";
+import type { ChatClient } from "./chat-client.js";
 
 /**
  * Active event queues that need cleanup on shutdown.
- * Maps queue ID to Zulip client.
+ * Maps queue ID to the chat client that owns it.
  */
-const activeQueues = new Map<string, ZulipClient>();
+const activeQueues = new Map<string, ChatClient>();
 
 /**
  * Register an active queue for cleanup.
  */
-export function registerQueue(queueId: string, client: ZulipClient): void {
+export function registerQueue(queueId: string, client: ChatClient): void {
   activeQueues.set(queueId, client);
 }
 
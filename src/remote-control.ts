@@ -0,0 +1,294 @@
+/**
+ * Remote control from chat.
+ *
+ * With `HUMAN_LOOP_REMOTE_CONTROL` set, the extension watches the streams
+ * it asks in for control commands posted in the threads this session
+ * opened: `!stop` aborts the agent's current run and ends any question or
+ * approval wait, and `!pause` holds its next tool call until `!resume` (or
+ * `/human-loop resume` in Pi). Only the configured controllers are obeyed.
+ * Question and approval waits skip the commands, so a command is never
+ * mistaken for an answer (see `withControlCommands`).
+ */
+
+import type { ChatClient, ChatMessage } from "./chat-client.js";
+import type { Config } from "./config.js";
+import { createResponderCheck } from "./responders.js";
+import { getPendingQuestions, isSessionThread } from "./session-activity.js";
+import { type Watch, watchSubscription } from "./watch.js";
+
+export const CONTROL_COMMANDS = ["stop", "pause", "resume"] as const;
+
+export type ControlCommand = (typeof CONTROL_COMMANDS)[number];
+
+/**
+ * What the `tool_call` handler returns to block a call.
+ */
+type BlockResult = { block: true; reason: string };
+
+/**
+ * What remote control can do to the Pi session.
+ */
+export interface RemoteControlActions {
+  /** Aborts the agent's current run. */
+  abort(): void;
+  /** Tells the developer at the terminal what happened. */
+  notify(message: string): void;
+}
+
+/**
+ * Running remote control.
+ */
+export interface RemoteControl {
+  /**
+   * Pi `tool_call` handler: holds the call while the agent is paused, and
+   * blocks it if the agent is stopped meanwhile.
+   */
+  holdToolCall(): Promise<BlockResult | undefined>;
+  isPaused(): boolean;
+  /**
+   * Resumes a paused agent from Pi (`/human-loop resume`), for when chat
+   * cannot be reached.
+   *
+   * @returns Whether the agent was paused
+   */
+  resume(): boolean;
+  /** Stops watching; held tool calls are blocked. */
+  stop(): Promise<void>;
+}
+
+/**
+ * Recognises a control command at the start of a message.
+ *
+ * @returns The command, or null for any other message
+ */
+export function parseControlCommand(content: string): ControlCommand | null {
+  const match = /^!(stop|pause|resume)\b/i.exec(content.trim());
+  return match ? ((match[1] ?? "").toLowerCase() as ControlCommand) : null;
+}
+
+/**
+ * Whether a message is a control command rather than a reply.
+ */
+function isControlMessage(message: ChatMessage): boolean {
+  return !message.reaction && parseControlCommand(message.content) !== null;
+}
+
+/**
+ * Wraps a chat client so that conversation subscriptions skip control
+ * commands. Stream-wide subscriptions (`registerStreamQueue`), which
+ * deliver the commands, are opened on `backend` and polled unfiltered:
+ * `startRemoteControl` checks who sent a command itself, so a controller
+ * who may not answer questions is still heard.
+ *
+ * @param backend The client without reply filtering (default: `client`)
+ */
+export function withControlCommands(
+  client: ChatClient,
+  backend: ChatClient = client,
+): ChatClient {
+  const streamQueues = new Set<string>();
+
+  const wrapped: ChatClient = {
+    ...client,
+
+    async pollForReply(queueId, lastEventId, botEmail, signal, onPosition) {
+      if (streamQueues.has(queueId)) {
+        return await backend.pollForReply(
+          queueId,
+          lastEventId,
+          botEmail,
+          signal,
+          onPosition,
+        );
+      }
+      let position = lastEventId;
+      for (;;) {
+        const reply = await client.pollForReply(
+          queueId,
+          position,
+          botEmail,
+          signal,
+          onPosition,
+        );
+        if (!reply || !isControlMessage(reply)) {
+          return reply;
+        }
+        if (!reply.lastEventId) {
+          throw new Error(
+            "Cannot skip a control command: the backend did not report its position",
+          );
+        }
+        position = reply.lastEventId;
+        onPosition?.(position);
+      }
+    },
+
+    async deregisterQueue(queueId) {
+      streamQueues.delete(queueId);
+      await client.deregisterQueue(queueId);
+    },
+  };
+
+  if (backend.registerStreamQueue) {
+    const registerStreamQueue = backend.registerStreamQueue;
+    wrapped.registerStreamQueue = async (stream) => {
+      const queue = await registerStreamQueue(stream);
+      streamQueues.add(queue.queueId);
+      return queue;
+    };
+  }
+
+  if (client.findReplySince) {
+    const findReplySince = client.findReplySince;
+    wrapped.findReplySince = async (
+      stream,
+      topic,
+      afterMessageId,
+      botEmail,
+      accept,
+    ) =>
+      await findReplySince(
+        stream,
+        topic,
+        afterMessageId,
+        botEmail,
+        async (message) =>
+          !isControlMessage(message) && (!accept || (await accept(message))),
+      );
+  }
+
+  return wrapped;
+}
+
+/**
+ * Starts watching the default and routed streams for control commands.
+ *
+ * @throws {Error} If the backend has no stream-wide subscriptions, or one
+ *   cannot be opened
+ */
+export async function startRemoteControl(
+  chatClient: ChatClient,
+  config: Config,
+  actions: RemoteControlActions,
+): Promise<RemoteControl> {
+  const registerStreamQueue = chatClient.registerStreamQueue;
+  if (!registerStreamQueue) {
+    throw new Error("this chat backend cannot watch streams for commands");
+  }
+
+  const isController = createResponderCheck(chatClient, {
+    allow: config.remoteControl?.controllers ?? [],
+    deny: config.responders?.deny ?? [],
+  });
+
+  let paused = false;
+  // Tool calls held while paused, resolved on resume or stop
+  let held: Array<(result: BlockResult | undefined) => void> = [];
+  const release = (result: BlockResult | undefined) => {
+    for (const resolve of held) {
+      resolve(result);
+    }
+    held = [];
+  };
+
+  const resume = (): boolean => {
+    if (!paused) {
+      return false;
+    }
+    paused = false;
+    release(undefined);
+    return true;
+  };
+
+  const handle = (command: ControlCommand, sender: string): string => {
+    switch (command) {
+      case "stop":
+        paused = false;
+        release({
+          block: true,
+          reason: `The agent was stopped from chat by ${sender}.`,
+        });
+        actions.abort();
+        // Tool-call approvals have no signal from the run, so end them here
+        for (const question of getPendingQuestions()) {
+          question.cancel();
+        }
+        actions.notify(`${sender} stopped the agent from chat`);
+        return `🛑 _Stopping the agent's current run (requested by ${sender})._`;
+      case "pause":
+        if (paused) {
+          return "_The agent is already paused. Send `!resume` to let it continue._";
+        }
+        paused = true;
+        actions.notify(
+          `${sender} paused the agent from chat; tool calls wait for !resume (or /human-loop resume)`,
+        );
+        return "⏸️ _The agent will pause before its next tool call. Send `!resume` to let it continue._";
+      case "resume":
+        if (!resume()) {
+          return "_The agent is not paused._";
+        }
+        actions.notify(`${sender} resumed the agent from chat`);
+        return "▶️ _The agent is continuing._";
+    }
+  };
+
+  const streams = [
+    ...new Set([
+      config.stream,
+      ...(config.routes ?? []).map((rule) => rule.stream),
+    ]),
+  ];
+  const onMessage =
+    (stream: string) =>
+    async (message: ChatMessage): Promise<void> => {
+      const command = parseControlCommand(message.content);
+      if (!command || !message.topic || !isSessionThread(message.topic)) {
+        return;
+      }
+      const reply = (await isController(message))
+        ? handle(command, message.sender_email)
+        : `🚫 _${message.sender_email} is not allowed to control this agent._`;
+      try {
+        await chatClient.postMessage(stream, message.topic, reply);
+      } catch {
+        // Best-effort acknowledgement; the command has been handled
+      }
+    };
+
+  const watches: Watch[] = [];
+  try {
+    for (const stream of streams) {
+      watches.push(
+        await watchSubscription(
+          chatClient,
+          config.botEmail,
+          () => registerStreamQueue(stream),
+          onMessage(stream),
+          `${stream} for control commands`,
+        ),
+      );
+    }
+  } catch (error) {
+    await Promise.all(watches.map((watch) => watch.stop()));
+    throw error;
+  }
+
+  return {
+    async holdToolCall() {
+      if (!paused) {
+        return undefined;
+      }
+      return await new Promise<BlockResult | undefined>((resolve) => {
+        held.push(resolve);
+      });
+    },
+    isPaused: () => paused,
+    resume,
+    async stop() {
+      paused = false;
+      release({ block: true, reason: "The Pi session is shutting down." });
+      await Promise.all(watches.map((watch) => watch.stop()));
+    },
+  };
+}
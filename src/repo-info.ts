@@ -0,0 +1,64 @@
+/**
+ * Repository details of the agent's working directory, for question
+ * metadata and message templates.
+ */
+
+import { execFile } from "node:child_process";
+import path from "node:path";
+import { promisify } from "node:util";
+
+const execFileAsync = promisify(execFile);
+
+/**
+ * How long to wait for each git command, in ms.
+ */
+const GIT_TIMEOUT_MS = 5000;
+
+/**
+ * The repository a session is working in.
+ */
+export interface RepoInfo {
+  /** Repository directory name (the working directory's, outside git). */
+  repository: string;
+  /** Checked-out branch; empty outside git or on a detached HEAD. */
+  branch: string;
+  /** Abbreviated HEAD commit; empty outside git. */
+  commit: string;
+  /** Whether the working tree has uncommitted changes. */
+  dirty: boolean;
+}
+
+/**
+ * Runs a git command in `cwd`.
+ *
+ * @returns Its trimmed output, or null if it fails
+ */
+async function git(cwd: string, args: string[]): Promise<string | null> {
+  try {
+    const { stdout } = await execFileAsync("git", args, {
+      cwd,
+      timeout: GIT_TIMEOUT_MS,
+    });
+    return stdout.trim();
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Looks up the repository, branch and commit of a working directory.
+ */
+export async function getRepoInfo(cwd: string): Promise<RepoInfo> {
+  const [topLevel, branch, commit, status] = await Promise.all([
+    git(cwd, ["rev-parse", "--show-toplevel"]),
+    git(cwd, ["rev-parse", "--abbrev-ref", "HEAD"]),
+    git(cwd, ["rev-parse", "--short", "HEAD"]),
+    git(cwd, ["status", "--porcelain"]),
+  ]);
+  return {
+    repository: path.basename(topLevel || cwd),
+    branch: branch && branch !== "HEAD" ? branch : "",
+    commit: commit ?? "",
+    dirty: Boolean(status),
+  };
+}
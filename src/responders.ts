@@ -0,0 +1,166 @@
+/**
+ * Responder filtering.
+ *
+ * Wraps a `ChatClient` so that replies only count when they come from a
+ * human the configuration allows: bot accounts (by the backend's `is_bot`
+ * flag) and senders outside `config.responders` are skipped, and polling
+ * carries on past them. Every caller (ask_human, reply collection and
+ * approvals) sees only authorised replies.
+ */
+
+import type { ChatClient, ChatMessage } from "./chat-client.js";
+import type { ResponderPolicy } from "./config.js";
+
+/**
+ * Prefix for user group entries in the allow and deny lists.
+ */
+export const GROUP_PREFIX = "group:";
+
+/**
+ * How long user group memberships are cached, in ms.
+ */
+const GROUP_CACHE_MS = 5 * 60 * 1000;
+
+/**
+ * Creates a check for whether a message's sender may answer.
+ *
+ * Explicit allow/deny entries fail closed: a group that cannot be looked up
+ * matches no one on the allowlist and everyone on the denylist. The bot
+ * check fails open, so a lookup error does not silence every human.
+ */
+export function createResponderCheck(
+  client: ChatClient,
+  policy: ResponderPolicy | undefined,
+): (message: ChatMessage) => Promise<boolean> {
+  const groups = new Map<string, { members: string[]; fetchedAt: number }>();
+
+  async function groupMembers(group: string): Promise<string[] | null> {
+    const cached = groups.get(group);
+    if (cached && Date.now() - cached.fetchedAt < GROUP_CACHE_MS) {
+      return cached.members;
+    }
+    if (!client.getUserGroupMembers) {
+      return null;
+    }
+    try {
+      const members = await client.getUserGroupMembers(group);
+      groups.set(group, { members, fetchedAt: Date.now() });
+      return members;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Whether any entry names the sender. Unresolvable groups count as
+   * `onLookupFailure`.
+   */
+  async function matches(
+    entries: string[],
+    identities: string[],
+    onLookupFailure: boolean,
+  ): Promise<boolean> {
+    for (const entry of entries) {
+      if (entry.startsWith(GROUP_PREFIX)) {
+        const members = await groupMembers(entry.slice(GROUP_PREFIX.length));
+        if (
+          members === null
+            ? onLookupFailure
+            : members.some((member) =>
+                identities.includes(member.toLowerCase()),
+              )
+        ) {
+          return true;
+        }
+      } else if (identities.includes(entry.toLowerCase())) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  return async (message) => {
+    const identities = [message.sender_email, message.sender_id]
+      .filter((identity): identity is string => identity != null)
+      .map((identity) => identity.toLowerCase());
+
+    if (policy && (await matches(policy.deny, identities, true))) {
+      return false;
+    }
+    if (
+      policy?.allow.length &&
+      !(await matches(policy.allow, identities, false))
+    ) {
+      return false;
+    }
+
+    if (client.isBotUser) {
+      try {
+        if (await client.isBotUser(message.sender_id ?? message.sender_email)) {
+          return false;
+        }
+      } catch {
+        // Unknown; treat the sender as human
+      }
+    }
+    return true;
+  };
+}
+
+/**
+ * Wraps a chat client so that it only returns replies from allowed humans.
+ */
+export function withResponderPolicy(
+  client: ChatClient,
+  policy: ResponderPolicy | undefined,
+): ChatClient {
+  const isAllowed = createResponderCheck(client, policy);
+
+  const wrapped: ChatClient = {
+    ...client,
+
+    async pollForReply(queueId, lastEventId, botEmail, signal, onPosition) {
+      let position = lastEventId;
+      for (;;) {
+        const reply = await client.pollForReply(
+          queueId,
+          position,
+          botEmail,
+          signal,
+          onPosition,
+        );
+        if (!reply || (await isAllowed(reply))) {
+          return reply;
+        }
+        if (!reply.lastEventId) {
+          throw new Error(
+            "Cannot skip a reply from a disallowed responder: the backend did not report its position",
+          );
+        }
+        position = reply.lastEventId;
+        onPosition?.(position);
+      }
+    },
+  };
+
+  if (client.findReplySince) {
+    const findReplySince = client.findReplySince;
+    wrapped.findReplySince = async (
+      stream,
+      topic,
+      afterMessageId,
+      botEmail,
+      accept,
+    ) =>
+      await findReplySince(
+        stream,
+        topic,
+        afterMessageId,
+        botEmail,
+        async (message) =>
+          (await isAllowed(message)) && (!accept || (await accept(message))),
+      );
+  }
+
+  return wrapped;
+}
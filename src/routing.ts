@@ -0,0 +1,147 @@
+/**
+ * Routing of questions to streams.
+ *
+ * `config.routes` maps questions to a stream (and optional topic prefix) by
+ * the `category` the agent passes, the file paths mentioned in its context
+ * and attachments, or its working directory. Matches are tried in that
+ * order (an explicit category is the strongest signal), each against the
+ * rules in their configured order; a question no rule matches goes to the
+ * configured default stream.
+ */
+
+import path from "node:path";
+import type { RoutingRule } from "./config.js";
+import { matchesGlob } from "./glob.js";
+
+/**
+ * Where a question is posted.
+ */
+export interface Route {
+  stream: string;
+  /** Prepended to the topics of new questions. */
+  topicPrefix?: string;
+}
+
+/**
+ * What is known about a question when routing it.
+ */
+export interface RoutingInput {
+  category?: string;
+  /** Text that may mention file paths (context, attachment paths). */
+  text?: string;
+  /** Working directory (absolute). */
+  cwd?: string;
+}
+
+/**
+ * Things that look like file paths: containing a `/` or ending in a file
+ * extension, optionally followed by `:line[:column]`.
+ */
+const PATH_PATTERN =
+  /(?:^|[\s"'`(=])((?:\/|\.{1,2}\/|~\/)?(?:[\w@.-]+\/)*[\w@.-]+(?:\/|\.[A-Za-z]\w*))(?::\d+)*(?=$|[\s"'`),;])/gm;
+
+/**
+ * Extracts file paths mentioned in text, without line numbers, in order of
+ * appearance.
+ */
+export function extractPaths(text: string): string[] {
+  const paths: string[] = [];
+  for (const match of text.matchAll(PATH_PATTERN)) {
+    const candidate = (match[1] ?? "").replace(/\/$/, "");
+    if (
+      candidate &&
+      /[/.]/.test(candidate) &&
+      !/^\d+(\.\d+)*$/.test(candidate) &&
+      !paths.includes(candidate)
+    ) {
+      paths.push(candidate);
+    }
+  }
+  return paths;
+}
+
+/**
+ * The working directory and each of its parents, so that a glob naming a
+ * directory also matches everything below it.
+ */
+function directoryAndParents(cwd: string): string[] {
+  const directories: string[] = [];
+  let current = cwd.replace(/\\/g, "/").replace(/\/+$/, "") || "/";
+  for (;;) {
+    directories.push(current);
+    const parent = path.posix.dirname(current);
+    if (parent === current) {
+      return directories;
+    }
+    current = parent;
+  }
+}
+
+/**
+ * Forms of a mentioned path to match globs against: as written, and
+ * relative to the working directory when it is inside it.
+ */
+function pathForms(filePath: string, cwd: string | undefined): string[] {
+  const forms = [filePath.replace(/^\.\//, "")];
+  if (cwd && path.isAbsolute(filePath)) {
+    const relative = path.relative(cwd, filePath);
+    if (relative && !relative.startsWith("..") && !path.isAbsolute(relative)) {
+      forms.push(relative.split(path.sep).join("/"));
+    }
+  }
+  return forms;
+}
+
+/**
+ * Resolves the route for a question.
+ *
+ * @param defaultStream Stream for questions no rule matches
+ */
+export function resolveRoute(
+  rules: readonly RoutingRule[] | undefined,
+  defaultStream: string,
+  input: RoutingInput,
+): Route {
+  const toRoute = (rule: RoutingRule): Route =>
+    rule.topicPrefix
+      ? { stream: rule.stream, topicPrefix: rule.topicPrefix }
+      : { stream: rule.stream };
+
+  if (!rules?.length) {
+    return { stream: defaultStream };
+  }
+
+  const category = input.category?.trim().toLowerCase();
+  if (category) {
+    const rule = rules.find((r) =>
+      r.categories.some((c) => c.toLowerCase() === category),
+    );
+    if (rule) {
+      return toRoute(rule);
+    }
+  }
+
+  const mentioned = extractPaths(input.text ?? "").flatMap((filePath) =>
+    pathForms(filePath, input.cwd),
+  );
+  if (mentioned.length > 0) {
+    const rule = rules.find((r) =>
+      r.paths.some((glob) => mentioned.some((p) => matchesGlob(p, glob))),
+    );
+    if (rule) {
+      return toRoute(rule);
+    }
+  }
+
+  if (input.cwd) {
+    const directories = directoryAndParents(input.cwd);
+    const rule = rules.find((r) =>
+      r.cwd.some((glob) => directories.some((d) => matchesGlob(d, glob))),
+    );
+    if (rule) {
+      return toRoute(rule);
+    }
+  }
+
+  return { stream: defaultStream };
+}
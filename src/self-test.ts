@@ -0,0 +1,67 @@
+/**
+ * Connectivity self-test.
+ *
+ * With `HUMAN_LOOP_SELF_TEST` set, the chat connection is checked when a
+ * session starts, so a wrong server URL, rejected credentials or a stream
+ * the bot cannot read are reported before the agent first needs a human
+ * rather than in the middle of a task.
+ */
+
+import type { ChatClient } from "./chat-client.js";
+import type { Config, ConfigError } from "./config.js";
+
+/**
+ * The streams questions can be posted to: the default stream, routed
+ * streams and the escalation cross-post stream.
+ */
+export function configuredStreams(config: Config): string[] {
+  return [
+    ...new Set([
+      config.stream,
+      ...(config.routes ?? []).map((rule) => rule.stream),
+      ...(config.escalation?.crossPostStream
+        ? [config.escalation.crossPostStream]
+        : []),
+    ]),
+  ];
+}
+
+/**
+ * Checks the chat connection and every configured stream.
+ *
+ * @param subscribe Whether to subscribe the bot to streams it is not in
+ * (by default when `HUMAN_LOOP_AUTO_SUBSCRIBE` is set); false to only read
+ * @returns The problems found (none when the backend has no checks)
+ */
+export async function runSelfTest(
+  config: Config,
+  chatClient: ChatClient,
+  subscribe = config.autoSubscribe === true,
+): Promise<ConfigError[]> {
+  if (!chatClient.checkConnection) {
+    return [];
+  }
+  try {
+    return await chatClient.checkConnection(
+      configuredStreams(config),
+      subscribe,
+    );
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    return [
+      {
+        type: "invalid",
+        var: "HUMAN_LOOP_SELF_TEST",
+        message: `Connectivity check failed: ${reason}`,
+      },
+    ];
+  }
+}
+
+/**
+ * Formats self-test problems like configuration validation errors.
+ */
+export function formatSelfTestReport(errors: ConfigError[]): string {
+  const lines = errors.map((e) => `  ${e.var}: ${e.message}`).join("\n");
+  return `Connectivity check failed:\n${lines}\n\nask_human will fail until these are fixed.`;
+}
@@ -0,0 +1,143 @@
+/**
+ * Session activity registry.
+ *
+ * Tracks the questions ask_human is waiting on and the outcome of every
+ * question asked this session, for the `/human-loop` command, and the
+ * threads the session has opened, for remote control.
+ * This module is shared between index.ts and src/tool.ts to avoid circular dependencies.
+ */
+
+/**
+ * A question the agent is waiting on.
+ */
+export interface PendingQuestion {
+  threadId: string;
+  stream: string;
+  question: string;
+  /** When the wait started (ms since epoch). */
+  since: number;
+  /** Stops waiting; ask_human returns without an answer. */
+  cancel(): void;
+}
+
+export type QuestionOutcome = "answered" | "timed_out" | "cancelled" | "failed";
+
+/**
+ * A question asked this session and how it ended.
+ */
+export interface HistoryEntry {
+  question: string;
+  threadId?: string;
+  outcome: QuestionOutcome;
+  /** The human's answer, or what the agent was told instead. */
+  answer: string;
+  responder?: string;
+  askedAt: number;
+  finishedAt: number;
+}
+
+/**
+ * Questions being waited on, by thread ID.
+ */
+const pendingQuestions = new Map<string, PendingQuestion>();
+
+/**
+ * Finished questions, oldest first.
+ */
+const history: HistoryEntry[] = [];
+
+/**
+ * Threads this session has opened (questions, approvals, the inbox).
+ */
+const sessionThreads = new Set<string>();
+
+/**
+ * Stream each question or approval thread was posted to, by thread ID.
+ */
+const threadStreams = new Map<string, string>();
+
+/**
+ * Register a question the agent has started waiting on.
+ */
+export function trackPendingQuestion(question: PendingQuestion): void {
+  pendingQuestions.set(question.threadId, question);
+}
+
+/**
+ * Unregister a question (no longer waited on).
+ */
+export function untrackPendingQuestion(threadId: string): void {
+  pendingQuestions.delete(threadId);
+}
+
+/**
+ * Questions being waited on, longest-waiting first.
+ */
+export function getPendingQuestions(): PendingQuestion[] {
+  return [...pendingQuestions.values()].sort((a, b) => a.since - b.since);
+}
+
+/**
+ * Finds a pending question by thread ID, or by a part of it that matches
+ * only one question.
+ */
+export function findPendingQuestion(reference: string): PendingQuestion | null {
+  const exact = pendingQuestions.get(reference);
+  if (exact) {
+    return exact;
+  }
+  const needle = reference.toLowerCase();
+  const matches = [...pendingQuestions.values()].filter((question) =>
+    question.threadId.toLowerCase().includes(needle),
+  );
+  return matches.length === 1 ? (matches[0] ?? null) : null;
+}
+
+/**
+ * Record how a question ended.
+ */
+export function recordQuestion(entry: HistoryEntry): void {
+  history.push(entry);
+}
+
+/**
+ * Questions asked this session, oldest first.
+ */
+export function getHistory(): HistoryEntry[] {
+  return [...history];
+}
+
+/**
+ * Register a thread this session has opened, and the stream it is in when
+ * later messages must follow it there (routed questions).
+ */
+export function trackSessionThread(threadId: string, stream?: string): void {
+  sessionThreads.add(threadId);
+  if (stream) {
+    threadStreams.set(threadId, stream);
+  }
+}
+
+/**
+ * The stream a thread this session opened is in, if recorded.
+ */
+export function getThreadStream(threadId: string): string | undefined {
+  return threadStreams.get(threadId);
+}
+
+/**
+ * Whether this session opened a thread.
+ */
+export function isSessionThread(threadId: string): boolean {
+  return sessionThreads.has(threadId);
+}
+
+/**
+ * Forget all pending questions, history and threads (on session shutdown).
+ */
+export function clearSessionActivity(): void {
+  pendingQuestions.clear();
+  history.length = 0;
+  sessionThreads.clear();
+  threadStreams.clear();
+}
@@ -0,0 +1,506 @@
+/**
+ * Slack Web API client wrapper.
+ *
+ * Slack implementation of `ChatClient`. Each question is a top-level channel
+ * message and its thread (identified by the message `ts`) is the
+ * conversation. Replies are found by polling `conversations.replies`.
+ */
+
+import type { ChatClient, ChatMessage } from "./chat-client.js";
+import { fromNativeEmoji, toNativeEmoji } from "./choices.js";
+import type { Config } from "./config.js";
+import { waitWithAbort } from "./wait.js";
+
+interface SlackReply {
+  ts: string;
+  user?: string;
+  bot_id?: string;
+  subtype?: string;
+  text?: string;
+}
+
+interface SlackReaction {
+  name: string;
+  users?: string[];
+  count?: number;
+}
+
+/**
+ * Whether a thread message was written by a human rather than a bot.
+ */
+function isHumanReply(message: SlackReply, botEmail: string): boolean {
+  const fromBot =
+    message.bot_id != null ||
+    message.subtype === "bot_message" ||
+    (botEmail !== "" && message.user === botEmail);
+  return !fromBot && message.user != null;
+}
+
+/**
+ * Slack message timestamps (`1712345678.123456`) double as message IDs.
+ */
+const SLACK_TS_PATTERN = /^\d+\.\d+$/;
+
+/**
+ * Compares two Slack timestamps without losing microsecond precision.
+ */
+function compareTs(a: string, b: string): number {
+  const [aSec = "0", aMicro = "0"] = a.split(".");
+  const [bSec = "0", bMicro = "0"] = b.split(".");
+  const secDiff = Number(aSec) - Number(bSec);
+  if (secDiff !== 0) {
+    return secDiff;
+  }
+  return Number(aMicro.padEnd(6, "0")) - Number(bMicro.padEnd(6, "0"));
+}
+
+/**
+ * Escapes the characters Slack reserves for its own markup.
+ */
+function escapeSlackText(text: string): string {
+  return text
+    .replaceAll("&", "&amp;")
+    .replaceAll("<", "&lt;")
+    .replaceAll(">", "&gt;");
+}
+
+/**
+ * Converts the Markdown produced by `formatMessage` into Slack mrkdwn.
+ *
+ * Fenced code blocks are kept verbatim (minus the language hint, which
+ * Slack does not support); everything else has its bold, heading and link
+ * syntax rewritten.
+ */
+export function toSlackMrkdwn(markdown: string): string {
+  const parts = markdown.split(/(```[^\n]*\n[\s\S]*?```)/);
+
+  return parts
+    .map((part) => {
+      if (part.startsWith("```")) {
+        return escapeSlackText(part.replace(/^```[^\n]*\n/, "```\n"));
+      }
+
+      return escapeSlackText(part)
+        .replace(/^#{1,6}\s+(.+)$/gm, "*$1*")
+        .replace(/\*\*(.+?)\*\*/g, "*$1*")
+        .replace(/\[([^\]]+)\]\(([^)\s]+)\)/g, "<$2|$1>");
+    })
+    .join("");
+}
+
+/**
+ * Creates a new Slack client with the given configuration.
+ */
+export function createSlackClient(config: Config): ChatClient {
+  const baseUrl = config.serverUrl.replace(/\/$/, "");
+  const authHeader = `Bearer ${config.botApiKey}`;
+  const pollIntervalMs = config.pollIntervalMs;
+  // `is_bot` flags already looked up, by user ID
+  const botUsers = new Map<string, boolean>();
+  // Answer reactions already returned, by queue ID ("emoji user" keys)
+  const deliveredReactions = new Map<string, Set<string>>();
+
+  /**
+   * Calls a Slack Web API method and unwraps Slack's `ok` envelope.
+   *
+   * @throws {Error} On HTTP errors or `ok: false` responses
+   */
+  async function callApi<T>(
+    method: string,
+    init: { body?: Record<string, unknown>; query?: Record<string, string> },
+    signal?: AbortSignal,
+  ): Promise<T> {
+    const url = new URL(`${baseUrl}/${method}`);
+    for (const [key, value] of Object.entries(init.query ?? {})) {
+      url.searchParams.set(key, value);
+    }
+
+    const response = await fetch(url.toString(), {
+      method: init.body ? "POST" : "GET",
+      headers: {
+        ...(init.body
+          ? { "Content-Type": "application/json; charset=utf-8" }
+          : {}),
+        Authorization: authHeader,
+      },
+      ...(init.body ? { body: JSON.stringify(init.body) } : {}),
+      ...(signal ? { signal } : {}),
+    });
+
+    if (!response.ok) {
+      const text = await response.text();
+      throw Object.assign(
+        new Error(
+          `Slack ${method} failed: ${response.status} ${response.statusText} - ${text}`,
+        ),
+        {
+          status: response.status,
+          retryAfter: response.headers.get("retry-after"),
+        },
+      );
+    }
+
+    const data = (await response.json()) as { ok: boolean; error?: string };
+    if (!data.ok) {
+      throw new Error(`Slack ${method} failed: ${data.error ?? "unknown"}`);
+    }
+    return data as T;
+  }
+
+  /**
+   * Splits a subscription ID back into its channel, thread timestamp and
+   * the message whose reactions to watch, if any.
+   *
+   * The subscription is encoded entirely in the ID so that a restarted
+   * session can resume polling it.
+   */
+  function parseQueueId(queueId: string): {
+    channel: string;
+    ts: string;
+    reactionTarget?: string;
+  } {
+    const [channel = "", ts = "", reactionTarget] = queueId.split(":");
+    return reactionTarget ? { channel, ts, reactionTarget } : { channel, ts };
+  }
+
+  /**
+   * Finds a human's answer reaction on a message.
+   *
+   * The bot pre-adds every answer reaction, so when its user ID is not
+   * configured a second user on the same emoji is taken to be the human.
+   * Reactions in `delivered` have been returned before and are skipped;
+   * the one returned is added to it.
+   */
+  async function findOptionReaction(
+    channel: string,
+    messageTs: string,
+    botEmail: string,
+    delivered: Set<string>,
+    signal: AbortSignal,
+  ): Promise<ChatMessage | null> {
+    const data = await callApi<{ message?: { reactions?: SlackReaction[] } }>(
+      "reactions.get",
+      { query: { channel, timestamp: messageTs, full: "true" } },
+      signal,
+    );
+
+    for (const reaction of data.message?.reactions ?? []) {
+      const answer = fromNativeEmoji(reaction.name, "slack");
+      if (!answer) {
+        continue;
+      }
+      const users = reaction.users ?? [];
+      const humans = botEmail
+        ? users.filter((user) => user !== botEmail)
+        : (reaction.count ?? users.length) > 1
+          ? users.slice(-1)
+          : [];
+      const human = humans.find((user) => !delivered.has(`${answer} ${user}`));
+      if (human) {
+        delivered.add(`${answer} ${human}`);
+        return {
+          id: messageTs,
+          sender_email: human,
+          content: "",
+          reaction: answer,
+        };
+      }
+    }
+    return null;
+  }
+
+  const client: ChatClient = {
+    /**
+     * Posts a message to a Slack channel.
+     *
+     * When `topic` is a thread timestamp the message is posted as a threaded
+     * reply; otherwise it starts a new thread headed by the topic text.
+     *
+     * @returns The `ts` of the posted message
+     * @throws {Error} If the API request fails
+     */
+    async postMessage(
+      stream: string,
+      topic: string,
+      content: string,
+    ): Promise<string> {
+      const isReply = SLACK_TS_PATTERN.test(topic);
+      const text = isReply
+        ? toSlackMrkdwn(content)
+        : `*${escapeSlackText(topic)}*\n\n${toSlackMrkdwn(content)}`;
+
+      const data = await callApi<{ ts: string }>("chat.postMessage", {
+        body: {
+          channel: stream,
+          text,
+          ...(isReply ? { thread_ts: topic } : {}),
+        },
+      });
+      return data.ts;
+    },
+
+    /**
+     * New questions are threaded under their own message.
+     */
+    resolveThreadId(topic: string, postedMessageId: string): string {
+      return SLACK_TS_PATTERN.test(topic) ? topic : postedMessageId;
+    },
+
+    /**
+     * Adds an emoji reaction to a message.
+     *
+     * @throws {Error} If the API request fails
+     */
+    async addReaction(
+      stream: string,
+      messageId: string,
+      emoji: string,
+    ): Promise<void> {
+      await callApi("reactions.add", {
+        body: {
+          channel: stream,
+          timestamp: messageId,
+          name: toNativeEmoji(emoji, "slack") ?? emoji,
+        },
+      });
+    },
+
+    /**
+     * Links to the channel; thread permalinks need the workspace domain.
+     */
+    formatThreadLink(stream: string, threadId: string): string {
+      void threadId;
+      return `<#${stream}>`;
+    },
+
+    /**
+     * Slack has no server-side event queue; the subscription records the
+     * thread and the newest message already in it (plus the message whose
+     * reactions to watch, if any).
+     *
+     * @returns The queue ID (`channel:thread_ts[:reaction_ts]`) and the latest
+     * thread `ts`
+     * @throws {Error} If the API request fails
+     */
+    async registerEventQueue(
+      stream: string,
+      topic: string,
+      reactionMessageId?: string,
+    ): Promise<{ queueId: string; lastEventId: string }> {
+      const data = await callApi<{ messages?: SlackReply[] }>(
+        "conversations.replies",
+        { query: { channel: stream, ts: topic, limit: "1000" } },
+      );
+
+      let lastEventId = topic;
+      for (const message of data.messages ?? []) {
+        if (compareTs(message.ts, lastEventId) > 0) {
+          lastEventId = message.ts;
+        }
+      }
+
+      const queueId = reactionMessageId
+        ? `${stream}:${topic}:${reactionMessageId}`
+        : `${stream}:${topic}`;
+      return { queueId, lastEventId };
+    },
+
+    /**
+     * Reads the thread after `afterMessageId` and returns the first human
+     * reply that `accept` takes, since the subscription only starts at the
+     * newest message.
+     *
+     * @returns The human message, or null if there is none yet
+     * @throws {Error} If the API request fails
+     */
+    async findReplySince(
+      stream: string,
+      topic: string,
+      afterMessageId: string,
+      botEmail: string,
+      accept?: (message: ChatMessage) => Promise<boolean>,
+    ): Promise<ChatMessage | null> {
+      const data = await callApi<{ messages?: SlackReply[] }>(
+        "conversations.replies",
+        {
+          query: {
+            channel: stream,
+            ts: topic,
+            oldest: afterMessageId,
+            inclusive: "false",
+            limit: "200",
+          },
+        },
+      );
+
+      const candidates = (data.messages ?? [])
+        .filter((message) => compareTs(message.ts, afterMessageId) > 0)
+        .sort((a, b) => compareTs(a.ts, b.ts))
+        .filter((message) => isHumanReply(message, botEmail));
+      for (const message of candidates) {
+        if (!message.user) {
+          continue;
+        }
+        const reply: ChatMessage = {
+          id: message.ts,
+          sender_email: message.user,
+          content: message.text ?? "",
+        };
+        if (!accept || (await accept(reply))) {
+          return reply;
+        }
+      }
+      return null;
+    },
+
+    /**
+     * Polls the thread until a human posts a reply or reacts with an answer
+     * emoji on the watched message.
+     *
+     * Messages from any bot (including this one) are ignored.
+     *
+     * @returns The human message, or null if aborted
+     * @throws {Error} On fatal API errors (after retries)
+     */
+    async pollForReply(
+      queueId: string,
+      lastEventId: string,
+      botEmail: string,
+      signal: AbortSignal,
+    ): Promise<ChatMessage | null> {
+      const { channel, ts, reactionTarget } = parseQueueId(queueId);
+      let currentLastEventId = lastEventId;
+      let retryCount = 0;
+      const maxRetries = 10;
+
+      while (!signal.aborted) {
+        let delay = pollIntervalMs;
+
+        try {
+          const data = await callApi<{ messages?: SlackReply[] }>(
+            "conversations.replies",
+            {
+              query: {
+                channel,
+                ts,
+                oldest: currentLastEventId,
+                inclusive: "false",
+                limit: "200",
+              },
+            },
+            signal,
+          );
+
+          // Reset retry count on success
+          retryCount = 0;
+
+          const newMessages = (data.messages ?? [])
+            .filter((message) => compareTs(message.ts, currentLastEventId) > 0)
+            .sort((a, b) => compareTs(a.ts, b.ts));
+
+          for (const message of newMessages) {
+            currentLastEventId = message.ts;
+            if (isHumanReply(message, botEmail) && message.user) {
+              return {
+                id: message.ts,
+                sender_email: message.user,
+                content: message.text ?? "",
+                lastEventId: currentLastEventId,
+              };
+            }
+          }
+
+          if (reactionTarget) {
+            let delivered = deliveredReactions.get(queueId);
+            if (!delivered) {
+              delivered = new Set();
+              deliveredReactions.set(queueId, delivered);
+            }
+            const reaction = await findOptionReaction(
+              channel,
+              reactionTarget,
+              botEmail,
+              delivered,
+              signal,
+            );
+            if (reaction) {
+              return { ...reaction, lastEventId: currentLastEventId };
+            }
+          }
+        } catch (error) {
+          if (signal.aborted) {
+            return null;
+          }
+
+          const { status, retryAfter } = error as {
+            status?: number;
+            retryAfter?: string | null;
+          };
+          const retryable =
+            error instanceof TypeError ||
+            status === 429 ||
+            (status != null && status >= 500);
+          if (!retryable || retryCount >= maxRetries) {
+            throw error;
+          }
+
+          delay =
+            status === 429 && retryAfter
+              ? Number(retryAfter) * 1000
+              : Math.min(pollIntervalMs * 2 ** retryCount, 60000);
+          retryCount++;
+        }
+
+        const delayElapsed = await waitWithAbort(delay, signal);
+        if (!delayElapsed) {
+          return null;
+        }
+      }
+
+      // Aborted
+      return null;
+    },
+
+    /**
+     * Looks up the user's `is_bot` flag with users.info, caching the answer.
+     *
+     * @throws {Error} If the API request fails
+     */
+    async isBotUser(userId: string): Promise<boolean> {
+      const cached = botUsers.get(userId);
+      if (cached !== undefined) {
+        return cached;
+      }
+
+      const data = await callApi<{ user?: { is_bot?: boolean } }>(
+        "users.info",
+        { query: { user: userId } },
+      );
+      const isBot = data.user?.is_bot === true;
+      botUsers.set(userId, isBot);
+      return isBot;
+    },
+
+    /**
+     * Lists the members of a user group, by its ID (`S0123...`).
+     *
+     * @throws {Error} If the API request fails
+     */
+    async getUserGroupMembers(group: string): Promise<string[]> {
+      const data = await callApi<{ users?: string[] }>(
+        "usergroups.users.list",
+        { query: { usergroup: group } },
+      );
+      return data.users ?? [];
+    },
+
+    /**
+     * Forgets the subscription: Slack subscriptions are client-side only.
+     */
+    async deregisterQueue(queueId: string): Promise<void> {
+      deliveredReactions.delete(queueId);
+    },
+  };
+
+  return client;
+}
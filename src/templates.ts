@@ -0,0 +1,136 @@
+/**
+ * Message templates for ask_human questions.
+ *
+ * Teams can replace the default layout of first questions and follow-ups
+ * with their own templates (`HUMAN_LOOP_QUESTION_TEMPLATE`,
+ * `HUMAN_LOOP_FOLLOW_UP_TEMPLATE`). Templates are plain text with
+ * `{{placeholder}}` fields; unknown placeholders are rejected by
+ * `loadConfig()`.
+ */
+
+/**
+ * Fields a template can reference.
+ */
+export const TEMPLATE_PLACEHOLDERS = [
+  "question",
+  "context",
+  "confidence",
+  "repository",
+  "branch",
+  "commit",
+  "cwd",
+  "host",
+  "model",
+  "session_id",
+  "metadata",
+  "follow_up_number",
+  "attachments",
+  "options",
+  "instructions",
+] as const;
+
+export type TemplatePlaceholder = (typeof TEMPLATE_PLACEHOLDERS)[number];
+
+/**
+ * Values to substitute; missing ones render as empty text.
+ */
+export type TemplateValues = Partial<Record<TemplatePlaceholder, string>>;
+
+/**
+ * User-supplied templates (their contents, not paths).
+ */
+export interface MessageTemplates {
+  question?: string;
+  followUp?: string;
+}
+
+/**
+ * Fields whose contents the human needs to answer. Templates that leave
+ * them out get them appended, so the options stay answerable.
+ */
+const REQUIRED_BLOCKS: TemplatePlaceholder[] = ["attachments", "options"];
+
+export const DEFAULT_QUESTION_TEMPLATE = `🤖 **Agent needs help**
+
+**Question:** {{question}}
+
+**Context:**
+{{context}}
+
+**Confidence:** {{confidence}}/100
+
+{{attachments}}
+
+{{options}}
+
+{{instructions}}
+
+{{metadata}}`;
+
+export const DEFAULT_FOLLOW_UP_TEMPLATE = `🤖 **Follow-up:**
+
+{{question}}
+
+{{attachments}}
+
+{{options}}
+
+{{instructions}}
+
+{{metadata}}`;
+
+const PLACEHOLDER_PATTERN = /\{\{\s*([\w-]+)\s*\}\}/g;
+
+/**
+ * Lists the placeholders a template uses, in order of first use.
+ */
+export function templatePlaceholders(template: string): string[] {
+  const names: string[] = [];
+  for (const match of template.matchAll(PLACEHOLDER_PATTERN)) {
+    const name = match[1] ?? "";
+    if (!names.includes(name)) {
+      names.push(name);
+    }
+  }
+  return names;
+}
+
+/**
+ * Lists the placeholders a template uses that are not in
+ * `TEMPLATE_PLACEHOLDERS`.
+ */
+export function findUnknownPlaceholders(template: string): string[] {
+  return templatePlaceholders(template).filter(
+    (name) => !(TEMPLATE_PLACEHOLDERS as readonly string[]).includes(name),
+  );
+}
+
+/**
+ * Fills in a template.
+ *
+ * A line holding only a placeholder whose value is empty is removed,
+ * together with the blank line before it, so optional blocks leave no gaps.
+ */
+export function renderTemplate(
+  template: string,
+  values: TemplateValues,
+): string {
+  const used = templatePlaceholders(template);
+  const missing = REQUIRED_BLOCKS.filter(
+    (name) => values[name] && !used.includes(name),
+  ).map((name) => `\n\n{{${name}}}`);
+  const value = (name: string) => values[name as TemplatePlaceholder] ?? "";
+
+  const output: string[] = [];
+  for (const line of `${template}${missing.join("")}`.split("\n")) {
+    const standalone = /^\s*\{\{\s*([\w-]+)\s*\}\}\s*$/.exec(line);
+    if (standalone && value(standalone[1] ?? "") === "") {
+      if (output.at(-1)?.trim() === "") {
+        output.pop();
+      }
+      continue;
+    }
+    output.push(line.replace(PLACEHOLDER_PATTERN, (_, name) => value(name)));
+  }
+  return output.join("\n").trim();
+}
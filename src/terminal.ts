@@ -0,0 +1,140 @@
+/**
+ * Local terminal fallback for ask_human and request_approval.
+ *
+ * Asks the developer sitting at the Pi TUI through `ctx.ui` dialogs when no
+ * chat backend is configured, or when the terminal backend is selected.
+ */
+
+import type {
+  ExtensionUIContext,
+  ExtensionUIDialogOptions,
+} from "@mariozechner/pi-coding-agent";
+
+/**
+ * The question fields shown in the terminal dialog.
+ */
+export interface TerminalQuestion {
+  question: string;
+  context: string;
+  confidence: number;
+  options?: string[];
+}
+
+/**
+ * Formats the dialog title for a question.
+ */
+export function formatTerminalPrompt(
+  question: TerminalQuestion,
+  isFollowUp: boolean,
+): string {
+  if (isFollowUp) {
+    return `🤖 Follow-up:\n\n${question.question}`;
+  }
+
+  const contextLines = question.context.split("\n").slice(0, 10).join("\n");
+  const contextBlock = contextLines.trim()
+    ? `\n\nContext:\n${contextLines}`
+    : "";
+  return `🤖 Agent needs help (confidence ${question.confidence}/100)\n\n${question.question}${contextBlock}`;
+}
+
+/**
+ * Builds the dialog options for an optional signal and timeout.
+ */
+function dialogOptions(
+  signal: AbortSignal | undefined,
+  timeoutMs: number | undefined,
+): ExtensionUIDialogOptions | undefined {
+  return signal || timeoutMs != null
+    ? {
+        ...(signal ? { signal } : {}),
+        ...(timeoutMs != null ? { timeout: timeoutMs } : {}),
+      }
+    : undefined;
+}
+
+/**
+ * Whether a dismissed dialog was closed by its timeout rather than by the
+ * developer or an abort.
+ */
+function expired(
+  startedAt: number,
+  signal: AbortSignal | undefined,
+  timeoutMs: number | undefined,
+): boolean {
+  return (
+    timeoutMs != null && !signal?.aborted && Date.now() - startedAt >= timeoutMs
+  );
+}
+
+/**
+ * Outcome of asking in the terminal.
+ */
+export interface TerminalAnswer {
+  /** The trimmed answer, or null if none was given. */
+  answer: string | null;
+  /** Whether the dialog closed because the timeout expired. */
+  timedOut: boolean;
+}
+
+/**
+ * Shows the question in an input dialog (or a selector, for multiple-choice
+ * questions) and waits for the developer's answer.
+ *
+ * The dialog is dismissed automatically after `timeoutMs`, if given.
+ */
+export async function askInTerminal(
+  ui: ExtensionUIContext,
+  question: TerminalQuestion,
+  isFollowUp: boolean,
+  signal: AbortSignal | undefined,
+  timeoutMs?: number,
+): Promise<TerminalAnswer> {
+  const startedAt = Date.now();
+  const title = formatTerminalPrompt(question, isFollowUp);
+  const opts = dialogOptions(signal, timeoutMs);
+  const answer = question.options?.length
+    ? await ui.select(title, question.options, opts)
+    : await ui.input(title, "Type your answer for the agent...", opts);
+
+  const trimmed = answer?.trim();
+  if (trimmed) {
+    return { answer: trimmed, timedOut: false };
+  }
+
+  return { answer: null, timedOut: expired(startedAt, signal, timeoutMs) };
+}
+
+/**
+ * Outcome of an approval confirmation in the terminal.
+ */
+export interface TerminalApproval {
+  approved: boolean;
+  /** Whether the dialog closed because the timeout expired. */
+  timedOut: boolean;
+}
+
+/**
+ * Asks the developer to approve an action in a confirmation dialog.
+ *
+ * The dialog is dismissed (as a denial) after `timeoutMs`, if given.
+ */
+export async function confirmInTerminal(
+  ui: ExtensionUIContext,
+  title: string,
+  message: string,
+  signal: AbortSignal | undefined,
+  timeoutMs?: number,
+): Promise<TerminalApproval> {
+  const startedAt = Date.now();
+  const approved = await ui.confirm(
+    title,
+    message,
+    dialogOptions(signal, timeoutMs),
+  );
+
+  return {
+    approved,
+    timedOut: !approved && expired(startedAt, signal, timeoutMs),
+  };
+}
@@ -0,0 +1,193 @@
+/**
+ * Approval policy for dangerous tool calls.
+ *
+ * Hooks Pi's `tool_call` event and, when a bash command or a file write/edit
+ * matches `config.approvalPolicy`, holds the call until a human approves it
+ * through `requestApproval()`. Anything other than an approval blocks the
+ * call, and the human's reason is passed back to the agent.
+ */
+
+import path from "node:path";
+import {
+  type ExtensionContext,
+  isToolCallEventType,
+  type ToolCallEvent,
+} from "@mariozechner/pi-coding-agent";
+import { type ApprovalDecision, requestApproval } from "./approval.js";
+import type { ChatClient } from "./chat-client.js";
+import type { ApprovalPolicy, Config } from "./config.js";
+import { matchesGlob } from "./glob.js";
+import { confirmInTerminal } from "./terminal.js";
+import { formatDuration } from "./wait.js";
+
+/**
+ * What the `tool_call` handler returns to block a call.
+ */
+type BlockResult = { block: true; reason: string };
+
+/**
+ * A tool call that matched the approval policy.
+ */
+export interface GuardedCall {
+  toolName: "bash" | "write" | "edit";
+  /** The command, or the path relative to the working directory. */
+  target: string;
+  /** The configured pattern that matched. */
+  pattern: string;
+  /** Short description of the change, for file writes and edits. */
+  summary?: string;
+}
+
+/**
+ * Counts the lines in a block of text.
+ */
+function countLines(text: string): number {
+  return text === "" ? 0 : text.split("\n").length;
+}
+
+/**
+ * Normalises a tool path to a `/`-separated path relative to `cwd`.
+ */
+function relativePath(filePath: string, cwd: string): string {
+  const relative = path.relative(cwd, path.resolve(cwd, filePath));
+  return relative.split(path.sep).join("/");
+}
+
+/**
+ * Checks a tool call against the approval policy.
+ *
+ * @returns The matching call, or null if it may run without approval
+ */
+export function matchApprovalPolicy(
+  policy: ApprovalPolicy,
+  event: ToolCallEvent,
+  cwd: string,
+): GuardedCall | null {
+  if (isToolCallEventType("bash", event)) {
+    const command = event.input.command;
+    const pattern = policy.commandPatterns.find((regex) => regex.test(command));
+    return pattern
+      ? { toolName: "bash", target: command, pattern: pattern.source }
+      : null;
+  }
+
+  if (
+    isToolCallEventType("write", event) ||
+    isToolCallEventType("edit", event)
+  ) {
+    const target = relativePath(event.input.path, cwd);
+    const pattern = policy.pathPatterns.find((glob) =>
+      matchesGlob(target, glob),
+    );
+    if (!pattern) {
+      return null;
+    }
+
+    const summary = isToolCallEventType("write", event)
+      ? `Writes ${countLines(event.input.content)} lines`
+      : `Replaces ${countLines(event.input.oldText)} lines with ${countLines(event.input.newText)} lines`;
+    return { toolName: event.toolName, target, pattern, summary };
+  }
+
+  return null;
+}
+
+/**
+ * Explains why a call was blocked, for the agent.
+ */
+function blockReason(decision: ApprovalDecision, timeoutMs?: number): string {
+  const reason = decision.reason ? `: ${decision.reason}` : "";
+  switch (decision.status) {
+    case "denied":
+      return `Denied by ${decision.approver ?? "a human"}${reason}`;
+    case "timed_out":
+      return `No approval within ${formatDuration(timeoutMs ?? 0)}; the call was not run`;
+    default:
+      return "Approval request cancelled; the call was not run";
+  }
+}
+
+/**
+ * Creates the `tool_call` handler that enforces the approval policy.
+ *
+ * Without a policy every call passes through. With a policy but no way to
+ * ask a human (no chat backend and no interactive UI), matching calls are
+ * blocked.
+ */
+export function createToolCallGuard(
+  config: Config | null,
+  chatClient: ChatClient | null,
+): (
+  event: ToolCallEvent,
+  ctx: ExtensionContext,
+) => Promise<BlockResult | undefined> {
+  return async (event, ctx) => {
+    const policy = config?.approvalPolicy;
+    if (!config || !policy) {
+      return undefined;
+    }
+
+    const call = matchApprovalPolicy(policy, event, ctx.cwd);
+    if (!call) {
+      return undefined;
+    }
+
+    const verb =
+      call.toolName === "bash"
+        ? "Run a shell command"
+        : `${call.toolName === "write" ? "Write" : "Edit"} \`${call.target}\``;
+    const action = `${verb} (matches approval pattern \`${call.pattern}\`)`;
+
+    try {
+      let decision: ApprovalDecision;
+      if (chatClient) {
+        decision = await requestApproval(
+          config,
+          chatClient,
+          {
+            action,
+            ...(call.toolName === "bash" ? { command: call.target } : {}),
+            ...(call.summary ? { diff_summary: call.summary } : {}),
+            risk: "high",
+          },
+          undefined,
+        );
+      } else if (ctx.hasUI) {
+        const { approved, timedOut } = await confirmInTerminal(
+          ctx.ui,
+          "🛡️ Approve high-risk tool call?",
+          [action, call.toolName === "bash" ? call.target : call.summary]
+            .filter(Boolean)
+            .join("\n\n"),
+          undefined,
+          config.timeoutMs,
+        );
+        decision = timedOut
+          ? { approved, status: "timed_out" }
+          : {
+              approved,
+              status: approved ? "approved" : "denied",
+              approver: "terminal",
+            };
+      } else {
+        return {
+          block: true,
+          reason:
+            "This call requires human approval, but no chat backend or interactive UI is available",
+        };
+      }
+
+      return decision.approved
+        ? undefined
+        : { block: true, reason: blockReason(decision, config.timeoutMs) };
+    } catch (error) {
+      // Fail closed: an unreachable approver never means approval
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+      return {
+        block: true,
+        reason: `Could not request human approval: ${errorMessage}`,
+      };
+    }
+  };
+}
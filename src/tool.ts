@@ -1,7 +1,7 @@
 /**
  * ask_human tool definition and execute logic.
  *
- * Wires config and Zulip client, formats messages, handles `thread_id`
+ * Wires config and chat client, formats messages, handles `thread_id`
  * for follow-ups, and supports `signal.aborted` for cancellation.
  */
 
@@ -12,9 +12,53 @@ import type {
   ExtensionContext,
 } from "@mariozechner/pi-coding-agent";
 import { Type } from "@sinclair/typebox";
+import {
+  downloadAttachments,
+  formatAttachments,
+  uploadAttachments,
+} from "./attachments.js";
+import {
+  BACKEND_LABELS,
+  type ChatClient,
+  type ChatMessage,
+  formatTopic,
+} from "./chat-client.js";
+import {
+  formatOptions,
+  MAX_OPTIONS,
+  matchOption,
+  OPTION_EMOJIS,
+} from "./choices.js";
+import {
+  type CollectedMessage,
+  collectReplies,
+  DONE_COMMAND,
+} from "./collect.js";
 import type { Config } from "./config.js";
+import { type RenderedContext, renderContext } from "./context.js";
+import {
+  type ConversationStore,
+  createConversationStore,
+} from "./conversation-store.js";
+import { startEscalation } from "./escalation.js";
+import { collectMetadata, formatMetadata } from "./metadata.js";
 import { registerQueue, unregisterQueue } from "./queue-registry.js";
-import type { ZulipClient } from "./zulip-client.js";
+import { resolveRoute } from "./routing.js";
+import {
+  getThreadStream,
+  recordQuestion,
+  trackPendingQuestion,
+  trackSessionThread,
+  untrackPendingQuestion,
+} from "./session-activity.js";
+import {
+  DEFAULT_FOLLOW_UP_TEMPLATE,
+  DEFAULT_QUESTION_TEMPLATE,
+  renderTemplate,
+  type TemplateValues,
+} from "./templates.js";
+import { askInTerminal } from "./terminal.js";
+import { formatDuration, withDeadline } from "./wait.js";
 
 /**
  * Parameters for the ask_human tool.
@@ -24,6 +68,11 @@ export interface AskHumanParams {
   context: string;
   confidence: number;
   thread_id?: string;
+  timeout_seconds?: number;
+  default_answer?: string;
+  options?: string[];
+  attachments?: string[];
+  category?: string;
 }
 
 type RegisterToolArgument = Parameters<ExtensionAPI["registerTool"]>[0];
@@ -32,6 +81,17 @@ type AskHumanToolDetails = {
   thread_id?: string;
   responder?: string;
   status?: string;
+  /** Zero-based index of the chosen option, for multiple-choice questions. */
+  option_index?: number;
+  option?: string;
+  /** URLs linked from the reply. */
+  links?: string[];
+  /** Local copies of files the human uploaded with the reply. */
+  files?: string[];
+  /** Whether the human only saw part of the context. */
+  context_truncated?: boolean;
+  /** Each message of a collected reply, with its sender. */
+  messages?: CollectedMessage[];
 };
 
 interface AskHumanToolResult extends AgentToolResult<AskHumanToolDetails> {
@@ -51,12 +111,12 @@ type AskHumanTool = Omit<RegisterToolArgument, "execute"> & {
 
 /**
  * Generates a topic name for a new question.
+ *
+ * @param prefix Routing rule's topic prefix, if any
  */
-function generateTopic(summary: string, questionNumber?: number): string {
-  const shortSummary =
-    summary.length > 50 ? `${summary.slice(0, 47)}...` : summary;
-  const num = questionNumber ?? Date.now().toString(36);
-  return `Agent Q #${num} — ${shortSummary}`;
+function generateTopic(summary: string, prefix?: string): string {
+  const head = `Agent Q #${Date.now().toString(36)}`;
+  return formatTopic(prefix ? `${prefix} ${head}` : head, summary);
 }
 
 /**
@@ -69,28 +129,218 @@ function extractSummary(question: string): string {
 }
 
 /**
- * Formats the message for posting to Zulip.
+ * Formats the message for posting to the chat backend.
+ *
+ * @param template The team's template, or a default layout
+ * @param values Template values beyond those taken from the parameters
  */
-function formatMessage(params: AskHumanParams, isFollowUp: boolean): string {
-  if (isFollowUp) {
-    return `🤖 **Follow-up:**
+function formatMessage(
+  params: AskHumanParams,
+  template: string,
+  collecting: boolean,
+  values: TemplateValues = {},
+): string {
+  const instructions = collecting
+    ? `_Reply in this topic. The agent is waiting for your response; send \`${DONE_COMMAND}\` or react with ✅ when you have finished._`
+    : "_Reply in this topic. The agent is waiting for your response._";
+
+  return renderTemplate(template, {
+    question: params.question,
+    context: params.context,
+    confidence: String(params.confidence),
+    ...(params.options?.length
+      ? { options: formatOptions(params.options) }
+      : {}),
+    instructions,
+    ...values,
+  });
+}
 
-${params.question}
+/**
+ * Returns a human reply that is already in the conversation, posted after
+ * `messageId`, if the backend can look one up.
+ *
+ * Best-effort: lookup failures leave the caller to poll as usual.
+ */
+async function findReplySince(
+  chatClient: ChatClient,
+  config: Config,
+  stream: string,
+  threadId: string,
+  messageId: string,
+): Promise<ChatMessage | null> {
+  try {
+    return (
+      (await chatClient.findReplySince?.(
+        stream,
+        threadId,
+        messageId,
+        config.botEmail,
+      )) ?? null
+    );
+  } catch {
+    return null;
+  }
+}
 
-_Reply in this topic. The agent is waiting for your response._`;
+/**
+ * Builds the result for a human's answer, resolving it to an option for
+ * multiple-choice questions.
+ */
+function answerResult(
+  answer: Pick<ChatMessage, "content" | "reaction" | "links">,
+  threadId: string,
+  responder: string,
+  options: string[] | undefined,
+): AskHumanToolResult {
+  const optionIndex = options ? matchOption(options, answer) : null;
+  if (options && optionIndex !== null) {
+    const option = options[optionIndex]!;
+    return {
+      content: [
+        {
+          type: "text",
+          text: `Human chose option ${optionIndex + 1}: ${option}`,
+        },
+      ],
+      isError: false,
+      details: {
+        thread_id: threadId,
+        responder,
+        option_index: optionIndex,
+        option,
+      },
+    };
   }
 
-  const contextLines = params.context.split("\n").slice(0, 10).join("\n");
-  return `🤖 **Agent needs help**
+  const text = answer.reaction ? `:${answer.reaction}:` : answer.content;
+  return {
+    content: [{ type: "text", text: `Human replied: ${text}` }],
+    isError: false,
+    details: {
+      thread_id: threadId,
+      responder,
+      ...(answer.links?.length ? { links: answer.links } : {}),
+    },
+  };
+}
 
-**Question:** ${params.question}
+/**
+ * Builds the result for a reply collected from several messages.
+ *
+ * Messages are joined in order; when more than one person replied, each is
+ * prefixed with its sender. `details.messages` always attributes them.
+ */
+function collectedResult(
+  messages: ChatMessage[],
+  threadId: string,
+  options: string[] | undefined,
+): AskHumanToolResult {
+  const first = messages[0]!;
+  const senders = new Set(messages.map((message) => message.sender_email));
+  const content = messages
+    .map((message) =>
+      senders.size > 1
+        ? `${message.sender_email}: ${message.content}`
+        : message.content,
+    )
+    .join("\n\n");
+
+  const links = [
+    ...new Set(messages.flatMap((message) => message.links ?? [])),
+  ];
+  const result = answerResult(
+    messages.length === 1 ? first : { content, links },
+    threadId,
+    first.sender_email,
+    options,
+  );
+  result.details.messages = messages.map(
+    (message): CollectedMessage => ({
+      sender: message.sender_email,
+      content: message.reaction ? `:${message.reaction}:` : message.content,
+    }),
+  );
+  return result;
+}
 
-**Context:**
-${contextLines}
+/**
+ * Builds the result returned when nobody answers before the timeout.
+ */
+function timedOutResult(
+  threadId: string,
+  timeoutMs: number,
+  defaultAnswer: string | undefined,
+): AskHumanToolResult {
+  const guidance = defaultAnswer
+    ? `Proceed with your default answer: ${defaultAnswer}`
+    : "Proceed using your best judgment.";
+  return {
+    content: [
+      {
+        type: "text",
+        text: `No human replied within ${formatDuration(timeoutMs)}. ${guidance}`,
+      },
+    ],
+    isError: false,
+    details: { thread_id: threadId, status: "timed_out" },
+  };
+}
 
-**Confidence:** ${params.confidence}/100
+/**
+ * Tells the agent when the human only saw part of the context, whatever
+ * became of the question.
+ */
+function withContextNote(
+  result: AskHumanToolResult,
+  contextCut: RenderedContext | null,
+): AskHumanToolResult {
+  if (contextCut) {
+    const shown =
+      contextCut.shownLength != null
+        ? `${contextCut.shownLength} of ${contextCut.totalLength} context characters`
+        : `${contextCut.shownLines} of ${contextCut.totalLines} context lines`;
+    result.content[0]!.text +=
+      `\n\n(The human only saw the first ${shown}; attach a file to share the rest.)`;
+    result.details.context_truncated = true;
+  }
+  return result;
+}
 
-_Reply in this topic. The agent is waiting for your response._`;
+/**
+ * Records each question and how it ended in the session history.
+ */
+function withSessionHistory(tool: AskHumanTool): AskHumanTool {
+  return {
+    ...tool,
+    async execute(toolCallId, params, signal, onUpdate, ctx) {
+      const askedAt = Date.now();
+      const result = await tool.execute(
+        toolCallId,
+        params,
+        signal,
+        onUpdate,
+        ctx,
+      );
+      const { details } = result;
+      recordQuestion({
+        question: (params as AskHumanParams).question,
+        ...(details.thread_id ? { threadId: details.thread_id } : {}),
+        outcome: result.isError
+          ? "failed"
+          : details.status === "timed_out"
+            ? "timed_out"
+            : details.responder
+              ? "answered"
+              : "cancelled",
+        answer: result.content[0]?.text ?? "",
+        ...(details.responder ? { responder: details.responder } : {}),
+        askedAt,
+        finishedAt: Date.now(),
+      });
+      return result;
+    },
+  };
 }
 
 /**
@@ -98,14 +348,40 @@ _Reply in this topic. The agent is waiting for your response._`;
  */
 export function createAskHumanTool(
   config: Config | null,
-  zulipClient: ZulipClient | null,
+  chatClient: ChatClient | null,
   configError: Error | null = null,
 ): AskHumanTool {
-  return {
+  const isTerminal = config?.backend === "terminal";
+  const backendLabel =
+    config && config.backend !== "terminal"
+      ? BACKEND_LABELS[config.backend]
+      : "Zulip";
+
+  // Categories the routing rules know, for the parameter description
+  const categories = [
+    ...new Set(config?.routes?.flatMap((rule) => rule.categories) ?? []),
+  ];
+
+  // Follow-ups asked so far in each thread, this session
+  const followUps = new Map<string, number>();
+
+  // One store per project directory, so its writes stay serialised
+  const stores = new Map<string, ConversationStore>();
+  const conversationStore = (cwd: string): ConversationStore => {
+    let store = stores.get(cwd);
+    if (!store) {
+      store = createConversationStore(cwd);
+      stores.set(cwd, store);
+    }
+    return store;
+  };
+
+  return withSessionHistory({
     name: "ask_human",
     label: "Ask Human",
-    description:
-      "Post a question to the team's Zulip chat and wait for a human response",
+    description: isTerminal
+      ? "Ask the developer at the Pi terminal a question and wait for their answer"
+      : `Post a question to the team's ${backendLabel} chat and wait for a human response`,
     parameters: Type.Object({
       question: Type.String({
         description: "The question to ask the human",
@@ -126,16 +402,49 @@ export function createAskHumanTool(
             "Continue an existing conversation. Use the thread_id from a previous ask_human response.",
         }),
       ),
+      timeout_seconds: Type.Optional(
+        Type.Number({
+          description:
+            "Stop waiting after this many seconds and proceed without an answer. Overrides the configured default.",
+          minimum: 1,
+        }),
+      ),
+      default_answer: Type.Optional(
+        Type.String({
+          description:
+            "The answer you will assume if nobody replies before the timeout",
+        }),
+      ),
+      options: Type.Optional(
+        Type.Array(Type.String(), {
+          description:
+            "Offer a fixed set of answers (e.g. approaches to choose between). The human picks one by emoji reaction or by replying with its number; the chosen index is returned in details.option_index.",
+          minItems: 2,
+          maxItems: MAX_OPTIONS,
+        }),
+      ),
+      attachments: Type.Optional(
+        Type.Array(Type.String(), {
+          description:
+            "Paths of files to upload with the question (e.g. a build log or a patch), relative to the working directory. Files outside it cannot be attached",
+        }),
+      ),
+      category: Type.Optional(
+        Type.String({
+          description: categories.length
+            ? `Area the question is about, so it reaches the right team: one of ${categories.join(", ")}`
+            : "Area the question is about (e.g. payments, infra), so it reaches the right team",
+        }),
+      ),
     }),
     async execute(
       _toolCallId: string,
       params: unknown,
       signal: AbortSignal | undefined,
       onUpdate: AgentToolUpdateCallback<AskHumanToolDetails> | undefined,
-      _ctx: ExtensionContext,
+      ctx: ExtensionContext,
     ) {
       void _toolCallId;
-      void _ctx;
 
       try {
         // Check for abort at start
@@ -147,11 +456,60 @@ export function createAskHumanTool(
           };
         }
 
+        const askParams = params as AskHumanParams;
+        const isFollowUp = askParams.thread_id != null;
+        const timeoutMs =
+          askParams.timeout_seconds != null
+            ? askParams.timeout_seconds * 1000
+            : config?.timeoutMs;
+
+        // Fall back to Pi's own UI when no chat backend is available
+        const chatUnavailable = configError != null || !config || !chatClient;
+        if ((isTerminal || chatUnavailable) && ctx.hasUI) {
+          const threadId = isFollowUp
+            ? askParams.thread_id!
+            : generateTopic(extractSummary(askParams.question));
+          const { answer, timedOut } = await askInTerminal(
+            ctx.ui,
+            askParams,
+            isFollowUp,
+            signal,
+            timeoutMs,
+          );
+
+          if (timedOut && timeoutMs != null) {
+            return timedOutResult(
+              threadId,
+              timeoutMs,
+              askParams.default_answer,
+            );
+          }
+
+          if (answer === null) {
+            return {
+              content: [
+                { type: "text", text: "Human consultation cancelled." },
+              ],
+              isError: false,
+              details: {},
+            };
+          }
+
+          return answerResult(
+            { content: answer },
+            threadId,
+            "terminal",
+            askParams.options,
+          );
+        }
+
         // Check for configuration error
-        if (configError || !config || !zulipClient) {
+        if (configError || !config || !chatClient) {
           const errorMsg = configError
             ? configError.message
-            : "Configuration not loaded. Please ensure all required environment variables are set: ZULIP_SERVER_URL, ZULIP_BOT_EMAIL, ZULIP_BOT_API_KEY, ZULIP_STREAM";
+            : isTerminal
+              ? "The terminal backend needs Pi's interactive UI, which is not available in print mode"
+              : "Configuration not loaded. Please ensure all required environment variables are set: ZULIP_SERVER_URL, ZULIP_BOT_EMAIL, ZULIP_BOT_API_KEY, ZULIP_STREAM";
           return {
             content: [
               {
@@ -164,38 +522,190 @@ export function createAskHumanTool(
           };
         }
 
-        const askParams = params as AskHumanParams;
-        const isFollowUp = askParams.thread_id != null;
+        // Pick the stream: follow-ups stay in their question's stream, new
+        // questions go where the routing rules send them
+        const route = resolveRoute(config.routes, config.stream, {
+          ...(askParams.category ? { category: askParams.category } : {}),
+          text: [askParams.context, ...(askParams.attachments ?? [])].join(
+            "\n",
+          ),
+          ...(ctx.cwd ? { cwd: ctx.cwd } : {}),
+        });
+        const store = ctx.cwd ? conversationStore(ctx.cwd) : null;
+        const stream =
+          (isFollowUp &&
+            (getThreadStream(askParams.thread_id!) ??
+              (await store?.findThreadStream(
+                config.backend,
+                askParams.thread_id!,
+              )))) ||
+          route.stream;
+
+        // Resume waiting on the same question if it is still open from an
+        // earlier session (e.g. before Pi was restarted)
+        const resumed =
+          store && !isFollowUp
+            ? await store.find(config.backend, stream, askParams.question)
+            : null;
+        const options = askParams.options?.length ? askParams.options : null;
+
+        let threadId: string;
+        let messageId: string;
+        let queueId: string;
+        let lastEventId: string;
+        // Set when the human could only see part of the context
+        let contextCut: RenderedContext | null = null;
+        // Watch reactions on the question for option answers and for the ✅
+        // that ends reply collection
+        const watchReactions = options != null || config.replyQuietMs != null;
+        const register = () =>
+          watchReactions
+            ? chatClient.registerEventQueue(stream, threadId, messageId)
+            : chatClient.registerEventQueue(stream, threadId);
+        const saveConversation = () =>
+          store?.save({
+            thread_id: threadId,
+            backend: config.backend,
+            stream: stream,
+            question: askParams.question,
+            message_id: messageId,
+            queue_id: queueId,
+            last_event_id: lastEventId,
+            asked_at: resumed?.asked_at ?? new Date().toISOString(),
+          });
 
-        // Determine topic
-        const topic = isFollowUp
-          ? askParams.thread_id!
-          : generateTopic(extractSummary(askParams.question));
+        if (resumed) {
+          onUpdate?.({
+            content: [
+              {
+                type: "text",
+                text: "Resuming wait for an earlier, unanswered question...",
+              },
+            ],
+            details: { thread_id: resumed.thread_id, status: "resuming" },
+          });
 
-        // Format and post message
-        const message = formatMessage(askParams, isFollowUp);
+          threadId = resumed.thread_id;
+          messageId = resumed.message_id;
+          queueId = resumed.queue_id;
+          lastEventId = resumed.last_event_id;
+          // Recorded with its stream, so follow-ups stay in it
+          trackSessionThread(threadId, stream);
+        } else {
+          // Determine topic
+          const topic = isFollowUp
+            ? askParams.thread_id!
+            : generateTopic(
+                extractSummary(askParams.question),
+                route.topicPrefix,
+              );
+
+          // Upload attached files so the message can link to them
+          const attachmentPaths = askParams.attachments ?? [];
+          if (attachmentPaths.length > 0 && chatClient.uploadFile) {
+            onUpdate?.({
+              content: [{ type: "text", text: "Uploading attachments..." }],
+              details: { status: "uploading" },
+            });
+          }
+          const uploaded = await uploadAttachments(
+            chatClient,
+            ctx.cwd ?? process.cwd(),
+            attachmentPaths,
+          );
 
-        // Stream progress
-        onUpdate?.({
-          content: [{ type: "text", text: "Posting question to Zulip..." }],
-          details: { status: "posting" },
-        });
+          // Render context (follow-ups show only the question)
+          const context = isFollowUp
+            ? null
+            : await renderContext(chatClient, askParams.context);
+          if (context?.shownLines != null) {
+            contextCut = context;
+          }
+
+          // Fill in the fields the message template uses
+          const template = isFollowUp
+            ? (config.templates?.followUp ?? DEFAULT_FOLLOW_UP_TEMPLATE)
+            : (config.templates?.question ?? DEFAULT_QUESTION_TEMPLATE);
+          const values: TemplateValues = {
+            attachments: formatAttachments(
+              uploaded,
+              chatClient.uploadFile ? [] : attachmentPaths,
+            ),
+          };
+          if (context) {
+            values.context = context.text;
+          }
+          if (isFollowUp) {
+            const followUpNumber = (followUps.get(topic) ?? 0) + 1;
+            followUps.set(topic, followUpNumber);
+            values.follow_up_number = String(followUpNumber);
+          }
+          const metadata = await collectMetadata(ctx, config.redactMetadata);
+          values.metadata = formatMetadata(metadata);
+          for (const field of [
+            "repository",
+            "branch",
+            "commit",
+            "cwd",
+            "host",
+            "model",
+            "session_id",
+          ] as const) {
+            values[field] = metadata[field] ?? "";
+          }
+
+          // Format and post message
+          const message = formatMessage(
+            askParams,
+            template,
+            config.replyQuietMs != null,
+            values,
+          );
+
+          // Stream progress
+          onUpdate?.({
+            content: [
+              { type: "text", text: `Posting question to ${backendLabel}...` },
+            ],
+            details: { status: "posting" },
+          });
 
-        await zulipClient.postMessage(config.stream, topic, message);
+          messageId = await chatClient.postMessage(stream, topic, message);
+          threadId = chatClient.resolveThreadId?.(topic, messageId) ?? topic;
+          // Recorded with its stream, so follow-ups stay in it
+          trackSessionThread(threadId, stream);
+          if (!isFollowUp) {
+            await store?.saveThread({
+              thread_id: threadId,
+              backend: config.backend,
+              stream,
+              asked_at: new Date().toISOString(),
+            });
+          }
 
-        // Register event queue for polling
-        const { queueId, lastEventId } = await zulipClient.registerEventQueue(
-          config.stream,
-          topic,
-        );
+          // Pre-add one reaction per option so answering is a single click
+          if (options && chatClient.addReaction) {
+            try {
+              for (const emoji of OPTION_EMOJIS.slice(0, options.length)) {
+                await chatClient.addReaction(stream, messageId, emoji.name);
+              }
+            } catch {
+              // Best-effort; the human can still answer by text
+            }
+          }
+
+          // Register event queue for polling
+          ({ queueId, lastEventId } = await register());
+          await saveConversation();
+        }
 
         // Register queue for session shutdown cleanup
-        registerQueue(queueId, zulipClient);
+        registerQueue(queueId, chatClient);
 
         // Clean up queue on function exit
         const cleanupQueue = async () => {
           try {
-            await zulipClient.deregisterQueue(queueId);
+            await chatClient.deregisterQueue(queueId);
           } catch {
             // Silently ignore cleanup errors
           } finally {
@@ -203,70 +713,222 @@ export function createAskHumanTool(
           }
         };
 
+        // Let `/human-loop cancel` stop the wait as well as Pi's own signal
+        const cancellation = new AbortController();
+        const waitSignal = signal
+          ? AbortSignal.any([signal, cancellation.signal])
+          : cancellation.signal;
+        trackPendingQuestion({
+          threadId,
+          stream,
+          question: askParams.question,
+          since: Date.now(),
+          cancel: () => cancellation.abort(),
+        });
+
+        // Cancelled from Pi: close the question rather than keep it open
+        const cancelledByUser = async (): Promise<AskHumanToolResult> => {
+          await cleanupQueue();
+          await store?.remove(threadId);
+          try {
+            await chatClient.postMessage(
+              stream,
+              threadId,
+              "🛑 _Cancelled from Pi. The agent is no longer waiting for an answer._",
+            );
+          } catch {
+            // Best-effort notice; the agent proceeds either way
+          }
+          return withContextNote(
+            {
+              content: [
+                {
+                  type: "text",
+                  text: "The user cancelled this question from Pi. Proceed without the human's answer.",
+                },
+              ],
+              isError: false,
+              details: { thread_id: threadId, status: "cancelled" },
+            },
+            contextCut,
+          );
+        };
+        const isCancelledByUser = () =>
+          cancellation.signal.aborted && !signal?.aborted;
+
         try {
           onUpdate?.({
             content: [{ type: "text", text: "Waiting for human response..." }],
             details: { status: "waiting" },
           });
 
-          const abortSignal = signal ?? new AbortController().signal;
-
-          // Poll for reply (handles abort internally)
-          const reply = await zulipClient.pollForReply(
-            queueId,
-            lastEventId,
-            config.botEmail,
-            abortSignal,
+          // Stop polling on cancellation or when the timeout expires
+          const deadline = withDeadline(waitSignal, timeoutMs);
+          const stopEscalation = startEscalation(
+            chatClient,
+            { ...config, stream },
+            threadId,
           );
 
+          // Catch up on replies posted before the queue was registered, then
+          // poll for reply (handles abort internally)
+          const waitForReply = async () =>
+            (await findReplySince(
+              chatClient,
+              config,
+              stream,
+              threadId,
+              messageId,
+            )) ??
+            (await chatClient.pollForReply(
+              queueId,
+              lastEventId,
+              config.botEmail,
+              deadline.signal,
+              (position) => {
+                // Record the last event seen, for a restarted session
+                lastEventId = position;
+                void saveConversation();
+              },
+            ));
+          let reply: Awaited<ReturnType<ChatClient["pollForReply"]>>;
+          try {
+            try {
+              reply = await waitForReply();
+            } catch (resumeError) {
+              if (!resumed || deadline.signal.aborted) {
+                throw resumeError;
+              }
+
+              // The old subscription expired while Pi was down; start afresh
+              await cleanupQueue();
+              ({ queueId, lastEventId } = await register());
+              registerQueue(queueId, chatClient);
+              await saveConversation();
+              reply = await waitForReply();
+            }
+          } finally {
+            stopEscalation();
+            deadline.dispose();
+          }
+
+          if (deadline.timedOut() && timeoutMs != null && !waitSignal.aborted) {
+            await cleanupQueue();
+            await store?.remove(threadId);
+
+            if (config.timeoutNotice !== false) {
+              try {
+                await chatClient.postMessage(
+                  stream,
+                  threadId,
+                  `⏱️ _No reply within ${formatDuration(timeoutMs)}. The agent is no longer waiting and will proceed on its own judgment._`,
+                );
+              } catch {
+                // Best-effort notice; the agent proceeds either way
+              }
+            }
+
+            return withContextNote(
+              timedOutResult(threadId, timeoutMs, askParams.default_answer),
+              contextCut,
+            );
+          }
+
+          if (isCancelledByUser()) {
+            return await cancelledByUser();
+          }
+
           // Check if aborted while polling
           if (signal?.aborted || reply === null) {
             await cleanupQueue();
-            return {
+            return withContextNote(
+              {
+                content: [
+                  { type: "text", text: "Human consultation cancelled." },
+                ],
+                isError: false,
+                details: {},
+              },
+              contextCut,
+            );
+          }
+
+          // Keep gathering an answer written across several messages
+          let collected: ChatMessage[] | null = null;
+          if (config.replyQuietMs != null) {
+            onUpdate?.({
               content: [
-                { type: "text", text: "Human consultation cancelled." },
+                {
+                  type: "text",
+                  text: "Human is replying; collecting messages...",
+                },
               ],
-              isError: false,
-              details: {},
-            };
+              details: { status: "collecting" },
+            });
+            collected = await collectReplies(
+              chatClient,
+              queueId,
+              reply,
+              lastEventId,
+              config.botEmail,
+              config.replyQuietMs,
+              waitSignal,
+            );
           }
 
           // Reply received
           await cleanupQueue();
+          await store?.remove(threadId);
 
           onUpdate?.({
             content: [{ type: "text", text: "Human response received." }],
             details: { status: "received" },
           });
 
-          return {
-            content: [
-              {
-                type: "text",
-                text: `Human replied: ${reply.content}`,
-              },
-            ],
-            isError: false,
-            details: {
-              thread_id: topic,
-              responder: reply.sender_email,
-            },
-          };
+          const result = collected
+            ? collectedResult(collected, threadId, askParams.options)
+            : answerResult(
+                reply,
+                threadId,
+                reply.sender_email,
+                askParams.options,
+              );
+
+          // Save files the human uploaded where the agent can read them
+          const files = await downloadAttachments(
+            chatClient,
+            result.details.links ?? [],
+          );
+          if (files.length > 0) {
+            result.content[0]!.text +=
+              `\n\nFiles from the human, saved locally:\n${files.map((file) => `- ${file}`).join("\n")}`;
+            result.details.files = files;
+          }
+          return withContextNote(result, contextCut);
         } catch (pollError) {
+          if (isCancelledByUser()) {
+            return await cancelledByUser();
+          }
           await cleanupQueue();
 
-          // If aborted, return cancellation
+          // If aborted, return cancellation (the question stays open)
           if (signal?.aborted) {
-            return {
-              content: [
-                { type: "text", text: "Human consultation cancelled." },
-              ],
-              isError: false,
-              details: {},
-            };
+            return withContextNote(
+              {
+                content: [
+                  { type: "text", text: "Human consultation cancelled." },
+                ],
+                isError: false,
+                details: {},
+              },
+              contextCut,
+            );
           }
 
+          await store?.remove(threadId);
           throw pollError;
+        } finally {
+          untrackPendingQuestion(threadId);
         }
       } catch (error) {
         // Return error result - LLM proceeds with best guess
@@ -284,5 +946,5 @@ export function createAskHumanTool(
         };
       }
     },
-  };
+  });
 }
@@ -0,0 +1,92 @@
+/**
+ * Abort and timeout helpers shared by the chat clients and tools.
+ */
+
+/**
+ * Formats a duration in ms for humans ("90 seconds", "15 minutes").
+ */
+export function formatDuration(ms: number): string {
+  if (ms >= 60000 && ms % 60000 === 0) {
+    const minutes = ms / 60000;
+    return `${minutes} minute${minutes === 1 ? "" : "s"}`;
+  }
+  const seconds = Math.max(1, Math.round(ms / 1000));
+  return `${seconds} second${seconds === 1 ? "" : "s"}`;
+}
+
+/**
+ * Waits for a delay while reacting immediately to AbortSignal.
+ *
+ * @returns true when the delay elapsed, false when aborted.
+ */
+export async function waitWithAbort(
+  delayMs: number,
+  signal: AbortSignal,
+): Promise<boolean> {
+  if (signal.aborted) {
+    return false;
+  }
+
+  return await new Promise<boolean>((resolve) => {
+    const timeoutId = setTimeout(() => {
+      signal.removeEventListener("abort", onAbort);
+      resolve(true);
+    }, delayMs);
+
+    const onAbort = () => {
+      clearTimeout(timeoutId);
+      signal.removeEventListener("abort", onAbort);
+      resolve(false);
+    };
+
+    signal.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/**
+ * An AbortSignal that fires when the parent signal aborts or a deadline passes.
+ */
+export interface DeadlineSignal {
+  signal: AbortSignal;
+  /** Whether the deadline (rather than the parent signal) caused the abort. */
+  timedOut(): boolean;
+  /** Clears the deadline timer and detaches from the parent signal. */
+  dispose(): void;
+}
+
+/**
+ * Derives a signal that also aborts after `timeoutMs`.
+ *
+ * Without a timeout the derived signal only follows the parent.
+ */
+export function withDeadline(
+  parent: AbortSignal | undefined,
+  timeoutMs: number | undefined,
+): DeadlineSignal {
+  const controller = new AbortController();
+  let expired = false;
+
+  const onAbort = () => controller.abort();
+  if (parent?.aborted) {
+    controller.abort();
+  } else {
+    parent?.addEventListener("abort", onAbort, { once: true });
+  }
+
+  const timeoutId =
+    timeoutMs != null
+      ? setTimeout(() => {
+          expired = true;
+          controller.abort();
+        }, timeoutMs)
+      : undefined;
+
+  return {
+    signal: controller.signal,
+    timedOut: () => expired,
+    dispose: () => {
+      clearTimeout(timeoutId);
+      parent?.removeEventListener("abort", onAbort);
+    },
+  };
+}
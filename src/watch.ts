@@ -0,0 +1,107 @@
+/**
+ * Background watching of a reply subscription.
+ *
+ * For subscriptions that outlive any single wait (the agent inbox, remote
+ * control): every message is handed to a callback until the watch is
+ * stopped. Polling failures (e.g. an expired Zulip queue) are logged, and
+ * the subscription is opened again after `WATCH_RETRY_DELAY_MS`.
+ */
+
+import type { ChatClient, ChatMessage } from "./chat-client.js";
+import { registerQueue, unregisterQueue } from "./queue-registry.js";
+import { waitWithAbort } from "./wait.js";
+
+/**
+ * How long to wait before subscribing again after polling fails, in ms.
+ */
+export const WATCH_RETRY_DELAY_MS = 30000;
+
+/**
+ * A running watch.
+ */
+export interface Watch {
+  /** Stops watching and closes the subscription. */
+  stop(): Promise<void>;
+}
+
+/**
+ * Opens a subscription and starts handing its messages to `onMessage`.
+ *
+ * Reactions are skipped. `onMessage` is awaited before the next poll, and
+ * errors it throws are treated like polling failures.
+ *
+ * @param register Opens the subscription (again, after a failure)
+ * @param name What is being watched, for log messages
+ * @throws {Error} If the subscription cannot be opened the first time
+ */
+export async function watchSubscription(
+  chatClient: ChatClient,
+  botEmail: string,
+  register: () => Promise<{ queueId: string; lastEventId: string }>,
+  onMessage: (message: ChatMessage) => void | Promise<void>,
+  name: string,
+): Promise<Watch> {
+  const controller = new AbortController();
+  let { queueId, lastEventId } = await register();
+  registerQueue(queueId, chatClient);
+
+  const closeQueue = async () => {
+    try {
+      await chatClient.deregisterQueue(queueId);
+    } catch {
+      // Silently ignore cleanup errors
+    } finally {
+      unregisterQueue(queueId);
+    }
+  };
+
+  const watch = async () => {
+    while (!controller.signal.aborted) {
+      try {
+        const message = await chatClient.pollForReply(
+          queueId,
+          lastEventId,
+          botEmail,
+          controller.signal,
+        );
+        if (!message) {
+          return;
+        }
+        if (message.lastEventId == null) {
+          throw new Error("the backend did not report its position");
+        }
+        lastEventId = message.lastEventId;
+        if (!message.reaction) {
+          await onMessage(message);
+        }
+      } catch (error) {
+        if (controller.signal.aborted) {
+          return;
+        }
+        const reason = error instanceof Error ? error.message : String(error);
+        console.warn(
+          `pi-human-loop: Watching ${name} failed, retrying: ${reason}`,
+        );
+        if (!(await waitWithAbort(WATCH_RETRY_DELAY_MS, controller.signal))) {
+          return;
+        }
+        try {
+          await closeQueue();
+          ({ queueId, lastEventId } = await register());
+          registerQueue(queueId, chatClient);
+        } catch {
+          // Try again after the next delay
+        }
+      }
+    }
+  };
+  const watching = watch();
+
+  return {
+    async stop() {
+      controller.abort();
+      await watching;
+      await closeQueue();
+    },
+  };
+}
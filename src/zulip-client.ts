@@ -1,31 +1,51 @@
 /**
  * Zulip API client wrapper.
  *
- * Handles posting messages, registering event queues, long-polling for replies,
- * and deregistering queues. Uses raw `fetch()` for minimal dependencies.
+ * Zulip implementation of `ChatClient`. Handles posting messages, registering
+ * event queues, long-polling for replies, and deregistering queues. Uses raw
+ * `fetch()` for minimal dependencies.
  */
 
-import type { Config } from "./config.js";
+import type { ChatClient, ChatMessage } from "./chat-client.js";
+import { fromNativeEmoji, toNativeEmoji } from "./choices.js";
+import type { Config, ConfigError } from "./config.js";
+import { codeFence } from "./context.js";
+import { waitWithAbort } from "./wait.js";
+import { normalizeZulipReply } from "./zulip-markdown.js";
 
-export interface ZulipMessage {
-  id: string;
+export type ZulipMessage = ChatMessage;
+
+export type ZulipClient = ChatClient;
+
+/**
+ * A message as returned by the Zulip API.
+ */
+interface ZulipApiMessage {
+  id: number;
+  sender_id?: number;
   sender_email: string;
   content: string;
+  /** Topic of a stream message. */
+  subject?: string;
 }
 
-export interface ZulipClient {
-  postMessage(stream: string, topic: string, content: string): Promise<string>;
-  registerEventQueue(
-    stream: string,
-    topic: string,
-  ): Promise<{ queueId: string; lastEventId: string }>;
-  pollForReply(
-    queueId: string,
-    lastEventId: string,
-    botEmail: string,
-    signal: AbortSignal,
-  ): Promise<ZulipMessage | null>;
-  deregisterQueue(queueId: string): Promise<void>;
+/**
+ * Converts a raw-markdown Zulip API message to a `ChatMessage` with clean
+ * text (see `normalizeZulipReply`).
+ */
+function toChatMessage(
+  message: ZulipApiMessage,
+  serverUrl: string,
+): ZulipMessage {
+  const { text, links } = normalizeZulipReply(message.content, serverUrl);
+  return {
+    id: message.id.toString(),
+    sender_email: message.sender_email,
+    ...(message.sender_id != null ? { sender_id: `${message.sender_id}` } : {}),
+    content: text,
+    ...(links.length > 0 ? { links } : {}),
+    ...(message.subject != null ? { topic: message.subject } : {}),
+  };
 }
 
 /**
@@ -37,32 +57,16 @@ function getAuthHeader(config: Config): string {
 }
 
 /**
- * Waits for a delay while reacting immediately to AbortSignal.
- *
- * @returns true when the delay elapsed, false when aborted.
+ * Splits a subscription ID back into the Zulip queue ID and the message
+ * whose reactions to watch, if any. The target is part of the ID so that a
+ * restarted session can resume polling a queue that is still alive.
  */
-async function waitWithAbort(
-  delayMs: number,
-  signal: AbortSignal,
-): Promise<boolean> {
-  if (signal.aborted) {
-    return false;
-  }
-
-  return await new Promise<boolean>((resolve) => {
-    const timeoutId = setTimeout(() => {
-      signal.removeEventListener("abort", onAbort);
-      resolve(true);
-    }, delayMs);
-
-    const onAbort = () => {
-      clearTimeout(timeoutId);
-      signal.removeEventListener("abort", onAbort);
-      resolve(false);
-    };
-
-    signal.addEventListener("abort", onAbort, { once: true });
-  });
+function parseQueueId(queueId: string): {
+  zulipQueueId: string;
+  reactionTarget: string | undefined;
+} {
+  const [zulipQueueId = queueId, reactionTarget] = queueId.split(" ");
+  return { zulipQueueId, reactionTarget };
 }
 
 /**
@@ -72,6 +76,49 @@ export function createZulipClient(config: Config): ZulipClient {
   const baseUrl = config.serverUrl.replace(/\/$/, "");
   const authHeader = getAuthHeader(config);
   const pollIntervalMs = config.pollIntervalMs;
+  // `is_bot` flags already looked up, by user ID
+  const botUsers = new Map<string, boolean>();
+
+  /**
+   * Registers an event queue (`POST /register`) for raw-markdown events
+   * matching a narrow.
+   *
+   * @throws {Error} If the API request fails
+   */
+  async function registerQueue(
+    eventTypes: string[],
+    narrow: string[][],
+  ): Promise<{ queueId: string; lastEventId: string }> {
+    const url = `${baseUrl}/api/v1/register`;
+    const response = await fetch(url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/x-www-form-urlencoded",
+        Authorization: authHeader,
+      },
+      body: new URLSearchParams({
+        event_types: JSON.stringify(eventTypes),
+        apply_markdown: "false",
+        narrow: JSON.stringify(narrow),
+      }).toString(),
+    });
+
+    if (!response.ok) {
+      const text = await response.text();
+      throw new Error(
+        `Failed to register event queue: ${response.status} ${response.statusText} - ${text}`,
+      );
+    }
+
+    const data = (await response.json()) as {
+      queue_id: string;
+      last_event_id: number;
+    };
+    return {
+      queueId: data.queue_id,
+      lastEventId: data.last_event_id.toString(),
+    };
+  }
 
   const client: ZulipClient = {
     /**
@@ -112,16 +159,17 @@ export function createZulipClient(config: Config): ZulipClient {
     },
 
     /**
-     * Registers an event queue for polling messages from a specific stream and topic.
+     * Adds an emoji reaction to a message.
      *
-     * @returns The queue ID and last event ID for polling
      * @throws {Error} If the API request fails
      */
-    async registerEventQueue(
+    async addReaction(
       stream: string,
-      topic: string,
-    ): Promise<{ queueId: string; lastEventId: string }> {
-      const url = `${baseUrl}/api/v1/register`;
+      messageId: string,
+      emoji: string,
+    ): Promise<void> {
+      void stream;
+      const url = `${baseUrl}/api/v1/messages/${messageId}/reactions`;
       const response = await fetch(url, {
         method: "POST",
         headers: {
@@ -129,36 +177,213 @@ export function createZulipClient(config: Config): ZulipClient {
           Authorization: authHeader,
         },
         body: new URLSearchParams({
-          event_types: JSON.stringify(["message"]),
-          narrow: JSON.stringify([
-            ["stream", stream],
-            ["topic", topic],
-          ]),
+          emoji_name: toNativeEmoji(emoji, "zulip") ?? emoji,
         }).toString(),
       });
 
       if (!response.ok) {
         const text = await response.text();
         throw new Error(
-          `Failed to register event queue: ${response.status} ${response.statusText} - ${text}`,
+          `Failed to add reaction: ${response.status} ${response.statusText} - ${text}`,
+        );
+      }
+    },
+
+    /**
+     * Uploads a file with `POST /user_uploads`.
+     *
+     * @returns The server-relative `/user_uploads/...` path
+     * @throws {Error} If the API request fails
+     */
+    async uploadFile(name: string, data: Uint8Array): Promise<string> {
+      const form = new FormData();
+      form.append("file", new Blob([new Uint8Array(data)]), name);
+
+      const url = `${baseUrl}/api/v1/user_uploads`;
+      const response = await fetch(url, {
+        method: "POST",
+        headers: {
+          Authorization: authHeader,
+        },
+        body: form,
+      });
+
+      if (!response.ok) {
+        const text = await response.text();
+        throw new Error(
+          `Failed to upload file: ${response.status} ${response.statusText} - ${text}`,
+        );
+      }
+
+      const result = (await response.json()) as { url?: string; uri?: string };
+      const uploaded = result.url ?? result.uri;
+      if (!uploaded) {
+        throw new Error("Failed to upload file: no URL in the response");
+      }
+      return uploaded;
+    },
+
+    /**
+     * Downloads a `/user_uploads/...` file on this server, through the
+     * temporary URL Zulip hands out to API clients.
+     *
+     * @returns The file, or null for links elsewhere
+     * @throws {Error} If the API request fails
+     */
+    async downloadFile(
+      link: string,
+    ): Promise<{ name: string; data: Uint8Array } | null> {
+      const prefix = `${baseUrl}/user_uploads/`;
+      if (!link.startsWith(prefix)) {
+        return null;
+      }
+      const uploadPath = link.slice(prefix.length).split(/[?#]/)[0] ?? "";
+
+      const lookup = await fetch(
+        `${baseUrl}/api/v1/user_uploads/${uploadPath}`,
+        {
+          method: "GET",
+          headers: {
+            Authorization: authHeader,
+          },
+        },
+      );
+      if (!lookup.ok) {
+        const text = await lookup.text();
+        throw new Error(
+          `Failed to look up upload: ${lookup.status} ${lookup.statusText} - ${text}`,
+        );
+      }
+      const { url: temporaryUrl } = (await lookup.json()) as { url: string };
+
+      const response = await fetch(new URL(temporaryUrl, `${baseUrl}/`));
+      if (!response.ok) {
+        throw new Error(
+          `Failed to download upload: ${response.status} ${response.statusText}`,
+        );
+      }
+
+      const name = decodeURIComponent(uploadPath.split("/").pop() ?? "");
+      return { name, data: new Uint8Array(await response.arrayBuffer()) };
+    },
+
+    /**
+     * Collapses the body into a Zulip `spoiler` block.
+     */
+    formatCollapsible(summary: string, body: string): string {
+      return codeFence(body, `spoiler ${summary}`);
+    },
+
+    /**
+     * Links to the topic with Zulip's `#**stream>topic**` syntax.
+     */
+    formatThreadLink(stream: string, threadId: string): string {
+      return `#**${stream}>${threadId}**`;
+    },
+
+    /**
+     * Registers an event queue for polling messages from a specific stream and topic.
+     *
+     * Also subscribes to reaction events when `reactionMessageId` is given.
+     *
+     * @returns The queue ID (`queueId [reactionMessageId]`) and last event ID
+     * for polling
+     * @throws {Error} If the API request fails
+     */
+    async registerEventQueue(
+      stream: string,
+      topic: string,
+      reactionMessageId?: string,
+    ): Promise<{ queueId: string; lastEventId: string }> {
+      const queue = await registerQueue(
+        reactionMessageId ? ["message", "reaction"] : ["message"],
+        [
+          ["stream", stream],
+          ["topic", topic],
+        ],
+      );
+      return reactionMessageId
+        ? { ...queue, queueId: `${queue.queueId} ${reactionMessageId}` }
+        : queue;
+    },
+
+    /**
+     * Registers an event queue for messages in every topic of a stream.
+     *
+     * @returns The queue ID and last event ID for polling
+     * @throws {Error} If the API request fails
+     */
+    async registerStreamQueue(
+      stream: string,
+    ): Promise<{ queueId: string; lastEventId: string }> {
+      return await registerQueue(["message"], [["stream", stream]]);
+    },
+
+    /**
+     * Fetches the topic's messages after `afterMessageId` with `GET /messages`
+     * and returns the first one not sent by the bot that `accept` takes.
+     *
+     * @returns The human message, or null if there is none yet
+     * @throws {Error} If the API request fails
+     */
+    async findReplySince(
+      stream: string,
+      topic: string,
+      afterMessageId: string,
+      botEmail: string,
+      accept?: (message: ChatMessage) => Promise<boolean>,
+    ): Promise<ZulipMessage | null> {
+      const url = new URL(`${baseUrl}/api/v1/messages`);
+      url.searchParams.set("anchor", afterMessageId);
+      url.searchParams.set("include_anchor", "false");
+      url.searchParams.set("num_before", "0");
+      url.searchParams.set("num_after", "100");
+      url.searchParams.set("apply_markdown", "false");
+      url.searchParams.set(
+        "narrow",
+        JSON.stringify([
+          ["stream", stream],
+          ["topic", topic],
+        ]),
+      );
+
+      const response = await fetch(url.toString(), {
+        method: "GET",
+        headers: {
+          Authorization: authHeader,
+        },
+      });
+
+      if (!response.ok) {
+        const text = await response.text();
+        throw new Error(
+          `Failed to fetch messages: ${response.status} ${response.statusText} - ${text}`,
         );
       }
 
       const data = (await response.json()) as {
-        queue_id: string;
-        last_event_id: number;
-      };
-      return {
-        queueId: data.queue_id,
-        lastEventId: data.last_event_id.toString(),
+        messages?: ZulipApiMessage[];
       };
+      for (const message of data.messages ?? []) {
+        if (
+          message.id <= Number(afterMessageId) ||
+          message.sender_email === botEmail
+        ) {
+          continue;
+        }
+        const reply = toChatMessage(message, baseUrl);
+        if (!accept || (await accept(reply))) {
+          return reply;
+        }
+      }
+      return null;
     },
 
     /**
      * Polls for a reply from a human in the specified event queue.
      *
-     * Blocks until a non-bot message is received, signal.aborted is set,
-     * or a fatal error occurs.
+     * Blocks until a non-bot message (or option reaction on the watched
+     * message) is received, signal.aborted is set, or a fatal error occurs.
      *
      * @returns The human message, or null if aborted
      * @throws {Error} On fatal HTTP errors (after retries)
@@ -168,7 +393,9 @@ export function createZulipClient(config: Config): ZulipClient {
       lastEventId: string,
       botEmail: string,
       signal: AbortSignal,
+      onPosition?: (lastEventId: string) => void,
     ): Promise<ZulipMessage | null> {
+      const { zulipQueueId, reactionTarget } = parseQueueId(queueId);
       let currentLastEventId = lastEventId;
       let retryCount = 0;
       const maxRetries = 10;
@@ -176,7 +403,7 @@ export function createZulipClient(config: Config): ZulipClient {
       while (!signal.aborted) {
         try {
           const url = new URL(`${baseUrl}/api/v1/events`);
-          url.searchParams.set("queue_id", queueId);
+          url.searchParams.set("queue_id", zulipQueueId);
           url.searchParams.set("last_event_id", currentLastEventId);
           url.searchParams.set("dont_block", "false"); // Enable long-polling
 
@@ -216,7 +443,13 @@ export function createZulipClient(config: Config): ZulipClient {
           const data = (await response.json()) as {
             events?: Array<{
               id: number;
-              message: { id: number; sender_email: string; content: string };
+              type?: string;
+              message?: ZulipApiMessage;
+              op?: string;
+              message_id?: number;
+              emoji_name?: string;
+              user_id?: number;
+              user?: { email?: string };
             }>;
           };
           const events = data.events ?? [];
@@ -226,19 +459,39 @@ export function createZulipClient(config: Config): ZulipClient {
             continue;
           }
 
-          // Check each event for a human message
+          // Check each event for a human message or option reaction
           for (const event of events) {
-            if (event.message.sender_email !== botEmail) {
+            const reaction =
+              event.type === "reaction" &&
+              event.op === "add" &&
+              event.message_id?.toString() === reactionTarget &&
+              event.user?.email !== botEmail
+                ? fromNativeEmoji(event.emoji_name ?? "", "zulip")
+                : undefined;
+            if (reaction) {
               currentLastEventId = event.id.toString();
               return {
-                id: event.message.id.toString(),
-                sender_email: event.message.sender_email,
-                content: event.message.content,
+                id: `${event.message_id}`,
+                sender_email: event.user?.email ?? `${event.user_id}`,
+                ...(event.user_id != null
+                  ? { sender_id: `${event.user_id}` }
+                  : {}),
+                content: "",
+                reaction,
+                lastEventId: currentLastEventId,
+              };
+            }
+            if (event.message && event.message.sender_email !== botEmail) {
+              currentLastEventId = event.id.toString();
+              return {
+                ...toChatMessage(event.message, baseUrl),
+                lastEventId: currentLastEventId,
               };
             }
             // Update last event ID even for bot messages
             currentLastEventId = event.id.toString();
           }
+          onPosition?.(currentLastEventId);
         } catch (error) {
           // If it's an abort error, return null
           if (signal.aborted) {
@@ -265,12 +518,209 @@ export function createZulipClient(config: Config): ZulipClient {
       return null;
     },
 
+    /**
+     * Looks up the user's `is_bot` flag, caching the answer.
+     *
+     * @throws {Error} If the API request fails
+     */
+    async isBotUser(userId: string): Promise<boolean> {
+      const cached = botUsers.get(userId);
+      if (cached !== undefined) {
+        return cached;
+      }
+
+      const url = `${baseUrl}/api/v1/users/${encodeURIComponent(userId)}`;
+      const response = await fetch(url, {
+        method: "GET",
+        headers: {
+          Authorization: authHeader,
+        },
+      });
+
+      if (!response.ok) {
+        const text = await response.text();
+        throw new Error(
+          `Failed to look up user: ${response.status} ${response.statusText} - ${text}`,
+        );
+      }
+
+      const data = (await response.json()) as { user?: { is_bot?: boolean } };
+      const isBot = data.user?.is_bot === true;
+      botUsers.set(userId, isBot);
+      return isBot;
+    },
+
+    /**
+     * Lists the user IDs in the user group with the given name.
+     *
+     * @throws {Error} If the API request fails or there is no such group
+     */
+    async getUserGroupMembers(group: string): Promise<string[]> {
+      const url = `${baseUrl}/api/v1/user_groups`;
+      const response = await fetch(url, {
+        method: "GET",
+        headers: {
+          Authorization: authHeader,
+        },
+      });
+
+      if (!response.ok) {
+        const text = await response.text();
+        throw new Error(
+          `Failed to list user groups: ${response.status} ${response.statusText} - ${text}`,
+        );
+      }
+
+      const data = (await response.json()) as {
+        user_groups?: Array<{ name: string; members?: number[] }>;
+      };
+      const match = (data.user_groups ?? []).find(
+        (userGroup) => userGroup.name === group,
+      );
+      if (!match) {
+        throw new Error(`Zulip user group not found: ${group}`);
+      }
+      return (match.members ?? []).map((member) => member.toString());
+    },
+
+    /**
+     * Checks the server URL and credentials with `GET /users/me`, then
+     * looks up each stream and the bot's subscription to it, subscribing
+     * the bot when asked to.
+     *
+     * @returns The problems found; checks that depend on an earlier one
+     *   failing are skipped
+     */
+    async checkConnection(
+      streams: string[],
+      subscribe: boolean,
+    ): Promise<ConfigError[]> {
+      const get = (path: string) =>
+        fetch(`${baseUrl}/api/v1${path}`, {
+          method: "GET",
+          headers: {
+            Authorization: authHeader,
+          },
+        });
+      // The setting that names each stream, for the diagnostics
+      const streamSetting = (stream: string) =>
+        stream === config.stream
+          ? "ZULIP_STREAM"
+          : stream === config.escalation?.crossPostStream
+            ? "HUMAN_LOOP_CROSSPOST_STREAM"
+            : "HUMAN_LOOP_ROUTES";
+
+      let me: Response;
+      try {
+        me = await get("/users/me");
+      } catch (error) {
+        const reason = error instanceof Error ? error.message : String(error);
+        return [
+          {
+            type: "invalid_url",
+            var: "ZULIP_SERVER_URL",
+            message: `Cannot reach ${baseUrl}: ${reason}. Check the server URL and that this machine can connect to it`,
+          },
+        ];
+      }
+      if (me.status === 401) {
+        return [
+          {
+            type: "invalid",
+            var: "ZULIP_BOT_API_KEY",
+            message: `Zulip rejected the credentials of ${config.botEmail}. Check ZULIP_BOT_EMAIL and ZULIP_BOT_API_KEY (the bot may have been deactivated or its key regenerated)`,
+          },
+        ];
+      }
+      const user = me.ok
+        ? ((await me.json().catch(() => null)) as { user_id?: number } | null)
+        : null;
+      if (user?.user_id == null) {
+        return [
+          {
+            type: "invalid_url",
+            var: "ZULIP_SERVER_URL",
+            message: `${baseUrl} does not look like a Zulip server (GET /api/v1/users/me returned ${me.status} ${me.statusText}). Check the server URL`,
+          },
+        ];
+      }
+
+      const errors: ConfigError[] = [];
+      for (const stream of [...new Set(streams)]) {
+        const lookup = await get(
+          `/get_stream_id?${new URLSearchParams({ stream }).toString()}`,
+        );
+        if (!lookup.ok) {
+          errors.push({
+            type: "invalid",
+            var: streamSetting(stream),
+            message: `Zulip stream "${stream}" does not exist, or is private and ${config.botEmail} is not subscribed to it. Check the stream name`,
+          });
+          continue;
+        }
+        const { stream_id: streamId } = (await lookup.json()) as {
+          stream_id: number;
+        };
+
+        const subscription = await get(
+          `/users/${user.user_id}/subscriptions/${streamId}`,
+        );
+        if (!subscription.ok) {
+          const text = await subscription.text();
+          errors.push({
+            type: "invalid",
+            var: streamSetting(stream),
+            message: `Cannot check the bot's subscription to "${stream}": ${subscription.status} ${subscription.statusText} - ${text}`,
+          });
+          continue;
+        }
+        const { is_subscribed: isSubscribed } = (await subscription.json()) as {
+          is_subscribed?: boolean;
+        };
+        if (isSubscribed) {
+          continue;
+        }
+
+        if (!subscribe) {
+          errors.push({
+            type: "invalid",
+            var: streamSetting(stream),
+            message: `${config.botEmail} is not subscribed to "${stream}", so it cannot see replies there. Subscribe the bot in Zulip, or set HUMAN_LOOP_AUTO_SUBSCRIBE=true`,
+          });
+          continue;
+        }
+        const response = await fetch(
+          `${baseUrl}/api/v1/users/me/subscriptions`,
+          {
+            method: "POST",
+            headers: {
+              "Content-Type": "application/x-www-form-urlencoded",
+              Authorization: authHeader,
+            },
+            body: new URLSearchParams({
+              subscriptions: JSON.stringify([{ name: stream }]),
+            }).toString(),
+          },
+        );
+        if (!response.ok) {
+          const text = await response.text();
+          errors.push({
+            type: "invalid",
+            var: streamSetting(stream),
+            message: `${config.botEmail} is not subscribed to "${stream}" and subscribing it failed: ${response.status} ${response.statusText} - ${text}`,
+          });
+        }
+      }
+      return errors;
+    },
+
     /**
      * Deregisters an event queue.
      *
      * Best-effort cleanup - errors are logged but not thrown.
      */
     async deregisterQueue(queueId: string): Promise<void> {
+      const { zulipQueueId } = parseQueueId(queueId);
       try {
         const url = `${baseUrl}/api/v1/events`;
         const response = await fetch(url, {
@@ -279,7 +729,7 @@ export function createZulipClient(config: Config): ZulipClient {
             "Content-Type": "application/x-www-form-urlencoded",
             Authorization: authHeader,
           },
-          body: new URLSearchParams({ queue_id: queueId }).toString(),
+          body: new URLSearchParams({ queue_id: zulipQueueId }).toString(),
         });
 
         if (!response.ok) {
@@ -0,0 +1,175 @@
+/**
+ * Normalisation of Zulip replies into plain, agent-friendly text.
+ *
+ * The Zulip client requests raw markdown (`apply_markdown=false`) and runs
+ * it through `normalizeZulipReply()`: the quote a "Quote and reply" adds
+ * (normally the agent's own question) is dropped, mentions and channel
+ * links become readable names, code is kept verbatim, and link targets are
+ * collected so they can be reported separately. Other quotes are part of
+ * the answer and are kept.
+ */
+
+/**
+ * A reply's text with its link targets.
+ */
+export interface NormalizedReply {
+  text: string;
+  /** Absolute URLs linked from the reply, in order of appearance. */
+  links: string[];
+}
+
+const FENCE_PATTERN = /^\s*(`{3,}|~{3,})\s*([^\s`]*)/;
+
+/**
+ * Fence languages Zulip renders as quotes.
+ */
+const QUOTE_FENCES = new Set(["quote"]);
+
+/**
+ * "Quote and reply" attribution line, e.g.
+ * `@_**Pi Bot|12** [said](https://…/near/100):`.
+ */
+const ATTRIBUTION_PATTERN = /^\s*@_?\*\*[^*]+\*\* \[said\]\([^)]*\):\s*$/;
+
+/**
+ * Resolves a link against the Zulip server (uploads and narrows are
+ * server-relative).
+ */
+function resolveUrl(url: string, serverUrl: string | undefined): string {
+  if (!serverUrl || /^[a-z][a-z\d+.-]*:/i.test(url)) {
+    return url;
+  }
+  try {
+    return new URL(url, `${serverUrl.replace(/\/$/, "")}/`).toString();
+  } catch {
+    return url;
+  }
+}
+
+/**
+ * Rewrites Zulip markup in text outside code spans.
+ */
+function normalizeInline(
+  text: string,
+  serverUrl: string | undefined,
+  links: string[],
+): string {
+  const addLink = (url: string) => {
+    if (!links.includes(url)) {
+      links.push(url);
+    }
+  };
+
+  return (
+    text
+      // [text](url) → text (url); bare URLs (without trailing punctuation)
+      // are kept and reported too
+      .replace(
+        /\[([^\]]*)\]\(([^)\s]+)\)|\bhttps?:\/\/[^\s<>()]*[^\s<>().,;:!?'"]/g,
+        (match, label: string | undefined, url: string | undefined) => {
+          if (url === undefined) {
+            addLink(match);
+            return match;
+          }
+          const resolved = resolveUrl(url, serverUrl);
+          addLink(resolved);
+          return label && label !== url ? `${label} (${resolved})` : resolved;
+        },
+      )
+      // #**channel>topic** and #**channel** → #channel > topic
+      .replace(/#\*\*([^*>]+)>([^*]+)\*\*/g, "#$1 > $2")
+      .replace(/#\*\*([^*]+)\*\*/g, "#$1")
+      // @**Name|123**, @_**Name** (silent) → @Name
+      .replace(/@_?\*\*([^*|]+)(?:\|\d+)?\*\*/g, "@$1")
+      // @*group* → @group
+      .replace(/@_?\*([^*\s][^*]*)\*/g, "@$1")
+  );
+}
+
+/**
+ * Normalises one line, leaving inline code spans untouched.
+ */
+function normalizeLine(
+  line: string,
+  serverUrl: string | undefined,
+  links: string[],
+): string {
+  return line
+    .split(/(`+[^`]*`+)/)
+    .map((part, index) =>
+      index % 2 === 1 ? part : normalizeInline(part, serverUrl, links),
+    )
+    .join("");
+}
+
+/**
+ * Converts a raw-markdown Zulip message into clean text.
+ *
+ * @param serverUrl Zulip server URL, used to make relative links absolute
+ */
+export function normalizeZulipReply(
+  content: string,
+  serverUrl?: string,
+): NormalizedReply {
+  const links: string[] = [];
+  const output: string[] = [];
+  // The open fence (its marker), whether its contents are dropped, and
+  // whether they are markdown (quotes) rather than code
+  let fence: { marker: string; drop: boolean; markdown: boolean } | null = null;
+  // Set after a "Quote and reply" attribution, until its quote has passed
+  let quoting = false;
+
+  for (const line of content.split("\n")) {
+    if (fence) {
+      const closing = line.trim();
+      const closes =
+        closing.length >= fence.marker.length &&
+        closing === (closing[0] ?? "").repeat(closing.length) &&
+        closing[0] === fence.marker[0];
+      if (!fence.drop) {
+        output.push(
+          fence.markdown && !closes
+            ? normalizeLine(line, serverUrl, links)
+            : line,
+        );
+      }
+      if (closes) {
+        fence = null;
+      }
+      continue;
+    }
+
+    if (ATTRIBUTION_PATTERN.test(line)) {
+      quoting = true;
+      continue;
+    }
+
+    const opening = FENCE_PATTERN.exec(line);
+    if (opening) {
+      const markdown = QUOTE_FENCES.has((opening[2] ?? "").toLowerCase());
+      const drop = markdown && quoting;
+      fence = { marker: opening[1] ?? "```", drop, markdown };
+      quoting = false;
+      if (!drop) {
+        output.push(line);
+      }
+      continue;
+    }
+
+    if (quoting && /^\s*>/.test(line)) {
+      continue;
+    }
+    // Blank lines may separate the attribution from its quote
+    if (line.trim() !== "") {
+      quoting = false;
+    }
+
+    output.push(normalizeLine(line, serverUrl, links));
+  }
+
+  const text = output
+    .join("\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+  return { text, links };
+}
@@ -0,0 +1,524 @@
+/**
+ * Tests for the request_approval tool.
+ */
+
+import {
+  createRequestApprovalTool,
+  formatApprovalMessage,
+  parseApprovalReply,
+  requestApproval,
+} from "../src/approval.js";
+import { type ChatClient, MAX_TOPIC_LENGTH } from "../src/chat-client.js";
+import {
+  clearSessionActivity,
+  getPendingQuestions,
+  trackSessionThread,
+} from "../src/session-activity.js";
+
+type MockedChatClient = {
+  postMessage: ReturnType<typeof vi.fn<ChatClient["postMessage"]>>;
+  addReaction: ReturnType<typeof vi.fn<ChatClient["addReaction"] & {}>>;
+  registerEventQueue: ReturnType<
+    typeof vi.fn<ChatClient["registerEventQueue"]>
+  >;
+  pollForReply: ReturnType<typeof vi.fn<ChatClient["pollForReply"]>>;
+  deregisterQueue: ReturnType<typeof vi.fn<ChatClient["deregisterQueue"]>>;
+};
+
+describe("approval", () => {
+  const mockConfig = {
+    backend: "zulip" as const,
+    serverUrl: "https://zulip.example.com",
+    botEmail: "bot@example.com",
+    botApiKey: "test-api-key",
+    stream: "test-stream",
+    pollIntervalMs: 5000,
+  };
+
+  const request = {
+    action: "Drop the staging database",
+    command: "dropdb staging",
+    diff_summary: "Removes all staging data",
+    risk: "high" as const,
+  };
+
+  const mockClient: MockedChatClient = {
+    postMessage: vi.fn(),
+    addReaction: vi.fn(),
+    registerEventQueue: vi.fn(),
+    pollForReply: vi.fn(),
+    deregisterQueue: vi.fn(),
+  };
+  const client = mockClient as unknown as ChatClient;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    clearSessionActivity();
+    mockClient.postMessage.mockResolvedValue("123");
+    mockClient.addReaction.mockResolvedValue();
+    mockClient.registerEventQueue.mockResolvedValue({
+      queueId: "queue-123",
+      lastEventId: "999",
+    });
+    mockClient.deregisterQueue.mockResolvedValue();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe("formatApprovalMessage", () => {
+    it("should include the action, command, changes and risk", () => {
+      const message = formatApprovalMessage(request);
+
+      expect(message).toContain("🛡️ **Approval needed** · 🔴 risk: **HIGH**");
+      expect(message).toContain("**Action:** Drop the staging database");
+      expect(message).toContain("**Command:**\n```\ndropdb staging\n```");
+      expect(message).toContain("**Changes:**\nRemoves all staging data");
+      expect(message).toContain("`/approve` or `/deny <reason>`");
+    });
+
+    it("should omit optional sections", () => {
+      const message = formatApprovalMessage({
+        action: "Bump a dependency",
+        risk: "low",
+      });
+
+      expect(message).toContain("🟢 risk: **LOW**");
+      expect(message).not.toContain("**Command:**");
+      expect(message).not.toContain("**Changes:**");
+    });
+  });
+
+  describe("parseApprovalReply", () => {
+    it.each([
+      [{ content: "", reaction: "approve" }, { approved: true }],
+      [{ content: "", reaction: "deny" }, { approved: false }],
+      [{ content: "/approve" }, { approved: true }],
+      [
+        { content: "/APPROVE looks fine" },
+        { approved: true, reason: "looks fine" },
+      ],
+      [
+        { content: "/deny push to <branch>, not Vec<u8> code" },
+        { approved: false, reason: "push to <branch>, not Vec<u8> code" },
+      ],
+      [
+        { content: "/deny use a snapshot first" },
+        { approved: false, reason: "use a snapshot first" },
+      ],
+    ])("should read %j as a decision", (reply, expected) => {
+      expect(parseApprovalReply(reply)).toEqual(expected);
+    });
+
+    it.each([
+      { content: "what does this delete?" },
+      { content: "/approved" },
+      { content: "", reaction: "one" },
+    ])("should not read %j as a decision", (reply) => {
+      expect(parseApprovalReply(reply)).toBeNull();
+    });
+  });
+
+  describe("requestApproval", () => {
+    it("should keep the topic within the chat's topic length", async () => {
+      mockClient.pollForReply.mockResolvedValue({
+        id: "123",
+        sender_email: "lead@example.com",
+        content: "/approve",
+        lastEventId: "1000",
+      });
+
+      await requestApproval(
+        mockConfig,
+        client,
+        {
+          action:
+            "Run a shell command (matches approval pattern `rm -rf`)\nrm -rf build",
+          risk: "high",
+        },
+        undefined,
+      );
+
+      const topic = mockClient.postMessage.mock.calls[0]?.[1] ?? "";
+      expect(topic.length).toBeLessThanOrEqual(MAX_TOPIC_LENGTH);
+      expect(mockClient.registerEventQueue).toHaveBeenCalledWith(
+        "test-stream",
+        topic,
+        "123",
+      );
+    });
+
+    it("should post in the stream of a routed question's thread", async () => {
+      trackSessionThread("Agent Q #abc", "payments");
+      mockClient.pollForReply.mockResolvedValue({
+        id: "124",
+        sender_email: "lead@example.com",
+        content: "/approve",
+      });
+
+      await requestApproval(
+        mockConfig,
+        client,
+        { ...request, thread_id: "Agent Q #abc" },
+        undefined,
+      );
+
+      expect(mockClient.postMessage).toHaveBeenCalledWith(
+        "payments",
+        "Agent Q #abc",
+        expect.any(String),
+      );
+      expect(mockClient.registerEventQueue).toHaveBeenCalledWith(
+        "payments",
+        "Agent Q #abc",
+        "123",
+      );
+    });
+
+    it("should post, pre-add reactions and return the decision", async () => {
+      mockClient.pollForReply.mockResolvedValue({
+        id: "123",
+        sender_email: "lead@example.com",
+        content: "",
+        reaction: "approve",
+        lastEventId: "1000",
+      });
+
+      const decision = await requestApproval(
+        mockConfig,
+        client,
+        request,
+        undefined,
+      );
+
+      expect(decision).toEqual({
+        approved: true,
+        status: "approved",
+        approver: "lead@example.com",
+        thread_id: expect.stringContaining("Approval #"),
+      });
+      expect(mockClient.postMessage).toHaveBeenCalledWith(
+        "test-stream",
+        expect.stringMatching(/^Approval #\w+ — Drop the staging database$/),
+        formatApprovalMessage(request),
+      );
+      expect(mockClient.addReaction.mock.calls).toEqual([
+        ["test-stream", "123", "approve"],
+        ["test-stream", "123", "deny"],
+      ]);
+      expect(mockClient.registerEventQueue).toHaveBeenCalledWith(
+        "test-stream",
+        decision.thread_id,
+        "123",
+      );
+      expect(mockClient.deregisterQueue).toHaveBeenCalledWith("queue-123");
+    });
+
+    it("should hint and keep waiting after replies that are not decisions", async () => {
+      mockClient.addReaction.mockRejectedValue(new Error("no reactions"));
+      mockClient.pollForReply
+        .mockResolvedValueOnce({
+          id: "200",
+          sender_email: "lead@example.com",
+          content: "what does this delete?",
+          lastEventId: "1000",
+        })
+        .mockResolvedValueOnce({
+          id: "201",
+          sender_email: "lead@example.com",
+          content: "/deny take a snapshot first",
+          lastEventId: "1001",
+        });
+
+      const decision = await requestApproval(
+        mockConfig,
+        client,
+        { ...request, thread_id: "Existing topic" },
+        undefined,
+      );
+
+      expect(decision).toEqual({
+        approved: false,
+        status: "denied",
+        approver: "lead@example.com",
+        reason: "take a snapshot first",
+        thread_id: "Existing topic",
+      });
+      expect(mockClient.pollForReply.mock.calls[1]?.[1]).toBe("1000");
+      expect(mockClient.postMessage).toHaveBeenLastCalledWith(
+        "test-stream",
+        "Existing topic",
+        expect.stringContaining("Please answer with `/approve`"),
+      );
+    });
+
+    it("should treat a timeout as denied and post a notice", async () => {
+      vi.useFakeTimers();
+      mockClient.pollForReply.mockImplementation(
+        async (_queueId, _lastEventId, _botEmail, signal) =>
+          await new Promise((resolve) => {
+            signal.addEventListener("abort", () => resolve(null), {
+              once: true,
+            });
+          }),
+      );
+
+      const decisionPromise = requestApproval(
+        mockConfig,
+        client,
+        { ...request, timeout_seconds: 60 },
+        undefined,
+      );
+      await vi.advanceTimersByTimeAsync(60000);
+
+      expect(await decisionPromise).toEqual({
+        approved: false,
+        status: "timed_out",
+        thread_id: expect.stringContaining("Approval #"),
+      });
+      expect(mockClient.postMessage).toHaveBeenLastCalledWith(
+        "test-stream",
+        expect.any(String),
+        "⏱️ _No decision within 1 minute. The action is treated as denied._",
+      );
+    });
+
+    it("should report cancellation when aborted", async () => {
+      const abortController = new AbortController();
+      mockClient.pollForReply.mockImplementation(async () => {
+        abortController.abort();
+        return null;
+      });
+
+      const decision = await requestApproval(
+        mockConfig,
+        client,
+        request,
+        abortController.signal,
+      );
+
+      expect(decision.status).toBe("cancelled");
+      expect(decision.approved).toBe(false);
+    });
+
+    it("should let the wait be cancelled as a pending question", async () => {
+      mockClient.pollForReply.mockImplementation(
+        async (_queueId, _lastEventId, _botEmail, signal) =>
+          await new Promise((resolve) => {
+            signal.addEventListener("abort", () => resolve(null), {
+              once: true,
+            });
+          }),
+      );
+
+      const decisionPromise = requestApproval(
+        mockConfig,
+        client,
+        request,
+        undefined,
+      );
+      await vi.waitFor(() => expect(getPendingQuestions()).toHaveLength(1));
+      const [pending] = getPendingQuestions();
+      expect(pending?.question).toBe("Drop the staging database");
+      pending?.cancel();
+
+      expect(await decisionPromise).toEqual({
+        approved: false,
+        status: "cancelled",
+        thread_id: expect.stringContaining("Approval #"),
+      });
+      expect(mockClient.postMessage).toHaveBeenLastCalledWith(
+        "test-stream",
+        expect.any(String),
+        "🛑 _Cancelled from Pi. The action is treated as denied._",
+      );
+      expect(getPendingQuestions()).toEqual([]);
+    });
+  });
+
+  describe("createRequestApprovalTool", () => {
+    it("should return a machine-readable approval", async () => {
+      mockClient.pollForReply.mockResolvedValue({
+        id: "200",
+        sender_email: "lead@example.com",
+        content: "/approve go ahead",
+        lastEventId: "1000",
+      });
+      const onUpdate = vi.fn();
+      const tool = createRequestApprovalTool(mockConfig, client);
+
+      const result = await tool.execute(
+        "tool-call-123",
+        request,
+        new AbortController().signal,
+        onUpdate,
+        {} as any,
+      );
+
+      expect(tool.name).toBe("request_approval");
+      expect(result).toEqual({
+        content: [
+          {
+            type: "text",
+            text: "Approved by lead@example.com: go ahead. Proceed with the action.",
+          },
+        ],
+        isError: false,
+        details: {
+          approved: true,
+          status: "approved",
+          approver: "lead@example.com",
+          reason: "go ahead",
+          thread_id: expect.stringContaining("Approval #"),
+        },
+      });
+      expect(onUpdate).toHaveBeenCalledWith(
+        expect.objectContaining({
+          content: [
+            { type: "text", text: "Posting approval request to Zulip..." },
+          ],
+        }),
+      );
+    });
+
+    it("should tell the agent not to proceed when denied", async () => {
+      mockClient.pollForReply.mockResolvedValue({
+        id: "123",
+        sender_email: "lead@example.com",
+        content: "",
+        reaction: "deny",
+        lastEventId: "1000",
+      });
+      const tool = createRequestApprovalTool(mockConfig, client);
+
+      const result = await tool.execute(
+        "id",
+        request,
+        undefined,
+        undefined,
+        {} as any,
+      );
+
+      expect(result.content[0]?.text).toBe(
+        "Denied by lead@example.com. Do not perform the action.",
+      );
+      expect(result.details?.approved).toBe(false);
+    });
+
+    it("should return cancellation when already aborted", async () => {
+      const abortController = new AbortController();
+      abortController.abort();
+      const tool = createRequestApprovalTool(mockConfig, client);
+
+      const result = await tool.execute(
+        "id",
+        request,
+        abortController.signal,
+        undefined,
+        {} as any,
+      );
+
+      expect(result.details).toEqual({ approved: false, status: "cancelled" });
+      expect(mockClient.postMessage).not.toHaveBeenCalled();
+    });
+
+    it("should fail closed when the chat backend errors", async () => {
+      mockClient.postMessage.mockRejectedValue(new Error("Network down"));
+      const tool = createRequestApprovalTool(mockConfig, client);
+
+      const result = await tool.execute(
+        "id",
+        request,
+        undefined,
+        undefined,
+        {} as any,
+      );
+
+      expect(result).toEqual({
+        content: [
+          {
+            type: "text",
+            text: "Failed to request approval: Network down. Treat the action as denied.",
+          },
+        ],
+        isError: true,
+        details: { approved: false },
+      });
+    });
+
+    it("should fail closed without configuration in print mode", async () => {
+      const tool = createRequestApprovalTool(
+        null,
+        null,
+        new Error("ZULIP_STREAM is required"),
+      );
+
+      const result = await tool.execute("id", request, undefined, undefined, {
+        hasUI: false,
+      } as any);
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0]?.text).toContain("ZULIP_STREAM is required");
+    });
+
+    it("should explain that the terminal backend needs the UI", async () => {
+      const tool = createRequestApprovalTool(
+        { ...mockConfig, backend: "terminal" },
+        null,
+      );
+
+      const result = await tool.execute("id", request, undefined, undefined, {
+        hasUI: false,
+      } as any);
+
+      expect(result.content[0]?.text).toContain("interactive UI");
+    });
+
+    it.each([
+      [true, { approved: true, status: "approved", approver: "terminal" }],
+      [false, { approved: false, status: "denied", approver: "terminal" }],
+    ])("should confirm in the terminal (%s)", async (answer, details) => {
+      const confirm = vi.fn().mockResolvedValue(answer);
+      const tool = createRequestApprovalTool(
+        null,
+        null,
+        new Error("no config"),
+      );
+
+      const result = await tool.execute("id", request, undefined, undefined, {
+        hasUI: true,
+        ui: { confirm },
+      } as any);
+
+      expect(confirm).toHaveBeenCalledWith(
+        "🛡️ Approve high-risk action?",
+        "Drop the staging database\n\ndropdb staging\n\nRemoves all staging data",
+        undefined,
+      );
+      expect(result.details).toEqual(details);
+    });
+
+    it("should report a terminal timeout as denied", async () => {
+      vi.useFakeTimers();
+      const confirm = vi.fn(async (_title, _message, opts) => {
+        await vi.advanceTimersByTimeAsync(opts.timeout);
+        return false;
+      });
+      const tool = createRequestApprovalTool(
+        { ...mockConfig, backend: "terminal", timeoutMs: 30000 },
+        null,
+      );
+
+      const result = await tool.execute("id", request, undefined, undefined, {
+        hasUI: true,
+        ui: { confirm },
+      } as any);
+
+      expect(result.details).toEqual({ approved: false, status: "timed_out" });
+      expect(result.content[0]?.text).toBe(
+        "No decision within 30 seconds. Treat the action as denied.",
+      );
+    });
+  });
+});
@@ -0,0 +1,170 @@
+/**
+ * Tests for attachment upload and download.
+ */
+
+import { mkdtemp, readFile, rm, symlink, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import {
+  downloadAttachments,
+  formatAttachments,
+  uploadAttachments,
+} from "../src/attachments.js";
+import type { ChatClient } from "../src/chat-client.js";
+
+describe("attachments", () => {
+  let cwd: string;
+
+  const createClient = (overrides: Partial<ChatClient> = {}): ChatClient => ({
+    postMessage: vi.fn<ChatClient["postMessage"]>(),
+    registerEventQueue: vi.fn<ChatClient["registerEventQueue"]>(),
+    pollForReply: vi.fn<ChatClient["pollForReply"]>(),
+    deregisterQueue: vi.fn<ChatClient["deregisterQueue"]>(),
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    cwd = await mkdtemp(path.join(tmpdir(), "attachments-test-"));
+  });
+
+  afterEach(async () => {
+    await rm(cwd, { recursive: true, force: true });
+  });
+
+  describe("uploadAttachments", () => {
+    it("should upload files relative to the working directory", async () => {
+      await writeFile(path.join(cwd, "build.log"), "failed");
+      const uploadFile = vi
+        .fn<NonNullable<ChatClient["uploadFile"]>>()
+        .mockResolvedValue("/user_uploads/1/build.log");
+
+      const uploaded = await uploadAttachments(
+        createClient({ uploadFile }),
+        cwd,
+        ["build.log"],
+      );
+
+      expect(uploaded).toEqual([
+        { name: "build.log", url: "/user_uploads/1/build.log" },
+      ]);
+      expect(new TextDecoder().decode(uploadFile.mock.calls[0]?.[1])).toBe(
+        "failed",
+      );
+    });
+
+    it("should throw when a file cannot be read", async () => {
+      const client = createClient({ uploadFile: vi.fn() });
+
+      await expect(
+        uploadAttachments(client, cwd, ["missing.txt"]),
+      ).rejects.toThrow(/Cannot read attachment missing.txt/);
+    });
+
+    it("should refuse files outside the working directory", async () => {
+      const uploadFile = vi.fn<NonNullable<ChatClient["uploadFile"]>>();
+      const client = createClient({ uploadFile });
+
+      await expect(
+        uploadAttachments(client, cwd, ["../secrets.env"]),
+      ).rejects.toThrow(
+        "Cannot attach ../secrets.env: only files inside the working directory can be attached",
+      );
+      await expect(
+        uploadAttachments(client, cwd, ["/etc/passwd"]),
+      ).rejects.toThrow(/only files inside the working directory/);
+      expect(uploadFile).not.toHaveBeenCalled();
+    });
+
+    it("should refuse symlinks that lead outside the working directory", async () => {
+      const outside = await mkdtemp(
+        path.join(tmpdir(), "attachments-outside-"),
+      );
+      await writeFile(path.join(outside, "id_rsa"), "secret");
+      await symlink(path.join(outside, "id_rsa"), path.join(cwd, "notes"));
+      const uploadFile = vi.fn<NonNullable<ChatClient["uploadFile"]>>();
+
+      try {
+        await expect(
+          uploadAttachments(createClient({ uploadFile }), cwd, ["notes"]),
+        ).rejects.toThrow(
+          "Cannot attach notes: only files inside the working directory can be attached",
+        );
+        expect(uploadFile).not.toHaveBeenCalled();
+      } finally {
+        await rm(outside, { recursive: true, force: true });
+      }
+    });
+
+    it("should accept absolute paths inside the working directory", async () => {
+      await writeFile(path.join(cwd, "build.log"), "failed");
+      const uploadFile = vi
+        .fn<NonNullable<ChatClient["uploadFile"]>>()
+        .mockResolvedValue("/user_uploads/1/build.log");
+
+      await expect(
+        uploadAttachments(createClient({ uploadFile }), cwd, [
+          path.join(cwd, "build.log"),
+        ]),
+      ).resolves.toHaveLength(1);
+    });
+
+    it("should upload nothing when the backend has no uploads", async () => {
+      await expect(
+        uploadAttachments(createClient(), cwd, ["build.log"]),
+      ).resolves.toEqual([]);
+    });
+  });
+
+  describe("formatAttachments", () => {
+    it("should link uploads and list files that stayed local", () => {
+      expect(
+        formatAttachments(
+          [{ name: "a.log", url: "/user_uploads/a.log" }],
+          ["b.patch"],
+        ),
+      ).toBe(
+        "**Attachments:**\n- [a.log](/user_uploads/a.log)\n- `b.patch` (on the agent's machine)",
+      );
+    });
+
+    it("should be empty without attachments", () => {
+      expect(formatAttachments([], [])).toBe("");
+    });
+  });
+
+  describe("downloadAttachments", () => {
+    it("should save downloads under unique names and skip other links", async () => {
+      const downloadFile = vi
+        .fn<NonNullable<ChatClient["downloadFile"]>>()
+        .mockImplementation(async (url) => {
+          if (url.includes("fail")) {
+            throw new Error("boom");
+          }
+          return url.includes("uploads")
+            ? { name: "../notes.txt", data: new TextEncoder().encode(url) }
+            : null;
+        });
+
+      const files = await downloadAttachments(createClient({ downloadFile }), [
+        "https://chat/uploads/1",
+        "https://example.com",
+        "https://chat/uploads/fail",
+        "https://chat/uploads/2",
+      ]);
+
+      expect(files).toHaveLength(2);
+      expect(path.basename(files[0]!)).toBe("notes.txt");
+      expect(path.basename(files[1]!)).toBe("notes-1.txt");
+      await expect(readFile(files[1]!, "utf8")).resolves.toBe(
+        "https://chat/uploads/2",
+      );
+      await rm(path.dirname(files[0]!), { recursive: true, force: true });
+    });
+
+    it("should download nothing when the backend has no downloads", async () => {
+      await expect(
+        downloadAttachments(createClient(), ["https://chat/uploads/1"]),
+      ).resolves.toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,110 @@
+/**
+ * Tests for chat client selection.
+ */
+
+import {
+  BACKEND_LABELS,
+  createChatClient,
+  formatTopic,
+  MAX_TOPIC_LENGTH,
+} from "../src/chat-client.js";
+
+describe("chat-client", () => {
+  const originalFetch = global.fetch;
+  const config = {
+    backend: "zulip" as const,
+    serverUrl: "https://zulip.example.com",
+    botEmail: "bot@example.com",
+    botApiKey: "test-api-key",
+    stream: "test-stream",
+    pollIntervalMs: 5000,
+  };
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+  });
+
+  describe("formatTopic", () => {
+    it("should keep short topics whole", () => {
+      expect(formatTopic("Agent Q #abc", "Deploy?")).toBe(
+        "Agent Q #abc — Deploy?",
+      );
+    });
+
+    it("should shorten the summary to fit the topic limit", () => {
+      const topic = formatTopic("Approval #lq3x9k2a", "x".repeat(80));
+
+      expect(topic).toHaveLength(MAX_TOPIC_LENGTH);
+      expect(topic).toMatch(/^Approval #lq3x9k2a — x+\.\.\.$/);
+    });
+
+    it("should cut a head that leaves no room for a summary", () => {
+      expect(formatTopic("h".repeat(70), "Deploy?")).toBe(
+        "h".repeat(MAX_TOPIC_LENGTH),
+      );
+    });
+  });
+
+  it("should create a Zulip client for the zulip backend", async () => {
+    const mockFetch = vi.fn().mockResolvedValue({
+      ok: true,
+      json: async () => ({ id: 123 }),
+    });
+    global.fetch = mockFetch as unknown as typeof global.fetch;
+
+    const client = createChatClient(config);
+    const messageId = await client.postMessage("stream", "topic", "content");
+
+    expect(messageId).toBe("123");
+    expect(mockFetch).toHaveBeenCalledWith(
+      "https://zulip.example.com/api/v1/messages",
+      expect.anything(),
+    );
+  });
+
+  it("should skip replies from senders outside the responder policy", async () => {
+    const events = (id: number, sender: string) => ({
+      ok: true,
+      json: async () => ({
+        events: [
+          {
+            id,
+            message: { id, sender_id: id, sender_email: sender, content: "hi" },
+          },
+        ],
+      }),
+    });
+    const mockFetch = vi
+      .fn()
+      .mockResolvedValueOnce(events(1, "ci@example.com"))
+      .mockResolvedValueOnce(events(2, "alice@example.com"))
+      .mockResolvedValue({
+        ok: true,
+        json: async () => ({ user: { is_bot: false } }),
+      });
+    global.fetch = mockFetch as unknown as typeof global.fetch;
+
+    const client = createChatClient({
+      ...config,
+      responders: { allow: [], deny: ["ci@example.com"] },
+    });
+    const reply = await client.pollForReply(
+      "queue-1",
+      "0",
+      "bot@example.com",
+      new AbortController().signal,
+    );
+
+    expect(reply?.sender_email).toBe("alice@example.com");
+  });
+
+  it("should expose a label for every backend", () => {
+    expect(BACKEND_LABELS.zulip).toBe("Zulip");
+  });
+
+  it("should refuse to create a client for the terminal backend", () => {
+    expect(() => createChatClient({ ...config, backend: "terminal" })).toThrow(
+      /terminal backend does not use a chat client/,
+    );
+  });
+});
@@ -0,0 +1,59 @@
+/**
+ * Tests for multiple-choice helpers.
+ */
+
+import {
+  formatOptions,
+  fromNativeEmoji,
+  matchOption,
+  toNativeEmoji,
+} from "../src/choices.js";
+
+describe("choices", () => {
+  const options = ["Keep the cache", "Drop the cache", "Ask the team"];
+
+  it("should list options with their number emojis", () => {
+    const formatted = formatOptions(options);
+
+    expect(formatted).toContain("**Options:**");
+    expect(formatted).toContain("1️⃣ Keep the cache\n2️⃣ Drop the cache");
+    expect(formatted).toContain("3️⃣ Ask the team");
+  });
+
+  it("should translate answer emojis to each backend", () => {
+    expect(toNativeEmoji("two", "zulip")).toBe("two");
+    expect(toNativeEmoji("approve", "zulip")).toBe("check");
+    expect(toNativeEmoji("approve", "slack")).toBe("white_check_mark");
+    expect(toNativeEmoji("deny", "matrix")).toBe("❌");
+    expect(toNativeEmoji("thumbs_up", "zulip")).toBeUndefined();
+  });
+
+  it("should recognise answer reactions from each backend", () => {
+    expect(fromNativeEmoji("cross_mark", "zulip")).toBe("deny");
+    expect(fromNativeEmoji("x", "slack")).toBe("deny");
+    expect(fromNativeEmoji("3️⃣", "matrix")).toBe("three");
+    expect(fromNativeEmoji("thumbs_up", "zulip")).toBeUndefined();
+    expect(fromNativeEmoji("👍", "matrix")).toBeUndefined();
+  });
+
+  it("should match reactions to options", () => {
+    expect(matchOption(options, { content: "", reaction: "two" })).toBe(1);
+    expect(matchOption(options, { content: "", reaction: "five" })).toBeNull();
+  });
+
+  it.each([
+    ["2", 1],
+    ["2.", 1],
+    ["#3", 2],
+    ["Option 1", 0],
+    ["  drop the CACHE ", 1],
+  ])("should match the text reply %j", (content, expected) => {
+    expect(matchOption(options, { content })).toBe(expected);
+  });
+
+  it("should not match other text or out-of-range numbers", () => {
+    expect(matchOption(options, { content: "4" })).toBeNull();
+    expect(matchOption(options, { content: "0" })).toBeNull();
+    expect(matchOption(options, { content: "Neither, do X" })).toBeNull();
+  });
+});
@@ -0,0 +1,280 @@
+/**
+ * Tests for multi-message reply collection.
+ */
+
+import type { ChatClient, ChatMessage } from "../src/chat-client.js";
+import { collectReplies, splitDoneCommand } from "../src/collect.js";
+
+describe("collect", () => {
+  describe("splitDoneCommand", () => {
+    it("should leave messages without a terminator untouched", () => {
+      expect(splitDoneCommand("Use Postgres")).toEqual({
+        content: "Use Postgres",
+        done: false,
+      });
+      expect(splitDoneCommand("see src/done")).toEqual({
+        content: "see src/done",
+        done: false,
+      });
+    });
+
+    it("should recognise a bare /done", () => {
+      expect(splitDoneCommand(" /DONE ")).toEqual({ content: "", done: true });
+    });
+
+    it("should strip a trailing /done from the answer", () => {
+      expect(splitDoneCommand("Use Postgres\n/done")).toEqual({
+        content: "Use Postgres",
+        done: true,
+      });
+      expect(splitDoneCommand("Return a Vec<u8> from <branch> /done")).toEqual({
+        content: "Return a Vec<u8> from <branch>",
+        done: true,
+      });
+    });
+  });
+
+  describe("collectReplies", () => {
+    const pollForReply = vi.fn<ChatClient["pollForReply"]>();
+    const client = { pollForReply } as unknown as ChatClient;
+
+    const message = (
+      id: string,
+      content: string,
+      overrides: Partial<ChatMessage> = {},
+    ): ChatMessage => ({
+      id,
+      sender_email: "alice@example.com",
+      content,
+      lastEventId: id,
+      ...overrides,
+    });
+
+    // Resolves null once the quiet period (or an abort) ends the poll
+    const waitUntilAborted: ChatClient["pollForReply"] = async (
+      _queueId,
+      _lastEventId,
+      _botEmail,
+      signal,
+    ) =>
+      await new Promise((resolve) => {
+        signal.addEventListener("abort", () => resolve(null), { once: true });
+      });
+
+    beforeEach(() => {
+      vi.useFakeTimers();
+      pollForReply.mockReset();
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it("should gather messages until the thread goes quiet", async () => {
+      pollForReply
+        .mockResolvedValueOnce(message("2", "Part two"))
+        .mockImplementationOnce(waitUntilAborted);
+
+      const promise = collectReplies(
+        client,
+        "queue-1",
+        message("1", "Part one"),
+        "0",
+        "bot@example.com",
+        30000,
+        undefined,
+      );
+      await vi.advanceTimersByTimeAsync(30000);
+
+      expect((await promise).map((m) => m.content)).toEqual([
+        "Part one",
+        "Part two",
+      ]);
+      expect(pollForReply).toHaveBeenNthCalledWith(
+        1,
+        "queue-1",
+        "1",
+        "bot@example.com",
+        expect.any(AbortSignal),
+      );
+      expect(pollForReply).toHaveBeenNthCalledWith(
+        2,
+        "queue-1",
+        "2",
+        "bot@example.com",
+        expect.any(AbortSignal),
+      );
+    });
+
+    it("should stop at /done without waiting for the quiet period", async () => {
+      pollForReply.mockResolvedValueOnce(message("2", "Part two\n/done"));
+
+      const messages = await collectReplies(
+        client,
+        "queue-1",
+        message("1", "Part one"),
+        "0",
+        "bot@example.com",
+        30000,
+        undefined,
+      );
+
+      expect(messages.map((m) => m.content)).toEqual(["Part one", "Part two"]);
+      expect(pollForReply).toHaveBeenCalledTimes(1);
+    });
+
+    it("should stop at a ✅ reaction and ignore other reactions", async () => {
+      pollForReply
+        .mockResolvedValueOnce(message("2", "", { reaction: "one" }))
+        .mockResolvedValueOnce(message("3", "", { reaction: "approve" }));
+
+      const messages = await collectReplies(
+        client,
+        "queue-1",
+        message("1", "Answer"),
+        "0",
+        "bot@example.com",
+        30000,
+        undefined,
+      );
+
+      expect(messages.map((m) => m.content)).toEqual(["Answer"]);
+      expect(pollForReply).toHaveBeenLastCalledWith(
+        "queue-1",
+        "2",
+        "bot@example.com",
+        expect.any(AbortSignal),
+      );
+    });
+
+    it("should not restart the quiet period for skipped reactions", async () => {
+      // An option reaction that keeps arriving, every 10 seconds
+      pollForReply.mockImplementation(
+        async (_queueId, _lastEventId, _botEmail, signal) =>
+          await new Promise((resolve) => {
+            const timer = setTimeout(
+              () => resolve(message("1", "", { reaction: "one" })),
+              10000,
+            );
+            signal.addEventListener(
+              "abort",
+              () => {
+                clearTimeout(timer);
+                resolve(null);
+              },
+              { once: true },
+            );
+          }),
+      );
+
+      const promise = collectReplies(
+        client,
+        "queue-1",
+        message("1", "Answer"),
+        "0",
+        "bot@example.com",
+        30000,
+        undefined,
+      );
+      await vi.advanceTimersByTimeAsync(30000);
+
+      expect((await promise).map((m) => m.content)).toEqual(["Answer"]);
+      expect(pollForReply).toHaveBeenCalledTimes(3);
+    });
+
+    it("should return a reaction answer on its own", async () => {
+      const first = message("1", "", { reaction: "two" });
+
+      await expect(
+        collectReplies(
+          client,
+          "queue-1",
+          first,
+          "0",
+          "bot@example.com",
+          30000,
+          undefined,
+        ),
+      ).resolves.toEqual([first]);
+      expect(pollForReply).not.toHaveBeenCalled();
+    });
+
+    it("should resume from the given position when the first reply has none", async () => {
+      pollForReply.mockResolvedValueOnce(message("2", "/done"));
+
+      await collectReplies(
+        client,
+        "queue-1",
+        { id: "1", sender_email: "alice@example.com", content: "Caught up" },
+        "7",
+        "bot@example.com",
+        30000,
+        undefined,
+      );
+
+      expect(pollForReply).toHaveBeenCalledWith(
+        "queue-1",
+        "7",
+        "bot@example.com",
+        expect.any(AbortSignal),
+      );
+    });
+
+    it("should collect a caught-up reply once when the queue delivers it again", async () => {
+      pollForReply
+        .mockResolvedValueOnce(message("1", "Caught up"))
+        .mockResolvedValueOnce(message("2", "And more"))
+        .mockImplementation(waitUntilAborted);
+
+      const result = collectReplies(
+        client,
+        "queue-1",
+        { id: "1", sender_email: "alice@example.com", content: "Caught up" },
+        "0",
+        "bot@example.com",
+        30000,
+        undefined,
+      );
+      await vi.advanceTimersByTimeAsync(30000);
+
+      expect((await result).map((m) => m.content)).toEqual([
+        "Caught up",
+        "And more",
+      ]);
+    });
+
+    it("should keep what was gathered when polling fails", async () => {
+      pollForReply
+        .mockResolvedValueOnce(message("2", "Part two"))
+        .mockRejectedValueOnce(new Error("boom"));
+
+      const messages = await collectReplies(
+        client,
+        "queue-1",
+        message("1", "Part one"),
+        "0",
+        "bot@example.com",
+        30000,
+        undefined,
+      );
+
+      expect(messages).toHaveLength(2);
+    });
+
+    it("should fall back to the first message when it was only /done", async () => {
+      const first = message("1", "/done");
+
+      await expect(
+        collectReplies(
+          client,
+          "queue-1",
+          first,
+          "0",
+          "bot@example.com",
+          30000,
+          undefined,
+        ),
+      ).resolves.toEqual([first]);
+    });
+  });
+});
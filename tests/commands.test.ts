@@ -0,0 +1,403 @@
+/**
+ * Tests for the /human-loop command.
+ */
+
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import type { ChatClient } from "../src/chat-client.js";
+import {
+  createHumanLoopCommand,
+  TEST_REPLY_TIMEOUT_MS,
+  TEST_TOPIC,
+} from "../src/commands.js";
+import { createConversationStore } from "../src/conversation-store.js";
+import type { RemoteControl } from "../src/remote-control.js";
+import {
+  clearSessionActivity,
+  recordQuestion,
+  trackPendingQuestion,
+} from "../src/session-activity.js";
+
+describe("commands", () => {
+  const config = {
+    backend: "zulip" as const,
+    serverUrl: "https://zulip.example.com",
+    botEmail: "bot@example.com",
+    botApiKey: "test-api-key",
+    stream: "test-stream",
+    pollIntervalMs: 5000,
+  };
+
+  const createClient = () => ({
+    postMessage: vi.fn<ChatClient["postMessage"]>().mockResolvedValue("123"),
+    registerEventQueue: vi
+      .fn<ChatClient["registerEventQueue"]>()
+      .mockResolvedValue({ queueId: "queue-1", lastEventId: "7" }),
+    pollForReply: vi.fn<ChatClient["pollForReply"]>(),
+    deregisterQueue: vi
+      .fn<ChatClient["deregisterQueue"]>()
+      .mockResolvedValue(undefined),
+  });
+
+  const createContext = (cwd?: string) => ({
+    ui: { notify: vi.fn() },
+    ...(cwd ? { cwd } : {}),
+  });
+
+  // Runs a subcommand and returns what it told the user
+  const run = async (
+    command: ReturnType<typeof createHumanLoopCommand>,
+    args: string,
+    cwd?: string,
+  ) => {
+    const ctx = createContext(cwd);
+    await command.handler(args, ctx as any);
+    return ctx.ui.notify.mock.calls as [string, string][];
+  };
+
+  beforeEach(() => {
+    clearSessionActivity();
+  });
+
+  describe("status", () => {
+    let projectDir: string;
+
+    beforeEach(async () => {
+      projectDir = await mkdtemp(path.join(tmpdir(), "human-loop-status-"));
+    });
+
+    afterEach(async () => {
+      await rm(projectDir, { recursive: true, force: true });
+    });
+
+    it("should report the backend and open questions with their wait time", async () => {
+      vi.useFakeTimers({ now: 600000 });
+      trackPendingQuestion({
+        threadId: "Agent Q #abc — Deploy?",
+        stream: "test-stream",
+        question: "Deploy now?",
+        since: 600000 - 185000,
+        cancel: vi.fn(),
+      });
+      const command = createHumanLoopCommand(
+        config,
+        createClient() as unknown as ChatClient,
+      );
+
+      const [message, type] = (await run(command, "status"))[0]!;
+      vi.useRealTimers();
+
+      expect(type).toBe("info");
+      expect(message).toContain('Backend: Zulip, stream "test-stream"');
+      expect(message).toContain(
+        "- Agent Q #abc — Deploy? (test-stream), waiting 3 minutes: Deploy now?",
+      );
+    });
+
+    it("should report connection problems", async () => {
+      const client = {
+        ...createClient(),
+        checkConnection: vi.fn().mockResolvedValue([
+          {
+            type: "invalid",
+            var: "ZULIP_STREAM",
+            message: 'Zulip stream "test-stream" does not exist',
+          },
+        ]),
+      };
+      const command = createHumanLoopCommand(
+        config,
+        client as unknown as ChatClient,
+      );
+
+      const [message] = (await run(command, "status"))[0]!;
+
+      expect(message).toContain(
+        'Connection problems:\n  ZULIP_STREAM: Zulip stream "test-stream" does not exist',
+      );
+    });
+
+    it("should not subscribe the bot to check the connection", async () => {
+      const checkConnection = vi.fn().mockResolvedValue([]);
+      const command = createHumanLoopCommand(
+        { ...config, autoSubscribe: true },
+        { ...createClient(), checkConnection } as unknown as ChatClient,
+      );
+
+      const [message] = (await run(command, "status"))[0]!;
+
+      expect(message).toContain("Connection: OK");
+      expect(checkConnection).toHaveBeenCalledWith(["test-stream"], false);
+    });
+
+    it("should report configuration errors", async () => {
+      const command = createHumanLoopCommand(
+        null,
+        null,
+        new Error("ZULIP_STREAM is required"),
+      );
+
+      const [message] = (await run(command, "status"))[0]!;
+
+      expect(message).toContain(
+        "Configuration error: ZULIP_STREAM is required",
+      );
+      expect(message).toContain("Not waiting on any question.");
+    });
+
+    it("should count questions left open by earlier sessions", async () => {
+      await createConversationStore(projectDir).save({
+        thread_id: "Agent Q #old",
+        backend: "zulip",
+        stream: "test-stream",
+        question: "Old question?",
+        message_id: "1",
+        queue_id: "queue-old",
+        last_event_id: "0",
+        asked_at: new Date().toISOString(),
+      });
+      const command = createHumanLoopCommand(
+        config,
+        createClient() as unknown as ChatClient,
+      );
+
+      const [message] = (await run(command, "status", projectDir))[0]!;
+
+      expect(message).toContain("Unanswered from earlier sessions: 1");
+    });
+  });
+
+  describe("history", () => {
+    it("should list questions and their answers", async () => {
+      recordQuestion({
+        question: "Which approach?",
+        threadId: "Agent Q #abc",
+        outcome: "answered",
+        answer: "Human replied: A",
+        responder: "human@example.com",
+        askedAt: 0,
+        finishedAt: 30000,
+      });
+      const command = createHumanLoopCommand(config, null);
+
+      const [message] = (await run(command, "history"))[0]!;
+
+      expect(message).toBe(
+        [
+          "1. Which approach?",
+          "   answered by human@example.com after 30 seconds (Agent Q #abc)",
+          "   Human replied: A",
+        ].join("\n"),
+      );
+    });
+
+    it("should say when nothing was asked", async () => {
+      const command = createHumanLoopCommand(config, null);
+
+      expect(await run(command, "history")).toEqual([
+        ["No questions asked this session.", "info"],
+      ]);
+    });
+  });
+
+  describe("cancel", () => {
+    it("should cancel the named question", async () => {
+      const cancel = vi.fn();
+      trackPendingQuestion({
+        threadId: "Agent Q #abc — Deploy?",
+        stream: "test-stream",
+        question: "Deploy now?",
+        since: Date.now(),
+        cancel,
+      });
+      trackPendingQuestion({
+        threadId: "Agent Q #xyz — Rollback?",
+        stream: "test-stream",
+        question: "Roll back?",
+        since: Date.now(),
+        cancel: vi.fn(),
+      });
+      const command = createHumanLoopCommand(config, null);
+
+      expect(await run(command, "cancel #abc")).toEqual([
+        ["Cancelled: Deploy now?", "info"],
+      ]);
+      expect(cancel).toHaveBeenCalled();
+    });
+
+    it("should cancel the only open question without a thread", async () => {
+      const cancel = vi.fn();
+      trackPendingQuestion({
+        threadId: "Agent Q #abc",
+        stream: "test-stream",
+        question: "Deploy now?",
+        since: Date.now(),
+        cancel,
+      });
+      const command = createHumanLoopCommand(config, null);
+
+      await run(command, "cancel");
+
+      expect(cancel).toHaveBeenCalled();
+    });
+
+    it("should warn when no question matches", async () => {
+      const command = createHumanLoopCommand(config, null);
+
+      expect(await run(command, "cancel #abc")).toEqual([
+        ["Not waiting on any question.", "warning"],
+      ]);
+    });
+
+    it("should complete open thread IDs", () => {
+      trackPendingQuestion({
+        threadId: "Agent Q #abc",
+        stream: "test-stream",
+        question: "Deploy now?",
+        since: Date.now(),
+        cancel: vi.fn(),
+      });
+      const command = createHumanLoopCommand(config, null);
+
+      expect(command.getArgumentCompletions?.("cancel ab")).toEqual([
+        {
+          value: "cancel Agent Q #abc",
+          label: "Agent Q #abc",
+          description: "Deploy now?",
+        },
+      ]);
+    });
+  });
+
+  describe("resume", () => {
+    it("should resume an agent paused from chat", async () => {
+      const resume = vi.fn().mockReturnValue(true);
+      const command = createHumanLoopCommand(
+        config,
+        createClient() as unknown as ChatClient,
+        null,
+        () => ({ resume }) as unknown as RemoteControl,
+      );
+
+      expect(await run(command, "resume")).toEqual([
+        ["Resumed: the agent is continuing.", "info"],
+      ]);
+      expect(resume).toHaveBeenCalled();
+    });
+
+    it("should say when the agent is not paused", async () => {
+      const command = createHumanLoopCommand(config, null);
+
+      expect(await run(command, "resume")).toEqual([
+        ["The agent is not paused.", "warning"],
+      ]);
+    });
+  });
+
+  describe("test", () => {
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it("should post a test message and report the reply", async () => {
+      const client = createClient();
+      client.pollForReply.mockResolvedValue({
+        id: "124",
+        sender_email: "human@example.com",
+        content: "pong",
+      });
+      const command = createHumanLoopCommand(
+        config,
+        client as unknown as ChatClient,
+      );
+
+      const messages = await run(command, "test");
+
+      expect(client.postMessage).toHaveBeenCalledWith(
+        "test-stream",
+        TEST_TOPIC,
+        expect.stringContaining("pi-human-loop test"),
+      );
+      expect(client.registerEventQueue).toHaveBeenCalledWith(
+        "test-stream",
+        TEST_TOPIC,
+      );
+      expect(messages.at(-1)).toEqual([
+        expect.stringContaining("Round trip works: human@example.com replied"),
+        "info",
+      ]);
+      expect(client.deregisterQueue).toHaveBeenCalledWith("queue-1");
+    });
+
+    it("should warn when nobody replies in time", async () => {
+      vi.useFakeTimers();
+      const client = createClient();
+      client.pollForReply.mockImplementation(
+        async (_queueId, _lastEventId, _botEmail, signal) =>
+          await new Promise((resolve) => {
+            signal.addEventListener("abort", () => resolve(null), {
+              once: true,
+            });
+          }),
+      );
+      const command = createHumanLoopCommand(
+        config,
+        client as unknown as ChatClient,
+      );
+
+      const ctx = createContext();
+      const done = command.handler("test", ctx as any);
+      await vi.advanceTimersByTimeAsync(TEST_REPLY_TIMEOUT_MS);
+      await done;
+
+      expect(ctx.ui.notify).toHaveBeenLastCalledWith(
+        expect.stringContaining("no reply arrived within 2 minutes"),
+        "warning",
+      );
+      expect(client.deregisterQueue).toHaveBeenCalledWith("queue-1");
+    });
+
+    it("should report failures to post", async () => {
+      const client = createClient();
+      client.postMessage.mockRejectedValue(new Error("Stream not found"));
+      const command = createHumanLoopCommand(
+        config,
+        client as unknown as ChatClient,
+      );
+
+      expect(await run(command, "test")).toEqual([
+        ["Test failed: Stream not found", "error"],
+      ]);
+    });
+
+    it("should refuse to test without a chat backend", async () => {
+      const command = createHumanLoopCommand(
+        { ...config, backend: "terminal" },
+        null,
+      );
+
+      expect(await run(command, "test")).toEqual([
+        ["Cannot test: the terminal backend has no chat to test", "error"],
+      ]);
+    });
+  });
+
+  it("should show usage for unknown subcommands", async () => {
+    const command = createHumanLoopCommand(config, null);
+
+    const [message, type] = (await run(command, "frobnicate"))[0]!;
+
+    expect(type).toBe("warning");
+    expect(message).toContain('Unknown command "frobnicate"');
+    expect(message).toContain("status");
+  });
+
+  it("should complete subcommands", () => {
+    const command = createHumanLoopCommand(config, null);
+
+    expect(
+      command.getArgumentCompletions?.("h")?.map((item) => item.value),
+    ).toEqual(["history"]);
+  });
+});
@@ -0,0 +1,135 @@
+/**
+ * Tests for configuration files.
+ */
+
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import type { ConfigError } from "../src/config.js";
+import { readSettingsFile, readZuliprc } from "../src/config-files.js";
+
+describe("config-files", () => {
+  let dir: string;
+  let errors: ConfigError[];
+
+  const write = (name: string, content: string) => {
+    const filePath = path.join(dir, name);
+    writeFileSync(filePath, content);
+    return filePath;
+  };
+
+  beforeEach(() => {
+    dir = mkdtempSync(path.join(tmpdir(), "config-files-"));
+    errors = [];
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  describe("readSettingsFile", () => {
+    it("should read settings as environment variable strings", () => {
+      const filePath = write(
+        "human-loop.json",
+        JSON.stringify({
+          ZULIP_STREAM: "payments",
+          HUMAN_LOOP_TIMEOUT_MS: 60000,
+          HUMAN_LOOP_TIMEOUT_NOTICE: false,
+          HUMAN_LOOP_ALLOWED_RESPONDERS: ["alice@example.com", "group:ops"],
+          HUMAN_LOOP_ROUTES: [{ category: "infra", stream: "infra" }],
+        }),
+      );
+
+      expect(readSettingsFile(filePath, errors)).toEqual({
+        ZULIP_STREAM: "payments",
+        HUMAN_LOOP_TIMEOUT_MS: "60000",
+        HUMAN_LOOP_TIMEOUT_NOTICE: "false",
+        HUMAN_LOOP_ALLOWED_RESPONDERS: "alice@example.com,group:ops",
+        HUMAN_LOOP_ROUTES: '[{"category":"infra","stream":"infra"}]',
+      });
+      expect(errors).toEqual([]);
+    });
+
+    it("should treat a missing file as empty", () => {
+      expect(readSettingsFile(path.join(dir, "none.json"), errors)).toEqual({});
+      expect(errors).toEqual([]);
+    });
+
+    it("should reject files that are not a JSON object", () => {
+      const filePath = write("human-loop.json", "[1, 2]");
+
+      expect(readSettingsFile(filePath, errors)).toEqual({});
+      expect(errors).toEqual([
+        {
+          type: "invalid",
+          var: filePath,
+          message: `${filePath} must contain a JSON object of settings`,
+        },
+      ]);
+    });
+
+    it("should reject unknown settings and values of the wrong type", () => {
+      const filePath = write(
+        "human-loop.json",
+        JSON.stringify({
+          ZULIP_STREM: "typo",
+          ZULIP_STREAM: { name: "x" },
+          HUMAN_LOOP_ROUTES: 1,
+          HUMAN_LOOP_MENTION: "@*oncall*",
+        }),
+      );
+
+      expect(readSettingsFile(filePath, errors)).toEqual({
+        HUMAN_LOOP_MENTION: "@*oncall*",
+      });
+      expect(errors.map((error) => error.message)).toEqual([
+        `ZULIP_STREM in ${filePath} is not a known setting`,
+        `ZULIP_STREAM in ${filePath} must be a string, number, boolean or list of strings`,
+        `HUMAN_LOOP_ROUTES in ${filePath} must be a string, number, boolean or list of strings`,
+      ]);
+    });
+  });
+
+  describe("readZuliprc", () => {
+    it("should read the credentials from the [api] section", () => {
+      const filePath = write(
+        "zuliprc",
+        [
+          "# Downloaded from Zulip",
+          "[api]",
+          "email = pi-bot@example.com",
+          "key=abc123",
+          "site=chat.example.com",
+          "",
+          "[other]",
+          "email=ignored@example.com",
+        ].join("\n"),
+      );
+
+      expect(readZuliprc(filePath, errors)).toEqual({
+        ZULIP_SERVER_URL: "https://chat.example.com",
+        ZULIP_BOT_EMAIL: "pi-bot@example.com",
+        ZULIP_BOT_API_KEY: "abc123",
+      });
+    });
+
+    it("should keep the site's scheme", () => {
+      const filePath = write("zuliprc", "[api]\nsite=http://localhost:9991\n");
+
+      expect(readZuliprc(filePath, errors)).toEqual({
+        ZULIP_SERVER_URL: "http://localhost:9991",
+      });
+    });
+
+    it("should report missing files and files without credentials", () => {
+      const empty = write("zuliprc", "[other]\nkey=x\n");
+
+      expect(readZuliprc(path.join(dir, "none"), errors)).toEqual({});
+      expect(readZuliprc(empty, errors)).toEqual({});
+      expect(errors.map((error) => error.message)).toEqual([
+        expect.stringContaining("cannot be read"),
+        `ZULIPRC file ${empty} has no [api] section with email, key and site`,
+      ]);
+    });
+  });
+});
@@ -2,16 +2,27 @@
  * Tests for configuration loading and validation.
  */
 
+import {
+  mkdirSync,
+  mkdtempSync,
+  rmSync,
+  symlinkSync,
+  writeFileSync,
+} from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
 import { loadConfig } from "../src/config.js";
 
+const ENV_PREFIXES = ["ZULIP_", "ZULIPRC", "SLACK_", "MATRIX_", "HUMAN_LOOP_"];
+
 describe("config", () => {
   // Store original env vars
   const originalEnv = { ...process.env };
 
   beforeEach(() => {
-    // Clear all Zulip env vars so each test starts from a clean state
+    // Clear all extension env vars so each test starts from a clean state
     for (const key of Object.keys(process.env)) {
-      if (key.startsWith("ZULIP_")) {
+      if (ENV_PREFIXES.some((prefix) => key.startsWith(prefix))) {
         delete process.env[key as keyof typeof process.env];
       }
     }
@@ -37,6 +48,7 @@ describe("config", () => {
     process.env.ZULIP_STREAM = "test-stream";
 
     const config = loadConfig();
+    expect(config.backend).toBe("zulip");
     expect(config.serverUrl).toBe("https://zulip.example.com");
     expect(config.botEmail).toBe("bot@example.com");
     expect(config.botApiKey).toBe("test-api-key");
@@ -218,4 +230,763 @@ describe("config", () => {
     const config = loadConfig();
     expect(config.serverUrl).toBe("https://zulip.example.com/");
   });
+
+  it("should accept an explicit HUMAN_LOOP_BACKEND", () => {
+    process.env.HUMAN_LOOP_BACKEND = "Zulip";
+    process.env.ZULIP_SERVER_URL = "https://zulip.example.com";
+    process.env.ZULIP_BOT_EMAIL = "bot@example.com";
+    process.env.ZULIP_BOT_API_KEY = "test-api-key";
+    process.env.ZULIP_STREAM = "test-stream";
+
+    const config = loadConfig();
+    expect(config.backend).toBe("zulip");
+  });
+
+  it("should throw error when HUMAN_LOOP_BACKEND is unknown", () => {
+    process.env.HUMAN_LOOP_BACKEND = "carrier-pigeon";
+
+    expect(() => loadConfig()).toThrow(/HUMAN_LOOP_BACKEND must be one of/);
+
+    try {
+      loadConfig();
+    } catch (e) {
+      const err = e as Error & { configErrors?: unknown[] };
+      expect(err.configErrors).toEqual([
+        expect.objectContaining({ type: "invalid", var: "HUMAN_LOOP_BACKEND" }),
+      ]);
+    }
+  });
+
+  it("should load Slack config when HUMAN_LOOP_BACKEND is slack", () => {
+    process.env.HUMAN_LOOP_BACKEND = "slack";
+    process.env.SLACK_BOT_TOKEN = "xoxb-token";
+    process.env.SLACK_CHANNEL = "C123";
+    process.env.SLACK_BOT_USER_ID = "UBOT";
+
+    const config = loadConfig();
+    expect(config).toEqual({
+      backend: "slack",
+      serverUrl: "https://slack.com/api",
+      botEmail: "UBOT",
+      botApiKey: "xoxb-token",
+      stream: "C123",
+      pollIntervalMs: 5000,
+    });
+  });
+
+  it("should allow overriding the Slack API URL and poll interval", () => {
+    process.env.HUMAN_LOOP_BACKEND = "slack";
+    process.env.SLACK_BOT_TOKEN = "xoxb-token";
+    process.env.SLACK_CHANNEL = "C123";
+    process.env.SLACK_API_URL = "http://127.0.0.1:9999/api";
+    process.env.SLACK_POLL_INTERVAL_MS = "1000";
+
+    const config = loadConfig();
+    expect(config.serverUrl).toBe("http://127.0.0.1:9999/api");
+    expect(config.botEmail).toBe("");
+    expect(config.pollIntervalMs).toBe(1000);
+  });
+
+  it("should throw error when Slack settings are missing", () => {
+    process.env.HUMAN_LOOP_BACKEND = "slack";
+
+    try {
+      loadConfig();
+      expect.unreachable();
+    } catch (e) {
+      const err = e as Error & { configErrors?: unknown[] };
+      expect(err.message).toMatch(/SLACK_BOT_TOKEN/);
+      expect(err.configErrors).toEqual([
+        expect.objectContaining({ type: "missing", var: "SLACK_BOT_TOKEN" }),
+        expect.objectContaining({ type: "missing", var: "SLACK_CHANNEL" }),
+      ]);
+    }
+  });
+
+  it("should throw error when SLACK_API_URL is invalid", () => {
+    process.env.HUMAN_LOOP_BACKEND = "slack";
+    process.env.SLACK_BOT_TOKEN = "xoxb-token";
+    process.env.SLACK_CHANNEL = "C123";
+    process.env.SLACK_API_URL = "slack.com/api";
+
+    expect(() => loadConfig()).toThrow(/SLACK_API_URL must be a valid URL/);
+  });
+
+  it("should load Matrix config when HUMAN_LOOP_BACKEND is matrix", () => {
+    process.env.HUMAN_LOOP_BACKEND = "matrix";
+    process.env.MATRIX_HOMESERVER_URL = "https://matrix.example.com";
+    process.env.MATRIX_USER_ID = "@bot:example.com";
+    process.env.MATRIX_ACCESS_TOKEN = "syt_token";
+    process.env.MATRIX_ROOM_ID = "!room:example.com";
+
+    const config = loadConfig();
+    expect(config).toEqual({
+      backend: "matrix",
+      serverUrl: "https://matrix.example.com",
+      botEmail: "@bot:example.com",
+      botApiKey: "syt_token",
+      stream: "!room:example.com",
+      pollIntervalMs: 5000,
+    });
+  });
+
+  it("should throw error when Matrix settings are missing or invalid", () => {
+    process.env.HUMAN_LOOP_BACKEND = "matrix";
+    process.env.MATRIX_HOMESERVER_URL = "matrix.example.com";
+
+    try {
+      loadConfig();
+      expect.unreachable();
+    } catch (e) {
+      const err = e as Error & { configErrors?: unknown[] };
+      expect(err.configErrors).toEqual([
+        expect.objectContaining({
+          type: "invalid_url",
+          var: "MATRIX_HOMESERVER_URL",
+        }),
+        expect.objectContaining({ type: "missing", var: "MATRIX_USER_ID" }),
+        expect.objectContaining({
+          type: "missing",
+          var: "MATRIX_ACCESS_TOKEN",
+        }),
+        expect.objectContaining({ type: "missing", var: "MATRIX_ROOM_ID" }),
+      ]);
+    }
+  });
+
+  it("should throw error when MATRIX_POLL_INTERVAL_MS is invalid", () => {
+    process.env.HUMAN_LOOP_BACKEND = "matrix";
+    process.env.MATRIX_HOMESERVER_URL = "https://matrix.example.com";
+    process.env.MATRIX_USER_ID = "@bot:example.com";
+    process.env.MATRIX_ACCESS_TOKEN = "syt_token";
+    process.env.MATRIX_ROOM_ID = "!room:example.com";
+    process.env.MATRIX_POLL_INTERVAL_MS = "soon";
+
+    expect(() => loadConfig()).toThrow(
+      /MATRIX_POLL_INTERVAL_MS must be a positive integer/,
+    );
+  });
+
+  it("should load the terminal backend without chat settings", () => {
+    process.env.HUMAN_LOOP_BACKEND = "terminal";
+
+    const config = loadConfig();
+    expect(config.backend).toBe("terminal");
+    expect(config.stream).toBe("");
+  });
+
+  it("should load the optional reply timeout settings", () => {
+    process.env.ZULIP_SERVER_URL = "https://zulip.example.com";
+    process.env.ZULIP_BOT_EMAIL = "bot@example.com";
+    process.env.ZULIP_BOT_API_KEY = "test-api-key";
+    process.env.ZULIP_STREAM = "test-stream";
+    process.env.HUMAN_LOOP_TIMEOUT_MS = "900000";
+    process.env.HUMAN_LOOP_TIMEOUT_NOTICE = "off";
+
+    const config = loadConfig();
+    expect(config.timeoutMs).toBe(900000);
+    expect(config.timeoutNotice).toBe(false);
+  });
+
+  it("should leave the reply timeout unset by default", () => {
+    process.env.ZULIP_SERVER_URL = "https://zulip.example.com";
+    process.env.ZULIP_BOT_EMAIL = "bot@example.com";
+    process.env.ZULIP_BOT_API_KEY = "test-api-key";
+    process.env.ZULIP_STREAM = "test-stream";
+
+    const config = loadConfig();
+    expect(config).not.toHaveProperty("timeoutMs");
+    expect(config).not.toHaveProperty("timeoutNotice");
+  });
+
+  it("should throw error when the reply timeout settings are invalid", () => {
+    process.env.ZULIP_SERVER_URL = "https://zulip.example.com";
+    process.env.ZULIP_BOT_EMAIL = "bot@example.com";
+    process.env.ZULIP_BOT_API_KEY = "test-api-key";
+    process.env.ZULIP_STREAM = "test-stream";
+    process.env.HUMAN_LOOP_TIMEOUT_MS = "forever";
+    process.env.HUMAN_LOOP_TIMEOUT_NOTICE = "maybe";
+
+    try {
+      loadConfig();
+      expect.unreachable();
+    } catch (e) {
+      const err = e as Error & { configErrors?: unknown[] };
+      expect(err.configErrors).toEqual([
+        expect.objectContaining({ var: "HUMAN_LOOP_TIMEOUT_MS" }),
+        expect.objectContaining({
+          var: "HUMAN_LOOP_TIMEOUT_NOTICE",
+          message: "HUMAN_LOOP_TIMEOUT_NOTICE must be true or false",
+        }),
+      ]);
+    }
+  });
+
+  it("should load the startup check settings", () => {
+    process.env.ZULIP_SERVER_URL = "https://zulip.example.com";
+    process.env.ZULIP_BOT_EMAIL = "bot@example.com";
+    process.env.ZULIP_BOT_API_KEY = "test-api-key";
+    process.env.ZULIP_STREAM = "test-stream";
+    process.env.HUMAN_LOOP_SELF_TEST = "true";
+    process.env.HUMAN_LOOP_AUTO_SUBSCRIBE = "yes";
+
+    const config = loadConfig();
+    expect(config.selfTest).toBe(true);
+    expect(config.autoSubscribe).toBe(true);
+  });
+
+  it("should load the operator inbox settings", () => {
+    process.env.ZULIP_SERVER_URL = "https://zulip.example.com";
+    process.env.ZULIP_BOT_EMAIL = "bot@example.com";
+    process.env.ZULIP_BOT_API_KEY = "test-api-key";
+    process.env.ZULIP_STREAM = "test-stream";
+    process.env.HUMAN_LOOP_INBOX = "true";
+    process.env.HUMAN_LOOP_INBOX_TOPIC = "fdr run";
+    process.env.HUMAN_LOOP_INBOX_DELIVERY = "follow-up";
+
+    const config = loadConfig();
+    expect(config.inbox).toEqual({ topic: "fdr run", deliverAs: "followUp" });
+  });
+
+  it("should throw error when the operator inbox settings are invalid", () => {
+    process.env.HUMAN_LOOP_BACKEND = "terminal";
+    process.env.HUMAN_LOOP_INBOX = "true";
+
+    expect(() => loadConfig()).toThrow("HUMAN_LOOP_INBOX needs a chat backend");
+
+    process.env.HUMAN_LOOP_BACKEND = "zulip";
+    process.env.ZULIP_SERVER_URL = "https://zulip.example.com";
+    process.env.ZULIP_BOT_EMAIL = "bot@example.com";
+    process.env.ZULIP_BOT_API_KEY = "test-api-key";
+    process.env.ZULIP_STREAM = "test-stream";
+    process.env.HUMAN_LOOP_INBOX_DELIVERY = "later";
+
+    expect(() => loadConfig()).toThrow(
+      "HUMAN_LOOP_INBOX_DELIVERY must be steer or follow-up",
+    );
+  });
+
+  it("should load who may control the agent from chat", () => {
+    process.env.ZULIP_SERVER_URL = "https://zulip.example.com";
+    process.env.ZULIP_BOT_EMAIL = "bot@example.com";
+    process.env.ZULIP_BOT_API_KEY = "test-api-key";
+    process.env.ZULIP_STREAM = "test-stream";
+    process.env.HUMAN_LOOP_REMOTE_CONTROL = "lead@example.com, group:reviewers";
+
+    const config = loadConfig();
+    expect(config.remoteControl).toEqual({
+      controllers: ["lead@example.com", "group:reviewers"],
+    });
+  });
+
+  it("should throw error when remote control is used without Zulip", () => {
+    process.env.HUMAN_LOOP_BACKEND = "terminal";
+    process.env.HUMAN_LOOP_REMOTE_CONTROL = "lead@example.com";
+
+    expect(() => loadConfig()).toThrow(
+      "HUMAN_LOOP_REMOTE_CONTROL is only supported with the Zulip backend",
+    );
+  });
+
+  it("should load lifecycle notification settings", () => {
+    process.env.ZULIP_SERVER_URL = "https://zulip.example.com";
+    process.env.ZULIP_BOT_EMAIL = "bot@example.com";
+    process.env.ZULIP_BOT_API_KEY = "test-api-key";
+    process.env.ZULIP_STREAM = "test-stream";
+    process.env.HUMAN_LOOP_NOTIFY = "Shutdown, agent-end";
+    process.env.HUMAN_LOOP_NOTIFY_TOPIC = "Nightly run";
+    process.env.HUMAN_LOOP_NOTIFY_TOOL_FAILURES = "5";
+
+    const config = loadConfig();
+    expect(config.notifications).toEqual({
+      events: ["agent-end", "shutdown"],
+      topic: "Nightly run",
+      toolFailureThreshold: 5,
+    });
+  });
+
+  it("should enable every notification with all", () => {
+    process.env.ZULIP_SERVER_URL = "https://zulip.example.com";
+    process.env.ZULIP_BOT_EMAIL = "bot@example.com";
+    process.env.ZULIP_BOT_API_KEY = "test-api-key";
+    process.env.ZULIP_STREAM = "test-stream";
+    process.env.HUMAN_LOOP_NOTIFY = "all";
+
+    const config = loadConfig();
+    expect(config.notifications).toEqual({
+      events: ["start", "agent-end", "tool-failures", "shutdown"],
+      toolFailureThreshold: 3,
+    });
+  });
+
+  it("should throw error for unknown notification events", () => {
+    process.env.ZULIP_SERVER_URL = "https://zulip.example.com";
+    process.env.ZULIP_BOT_EMAIL = "bot@example.com";
+    process.env.ZULIP_BOT_API_KEY = "test-api-key";
+    process.env.ZULIP_STREAM = "test-stream";
+    process.env.HUMAN_LOOP_NOTIFY = "start, commits";
+
+    expect(() => loadConfig()).toThrow(
+      "HUMAN_LOOP_NOTIFY contains unknown events: commits",
+    );
+  });
+
+  it("should throw error when notifications are used without a chat backend", () => {
+    process.env.HUMAN_LOOP_BACKEND = "terminal";
+    process.env.HUMAN_LOOP_NOTIFY = "all";
+
+    expect(() => loadConfig()).toThrow(
+      "HUMAN_LOOP_NOTIFY needs a chat backend",
+    );
+  });
+
+  it("should load the reply quiet period", () => {
+    process.env.ZULIP_SERVER_URL = "https://zulip.example.com";
+    process.env.ZULIP_BOT_EMAIL = "bot@example.com";
+    process.env.ZULIP_BOT_API_KEY = "test-api-key";
+    process.env.ZULIP_STREAM = "test-stream";
+    process.env.HUMAN_LOOP_REPLY_QUIET_MS = "45000";
+
+    expect(loadConfig().replyQuietMs).toBe(45000);
+
+    process.env.HUMAN_LOOP_REPLY_QUIET_MS = "0";
+    expect(() => loadConfig()).toThrow(
+      /HUMAN_LOOP_REPLY_QUIET_MS must be a positive integer/,
+    );
+  });
+
+  it("should load the responder allow and deny lists", () => {
+    process.env.ZULIP_SERVER_URL = "https://zulip.example.com";
+    process.env.ZULIP_BOT_EMAIL = "bot@example.com";
+    process.env.ZULIP_BOT_API_KEY = "test-api-key";
+    process.env.ZULIP_STREAM = "test-stream";
+    process.env.HUMAN_LOOP_ALLOWED_RESPONDERS =
+      "alice@example.com, group:backend";
+    process.env.HUMAN_LOOP_DENIED_RESPONDERS = "42";
+
+    expect(loadConfig().responders).toEqual({
+      allow: ["alice@example.com", "group:backend"],
+      deny: ["42"],
+    });
+  });
+
+  it("should leave the responder lists unset by default", () => {
+    process.env.ZULIP_SERVER_URL = "https://zulip.example.com";
+    process.env.ZULIP_BOT_EMAIL = "bot@example.com";
+    process.env.ZULIP_BOT_API_KEY = "test-api-key";
+    process.env.ZULIP_STREAM = "test-stream";
+
+    expect(loadConfig().responders).toBeUndefined();
+  });
+
+  it("should reject group entries for Matrix", () => {
+    process.env.HUMAN_LOOP_BACKEND = "matrix";
+    process.env.MATRIX_HOMESERVER_URL = "https://matrix.example.com";
+    process.env.MATRIX_USER_ID = "@bot:example.com";
+    process.env.MATRIX_ACCESS_TOKEN = "syt_token";
+    process.env.MATRIX_ROOM_ID = "!room:example.com";
+    process.env.HUMAN_LOOP_DENIED_RESPONDERS = "group:ops";
+
+    expect(() => loadConfig()).toThrow(
+      /HUMAN_LOOP_DENIED_RESPONDERS cannot use group: entries with the Matrix backend/,
+    );
+  });
+
+  describe("message templates", () => {
+    let dir: string;
+
+    beforeEach(() => {
+      dir = mkdtempSync(path.join(tmpdir(), "config-templates-"));
+      process.env.ZULIP_SERVER_URL = "https://zulip.example.com";
+      process.env.ZULIP_BOT_EMAIL = "bot@example.com";
+      process.env.ZULIP_BOT_API_KEY = "test-api-key";
+      process.env.ZULIP_STREAM = "test-stream";
+    });
+
+    afterEach(() => {
+      rmSync(dir, { recursive: true, force: true });
+    });
+
+    it("should load template files", () => {
+      const questionPath = path.join(dir, "question.md");
+      const followUpPath = path.join(dir, "follow-up.md");
+      writeFileSync(questionPath, "[{{repository}}@{{branch}}] {{question}}");
+      writeFileSync(followUpPath, "#{{ follow_up_number }}: {{question}}");
+      process.env.HUMAN_LOOP_QUESTION_TEMPLATE = questionPath;
+      process.env.HUMAN_LOOP_FOLLOW_UP_TEMPLATE = followUpPath;
+
+      expect(loadConfig().templates).toEqual({
+        question: "[{{repository}}@{{branch}}] {{question}}",
+        followUp: "#{{ follow_up_number }}: {{question}}",
+      });
+    });
+
+    it("should leave the templates unset by default", () => {
+      expect(loadConfig().templates).toBeUndefined();
+    });
+
+    it("should reject templates with unknown placeholders", () => {
+      const questionPath = path.join(dir, "question.md");
+      writeFileSync(questionPath, "{{question}} from {{user}} in {{repo}}");
+      process.env.HUMAN_LOOP_QUESTION_TEMPLATE = questionPath;
+
+      expect(() => loadConfig()).toThrow(
+        /HUMAN_LOOP_QUESTION_TEMPLATE uses unknown placeholders: \{\{user\}\}, \{\{repo\}\}/,
+      );
+    });
+
+    it("should reject template files that cannot be read", () => {
+      process.env.HUMAN_LOOP_FOLLOW_UP_TEMPLATE = path.join(dir, "missing.md");
+
+      expect(() => loadConfig()).toThrow(
+        /HUMAN_LOOP_FOLLOW_UP_TEMPLATE cannot be read/,
+      );
+    });
+  });
+
+  it("should load the metadata fields to redact", () => {
+    process.env.ZULIP_SERVER_URL = "https://zulip.example.com";
+    process.env.ZULIP_BOT_EMAIL = "bot@example.com";
+    process.env.ZULIP_BOT_API_KEY = "test-api-key";
+    process.env.ZULIP_STREAM = "test-stream";
+    process.env.HUMAN_LOOP_REDACT_METADATA = "host, CWD";
+
+    expect(loadConfig().redactMetadata).toEqual(["host", "cwd"]);
+  });
+
+  it("should reject unknown metadata fields", () => {
+    process.env.ZULIP_SERVER_URL = "https://zulip.example.com";
+    process.env.ZULIP_BOT_EMAIL = "bot@example.com";
+    process.env.ZULIP_BOT_API_KEY = "test-api-key";
+    process.env.ZULIP_STREAM = "test-stream";
+    process.env.HUMAN_LOOP_REDACT_METADATA = "host,ip";
+
+    expect(() => loadConfig()).toThrow(
+      /HUMAN_LOOP_REDACT_METADATA contains unknown fields: ip/,
+    );
+  });
+
+  describe("routing rules", () => {
+    beforeEach(() => {
+      process.env.ZULIP_SERVER_URL = "https://zulip.example.com";
+      process.env.ZULIP_BOT_EMAIL = "bot@example.com";
+      process.env.ZULIP_BOT_API_KEY = "test-api-key";
+      process.env.ZULIP_STREAM = "test-stream";
+    });
+
+    it("should load routing rules", () => {
+      process.env.HUMAN_LOOP_ROUTES = JSON.stringify([
+        {
+          cwd: "**/services/payments",
+          paths: ["services/payments/**"],
+          stream: "payments",
+          topicPrefix: "[payments]",
+        },
+        { category: ["infra", "deploy"], stream: "infra" },
+      ]);
+
+      expect(loadConfig().routes).toEqual([
+        {
+          cwd: ["**/services/payments"],
+          paths: ["services/payments/**"],
+          categories: [],
+          stream: "payments",
+          topicPrefix: "[payments]",
+        },
+        {
+          cwd: [],
+          paths: [],
+          categories: ["infra", "deploy"],
+          stream: "infra",
+        },
+      ]);
+    });
+
+    it("should leave routing unset by default", () => {
+      expect(loadConfig().routes).toBeUndefined();
+    });
+
+    it("should reject routes that are not a JSON array", () => {
+      process.env.HUMAN_LOOP_ROUTES = '{"stream": "x"}';
+
+      expect(() => loadConfig()).toThrow(
+        /HUMAN_LOOP_ROUTES must be a JSON array of routing rules/,
+      );
+
+      process.env.HUMAN_LOOP_ROUTES = "[{";
+
+      expect(() => loadConfig()).toThrow(
+        /HUMAN_LOOP_ROUTES must be a JSON array of routing rules/,
+      );
+    });
+
+    it.each([
+      ["null", "must be an object"],
+      ['{"cwd": "**/x"}', "needs a stream"],
+      ['{"stream": "x"}', "needs at least one of cwd, paths or category"],
+      ['{"paths": [1], "stream": "x"}', "must give cwd, paths and category"],
+      [
+        '{"category": "x", "stream": "x", "topicPrefix": 1}',
+        "must give topicPrefix as a string",
+      ],
+    ])("should reject the rule %s", (rule, message) => {
+      process.env.HUMAN_LOOP_ROUTES = `[${rule}]`;
+
+      expect(() => loadConfig()).toThrow(`HUMAN_LOOP_ROUTES rule 1 ${message}`);
+    });
+  });
+
+  describe("configuration files", () => {
+    let home: string;
+    let project: string;
+
+    const writeJson = (filePath: string, settings: object) => {
+      mkdirSync(path.dirname(filePath), { recursive: true });
+      writeFileSync(filePath, JSON.stringify(settings));
+    };
+
+    beforeEach(() => {
+      home = mkdtempSync(path.join(tmpdir(), "config-home-"));
+      project = mkdtempSync(path.join(tmpdir(), "config-project-"));
+    });
+
+    afterEach(() => {
+      rmSync(home, { recursive: true, force: true });
+      rmSync(project, { recursive: true, force: true });
+    });
+
+    it("should layer environment variables over project and user files", () => {
+      writeJson(path.join(home, ".pi/agent/human-loop.json"), {
+        ZULIP_SERVER_URL: "https://zulip.example.com",
+        ZULIP_STREAM: "user-stream",
+        HUMAN_LOOP_TIMEOUT_MS: 1000,
+        ZULIPRC: "zuliprc",
+      });
+      writeJson(path.join(project, ".pi/human-loop.json"), {
+        ZULIP_STREAM: "project-stream",
+        HUMAN_LOOP_TIMEOUT_MS: 2000,
+      });
+      writeFileSync(
+        path.join(project, "zuliprc"),
+        "[api]\nemail=bot@example.com\nkey=secret\n",
+      );
+      process.env.HUMAN_LOOP_TIMEOUT_MS = "3000";
+      process.env.ZULIP_STREAM = "";
+
+      expect(loadConfig({ cwd: project, homeDir: home })).toMatchObject({
+        serverUrl: "https://zulip.example.com",
+        botEmail: "bot@example.com",
+        botApiKey: "secret",
+        stream: "project-stream",
+        timeoutMs: 3000,
+      });
+    });
+
+    it("should let environment variables override zuliprc credentials", () => {
+      writeFileSync(
+        path.join(home, "zuliprc"),
+        "[api]\nemail=bot@example.com\nkey=secret\nsite=zulip.example.com\n",
+      );
+      process.env.ZULIPRC = "~/zuliprc";
+      process.env.ZULIP_BOT_API_KEY = "from-env";
+      process.env.ZULIP_STREAM = "test-stream";
+
+      expect(loadConfig({ cwd: project, homeDir: home })).toMatchObject({
+        serverUrl: "https://zulip.example.com",
+        botApiKey: "from-env",
+      });
+    });
+
+    it("should not let the project file set connection settings", () => {
+      writeJson(path.join(home, ".pi/agent/human-loop.json"), {
+        ZULIP_SERVER_URL: "https://zulip.example.com",
+        ZULIP_BOT_EMAIL: "bot@example.com",
+        ZULIP_BOT_API_KEY: "secret",
+      });
+      writeJson(path.join(project, ".pi/human-loop.json"), {
+        ZULIP_SERVER_URL: "https://attacker.example.com",
+        ZULIPRC: "/tmp/zuliprc",
+        ZULIP_STREAM: "project-stream",
+      });
+
+      try {
+        loadConfig({ cwd: project, homeDir: home });
+        expect.unreachable();
+      } catch (error) {
+        expect(
+          (error as any).configErrors.map((e: { var: string }) => e.var),
+        ).toEqual(["ZULIP_SERVER_URL", "ZULIPRC"]);
+        expect((error as Error).message).toContain(
+          "ZULIP_SERVER_URL cannot be set in the project file",
+        );
+      }
+    });
+
+    it("should resolve template paths from the project directory", () => {
+      mkdirSync(path.join(project, "templates"));
+      writeFileSync(
+        path.join(project, "templates/question.md"),
+        "{{question}}",
+      );
+      writeJson(path.join(project, ".pi/human-loop.json"), {
+        HUMAN_LOOP_QUESTION_TEMPLATE: "templates/question.md",
+      });
+      process.env.ZULIP_SERVER_URL = "https://zulip.example.com";
+      process.env.ZULIP_BOT_EMAIL = "bot@example.com";
+      process.env.ZULIP_BOT_API_KEY = "test-api-key";
+      process.env.ZULIP_STREAM = "test-stream";
+
+      expect(loadConfig({ cwd: project, homeDir: home }).templates).toEqual({
+        question: "{{question}}",
+      });
+    });
+
+    it("should reject project templates outside the project directory", () => {
+      writeFileSync(path.join(home, "secret.md"), "{{question}}");
+      writeJson(path.join(project, ".pi/human-loop.json"), {
+        HUMAN_LOOP_QUESTION_TEMPLATE: "~/secret.md",
+        HUMAN_LOOP_FOLLOW_UP_TEMPLATE: "../secret.md",
+      });
+      process.env.ZULIP_SERVER_URL = "https://zulip.example.com";
+      process.env.ZULIP_BOT_EMAIL = "bot@example.com";
+      process.env.ZULIP_BOT_API_KEY = "test-api-key";
+      process.env.ZULIP_STREAM = "test-stream";
+
+      expect(() => loadConfig({ cwd: project, homeDir: home })).toThrow(
+        /HUMAN_LOOP_QUESTION_TEMPLATE in .* must be a file inside the project directory/,
+      );
+    });
+
+    it("should reject project templates that link outside the project directory", () => {
+      writeFileSync(path.join(home, "secret.md"), "{{question}}");
+      writeJson(path.join(project, ".pi/human-loop.json"), {
+        HUMAN_LOOP_QUESTION_TEMPLATE: ".pi/question.md",
+      });
+      symlinkSync(
+        path.join(home, "secret.md"),
+        path.join(project, ".pi/question.md"),
+      );
+      process.env.ZULIP_SERVER_URL = "https://zulip.example.com";
+      process.env.ZULIP_BOT_EMAIL = "bot@example.com";
+      process.env.ZULIP_BOT_API_KEY = "test-api-key";
+      process.env.ZULIP_STREAM = "test-stream";
+
+      expect(() => loadConfig({ cwd: project, homeDir: home })).toThrow(
+        /HUMAN_LOOP_QUESTION_TEMPLATE in .* must be a file inside the project directory/,
+      );
+    });
+
+    it("should report invalid files as configuration errors", () => {
+      writeJson(path.join(project, ".pi/human-loop.json"), {
+        ZULIP_STREAM: ["a", 1],
+      });
+      process.env.ZULIP_SERVER_URL = "https://zulip.example.com";
+      process.env.ZULIP_BOT_EMAIL = "bot@example.com";
+      process.env.ZULIP_BOT_API_KEY = "test-api-key";
+      process.env.ZULIP_STREAM = "test-stream";
+
+      try {
+        loadConfig({ cwd: project, homeDir: home });
+        expect.unreachable();
+      } catch (error) {
+        expect((error as any).configErrors).toEqual([
+          {
+            type: "invalid",
+            var: "ZULIP_STREAM",
+            message: `ZULIP_STREAM in ${path.join(project, ".pi/human-loop.json")} must be a string, number, boolean or list of strings`,
+          },
+        ]);
+      }
+    });
+  });
+
+  it("should load the escalation ladder", () => {
+    process.env.ZULIP_SERVER_URL = "https://zulip.example.com";
+    process.env.ZULIP_BOT_EMAIL = "bot@example.com";
+    process.env.ZULIP_BOT_API_KEY = "test-api-key";
+    process.env.ZULIP_STREAM = "test-stream";
+    process.env.HUMAN_LOOP_REMIND_AFTER_MS = "300000";
+    process.env.HUMAN_LOOP_MENTION_AFTER_MS = "900000";
+    process.env.HUMAN_LOOP_MENTION = "@*oncall*";
+    process.env.HUMAN_LOOP_CROSSPOST_AFTER_MS = "1800000";
+    process.env.HUMAN_LOOP_CROSSPOST_STREAM = "engineering";
+
+    expect(loadConfig().escalation).toEqual({
+      remindAfterMs: 300000,
+      mentionAfterMs: 900000,
+      mention: "@*oncall*",
+      crossPostAfterMs: 1800000,
+      crossPostStream: "engineering",
+    });
+  });
+
+  it("should leave escalation unset by default", () => {
+    process.env.ZULIP_SERVER_URL = "https://zulip.example.com";
+    process.env.ZULIP_BOT_EMAIL = "bot@example.com";
+    process.env.ZULIP_BOT_API_KEY = "test-api-key";
+    process.env.ZULIP_STREAM = "test-stream";
+
+    expect(loadConfig()).not.toHaveProperty("escalation");
+  });
+
+  it("should require a target for the mention and cross-post steps", () => {
+    process.env.ZULIP_SERVER_URL = "https://zulip.example.com";
+    process.env.ZULIP_BOT_EMAIL = "bot@example.com";
+    process.env.ZULIP_BOT_API_KEY = "test-api-key";
+    process.env.ZULIP_STREAM = "test-stream";
+    process.env.HUMAN_LOOP_MENTION_AFTER_MS = "900000";
+    process.env.HUMAN_LOOP_CROSSPOST_AFTER_MS = "1800000";
+
+    try {
+      loadConfig();
+      expect.unreachable();
+    } catch (e) {
+      const err = e as Error & { configErrors?: unknown[] };
+      expect(err.configErrors).toEqual([
+        expect.objectContaining({
+          type: "missing",
+          var: "HUMAN_LOOP_MENTION",
+        }),
+        expect.objectContaining({
+          type: "missing",
+          var: "HUMAN_LOOP_CROSSPOST_STREAM",
+        }),
+      ]);
+    }
+  });
+
+  it("should load the tool-call approval policy", () => {
+    process.env.ZULIP_SERVER_URL = "https://zulip.example.com";
+    process.env.ZULIP_BOT_EMAIL = "bot@example.com";
+    process.env.ZULIP_BOT_API_KEY = "test-api-key";
+    process.env.ZULIP_STREAM = "test-stream";
+    process.env.HUMAN_LOOP_APPROVE_COMMANDS = "rm\\s+-rf, git push .*--force";
+    process.env.HUMAN_LOOP_APPROVE_PATHS = "**/migrations/**,";
+
+    expect(loadConfig().approvalPolicy).toEqual({
+      commandPatterns: [/rm\s+-rf/, /git push .*--force/],
+      pathPatterns: ["**/migrations/**"],
+    });
+  });
+
+  it("should leave the approval policy unset by default", () => {
+    process.env.ZULIP_SERVER_URL = "https://zulip.example.com";
+    process.env.ZULIP_BOT_EMAIL = "bot@example.com";
+    process.env.ZULIP_BOT_API_KEY = "test-api-key";
+    process.env.ZULIP_STREAM = "test-stream";
+
+    expect(loadConfig()).not.toHaveProperty("approvalPolicy");
+  });
+
+  it("should throw error for invalid approval command patterns", () => {
+    process.env.ZULIP_SERVER_URL = "https://zulip.example.com";
+    process.env.ZULIP_BOT_EMAIL = "bot@example.com";
+    process.env.ZULIP_BOT_API_KEY = "test-api-key";
+    process.env.ZULIP_STREAM = "test-stream";
+    process.env.HUMAN_LOOP_APPROVE_COMMANDS = "rm (-rf";
+
+    expect(() => loadConfig()).toThrow(
+      /HUMAN_LOOP_APPROVE_COMMANDS contains an invalid regular expression: rm \(-rf/,
+    );
+  });
 });
@@ -0,0 +1,167 @@
+/**
+ * Tests for context rendering.
+ */
+
+import type { ChatClient } from "../src/chat-client.js";
+import {
+  CONTEXT_PREVIEW_LENGTH,
+  CONTEXT_PREVIEW_LINES,
+  codeFence,
+  detectLanguage,
+  looksLikeCode,
+  MAX_COLLAPSIBLE_LENGTH,
+  renderContext,
+} from "../src/context.js";
+
+describe("context", () => {
+  const createClient = (overrides: Partial<ChatClient> = {}): ChatClient => ({
+    postMessage: vi.fn<ChatClient["postMessage"]>(),
+    registerEventQueue: vi.fn<ChatClient["registerEventQueue"]>(),
+    pollForReply: vi.fn<ChatClient["pollForReply"]>(),
+    deregisterQueue: vi.fn<ChatClient["deregisterQueue"]>(),
+    ...overrides,
+  });
+  const formatCollapsible = (summary: string, body: string) =>
+    `[${summary}]\n${body}`;
+  const numbered = (count: number) =>
+    Array.from({ length: count }, (_, i) => `line ${i + 1}`).join("\n");
+
+  describe("detectLanguage", () => {
+    it.each([
+      [
+        'Traceback (most recent call last):\n  File "app.py", line 3, in <module>',
+        "python",
+      ],
+      ["src/a.ts(3,1): error TS2322: Type mismatch", "typescript"],
+      ["Error: boom\n    at run (/app/src/index.js:10:5)", "javascript"],
+      [
+        "java.lang.NullPointerException\n\tat com.x.Main.run(Main.java:12)",
+        "java",
+      ],
+      ["goroutine 1 [running]:\nmain.main()", "go"],
+      ["thread 'main' panicked at src/main.rs:2:5", "rust"],
+      ["diff --git a/x b/x\n@@ -1 +1 @@\n-a\n+b", "diff"],
+      ["$ npm test\nFAIL tests/a.test.ts", "console"],
+      ['{"error": "not found"}', "json"],
+    ])("should detect %j as %s", (text, language) => {
+      expect(detectLanguage(text)).toBe(language);
+    });
+
+    it("should not tag prose or invalid JSON", () => {
+      expect(detectLanguage("The build failed after the merge.")).toBeNull();
+      expect(detectLanguage("{not json")).toBeNull();
+    });
+  });
+
+  describe("looksLikeCode", () => {
+    it("should recognise indented or brace-terminated lines", () => {
+      expect(looksLikeCode("if (x) {\n  run();\n}")).toBe(true);
+      expect(looksLikeCode("Tests fail on CI.\nThey pass locally.")).toBe(
+        false,
+      );
+      expect(looksLikeCode("")).toBe(false);
+    });
+  });
+
+  describe("codeFence", () => {
+    it("should use a fence longer than any inside the text", () => {
+      expect(codeFence("a", "ts")).toBe("```ts\na\n```");
+      expect(codeFence("```\nx\n```")).toBe("````\n```\nx\n```\n````");
+    });
+  });
+
+  describe("renderContext", () => {
+    it("should show short context inline", async () => {
+      await expect(
+        renderContext(createClient(), "Tests fail on CI.\n"),
+      ).resolves.toEqual({ text: "Tests fail on CI.", totalLines: 1 });
+    });
+
+    it("should fence code-looking context", async () => {
+      const rendered = await renderContext(
+        createClient(),
+        "Error: boom\n    at run (/app/src/index.js:10:5)",
+      );
+
+      expect(rendered.text).toBe(
+        "```javascript\nError: boom\n    at run (/app/src/index.js:10:5)\n```",
+      );
+    });
+
+    it("should put long context in a collapsible block under a preview", async () => {
+      const rendered = await renderContext(
+        createClient({ formatCollapsible }),
+        numbered(12),
+      );
+
+      expect(rendered).toEqual({
+        text: `${numbered(CONTEXT_PREVIEW_LINES)}\n[Full context (12 lines)]\n${numbered(12)}`,
+        totalLines: 12,
+      });
+    });
+
+    it("should upload context too long for a collapsible block", async () => {
+      const uploadFile = vi
+        .fn<NonNullable<ChatClient["uploadFile"]>>()
+        .mockResolvedValue("/user_uploads/1/context.txt");
+      const context = `${numbered(11)}\n${"x".repeat(MAX_COLLAPSIBLE_LENGTH)}`;
+
+      const rendered = await renderContext(
+        createClient({ formatCollapsible, uploadFile }),
+        context,
+      );
+
+      expect(rendered.text).toBe(
+        `${numbered(10)}\n[Full context (12 lines)](/user_uploads/1/context.txt)`,
+      );
+      expect(rendered.shownLines).toBeUndefined();
+      expect(uploadFile).toHaveBeenCalledWith("context.txt", expect.anything());
+    });
+
+    it("should upload short context with very long lines", async () => {
+      const uploadFile = vi
+        .fn<NonNullable<ChatClient["uploadFile"]>>()
+        .mockResolvedValue("/user_uploads/1/context.txt");
+      const context = `Log: ${"x".repeat(MAX_COLLAPSIBLE_LENGTH)}`;
+
+      const rendered = await renderContext(
+        createClient({ formatCollapsible, uploadFile }),
+        context,
+      );
+
+      expect(rendered.text).toBe(
+        `${context.slice(0, CONTEXT_PREVIEW_LENGTH)}…\n[Full context (1 line)](/user_uploads/1/context.txt)`,
+      );
+      expect(rendered.shownLines).toBeUndefined();
+    });
+
+    it("should report a preview cut to its length", async () => {
+      const context = "x".repeat(MAX_COLLAPSIBLE_LENGTH + 1);
+
+      const rendered = await renderContext(createClient(), context);
+
+      expect(rendered).toEqual({
+        text: `${"x".repeat(CONTEXT_PREVIEW_LENGTH)}…\n_… ${context.length - CONTEXT_PREVIEW_LENGTH} more characters not shown_`,
+        totalLines: 1,
+        shownLines: 1,
+        shownLength: CONTEXT_PREVIEW_LENGTH,
+        totalLength: context.length,
+      });
+    });
+
+    it("should cut the context when it cannot be shown in full", async () => {
+      const rendered = await renderContext(
+        createClient({
+          uploadFile: vi.fn().mockRejectedValue(new Error("too large")),
+        }),
+        numbered(11),
+      );
+
+      expect(rendered).toEqual({
+        text: `${numbered(10)}\n_… 1 more line not shown_`,
+        totalLines: 11,
+        shownLines: CONTEXT_PREVIEW_LINES,
+      });
+    });
+  });
+});
@@ -0,0 +1,174 @@
+/**
+ * Tests for the open conversation store.
+ */
+
+import { mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import {
+  CONVERSATION_STORE_PATH,
+  createConversationStore,
+  type OpenConversation,
+} from "../src/conversation-store.js";
+
+describe("conversation-store", () => {
+  let cwd: string;
+
+  const conversation = (
+    overrides: Partial<OpenConversation> = {},
+  ): OpenConversation => ({
+    thread_id: "Agent Q #1 — Which database",
+    backend: "zulip",
+    stream: "agents",
+    question: "Which database should I use?",
+    message_id: "100",
+    queue_id: "queue-1",
+    last_event_id: "5",
+    asked_at: new Date().toISOString(),
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    cwd = await mkdtemp(path.join(tmpdir(), "human-loop-store-"));
+  });
+
+  afterEach(async () => {
+    await rm(cwd, { recursive: true, force: true });
+  });
+
+  it("should read as empty when nothing has been saved", async () => {
+    await expect(createConversationStore(cwd).list()).resolves.toEqual([]);
+  });
+
+  it("should save conversations under .pi and read them back", async () => {
+    const store = createConversationStore(cwd);
+    await store.save(conversation());
+
+    const saved = JSON.parse(
+      await readFile(path.join(cwd, CONVERSATION_STORE_PATH), "utf8"),
+    );
+    expect(saved).toEqual([conversation({ asked_at: saved[0].asked_at })]);
+    await expect(createConversationStore(cwd).list()).resolves.toHaveLength(1);
+  });
+
+  it("should replace a conversation saved again under the same thread", async () => {
+    const store = createConversationStore(cwd);
+    await store.save(conversation());
+    await store.save(conversation({ queue_id: "queue-2" }));
+
+    const list = await store.list();
+    expect(list).toHaveLength(1);
+    expect(list[0]?.queue_id).toBe("queue-2");
+  });
+
+  it("should remove answered conversations", async () => {
+    const store = createConversationStore(cwd);
+    await store.save(conversation());
+    await store.save(conversation({ thread_id: "Agent Q #2 — Other" }));
+    await store.remove("Agent Q #1 — Which database");
+
+    expect((await store.list()).map((c) => c.thread_id)).toEqual([
+      "Agent Q #2 — Other",
+    ]);
+  });
+
+  it("should serialise concurrent writes", async () => {
+    const store = createConversationStore(cwd);
+    await Promise.all([
+      store.save(conversation({ thread_id: "a" })),
+      store.save(conversation({ thread_id: "b" })),
+      store.save(conversation({ thread_id: "c" })),
+    ]);
+
+    expect(await store.list()).toHaveLength(3);
+  });
+
+  it("should find the same question regardless of case and spacing", async () => {
+    const store = createConversationStore(cwd);
+    await store.save(conversation());
+
+    await expect(
+      store.find("zulip", "agents", "  which database\nshould I use? "),
+    ).resolves.toMatchObject({ thread_id: "Agent Q #1 — Which database" });
+    await expect(
+      store.find("zulip", "elsewhere", "Which database should I use?"),
+    ).resolves.toBeNull();
+    await expect(
+      store.find("slack", "agents", "Which database should I use?"),
+    ).resolves.toBeNull();
+  });
+
+  it("should drop conversations older than a day on the next write", async () => {
+    const store = createConversationStore(cwd);
+    await store.save(
+      conversation({
+        thread_id: "old",
+        asked_at: new Date(Date.now() - 25 * 60 * 60 * 1000).toISOString(),
+      }),
+    );
+    await store.save(conversation({ thread_id: "new" }));
+
+    expect((await store.list()).map((c) => c.thread_id)).toEqual(["new"]);
+  });
+
+  it("should treat a corrupt file as empty", async () => {
+    const store = createConversationStore(cwd);
+    await store.save(conversation());
+    await writeFile(path.join(cwd, CONVERSATION_STORE_PATH), "{not json");
+
+    await expect(store.list()).resolves.toEqual([]);
+  });
+
+  it("should ignore write failures", async () => {
+    // A file where the .pi directory should be makes every write fail
+    await writeFile(path.join(cwd, ".pi"), "");
+    const store = createConversationStore(cwd);
+
+    await expect(store.save(conversation())).resolves.toBeUndefined();
+    await expect(store.list()).resolves.toEqual([]);
+  });
+
+  it("should remember thread streams across stores and after answers", async () => {
+    const store = createConversationStore(cwd);
+    await store.save(conversation());
+    await store.saveThread({
+      thread_id: "Agent Q #1 — Which database",
+      backend: "zulip",
+      stream: "agents",
+      asked_at: new Date().toISOString(),
+    });
+    await store.remove("Agent Q #1 — Which database");
+
+    const restarted = createConversationStore(cwd);
+    await expect(
+      restarted.findThreadStream("zulip", "Agent Q #1 — Which database"),
+    ).resolves.toBe("agents");
+    await expect(
+      restarted.findThreadStream("slack", "Agent Q #1 — Which database"),
+    ).resolves.toBeNull();
+    await expect(
+      restarted.findThreadStream("zulip", "Agent Q #2 — Unknown"),
+    ).resolves.toBeNull();
+  });
+
+  it("should drop thread streams older than a month on the next write", async () => {
+    const store = createConversationStore(cwd);
+    await store.saveThread({
+      thread_id: "old",
+      backend: "zulip",
+      stream: "agents",
+      asked_at: new Date(Date.now() - 31 * 24 * 60 * 60 * 1000).toISOString(),
+    });
+    await store.saveThread({
+      thread_id: "new",
+      backend: "zulip",
+      stream: "agents",
+      asked_at: new Date().toISOString(),
+    });
+
+    await expect(store.findThreadStream("zulip", "old")).resolves.toBeNull();
+    await expect(store.findThreadStream("zulip", "new")).resolves.toBe(
+      "agents",
+    );
+  });
+});
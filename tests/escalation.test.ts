@@ -0,0 +1,128 @@
+/**
+ * Tests for the escalation ladder.
+ */
+
+import type { ChatClient } from "../src/chat-client.js";
+import type { Config } from "../src/config.js";
+import {
+  buildEscalationSteps,
+  CROSSPOST_TOPIC,
+  startEscalation,
+} from "../src/escalation.js";
+
+describe("escalation", () => {
+  const baseConfig: Config = {
+    backend: "zulip",
+    serverUrl: "https://zulip.example.com",
+    botEmail: "bot@example.com",
+    botApiKey: "test-api-key",
+    stream: "agents",
+    pollIntervalMs: 5000,
+    escalation: {
+      remindAfterMs: 5 * 60000,
+      mentionAfterMs: 15 * 60000,
+      mention: "@*oncall*",
+      crossPostAfterMs: 30 * 60000,
+      crossPostStream: "engineering",
+    },
+  };
+
+  let postMessage: ReturnType<typeof vi.fn<ChatClient["postMessage"]>>;
+  let chatClient: ChatClient;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    postMessage = vi.fn<ChatClient["postMessage"]>().mockResolvedValue("1");
+    chatClient = {
+      postMessage,
+      registerEventQueue: vi.fn(),
+      pollForReply: vi.fn(),
+      deregisterQueue: vi.fn(),
+      formatThreadLink: (stream, threadId) => `#**${stream}>${threadId}**`,
+    };
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("should post each step in the thread or escalation stream in order", async () => {
+    startEscalation(chatClient, baseConfig, "Agent Q #1 — help");
+
+    await vi.advanceTimersByTimeAsync(5 * 60000 - 1);
+    expect(postMessage).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(1);
+    expect(postMessage).toHaveBeenLastCalledWith(
+      "agents",
+      "Agent Q #1 — help",
+      "⏰ **Reminder:** the agent has been waiting 5 minutes for a reply in this topic.",
+    );
+
+    await vi.advanceTimersByTimeAsync(10 * 60000);
+    expect(postMessage).toHaveBeenLastCalledWith(
+      "agents",
+      "Agent Q #1 — help",
+      "🚨 @*oncall* the agent has been waiting 15 minutes for a reply in this topic.",
+    );
+
+    await vi.advanceTimersByTimeAsync(15 * 60000);
+    expect(postMessage).toHaveBeenLastCalledWith(
+      "engineering",
+      CROSSPOST_TOPIC,
+      "🚨 An agent question has been unanswered for 30 minutes: #**agents>Agent Q #1 — help**",
+    );
+    expect(postMessage).toHaveBeenCalledTimes(3);
+  });
+
+  it("should cancel pending steps when stopped", async () => {
+    const stop = startEscalation(chatClient, baseConfig, "topic");
+
+    await vi.advanceTimersByTimeAsync(5 * 60000);
+    stop();
+    await vi.advanceTimersByTimeAsync(60 * 60000);
+
+    expect(postMessage).toHaveBeenCalledTimes(1);
+  });
+
+  it("should keep going when a step fails to post", async () => {
+    postMessage.mockRejectedValueOnce(new Error("Zulip down"));
+    startEscalation(chatClient, baseConfig, "topic");
+
+    await vi.advanceTimersByTimeAsync(15 * 60000);
+
+    expect(postMessage).toHaveBeenCalledTimes(2);
+  });
+
+  it("should do nothing without an escalation config", async () => {
+    const { escalation: _escalation, ...config } = baseConfig;
+    void _escalation;
+
+    expect(buildEscalationSteps(chatClient, config, "topic")).toEqual([]);
+    startEscalation(chatClient, config, "topic");
+    await vi.advanceTimersByTimeAsync(24 * 60 * 60000);
+
+    expect(postMessage).not.toHaveBeenCalled();
+  });
+
+  it("should order steps by delay and describe threads without links", () => {
+    const { formatThreadLink: _formatThreadLink, ...plainClient } = chatClient;
+    void _formatThreadLink;
+
+    const steps = buildEscalationSteps(
+      plainClient,
+      {
+        ...baseConfig,
+        escalation: {
+          remindAfterMs: 20 * 60000,
+          crossPostAfterMs: 10 * 60000,
+          crossPostStream: "engineering",
+        },
+      },
+      "1700000000.000100",
+    );
+
+    expect(steps.map((step) => step.afterMs)).toEqual([10 * 60000, 20 * 60000]);
+    expect(steps[0]?.content).toContain('"1700000000.000100" in agents');
+  });
+});
@@ -0,0 +1,27 @@
+/**
+ * Tests for glob matching.
+ */
+
+import { globToRegExp, matchesGlob } from "../src/glob.js";
+
+describe("glob", () => {
+  it.each([
+    ["migrations/001.sql", "migrations/**", true],
+    ["db/migrations/001.sql", "**/migrations/**", true],
+    ["migrations/001.sql", "**/migrations/**", true],
+    ["src/migrations.ts", "**/migrations/**", false],
+    [".env", ".env*", true],
+    [".env.local", ".env*", true],
+    ["config/.env", ".env*", false],
+    ["src/a/b.ts", "src/*.ts", false],
+    ["src/b.ts", "src/?.ts", true],
+    ["src/ab.ts", "src/?.ts", false],
+  ])("should match %j against %j: %s", (path, pattern, expected) => {
+    expect(matchesGlob(path, pattern)).toBe(expected);
+  });
+
+  it("should escape regular expression characters", () => {
+    expect(globToRegExp("a+(b).ts").test("a+(b).ts")).toBe(true);
+    expect(globToRegExp("a.ts").test("abts")).toBe(false);
+  });
+});
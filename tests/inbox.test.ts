@@ -0,0 +1,184 @@
+/**
+ * Tests for the operator inbox.
+ */
+
+import type { ChatClient, ChatMessage } from "../src/chat-client.js";
+import {
+  formatInboxIntro,
+  formatInboxMessage,
+  inboxTopic,
+  startInbox,
+} from "../src/inbox.js";
+import { WATCH_RETRY_DELAY_MS } from "../src/watch.js";
+
+describe("inbox", () => {
+  const config = {
+    backend: "zulip" as const,
+    serverUrl: "https://zulip.example.com",
+    botEmail: "bot@example.com",
+    botApiKey: "test-api-key",
+    stream: "test-stream",
+    pollIntervalMs: 5000,
+    inbox: { deliverAs: "steer" as const },
+  };
+
+  // Messages the mocked subscription delivers, one per poll
+  let queued: ChatMessage[];
+
+  const waitForMessage: ChatClient["pollForReply"] = async (
+    _queueId,
+    _lastEventId,
+    _botEmail,
+    signal,
+  ) => {
+    const next = queued.shift();
+    if (next) {
+      return next;
+    }
+    return await new Promise((resolve) => {
+      signal.addEventListener("abort", () => resolve(null), { once: true });
+    });
+  };
+
+  const createClient = () => ({
+    postMessage: vi.fn<ChatClient["postMessage"]>().mockResolvedValue("100"),
+    registerEventQueue: vi
+      .fn<ChatClient["registerEventQueue"]>()
+      .mockResolvedValue({ queueId: "queue-1", lastEventId: "7" }),
+    pollForReply: vi
+      .fn<ChatClient["pollForReply"]>()
+      .mockImplementation(waitForMessage),
+    deregisterQueue: vi
+      .fn<ChatClient["deregisterQueue"]>()
+      .mockResolvedValue(undefined),
+  });
+
+  beforeEach(() => {
+    queued = [];
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe("inboxTopic", () => {
+    it("should give each session its own topic", () => {
+      expect(inboxTopic(config, "0c9f2d1e-77aa-4f3b")).toBe(
+        "Agent inbox — session 0c9f2d1e",
+      );
+      expect(inboxTopic(config)).toBe("Agent inbox");
+    });
+
+    it("should use the configured topic", () => {
+      expect(
+        inboxTopic(
+          { ...config, inbox: { topic: "fdr run", deliverAs: "steer" } },
+          "0c9f2d1e",
+        ),
+      ).toBe("fdr run");
+    });
+  });
+
+  it("should describe when messages reach the agent", () => {
+    expect(formatInboxIntro({ deliverAs: "steer" }, "")).toBe(
+      "📥 **Agent inbox**\n\nMessages posted in this topic are passed to the agent as soon as it finishes its current step.",
+    );
+    expect(
+      formatInboxIntro({ deliverAs: "followUp" }, "_Asked from_ repo `x`"),
+    ).toContain("once it finishes its current task.\n\n_Asked from_ repo `x`");
+  });
+
+  it("should attribute messages to their sender", () => {
+    expect(
+      formatInboxMessage({
+        id: "1",
+        sender_email: "alice@example.com",
+        content: "Skip the flaky test",
+      }),
+    ).toBe(
+      "Message from alice@example.com via the agent inbox:\n\nSkip the flaky test",
+    );
+  });
+
+  it("should open the topic and deliver each message posted there", async () => {
+    const client = createClient();
+    queued = [
+      {
+        id: "101",
+        sender_email: "alice@example.com",
+        content: "Stop refactoring",
+        lastEventId: "8",
+      },
+      {
+        id: "102",
+        sender_email: "bob@example.com",
+        content: "Focus on the tests",
+        lastEventId: "9",
+      },
+    ];
+    const delivered: ChatMessage[] = [];
+
+    const inbox = await startInbox(
+      client as unknown as ChatClient,
+      config,
+      "Agent inbox",
+      "intro",
+      (message) => delivered.push(message),
+    );
+    await vi.waitFor(() => expect(delivered).toHaveLength(2));
+    await inbox.stop();
+
+    expect(inbox.threadId).toBe("Agent inbox");
+    expect(client.postMessage).toHaveBeenCalledWith(
+      "test-stream",
+      "Agent inbox",
+      "intro",
+    );
+    expect(client.registerEventQueue).toHaveBeenCalledWith(
+      "test-stream",
+      "Agent inbox",
+    );
+    expect(delivered.map((message) => message.content)).toEqual([
+      "Stop refactoring",
+      "Focus on the tests",
+    ]);
+    expect(client.pollForReply.mock.calls.map((call) => call[1])).toEqual([
+      "7",
+      "8",
+      "9",
+    ]);
+    expect(client.deregisterQueue).toHaveBeenCalledWith("queue-1");
+  });
+
+  it("should subscribe again after polling fails", async () => {
+    vi.useFakeTimers();
+    const client = createClient();
+    client.pollForReply.mockRejectedValueOnce(new Error("BAD_EVENT_QUEUE_ID"));
+    client.registerEventQueue
+      .mockResolvedValueOnce({ queueId: "queue-1", lastEventId: "7" })
+      .mockResolvedValueOnce({ queueId: "queue-2", lastEventId: "20" });
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+
+    const inbox = await startInbox(
+      client as unknown as ChatClient,
+      config,
+      "Agent inbox",
+      "intro",
+      () => {},
+    );
+    await vi.advanceTimersByTimeAsync(WATCH_RETRY_DELAY_MS);
+    await inbox.stop();
+
+    expect(warn).toHaveBeenCalledWith(
+      expect.stringContaining("BAD_EVENT_QUEUE_ID"),
+    );
+    warn.mockRestore();
+    expect(client.deregisterQueue).toHaveBeenCalledWith("queue-1");
+    expect(client.pollForReply).toHaveBeenLastCalledWith(
+      "queue-2",
+      "20",
+      "bot@example.com",
+      expect.any(AbortSignal),
+    );
+  });
+});
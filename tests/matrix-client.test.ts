@@ -0,0 +1,578 @@
+/**
+ * Tests for Matrix client.
+ */
+
+import type { ChatClient } from "../src/chat-client.js";
+import {
+  createMatrixClient,
+  stripReplyFallback,
+  toMatrixHtml,
+} from "../src/matrix-client.js";
+
+describe("matrix-client", () => {
+  let mockFetch: ReturnType<typeof vi.fn>;
+  let client: ChatClient;
+  const originalFetch = global.fetch;
+  const config = {
+    backend: "matrix" as const,
+    serverUrl: "https://matrix.example.com/",
+    botEmail: "@bot:example.com",
+    botApiKey: "syt_token",
+    stream: "!room:example.com",
+    pollIntervalMs: 5000,
+  };
+  const queueId = "!room:example.com $root";
+
+  const syncResponse = (
+    nextBatch: string,
+    events: Array<Record<string, unknown>> = [],
+  ) => ({
+    ok: true,
+    json: async () => ({
+      next_batch: nextBatch,
+      rooms: {
+        join: { "!room:example.com": { timeline: { events } } },
+      },
+    }),
+  });
+
+  const threadReply = (
+    eventId: string,
+    sender: string,
+    body: string,
+    rootId = "$root",
+  ) => ({
+    event_id: eventId,
+    type: "m.room.message",
+    sender,
+    content: {
+      msgtype: "m.text",
+      body,
+      "m.relates_to": { rel_type: "m.thread", event_id: rootId },
+    },
+  });
+
+  beforeEach(() => {
+    mockFetch = vi.fn();
+    global.fetch = mockFetch as unknown as typeof global.fetch;
+    client = createMatrixClient(config);
+  });
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+    vi.useRealTimers();
+  });
+
+  it("should send a new question as a room message", async () => {
+    mockFetch.mockResolvedValue({
+      ok: true,
+      json: async () => ({ event_id: "$question" }),
+    });
+
+    const eventId = await client.postMessage(
+      "!room:example.com",
+      "Agent Q #1 — help",
+      "🤖 **Agent needs help**",
+    );
+
+    expect(eventId).toBe("$question");
+    const [url, init] = mockFetch.mock.calls[0] as [string, RequestInit];
+    expect(url).toMatch(
+      /^https:\/\/matrix\.example\.com\/_matrix\/client\/v3\/rooms\/!room%3Aexample\.com\/send\/m\.room\.message\/pi-human-loop-/,
+    );
+    expect(init.method).toBe("PUT");
+    expect(init.headers).toEqual(
+      expect.objectContaining({ Authorization: "Bearer syt_token" }),
+    );
+    expect(JSON.parse(init.body as string)).toEqual({
+      msgtype: "m.text",
+      body: "Agent Q #1 — help\n\n🤖 **Agent needs help**",
+      format: "org.matrix.custom.html",
+      formatted_body:
+        "<strong>Agent Q #1 — help</strong><br><br>🤖 <strong>Agent needs help</strong>",
+    });
+  });
+
+  it("should thread follow-ups under the root event", async () => {
+    mockFetch.mockResolvedValue({
+      ok: true,
+      json: async () => ({ event_id: "$followup" }),
+    });
+
+    await client.postMessage("!room:example.com", "$root", "More info");
+
+    const init = mockFetch.mock.calls[0]?.[1] as RequestInit;
+    expect(JSON.parse(init.body as string)).toEqual({
+      msgtype: "m.text",
+      body: "More info",
+      format: "org.matrix.custom.html",
+      formatted_body: "More info",
+      "m.relates_to": {
+        rel_type: "m.thread",
+        event_id: "$root",
+        is_falling_back: true,
+        "m.in_reply_to": { event_id: "$root" },
+      },
+    });
+  });
+
+  it("should use unique transaction IDs", async () => {
+    mockFetch.mockResolvedValue({
+      ok: true,
+      json: async () => ({ event_id: "$e" }),
+    });
+
+    await client.postMessage("!room:example.com", "$root", "one");
+    await client.postMessage("!room:example.com", "$root", "two");
+
+    expect(mockFetch.mock.calls[0]?.[0]).not.toBe(mockFetch.mock.calls[1]?.[0]);
+  });
+
+  it("should throw when sending fails", async () => {
+    mockFetch.mockResolvedValue({
+      ok: false,
+      status: 403,
+      statusText: "Forbidden",
+      text: async () => "M_FORBIDDEN",
+    });
+
+    await expect(
+      client.postMessage("!room:example.com", "topic", "content"),
+    ).rejects.toThrow(/Failed to send Matrix message: 403/);
+  });
+
+  it("should use the sent event as the thread ID for new questions", () => {
+    expect(client.resolveThreadId?.("Agent Q #1", "$question")).toBe(
+      "$question",
+    );
+    expect(client.resolveThreadId?.("$root", "$followup")).toBe("$root");
+  });
+
+  it("should format matrix.to links to the thread root", () => {
+    expect(client.formatThreadLink?.("!room:example.com", "$root")).toBe(
+      "https://matrix.to/#/!room%3Aexample.com/%24root",
+    );
+  });
+
+  it("should register by taking an initial sync token", async () => {
+    mockFetch.mockResolvedValue(syncResponse("s1"));
+
+    const result = await client.registerEventQueue(
+      "!room:example.com",
+      "$root",
+    );
+
+    expect(result).toEqual({ queueId, lastEventId: "s1" });
+    const url = new URL(mockFetch.mock.calls[0]?.[0] as string);
+    expect(url.pathname).toBe("/_matrix/client/v3/sync");
+    expect(url.searchParams.get("timeout")).toBe("0");
+    expect(url.searchParams.has("since")).toBe(false);
+    expect(JSON.parse(url.searchParams.get("filter") ?? "{}")).toMatchObject({
+      room: { rooms: ["!room:example.com"] },
+    });
+  });
+
+  it("should throw when the initial sync fails", async () => {
+    mockFetch.mockResolvedValue({
+      ok: false,
+      status: 401,
+      statusText: "Unauthorized",
+      text: async () => "M_UNKNOWN_TOKEN",
+    });
+
+    await expect(
+      client.registerEventQueue("!room:example.com", "$root"),
+    ).rejects.toThrow(/Failed to start Matrix sync: 401/);
+  });
+
+  it("should long-poll sync and return the first human thread reply", async () => {
+    mockFetch
+      .mockResolvedValueOnce(
+        syncResponse("s2", [
+          threadReply("$bot", "@bot:example.com", "Reminder"),
+          threadReply(
+            "$other",
+            "@alice:example.com",
+            "Unrelated",
+            "$elsewhere",
+          ),
+        ]),
+      )
+      .mockResolvedValueOnce(
+        syncResponse("s3", [
+          threadReply("$reply", "@alice:example.com", "Do X"),
+        ]),
+      );
+
+    const reply = await client.pollForReply(
+      queueId,
+      "s1",
+      "@bot:example.com",
+      new AbortController().signal,
+    );
+
+    expect(reply).toEqual({
+      id: "$reply",
+      sender_email: "@alice:example.com",
+      content: "Do X",
+      lastEventId: "s3",
+    });
+    const firstUrl = new URL(mockFetch.mock.calls[0]?.[0] as string);
+    expect(firstUrl.searchParams.get("since")).toBe("s1");
+    expect(firstUrl.searchParams.get("timeout")).toBe("30000");
+    const secondUrl = new URL(mockFetch.mock.calls[1]?.[0] as string);
+    expect(secondUrl.searchParams.get("since")).toBe("s2");
+  });
+
+  it("should resume after a reply without skipping the rest of its batch", async () => {
+    mockFetch.mockResolvedValue(
+      syncResponse("s2", [
+        threadReply("$first", "@ci:example.com", "Build started"),
+        threadReply("$second", "@alice:example.com", "Use B"),
+      ]),
+    );
+
+    const first = await client.pollForReply(
+      queueId,
+      "s1",
+      "@bot:example.com",
+      new AbortController().signal,
+    );
+    const second = await client.pollForReply(
+      queueId,
+      first?.lastEventId ?? "",
+      "@bot:example.com",
+      new AbortController().signal,
+    );
+
+    expect(first).toMatchObject({ id: "$first", lastEventId: "s1 $first" });
+    expect(second).toEqual({
+      id: "$second",
+      sender_email: "@alice:example.com",
+      content: "Use B",
+      lastEventId: "s2",
+    });
+    const resumedUrl = new URL(mockFetch.mock.calls[1]?.[0] as string);
+    expect(resumedUrl.searchParams.get("since")).toBe("s1");
+  });
+
+  it("should accept plain replies to the root event", async () => {
+    mockFetch.mockResolvedValue(
+      syncResponse("s2", [
+        {
+          event_id: "$reply",
+          type: "m.room.message",
+          sender: "@alice:example.com",
+          content: {
+            body: "> <@bot:example.com> Agent needs help\n\nUse B",
+            "m.relates_to": { "m.in_reply_to": { event_id: "$root" } },
+          },
+        },
+      ]),
+    );
+
+    const reply = await client.pollForReply(
+      queueId,
+      "s1",
+      "@bot:example.com",
+      new AbortController().signal,
+    );
+
+    expect(reply?.content).toBe("Use B");
+  });
+
+  it("should find a thread reply posted before the subscription", async () => {
+    mockFetch
+      .mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ end: "t_after_root" }),
+      })
+      .mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({
+          chunk: [
+            threadReply("$bot", "@bot:example.com", "Still there?"),
+            threadReply("$other", "@alice:example.com", "Hi", "$elsewhere"),
+            threadReply("$skipped", "@carol:example.com", "Not me"),
+            threadReply("$reply", "@alice:example.com", "Use B"),
+          ],
+        }),
+      });
+
+    const reply = await client.findReplySince?.(
+      "!room:example.com",
+      "$root",
+      "$root",
+      "@bot:example.com",
+      async (message) => message.sender_email !== "@carol:example.com",
+    );
+
+    expect(reply).toEqual({
+      id: "$reply",
+      sender_email: "@alice:example.com",
+      content: "Use B",
+    });
+    expect(mockFetch.mock.calls[0]?.[0]).toBe(
+      "https://matrix.example.com/_matrix/client/v3/rooms/!room%3Aexample.com/context/%24root?limit=0",
+    );
+    const messagesUrl = new URL(mockFetch.mock.calls[1]?.[0] as string);
+    expect(messagesUrl.pathname).toBe(
+      "/_matrix/client/v3/rooms/!room%3Aexample.com/messages",
+    );
+    expect(messagesUrl.searchParams.get("from")).toBe("t_after_root");
+    expect(messagesUrl.searchParams.get("dir")).toBe("f");
+  });
+
+  it("should find no reply when the thread has none yet", async () => {
+    mockFetch
+      .mockResolvedValueOnce({ ok: true, json: async () => ({ end: "t1" }) })
+      .mockResolvedValueOnce({ ok: true, json: async () => ({ chunk: [] }) });
+
+    await expect(
+      client.findReplySince?.(
+        "!room:example.com",
+        "$root",
+        "$root",
+        "@bot:example.com",
+      ),
+    ).resolves.toBeNull();
+  });
+
+  it("should throw when the catch-up lookup fails", async () => {
+    mockFetch.mockResolvedValueOnce({
+      ok: false,
+      status: 404,
+      statusText: "Not Found",
+      text: async () => "M_NOT_FOUND",
+    });
+
+    await expect(
+      client.findReplySince?.(
+        "!room:example.com",
+        "$root",
+        "$root",
+        "@bot:example.com",
+      ),
+    ).rejects.toThrow(/Failed to fetch Matrix event context: 404/);
+  });
+
+  it("should react with the option keycap", async () => {
+    mockFetch.mockResolvedValue({
+      ok: true,
+      json: async () => ({ event_id: "$reaction" }),
+    });
+
+    await client.addReaction?.("!room:example.com", "$question", "two");
+
+    const [url, init] = mockFetch.mock.calls[0] as [string, RequestInit];
+    expect(url).toContain("/send/m.reaction/pi-human-loop-");
+    expect(JSON.parse(init.body as string)).toEqual({
+      "m.relates_to": {
+        rel_type: "m.annotation",
+        event_id: "$question",
+        key: "2️⃣",
+      },
+    });
+  });
+
+  it("should throw when reacting fails", async () => {
+    mockFetch.mockResolvedValue({
+      ok: false,
+      status: 403,
+      statusText: "Forbidden",
+      text: async () => "M_FORBIDDEN",
+    });
+
+    await expect(
+      client.addReaction?.("!room:example.com", "$question", "one"),
+    ).rejects.toThrow(/Failed to add Matrix reaction: 403/);
+  });
+
+  it("should return option reactions on the watched event", async () => {
+    const reaction = (sender: string, eventId: string, key: string) => ({
+      event_id: `$r-${sender}-${key}`,
+      type: "m.reaction",
+      sender,
+      content: {
+        "m.relates_to": { rel_type: "m.annotation", event_id: eventId, key },
+      },
+    });
+    mockFetch
+      .mockResolvedValueOnce(syncResponse("s1"))
+      .mockResolvedValueOnce(
+        syncResponse("s2", [
+          reaction("@bot:example.com", "$root", "1️⃣"),
+          reaction("@alice:example.com", "$elsewhere", "1️⃣"),
+          reaction("@alice:example.com", "$root", "👍"),
+          reaction("@alice:example.com", "$root", "2️⃣"),
+        ]),
+      );
+
+    const { queueId: watchedQueueId, lastEventId } =
+      await client.registerEventQueue("!room:example.com", "$root", "$root");
+    const reply = await client.pollForReply(
+      watchedQueueId,
+      lastEventId,
+      "@bot:example.com",
+      new AbortController().signal,
+    );
+
+    expect(reply).toEqual({
+      id: "$r-@alice:example.com-2️⃣",
+      sender_email: "@alice:example.com",
+      content: "",
+      reaction: "two",
+      lastEventId: "s2",
+    });
+  });
+
+  it("should keep watching reactions when another client resumes the subscription", async () => {
+    mockFetch.mockResolvedValueOnce(syncResponse("s1")).mockResolvedValueOnce(
+      syncResponse("s2", [
+        {
+          event_id: "$r",
+          type: "m.reaction",
+          sender: "@alice:example.com",
+          content: {
+            "m.relates_to": {
+              rel_type: "m.annotation",
+              event_id: "$question",
+              key: "1️⃣",
+            },
+          },
+        },
+      ]),
+    );
+
+    const { queueId: watchedQueueId, lastEventId } =
+      await client.registerEventQueue(
+        "!room:example.com",
+        "$root",
+        "$question",
+      );
+    expect(watchedQueueId).toBe("!room:example.com $root $question");
+
+    const reply = await createMatrixClient(config).pollForReply(
+      watchedQueueId,
+      lastEventId,
+      "@bot:example.com",
+      new AbortController().signal,
+    );
+
+    expect(reply?.reaction).toBe("one");
+  });
+
+  it("should retry with backoff on HTTP 500 errors", async () => {
+    vi.useFakeTimers();
+    mockFetch
+      .mockResolvedValueOnce({
+        ok: false,
+        status: 502,
+        statusText: "Bad Gateway",
+        text: async () => "",
+      })
+      .mockResolvedValueOnce(
+        syncResponse("s2", [threadReply("$r", "@alice:example.com", "ok")]),
+      );
+
+    const pollPromise = client.pollForReply(
+      queueId,
+      "s1",
+      "@bot:example.com",
+      new AbortController().signal,
+    );
+    await vi.advanceTimersByTimeAsync(5000);
+
+    expect((await pollPromise)?.content).toBe("ok");
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+  });
+
+  it("should retry network errors", async () => {
+    vi.useFakeTimers();
+    mockFetch
+      .mockRejectedValueOnce(new TypeError("Network error"))
+      .mockResolvedValueOnce(
+        syncResponse("s2", [threadReply("$r", "@alice:example.com", "ok")]),
+      );
+
+    const pollPromise = client.pollForReply(
+      queueId,
+      "s1",
+      "@bot:example.com",
+      new AbortController().signal,
+    );
+    await vi.advanceTimersByTimeAsync(5000);
+
+    expect((await pollPromise)?.content).toBe("ok");
+  });
+
+  it("should throw on client errors", async () => {
+    mockFetch.mockResolvedValue({
+      ok: false,
+      status: 400,
+      statusText: "Bad Request",
+      text: async () => "M_INVALID_PARAM",
+    });
+
+    await expect(
+      client.pollForReply(
+        queueId,
+        "s1",
+        "@bot:example.com",
+        new AbortController().signal,
+      ),
+    ).rejects.toThrow(/Failed to poll Matrix sync: 400/);
+  });
+
+  it("should return null when aborted", async () => {
+    const abortController = new AbortController();
+    mockFetch.mockImplementation(async () => {
+      abortController.abort();
+      throw new DOMException("aborted", "AbortError");
+    });
+
+    const reply = await client.pollForReply(
+      queueId,
+      "s1",
+      "@bot:example.com",
+      abortController.signal,
+    );
+
+    expect(reply).toBeNull();
+  });
+
+  it("should treat deregistering as a no-op", async () => {
+    await expect(client.deregisterQueue(queueId)).resolves.toBeUndefined();
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+
+  describe("stripReplyFallback", () => {
+    it("should remove the quoted fallback", () => {
+      expect(stripReplyFallback("> <@a:b> quoted\n> more\n\nanswer")).toBe(
+        "answer",
+      );
+    });
+
+    it("should leave messages without a fallback untouched", () => {
+      expect(stripReplyFallback("plain answer")).toBe("plain answer");
+    });
+  });
+
+  describe("toMatrixHtml", () => {
+    it("should convert headings, bold, inline code and links", () => {
+      expect(
+        toMatrixHtml(
+          "# Title\n**Question:** run `npm test`, see [docs](https://x.io)",
+        ),
+      ).toBe(
+        '<strong>Title</strong><br><strong>Question:</strong> run <code>npm test</code>, see <a href="https://x.io">docs</a>',
+      );
+    });
+
+    it("should keep code blocks verbatim and escape HTML", () => {
+      expect(toMatrixHtml("a < b\n```ts\nconst a = **b** && c;\n```")).toBe(
+        'a &lt; b<br><pre><code class="language-ts">const a = **b** &amp;&amp; c;</code></pre>',
+      );
+    });
+  });
+});
@@ -0,0 +1,71 @@
+/**
+ * Tests for question metadata.
+ */
+
+import { mkdtemp, rm } from "node:fs/promises";
+import { hostname, tmpdir } from "node:os";
+import path from "node:path";
+import { collectMetadata, formatMetadata } from "../src/metadata.js";
+
+describe("metadata", () => {
+  let cwd: string;
+  const ctx = () =>
+    ({
+      cwd,
+      model: { id: "claude-sonnet" },
+      sessionManager: { getSessionId: () => "session-1" },
+    }) as any;
+
+  beforeEach(async () => {
+    cwd = await mkdtemp(path.join(tmpdir(), "metadata-"));
+  });
+
+  afterEach(async () => {
+    await rm(cwd, { recursive: true, force: true });
+  });
+
+  describe("collectMetadata", () => {
+    it("should collect the session's details", async () => {
+      await expect(collectMetadata(ctx())).resolves.toEqual({
+        repository: path.basename(cwd),
+        cwd,
+        host: hostname(),
+        model: "claude-sonnet",
+        session_id: "session-1",
+      });
+    });
+
+    it("should leave out redacted fields", async () => {
+      await expect(
+        collectMetadata(ctx(), ["repository", "cwd", "host", "model"]),
+      ).resolves.toEqual({ session_id: "session-1" });
+    });
+
+    it("should skip directory details without a working directory", async () => {
+      await expect(collectMetadata({} as any, ["host"])).resolves.toEqual({});
+    });
+  });
+
+  describe("formatMetadata", () => {
+    it("should format every field on one line", () => {
+      expect(
+        formatMetadata({
+          repository: "payments",
+          branch: "fix/rounding",
+          commit: "abc1234",
+          dirty: true,
+          cwd: "~/src/payments",
+          host: "devbox",
+          model: "claude-sonnet",
+          session_id: "session-1",
+        }),
+      ).toBe(
+        "_Asked from_ repo `payments` · branch `fix/rounding` · commit `abc1234` · uncommitted changes · in `~/src/payments` · on `devbox` · model `claude-sonnet` · session `session-1`",
+      );
+    });
+
+    it("should be empty without metadata", () => {
+      expect(formatMetadata({ dirty: false })).toBe("");
+    });
+  });
+});
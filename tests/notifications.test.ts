@@ -0,0 +1,279 @@
+/**
+ * Tests for lifecycle notifications.
+ */
+
+import type { AgentEndEvent } from "@mariozechner/pi-coding-agent";
+import type { ChatClient } from "../src/chat-client.js";
+import {
+  createNotifier,
+  formatSessionStart,
+  formatToolFailures,
+  NOTIFICATION_EVENTS,
+  notificationTopic,
+  summariseAgentRun,
+} from "../src/notifications.js";
+import {
+  clearSessionActivity,
+  isSessionThread,
+} from "../src/session-activity.js";
+
+describe("notifications", () => {
+  const config = {
+    backend: "zulip" as const,
+    serverUrl: "https://zulip.example.com",
+    botEmail: "bot@example.com",
+    botApiKey: "test-api-key",
+    stream: "test-stream",
+    pollIntervalMs: 5000,
+    notifications: {
+      events: [...NOTIFICATION_EVENTS],
+      toolFailureThreshold: 3,
+    },
+  };
+
+  type AgentMessages = AgentEndEvent["messages"];
+
+  const assistant = (
+    text: string,
+    timestamp: number,
+    stopReason = "stop",
+    errorMessage?: string,
+  ) =>
+    ({
+      role: "assistant",
+      content: [{ type: "text", text }],
+      stopReason,
+      ...(errorMessage ? { errorMessage } : {}),
+      timestamp,
+    }) as unknown as AgentMessages[number];
+
+  const toolResult = (isError: boolean, timestamp: number) =>
+    ({
+      role: "toolResult",
+      toolCallId: "call-1",
+      toolName: "bash",
+      content: [],
+      isError,
+      timestamp,
+    }) as unknown as AgentMessages[number];
+
+  const user = (timestamp: number) =>
+    ({
+      role: "user",
+      content: "Fix the build",
+      timestamp,
+    }) as unknown as AgentMessages[number];
+
+  beforeEach(() => {
+    clearSessionActivity();
+  });
+
+  describe("notificationTopic", () => {
+    it("should use one topic per session by default", () => {
+      expect(notificationTopic(config, "0123456789abcdef")).toBe(
+        "Agent activity — session 01234567",
+      );
+      expect(notificationTopic(config)).toBe("Agent activity");
+    });
+
+    it("should use the configured topic", () => {
+      expect(
+        notificationTopic(
+          {
+            ...config,
+            notifications: { ...config.notifications, topic: "Nightly run" },
+          },
+          "0123456789abcdef",
+        ),
+      ).toBe("Nightly run");
+    });
+  });
+
+  describe("formatSessionStart", () => {
+    it("should include the session metadata", () => {
+      expect(formatSessionStart("repo: acme")).toBe(
+        "▶️ **Session started**\n\nrepo: acme",
+      );
+      expect(formatSessionStart("")).toBe("▶️ **Session started**");
+    });
+  });
+
+  describe("summariseAgentRun", () => {
+    it("should summarise a finished run", () => {
+      const summary = summariseAgentRun([
+        user(0),
+        assistant("", 1000),
+        toolResult(false, 2000),
+        toolResult(true, 3000),
+        assistant("Fixed the build.\nAll tests pass.", 125000),
+      ]);
+
+      expect(summary).toBe(
+        "✅ **Agent finished** — after 2 minutes, 2 tool calls (1 failed)\n\n> Fixed the build.\n> All tests pass.",
+      );
+    });
+
+    it("should report aborted and failed runs", () => {
+      expect(summariseAgentRun([assistant("", 0, "aborted")])).toBe(
+        "⏹️ **Agent stopped** — 0 tool calls",
+      );
+      expect(
+        summariseAgentRun([assistant("", 0, "error", "Rate limit exceeded")]),
+      ).toBe(
+        "⚠️ **Agent run failed** — 0 tool calls\n\nError: Rate limit exceeded",
+      );
+    });
+
+    it("should shorten a long final message", () => {
+      const summary = summariseAgentRun([assistant("x".repeat(600), 0)]);
+
+      expect(summary).toContain(`> ${"x".repeat(499)}…`);
+    });
+  });
+
+  describe("createNotifier", () => {
+    const createClient = () => ({
+      postMessage: vi.fn<ChatClient["postMessage"]>().mockResolvedValue("100"),
+    });
+
+    it("should post enabled events to the session topic", async () => {
+      const client = createClient();
+      const notifier = createNotifier(
+        client as unknown as ChatClient,
+        config,
+        "Agent activity",
+      );
+
+      await notifier.notify("start", "started");
+      await notifier.notify("shutdown", "ended");
+
+      expect(client.postMessage.mock.calls).toEqual([
+        ["test-stream", "Agent activity", "started"],
+        ["test-stream", "Agent activity", "ended"],
+      ]);
+      expect(isSessionThread("Agent activity")).toBe(true);
+    });
+
+    it("should skip disabled events", async () => {
+      const client = createClient();
+      const notifier = createNotifier(
+        client as unknown as ChatClient,
+        {
+          ...config,
+          notifications: { ...config.notifications, events: ["agent-end"] },
+        },
+        "Agent activity",
+      );
+
+      await notifier.notify("start", "started");
+      await notifier.notify("agent-end", "finished");
+
+      expect(client.postMessage).toHaveBeenCalledTimes(1);
+      expect(client.postMessage).toHaveBeenCalledWith(
+        "test-stream",
+        "Agent activity",
+        "finished",
+      );
+    });
+
+    it("should post later notifications in the thread the first one opened", async () => {
+      const client = {
+        postMessage: vi
+          .fn<ChatClient["postMessage"]>()
+          .mockResolvedValue("1700000000.000100"),
+        resolveThreadId: vi.fn(
+          (_topic: string, messageId: string) => messageId,
+        ),
+      };
+      const notifier = createNotifier(
+        client as unknown as ChatClient,
+        config,
+        "Agent activity",
+      );
+
+      await Promise.all([
+        notifier.notify("start", "started"),
+        notifier.notify("agent-end", "finished"),
+      ]);
+
+      expect(client.postMessage.mock.calls.map((call) => call[1])).toEqual([
+        "Agent activity",
+        "1700000000.000100",
+      ]);
+    });
+
+    it("should log failed posts without throwing", async () => {
+      const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+      const client = {
+        postMessage: vi
+          .fn<ChatClient["postMessage"]>()
+          .mockRejectedValueOnce(new Error("Network down"))
+          .mockResolvedValue("100"),
+      };
+      const notifier = createNotifier(
+        client as unknown as ChatClient,
+        config,
+        "Agent activity",
+      );
+
+      await expect(
+        notifier.notify("start", "started"),
+      ).resolves.toBeUndefined();
+      await notifier.notify("shutdown", "ended");
+
+      expect(warn).toHaveBeenCalledWith(
+        "pi-human-loop: Could not post a notification: Network down",
+      );
+      expect(client.postMessage).toHaveBeenCalledTimes(2);
+      warn.mockRestore();
+    });
+
+    it("should report a run of failed tool calls once", async () => {
+      const client = createClient();
+      const notifier = createNotifier(
+        client as unknown as ChatClient,
+        config,
+        "Agent activity",
+      );
+      const failure = {
+        toolName: "bash",
+        isError: true,
+        content: [{ type: "text" as const, text: "exit code 1" }],
+      };
+
+      for (let i = 0; i < 5; i++) {
+        await notifier.recordToolResult(failure);
+      }
+
+      expect(client.postMessage).toHaveBeenCalledTimes(1);
+      expect(client.postMessage).toHaveBeenCalledWith(
+        "test-stream",
+        "Agent activity",
+        formatToolFailures(3, "bash", "exit code 1"),
+      );
+    });
+
+    it("should start counting again after a successful tool call", async () => {
+      const client = createClient();
+      const notifier = createNotifier(
+        client as unknown as ChatClient,
+        config,
+        "Agent activity",
+      );
+      const failure = { toolName: "bash", isError: true, content: [] };
+      const success = { toolName: "bash", isError: false, content: [] };
+
+      for (const result of [failure, failure, success, failure, failure]) {
+        await notifier.recordToolResult(result);
+      }
+      expect(client.postMessage).not.toHaveBeenCalled();
+
+      await notifier.recordToolResult(failure);
+      expect(client.postMessage).toHaveBeenCalledWith(
+        "test-stream",
+        "Agent activity",
+        "⚠️ **3 tool calls in a row have failed** (latest: `bash`)",
+      );
+    });
+  });
+});
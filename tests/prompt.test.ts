@@ -28,4 +28,9 @@ describe("prompt", () => {
   it("should include 'how to use it' section", () => {
     expect(ASK_HUMAN_GUIDANCE).toContain("How to use it");
   });
+
+  it("should explain when to request approval", () => {
+    expect(ASK_HUMAN_GUIDANCE).toContain("request_approval");
+    expect(ASK_HUMAN_GUIDANCE).toContain("approved: true");
+  });
 });
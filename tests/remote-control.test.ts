@@ -0,0 +1,375 @@
+/**
+ * Tests for remote control from chat.
+ */
+
+import type { ChatClient, ChatMessage } from "../src/chat-client.js";
+import {
+  parseControlCommand,
+  startRemoteControl,
+  withControlCommands,
+} from "../src/remote-control.js";
+import {
+  clearSessionActivity,
+  trackPendingQuestion,
+  trackSessionThread,
+} from "../src/session-activity.js";
+
+describe("remote-control", () => {
+  const config = {
+    backend: "zulip" as const,
+    serverUrl: "https://zulip.example.com",
+    botEmail: "bot@example.com",
+    botApiKey: "test-api-key",
+    stream: "test-stream",
+    pollIntervalMs: 5000,
+    remoteControl: { controllers: ["lead@example.com"] },
+  };
+
+  // Messages the mocked subscription delivers, one per poll
+  let queued: ChatMessage[];
+
+  const waitForMessage: ChatClient["pollForReply"] = async (
+    _queueId,
+    _lastEventId,
+    _botEmail,
+    signal,
+  ) => {
+    // Long-poll: wait until a message is queued or the watch stops
+    while (!signal.aborted) {
+      const next = queued.shift();
+      if (next) {
+        return next;
+      }
+      await new Promise((resolve) => setTimeout(resolve, 5));
+    }
+    return null;
+  };
+
+  const createClient = () => ({
+    postMessage: vi.fn<ChatClient["postMessage"]>().mockResolvedValue("100"),
+    registerEventQueue: vi
+      .fn<ChatClient["registerEventQueue"]>()
+      .mockResolvedValue({ queueId: "queue-1", lastEventId: "7" }),
+    registerStreamQueue: vi
+      .fn<NonNullable<ChatClient["registerStreamQueue"]>>()
+      .mockResolvedValue({ queueId: "stream-queue", lastEventId: "7" }),
+    pollForReply: vi
+      .fn<ChatClient["pollForReply"]>()
+      .mockImplementation(waitForMessage),
+    deregisterQueue: vi
+      .fn<ChatClient["deregisterQueue"]>()
+      .mockResolvedValue(undefined),
+  });
+
+  const command = (
+    content: string,
+    sender = "lead@example.com",
+    topic = "Agent Q #abc",
+  ): ChatMessage => ({
+    id: `${queued.length + 200}`,
+    sender_email: sender,
+    content,
+    topic,
+    lastEventId: `${queued.length + 8}`,
+  });
+
+  beforeEach(() => {
+    queued = [];
+    clearSessionActivity();
+    trackSessionThread("Agent Q #abc");
+  });
+
+  describe("parseControlCommand", () => {
+    it("should recognise commands at the start of a message", () => {
+      expect(parseControlCommand("!stop")).toBe("stop");
+      expect(parseControlCommand("  !PAUSE please")).toBe("pause");
+      expect(parseControlCommand("!resume\nthanks")).toBe("resume");
+    });
+
+    it("should ignore other messages", () => {
+      expect(parseControlCommand("please !stop")).toBeNull();
+      expect(parseControlCommand("!stopwatch")).toBeNull();
+      expect(parseControlCommand("Use approach A")).toBeNull();
+    });
+  });
+
+  describe("withControlCommands", () => {
+    it("should skip control commands in conversation subscriptions", async () => {
+      const client = createClient();
+      queued = [
+        { ...command("!pause"), lastEventId: "8" },
+        { id: "201", sender_email: "human@example.com", content: "Answer" },
+      ];
+      const wrapped = withControlCommands(client as unknown as ChatClient);
+
+      const reply = await wrapped.pollForReply(
+        "queue-1",
+        "7",
+        "bot@example.com",
+        new AbortController().signal,
+      );
+
+      expect(reply?.content).toBe("Answer");
+      expect(client.pollForReply.mock.calls.map((call) => call[1])).toEqual([
+        "7",
+        "8",
+      ]);
+    });
+
+    it("should deliver control commands on stream subscriptions", async () => {
+      const client = createClient();
+      queued = [command("!pause")];
+      const wrapped = withControlCommands(client as unknown as ChatClient);
+
+      const { queueId } = await wrapped.registerStreamQueue!("test-stream");
+      const reply = await wrapped.pollForReply(
+        queueId,
+        "7",
+        "bot@example.com",
+        new AbortController().signal,
+      );
+
+      expect(reply?.content).toBe("!pause");
+    });
+
+    it("should poll stream subscriptions without the reply filters", async () => {
+      const backend = createClient();
+      queued = [command("!stop", "lead@example.com")];
+      const filtered = {
+        ...backend,
+        pollForReply: vi
+          .fn<ChatClient["pollForReply"]>()
+          .mockRejectedValue(new Error("filtered")),
+      };
+      const wrapped = withControlCommands(
+        filtered as unknown as ChatClient,
+        backend as unknown as ChatClient,
+      );
+
+      const { queueId } = await wrapped.registerStreamQueue!("test-stream");
+      const reply = await wrapped.pollForReply(
+        queueId,
+        "7",
+        "bot@example.com",
+        new AbortController().signal,
+      );
+
+      expect(reply?.content).toBe("!stop");
+      expect(filtered.pollForReply).not.toHaveBeenCalled();
+    });
+
+    it("should catch up on the answer after a control command", async () => {
+      const posted = [
+        command("!pause"),
+        { id: "300", sender_email: "human@example.com", content: "Answer" },
+      ];
+      const client = {
+        ...createClient(),
+        findReplySince: vi
+          .fn<NonNullable<ChatClient["findReplySince"]>>()
+          .mockImplementation(async (_s, _t, _after, _bot, accept) => {
+            for (const reply of posted) {
+              if (!accept || (await accept(reply))) {
+                return reply;
+              }
+            }
+            return null;
+          }),
+      };
+      const wrapped = withControlCommands(client as unknown as ChatClient);
+
+      await expect(
+        wrapped.findReplySince?.(
+          "test-stream",
+          "Agent Q #abc",
+          "100",
+          "bot@example.com",
+        ),
+      ).resolves.toMatchObject({ content: "Answer" });
+    });
+  });
+
+  describe("startRemoteControl", () => {
+    const actions = () => ({ abort: vi.fn(), notify: vi.fn() });
+
+    it("should hold tool calls while paused and release them on resume", async () => {
+      const client = createClient();
+      const session = actions();
+      queued = [command("!pause")];
+
+      const control = await startRemoteControl(
+        client as unknown as ChatClient,
+        config,
+        session,
+      );
+      await vi.waitFor(() => expect(control.isPaused()).toBe(true));
+      const held = control.holdToolCall();
+      queued.push(command("!resume"));
+      await vi.waitFor(() => expect(control.isPaused()).toBe(false));
+
+      await expect(held).resolves.toBeUndefined();
+      expect(client.postMessage).toHaveBeenCalledWith(
+        "test-stream",
+        "Agent Q #abc",
+        expect.stringContaining("pause before its next tool call"),
+      );
+      expect(session.notify).toHaveBeenCalledWith(
+        "lead@example.com resumed the agent from chat",
+      );
+      await control.stop();
+    });
+
+    it("should let held calls be released from Pi", async () => {
+      const client = createClient();
+      queued = [command("!pause")];
+
+      const control = await startRemoteControl(
+        client as unknown as ChatClient,
+        config,
+        actions(),
+      );
+      await vi.waitFor(() => expect(control.isPaused()).toBe(true));
+      const held = control.holdToolCall();
+
+      expect(control.resume()).toBe(true);
+      await expect(held).resolves.toBeUndefined();
+      expect(control.isPaused()).toBe(false);
+      expect(control.resume()).toBe(false);
+      await control.stop();
+    });
+
+    it("should block held calls when it stops", async () => {
+      const client = createClient();
+      queued = [command("!pause")];
+
+      const control = await startRemoteControl(
+        client as unknown as ChatClient,
+        config,
+        actions(),
+      );
+      await vi.waitFor(() => expect(control.isPaused()).toBe(true));
+      const held = control.holdToolCall();
+      await control.stop();
+
+      await expect(held).resolves.toEqual({
+        block: true,
+        reason: "The Pi session is shutting down.",
+      });
+    });
+
+    it("should abort the run and block held calls on stop", async () => {
+      const client = createClient();
+      const session = actions();
+      queued = [command("!pause")];
+
+      const control = await startRemoteControl(
+        client as unknown as ChatClient,
+        config,
+        session,
+      );
+      await vi.waitFor(() => expect(control.isPaused()).toBe(true));
+      const held = control.holdToolCall();
+      queued.push(command("!stop"));
+
+      await expect(held).resolves.toEqual({
+        block: true,
+        reason: "The agent was stopped from chat by lead@example.com.",
+      });
+      expect(session.abort).toHaveBeenCalled();
+      await control.stop();
+    });
+
+    it("should end pending question and approval waits on stop", async () => {
+      const client = createClient();
+      const cancel = vi.fn();
+      trackPendingQuestion({
+        threadId: "Approval #abc",
+        stream: "test-stream",
+        question: "Run a shell command",
+        since: Date.now(),
+        cancel,
+      });
+      queued = [command("!stop")];
+
+      const control = await startRemoteControl(
+        client as unknown as ChatClient,
+        config,
+        actions(),
+      );
+      await vi.waitFor(() => expect(cancel).toHaveBeenCalled());
+      await control.stop();
+    });
+
+    it("should refuse commands from other senders", async () => {
+      const client = createClient();
+      const session = actions();
+      queued = [command("!stop", "intern@example.com")];
+
+      const control = await startRemoteControl(
+        client as unknown as ChatClient,
+        config,
+        session,
+      );
+      await vi.waitFor(() =>
+        expect(client.postMessage).toHaveBeenCalledWith(
+          "test-stream",
+          "Agent Q #abc",
+          "🚫 _intern@example.com is not allowed to control this agent._",
+        ),
+      );
+      await control.stop();
+
+      expect(session.abort).not.toHaveBeenCalled();
+    });
+
+    it("should ignore commands in threads of other sessions", async () => {
+      const client = createClient();
+      const session = actions();
+      queued = [
+        command("!stop", "lead@example.com", "Agent Q #other"),
+        command("!pause"),
+      ];
+
+      const control = await startRemoteControl(
+        client as unknown as ChatClient,
+        config,
+        session,
+      );
+      await vi.waitFor(() => expect(control.isPaused()).toBe(true));
+      await control.stop();
+
+      expect(session.abort).not.toHaveBeenCalled();
+      expect(client.postMessage).toHaveBeenCalledTimes(1);
+    });
+
+    it("should watch the default and routed streams", async () => {
+      const client = createClient();
+
+      const control = await startRemoteControl(
+        client as unknown as ChatClient,
+        {
+          ...config,
+          routes: [
+            { cwd: [], paths: [], categories: ["a"], stream: "payments" },
+          ],
+        },
+        actions(),
+      );
+      await control.stop();
+
+      expect(
+        client.registerStreamQueue.mock.calls.map((call) => call[0]),
+      ).toEqual(["test-stream", "payments"]);
+      expect(client.deregisterQueue).toHaveBeenCalledTimes(2);
+    });
+
+    it("should need stream subscriptions", async () => {
+      const { registerStreamQueue, ...client } = createClient();
+      void registerStreamQueue;
+
+      await expect(
+        startRemoteControl(client as unknown as ChatClient, config, actions()),
+      ).rejects.toThrow("cannot watch streams for commands");
+    });
+  });
+});
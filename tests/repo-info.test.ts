@@ -0,0 +1,53 @@
+/**
+ * Tests for repository details.
+ */
+
+import { execFileSync } from "node:child_process";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { getRepoInfo } from "../src/repo-info.js";
+
+describe("repo-info", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), "repo-info-"));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("should report the repository name and branch", async () => {
+    const repo = path.join(dir, "payments");
+    const git = (...args: string[]) =>
+      execFileSync(
+        "git",
+        ["-c", "user.name=Test", "-c", "user.email=test@example.com", ...args],
+        { cwd: repo },
+      );
+    execFileSync("git", ["init", "-q", repo]);
+    git("commit", "-q", "--allow-empty", "-m", "init");
+    git("checkout", "-q", "-b", "fix/rounding");
+
+    await expect(getRepoInfo(repo)).resolves.toEqual({
+      repository: "payments",
+      branch: "fix/rounding",
+      commit: expect.stringMatching(/^[0-9a-f]{7,}$/),
+      dirty: false,
+    });
+
+    await writeFile(path.join(repo, "notes.txt"), "wip");
+    await expect(getRepoInfo(repo)).resolves.toMatchObject({ dirty: true });
+  });
+
+  it("should fall back to the directory name outside git", async () => {
+    await expect(getRepoInfo(dir)).resolves.toEqual({
+      repository: path.basename(dir),
+      branch: "",
+      commit: "",
+      dirty: false,
+    });
+  });
+});
@@ -0,0 +1,240 @@
+/**
+ * Tests for responder filtering.
+ */
+
+import type { ChatClient, ChatMessage } from "../src/chat-client.js";
+import {
+  createResponderCheck,
+  withResponderPolicy,
+} from "../src/responders.js";
+
+describe("responders", () => {
+  const message = (
+    sender: string,
+    overrides: Partial<ChatMessage> = {},
+  ): ChatMessage => ({
+    id: "1",
+    sender_email: sender,
+    content: "answer",
+    lastEventId: "1",
+    ...overrides,
+  });
+
+  const createClient = (overrides: Partial<ChatClient> = {}): ChatClient => ({
+    postMessage: vi.fn<ChatClient["postMessage"]>(),
+    registerEventQueue: vi.fn<ChatClient["registerEventQueue"]>(),
+    pollForReply: vi.fn<ChatClient["pollForReply"]>(),
+    deregisterQueue: vi.fn<ChatClient["deregisterQueue"]>(),
+    ...overrides,
+  });
+
+  describe("createResponderCheck", () => {
+    it("should allow everyone without a policy or bot lookup", async () => {
+      const isAllowed = createResponderCheck(createClient(), undefined);
+
+      await expect(isAllowed(message("alice@example.com"))).resolves.toBe(true);
+    });
+
+    it("should only allow listed senders, by email or user ID", async () => {
+      const isAllowed = createResponderCheck(createClient(), {
+        allow: ["Alice@Example.com", "42"],
+        deny: [],
+      });
+
+      await expect(isAllowed(message("alice@example.com"))).resolves.toBe(true);
+      await expect(
+        isAllowed(message("bob@example.com", { sender_id: "42" })),
+      ).resolves.toBe(true);
+      await expect(isAllowed(message("ci@example.com"))).resolves.toBe(false);
+    });
+
+    it("should let the denylist win over the allowlist", async () => {
+      const isAllowed = createResponderCheck(createClient(), {
+        allow: ["alice@example.com"],
+        deny: ["alice@example.com"],
+      });
+
+      await expect(isAllowed(message("alice@example.com"))).resolves.toBe(
+        false,
+      );
+    });
+
+    it("should resolve user groups and cache their members", async () => {
+      const getUserGroupMembers = vi
+        .fn<NonNullable<ChatClient["getUserGroupMembers"]>>()
+        .mockResolvedValue(["7", "U8"]);
+      const isAllowed = createResponderCheck(
+        createClient({ getUserGroupMembers }),
+        { allow: ["group:backend"], deny: [] },
+      );
+
+      await expect(
+        isAllowed(message("alice@example.com", { sender_id: "7" })),
+      ).resolves.toBe(true);
+      await expect(isAllowed(message("U8"))).resolves.toBe(true);
+      await expect(
+        isAllowed(message("bob@example.com", { sender_id: "9" })),
+      ).resolves.toBe(false);
+      expect(getUserGroupMembers).toHaveBeenCalledTimes(1);
+      expect(getUserGroupMembers).toHaveBeenCalledWith("backend");
+    });
+
+    it("should fail closed when a group cannot be resolved", async () => {
+      const getUserGroupMembers = vi
+        .fn<NonNullable<ChatClient["getUserGroupMembers"]>>()
+        .mockRejectedValue(new Error("no such group"));
+      const client = createClient({ getUserGroupMembers });
+
+      await expect(
+        createResponderCheck(client, { allow: ["group:x"], deny: [] })(
+          message("alice@example.com"),
+        ),
+      ).resolves.toBe(false);
+      await expect(
+        createResponderCheck(client, { allow: [], deny: ["group:x"] })(
+          message("alice@example.com"),
+        ),
+      ).resolves.toBe(false);
+    });
+
+    it("should exclude bot accounts by sender ID", async () => {
+      const isBotUser = vi
+        .fn<NonNullable<ChatClient["isBotUser"]>>()
+        .mockImplementation(async (userId) => userId === "99");
+      const isAllowed = createResponderCheck(
+        createClient({ isBotUser }),
+        undefined,
+      );
+
+      await expect(
+        isAllowed(message("ci-bot@example.com", { sender_id: "99" })),
+      ).resolves.toBe(false);
+      await expect(isAllowed(message("U1"))).resolves.toBe(true);
+      expect(isBotUser).toHaveBeenLastCalledWith("U1");
+    });
+
+    it("should treat senders as human when the bot lookup fails", async () => {
+      const isAllowed = createResponderCheck(
+        createClient({
+          isBotUser: vi.fn().mockRejectedValue(new Error("boom")),
+        }),
+        undefined,
+      );
+
+      await expect(isAllowed(message("alice@example.com"))).resolves.toBe(true);
+    });
+  });
+
+  describe("withResponderPolicy", () => {
+    it("should skip disallowed replies and keep polling from after them", async () => {
+      const pollForReply = vi
+        .fn<ChatClient["pollForReply"]>()
+        .mockResolvedValueOnce(message("ci@example.com", { lastEventId: "5" }))
+        .mockResolvedValueOnce(
+          message("alice@example.com", { lastEventId: "6" }),
+        );
+      const client = withResponderPolicy(createClient({ pollForReply }), {
+        allow: ["alice@example.com"],
+        deny: [],
+      });
+      const signal = new AbortController().signal;
+      const onPosition = vi.fn();
+
+      const reply = await client.pollForReply(
+        "queue-1",
+        "4",
+        "bot@example.com",
+        signal,
+        onPosition,
+      );
+
+      expect(reply?.sender_email).toBe("alice@example.com");
+      expect(pollForReply).toHaveBeenLastCalledWith(
+        "queue-1",
+        "5",
+        "bot@example.com",
+        signal,
+        onPosition,
+      );
+      expect(onPosition).toHaveBeenCalledWith("5");
+    });
+
+    it("should pass through aborts", async () => {
+      const client = withResponderPolicy(
+        createClient({
+          pollForReply: vi
+            .fn<ChatClient["pollForReply"]>()
+            .mockResolvedValue(null),
+        }),
+        { allow: ["alice@example.com"], deny: [] },
+      );
+
+      await expect(
+        client.pollForReply("q", "0", "bot", new AbortController().signal),
+      ).resolves.toBeNull();
+    });
+
+    it("should throw when a disallowed reply has no position to skip past", async () => {
+      const client = withResponderPolicy(
+        createClient({
+          pollForReply: vi.fn<ChatClient["pollForReply"]>().mockResolvedValue({
+            id: "1",
+            sender_email: "ci@example.com",
+            content: "x",
+          }),
+        }),
+        { allow: [], deny: ["ci@example.com"] },
+      );
+
+      await expect(
+        client.pollForReply("q", "0", "bot", new AbortController().signal),
+      ).rejects.toThrow(/disallowed responder/);
+    });
+
+    it("should look past caught-up replies from disallowed senders", async () => {
+      const posted = [message("ci@example.com"), message("human@example.com")];
+      const findReplySince = vi
+        .fn<NonNullable<ChatClient["findReplySince"]>>()
+        .mockImplementation(async (_s, _t, _after, _bot, accept) => {
+          for (const reply of posted) {
+            if (!accept || (await accept(reply))) {
+              return reply;
+            }
+          }
+          return null;
+        });
+      const client = withResponderPolicy(createClient({ findReplySince }), {
+        allow: [],
+        deny: ["ci@example.com"],
+      });
+
+      await expect(
+        client.findReplySince?.("s", "t", "1", "bot"),
+      ).resolves.toMatchObject({ sender_email: "human@example.com" });
+      await expect(
+        client.findReplySince?.(
+          "s",
+          "t",
+          "1",
+          "bot",
+          async (reply) => reply.sender_email !== "human@example.com",
+        ),
+      ).resolves.toBeNull();
+    });
+
+    it("should keep the client's other operations", async () => {
+      const postMessage = vi
+        .fn<ChatClient["postMessage"]>()
+        .mockResolvedValue("1");
+      const client = withResponderPolicy(
+        createClient({ postMessage }),
+        undefined,
+      );
+
+      await client.postMessage("s", "t", "c");
+
+      expect(postMessage).toHaveBeenCalledWith("s", "t", "c");
+      expect(client.findReplySince).toBeUndefined();
+    });
+  });
+});
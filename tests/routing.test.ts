@@ -0,0 +1,110 @@
+/**
+ * Tests for question routing.
+ */
+
+import type { RoutingRule } from "../src/config.js";
+import { extractPaths, resolveRoute } from "../src/routing.js";
+
+describe("routing", () => {
+  const rule = (overrides: Partial<RoutingRule>): RoutingRule => ({
+    cwd: [],
+    paths: [],
+    categories: [],
+    stream: "default",
+    ...overrides,
+  });
+
+  describe("extractPaths", () => {
+    it("should find relative and absolute paths, without line numbers", () => {
+      expect(
+        extractPaths(
+          [
+            "Error in services/payments/processor.py:142:7",
+            'File "/repo/services/infra/deploy.ts", line 3',
+            "see ./README.md and (lib/util.js)",
+            "version 1.2.3 failed, see services/payments/processor.py again",
+          ].join("\n"),
+        ),
+      ).toEqual([
+        "services/payments/processor.py",
+        "/repo/services/infra/deploy.ts",
+        "./README.md",
+        "lib/util.js",
+      ]);
+    });
+
+    it("should ignore prose", () => {
+      expect(extractPaths("The tests fail. Should I fix them?")).toEqual([]);
+    });
+  });
+
+  describe("resolveRoute", () => {
+    const rules = [
+      rule({
+        cwd: ["**/services/payments"],
+        paths: ["services/payments/**"],
+        stream: "payments",
+        topicPrefix: "[payments]",
+      }),
+      rule({
+        cwd: ["**/services/infra"],
+        paths: ["services/infra/**", "**/*.tf"],
+        categories: ["Infra", "deploy"],
+        stream: "infra",
+      }),
+      rule({ categories: ["security"], stream: "security" }),
+    ];
+
+    it("should use the default stream without rules or matches", () => {
+      expect(resolveRoute(undefined, "default", { category: "x" })).toEqual({
+        stream: "default",
+      });
+      expect(
+        resolveRoute(rules, "default", {
+          text: "nothing here",
+          cwd: "/repo/web",
+        }),
+      ).toEqual({ stream: "default" });
+    });
+
+    it("should route by the working directory or any of its parents", () => {
+      expect(
+        resolveRoute(rules, "default", {
+          cwd: "/repo/services/payments/src",
+        }),
+      ).toEqual({ stream: "payments", topicPrefix: "[payments]" });
+    });
+
+    it("should route by paths in the context, relative to the working directory", () => {
+      expect(
+        resolveRoute(rules, "default", {
+          text: "Plan failed for /repo/main.tf",
+          cwd: "/repo",
+        }),
+      ).toEqual({ stream: "infra" });
+      expect(
+        resolveRoute(rules, "default", {
+          text: "Error: /repo/services/infra/deploy.ts:3",
+          cwd: "/repo",
+        }),
+      ).toEqual({ stream: "infra" });
+    });
+
+    it("should prefer the category, then paths, then the working directory", () => {
+      const input = {
+        text: "services/infra/deploy.ts",
+        cwd: "/repo/services/payments",
+      };
+
+      expect(resolveRoute(rules, "default", input).stream).toBe("infra");
+      expect(
+        resolveRoute(rules, "default", { ...input, category: " SECURITY " })
+          .stream,
+      ).toBe("security");
+      expect(
+        resolveRoute(rules, "default", { ...input, category: "unknown" })
+          .stream,
+      ).toBe("infra");
+    });
+  });
+});
@@ -0,0 +1,87 @@
+/**
+ * Tests for the connectivity self-test.
+ */
+
+import type { ChatClient } from "../src/chat-client.js";
+import {
+  configuredStreams,
+  formatSelfTestReport,
+  runSelfTest,
+} from "../src/self-test.js";
+
+describe("self-test", () => {
+  const config = {
+    backend: "zulip" as const,
+    serverUrl: "https://zulip.example.com",
+    botEmail: "bot@example.com",
+    botApiKey: "test-api-key",
+    stream: "test-stream",
+    pollIntervalMs: 5000,
+  };
+
+  const createClient = (checkConnection?: ChatClient["checkConnection"]) =>
+    ({
+      postMessage: vi.fn(),
+      registerEventQueue: vi.fn(),
+      pollForReply: vi.fn(),
+      deregisterQueue: vi.fn(),
+      ...(checkConnection ? { checkConnection } : {}),
+    }) as unknown as ChatClient;
+
+  it("should check the default, routed and cross-post streams once each", () => {
+    expect(
+      configuredStreams({
+        ...config,
+        routes: [
+          { cwd: [], paths: [], categories: ["a"], stream: "payments" },
+          { cwd: [], paths: [], categories: ["b"], stream: "test-stream" },
+        ],
+        escalation: { crossPostAfterMs: 60000, crossPostStream: "oncall" },
+      }),
+    ).toEqual(["test-stream", "payments", "oncall"]);
+  });
+
+  it("should pass the auto-subscribe setting to the backend", async () => {
+    const checkConnection = vi
+      .fn<NonNullable<ChatClient["checkConnection"]>>()
+      .mockResolvedValue([]);
+
+    await expect(
+      runSelfTest(
+        { ...config, autoSubscribe: true },
+        createClient(checkConnection),
+      ),
+    ).resolves.toEqual([]);
+    expect(checkConnection).toHaveBeenCalledWith(["test-stream"], true);
+  });
+
+  it("should skip backends without checks", async () => {
+    await expect(runSelfTest(config, createClient())).resolves.toEqual([]);
+  });
+
+  it("should report unexpected failures", async () => {
+    const checkConnection = vi
+      .fn<NonNullable<ChatClient["checkConnection"]>>()
+      .mockRejectedValue(new Error("socket hang up"));
+
+    await expect(
+      runSelfTest(config, createClient(checkConnection)),
+    ).resolves.toEqual([
+      {
+        type: "invalid",
+        var: "HUMAN_LOOP_SELF_TEST",
+        message: "Connectivity check failed: socket hang up",
+      },
+    ]);
+  });
+
+  it("should format problems like validation errors", () => {
+    expect(
+      formatSelfTestReport([
+        { type: "invalid", var: "ZULIP_STREAM", message: "No such stream" },
+      ]),
+    ).toBe(
+      "Connectivity check failed:\n  ZULIP_STREAM: No such stream\n\nask_human will fail until these are fixed.",
+    );
+  });
+});
@@ -0,0 +1,87 @@
+/**
+ * Tests for the session activity registry.
+ */
+
+import {
+  clearSessionActivity,
+  findPendingQuestion,
+  getHistory,
+  getPendingQuestions,
+  recordQuestion,
+  trackPendingQuestion,
+  untrackPendingQuestion,
+} from "../src/session-activity.js";
+
+describe("session-activity", () => {
+  const pending = (threadId: string, since: number) => ({
+    threadId,
+    stream: "general",
+    question: `Question in ${threadId}`,
+    since,
+    cancel: vi.fn(),
+  });
+
+  beforeEach(() => {
+    clearSessionActivity();
+  });
+
+  it("should list pending questions longest-waiting first", () => {
+    trackPendingQuestion(pending("Agent Q #b", 2000));
+    trackPendingQuestion(pending("Agent Q #a", 1000));
+
+    expect(getPendingQuestions().map((q) => q.threadId)).toEqual([
+      "Agent Q #a",
+      "Agent Q #b",
+    ]);
+  });
+
+  it("should forget untracked questions", () => {
+    trackPendingQuestion(pending("Agent Q #a", 1000));
+    untrackPendingQuestion("Agent Q #a");
+
+    expect(getPendingQuestions()).toEqual([]);
+  });
+
+  describe("findPendingQuestion", () => {
+    beforeEach(() => {
+      trackPendingQuestion(pending("Agent Q #abc — Deploy?", 1000));
+      trackPendingQuestion(pending("Agent Q #abd — Rollback?", 2000));
+    });
+
+    it("should find a question by its full thread ID", () => {
+      expect(findPendingQuestion("Agent Q #abc — Deploy?")?.question).toBe(
+        "Question in Agent Q #abc — Deploy?",
+      );
+    });
+
+    it("should find a question by a unique part of its thread ID", () => {
+      expect(findPendingQuestion("rollback")?.threadId).toBe(
+        "Agent Q #abd — Rollback?",
+      );
+    });
+
+    it("should not guess between several matches", () => {
+      expect(findPendingQuestion("#ab")).toBeNull();
+      expect(findPendingQuestion("missing")).toBeNull();
+    });
+  });
+
+  it("should keep the history in order", () => {
+    const entry = {
+      question: "Which approach?",
+      outcome: "answered" as const,
+      answer: "Human replied: A",
+      askedAt: 1000,
+      finishedAt: 2000,
+    };
+    recordQuestion(entry);
+    recordQuestion({ ...entry, question: "And then?", outcome: "timed_out" });
+
+    expect(getHistory().map((e) => e.question)).toEqual([
+      "Which approach?",
+      "And then?",
+    ]);
+    clearSessionActivity();
+    expect(getHistory()).toEqual([]);
+  });
+});
@@ -0,0 +1,52 @@
+/**
+ * Tests for message templates.
+ */
+
+import {
+  DEFAULT_FOLLOW_UP_TEMPLATE,
+  findUnknownPlaceholders,
+  renderTemplate,
+  templatePlaceholders,
+} from "../src/templates.js";
+
+describe("templates", () => {
+  it("should list placeholders in order of first use", () => {
+    expect(
+      templatePlaceholders("{{question}} {{ branch }} {{question}} {{x-y}}"),
+    ).toEqual(["question", "branch", "x-y"]);
+  });
+
+  it("should find unknown placeholders", () => {
+    expect(
+      findUnknownPlaceholders("{{question}} {{session_id}} {{user}}"),
+    ).toEqual(["user"]);
+  });
+
+  it("should substitute values, with missing ones left empty", () => {
+    expect(
+      renderTemplate("[{{repository}}:{{branch}}] {{question}}", {
+        repository: "api",
+        question: "Use $& here?",
+      }),
+    ).toBe("[api:] Use $& here?");
+  });
+
+  it("should drop lines holding only an empty placeholder", () => {
+    expect(
+      renderTemplate(DEFAULT_FOLLOW_UP_TEMPLATE, {
+        question: "And now?",
+        instructions: "_Reply here._",
+      }),
+    ).toBe("🤖 **Follow-up:**\n\nAnd now?\n\n_Reply here._");
+  });
+
+  it("should append options and attachments the template leaves out", () => {
+    expect(
+      renderTemplate("{{question}}", {
+        question: "Which?",
+        options: "1️⃣ A",
+        attachments: "**Attachments:**",
+      }),
+    ).toBe("Which?\n\n**Attachments:**\n\n1️⃣ A");
+  });
+});
@@ -0,0 +1,118 @@
+/**
+ * Tests for the local terminal fallback.
+ */
+
+import type { ExtensionUIContext } from "@mariozechner/pi-coding-agent";
+import {
+  askInTerminal,
+  confirmInTerminal,
+  formatTerminalPrompt,
+} from "../src/terminal.js";
+
+describe("terminal", () => {
+  const question = {
+    question: "Should I change X or Y?",
+    context: Array.from({ length: 12 }, (_, i) => `line ${i + 1}`).join("\n"),
+    confidence: 30,
+  };
+
+  it("should format a new question with context and confidence", () => {
+    const prompt = formatTerminalPrompt(question, false);
+
+    expect(prompt).toContain("Agent needs help (confidence 30/100)");
+    expect(prompt).toContain("Should I change X or Y?");
+    expect(prompt).toContain("Context:\nline 1");
+    expect(prompt).toContain("line 10");
+    expect(prompt).not.toContain("line 11");
+  });
+
+  it("should omit an empty context block", () => {
+    const prompt = formatTerminalPrompt({ ...question, context: "  " }, false);
+
+    expect(prompt).not.toContain("Context:");
+  });
+
+  it("should format follow-ups without context or confidence", () => {
+    const prompt = formatTerminalPrompt(question, true);
+
+    expect(prompt).toBe("🤖 Follow-up:\n\nShould I change X or Y?");
+  });
+
+  it("should return the trimmed answer from the input dialog", async () => {
+    const input = vi.fn().mockResolvedValue("  Use Y  ");
+    const signal = new AbortController().signal;
+
+    const answer = await askInTerminal(
+      { input } as unknown as ExtensionUIContext,
+      question,
+      false,
+      signal,
+    );
+
+    expect(answer).toEqual({ answer: "Use Y", timedOut: false });
+    expect(input).toHaveBeenCalledWith(
+      expect.stringContaining("Should I change X or Y?"),
+      "Type your answer for the agent...",
+      { signal },
+    );
+  });
+
+  it("should offer multiple-choice questions in a selector", async () => {
+    const select = vi.fn().mockResolvedValue("Use Y");
+
+    const answer = await askInTerminal(
+      { select } as unknown as ExtensionUIContext,
+      { ...question, options: ["Use X", "Use Y"] },
+      false,
+      undefined,
+    );
+
+    expect(answer).toEqual({ answer: "Use Y", timedOut: false });
+    expect(select).toHaveBeenCalledWith(
+      expect.stringContaining("Should I change X or Y?"),
+      ["Use X", "Use Y"],
+      undefined,
+    );
+  });
+
+  it("should return null when the dialog is dismissed or left empty", async () => {
+    const input = vi
+      .fn()
+      .mockResolvedValueOnce(undefined)
+      .mockResolvedValueOnce("   ");
+    const ui = { input } as unknown as ExtensionUIContext;
+
+    expect(await askInTerminal(ui, question, false, undefined)).toEqual({
+      answer: null,
+      timedOut: false,
+    });
+    expect(await askInTerminal(ui, question, true, undefined)).toEqual({
+      answer: null,
+      timedOut: false,
+    });
+    expect(input).toHaveBeenLastCalledWith(
+      expect.any(String),
+      expect.any(String),
+      undefined,
+    );
+  });
+
+  it("should confirm approvals in a dialog", async () => {
+    const confirm = vi.fn().mockResolvedValue(true);
+    const signal = new AbortController().signal;
+
+    const result = await confirmInTerminal(
+      { confirm } as unknown as ExtensionUIContext,
+      "Approve?",
+      "rm -rf build",
+      signal,
+      60000,
+    );
+
+    expect(result).toEqual({ approved: true, timedOut: false });
+    expect(confirm).toHaveBeenCalledWith("Approve?", "rm -rf build", {
+      signal,
+      timeout: 60000,
+    });
+  });
+});
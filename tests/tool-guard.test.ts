@@ -0,0 +1,241 @@
+/**
+ * Tests for the tool-call approval policy.
+ */
+
+import type {
+  ExtensionContext,
+  ToolCallEvent,
+} from "@mariozechner/pi-coding-agent";
+import type { ChatClient } from "../src/chat-client.js";
+import { createToolCallGuard, matchApprovalPolicy } from "../src/tool-guard.js";
+
+describe("tool-guard", () => {
+  const policy = {
+    commandPatterns: [/rm\s+-rf/, /git\s+push\s+.*--force/],
+    pathPatterns: ["**/migrations/**"],
+  };
+  const mockConfig = {
+    backend: "zulip" as const,
+    serverUrl: "https://zulip.example.com",
+    botEmail: "bot@example.com",
+    botApiKey: "test-api-key",
+    stream: "test-stream",
+    pollIntervalMs: 5000,
+    approvalPolicy: policy,
+  };
+  const cwd = "/repo";
+
+  const bash = (command: string): ToolCallEvent => ({
+    type: "tool_call",
+    toolCallId: "call-1",
+    toolName: "bash",
+    input: { command },
+  });
+  const write = (path: string, content = "a\nb"): ToolCallEvent => ({
+    type: "tool_call",
+    toolCallId: "call-2",
+    toolName: "write",
+    input: { path, content },
+  });
+  const edit = (path: string): ToolCallEvent => ({
+    type: "tool_call",
+    toolCallId: "call-3",
+    toolName: "edit",
+    input: { path, oldText: "x", newText: "y\nz" },
+  });
+
+  const mockClient = {
+    postMessage: vi.fn<ChatClient["postMessage"]>(),
+    registerEventQueue: vi.fn<ChatClient["registerEventQueue"]>(),
+    pollForReply: vi.fn<ChatClient["pollForReply"]>(),
+    deregisterQueue: vi.fn<ChatClient["deregisterQueue"]>(),
+  };
+  const client = mockClient as unknown as ChatClient;
+  const ctx = { cwd, hasUI: false } as unknown as ExtensionContext;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockClient.postMessage.mockResolvedValue("123");
+    mockClient.registerEventQueue.mockResolvedValue({
+      queueId: "queue-123",
+      lastEventId: "999",
+    });
+    mockClient.deregisterQueue.mockResolvedValue();
+  });
+
+  describe("matchApprovalPolicy", () => {
+    it("should match bash commands against the command patterns", () => {
+      expect(matchApprovalPolicy(policy, bash("rm -rf build"), cwd)).toEqual({
+        toolName: "bash",
+        target: "rm -rf build",
+        pattern: "rm\\s+-rf",
+      });
+      expect(
+        matchApprovalPolicy(policy, bash("git push origin main"), cwd),
+      ).toBeNull();
+    });
+
+    it("should match write and edit paths relative to the working directory", () => {
+      expect(
+        matchApprovalPolicy(policy, write("/repo/db/migrations/001.sql"), cwd),
+      ).toEqual({
+        toolName: "write",
+        target: "db/migrations/001.sql",
+        pattern: "**/migrations/**",
+        summary: "Writes 2 lines",
+      });
+      expect(
+        matchApprovalPolicy(policy, edit("migrations/002.sql"), cwd),
+      ).toMatchObject({ summary: "Replaces 1 lines with 2 lines" });
+      expect(
+        matchApprovalPolicy(policy, write("src/index.ts"), cwd),
+      ).toBeNull();
+    });
+
+    it("should ignore other tools", () => {
+      expect(
+        matchApprovalPolicy(
+          policy,
+          {
+            type: "tool_call",
+            toolCallId: "call-4",
+            toolName: "read",
+            input: { path: "migrations/001.sql" },
+          },
+          cwd,
+        ),
+      ).toBeNull();
+    });
+  });
+
+  describe("createToolCallGuard", () => {
+    it("should let every call through without a policy", async () => {
+      const { approvalPolicy: _policy, ...config } = mockConfig;
+      void _policy;
+      const guard = createToolCallGuard(config, client);
+
+      expect(await guard(bash("rm -rf /"), ctx)).toBeUndefined();
+      expect(
+        await createToolCallGuard(null, null)(bash("rm -rf /"), ctx),
+      ).toBeUndefined();
+    });
+
+    it("should not ask about calls outside the policy", async () => {
+      const guard = createToolCallGuard(mockConfig, client);
+
+      expect(await guard(bash("ls"), ctx)).toBeUndefined();
+      expect(mockClient.postMessage).not.toHaveBeenCalled();
+    });
+
+    it("should run the call once a human approves", async () => {
+      mockClient.pollForReply.mockResolvedValue({
+        id: "200",
+        sender_email: "lead@example.com",
+        content: "/approve",
+        lastEventId: "1000",
+      });
+      const guard = createToolCallGuard(mockConfig, client);
+
+      expect(await guard(bash("rm -rf build"), ctx)).toBeUndefined();
+      const message = mockClient.postMessage.mock.calls[0]?.[2];
+      expect(message).toContain(
+        "**Action:** Run a shell command (matches approval pattern `rm\\s+-rf`)",
+      );
+      expect(message).toContain("```\nrm -rf build\n```");
+      expect(message).toContain("risk: **HIGH**");
+    });
+
+    it("should block with the human's reason when denied", async () => {
+      mockClient.pollForReply.mockResolvedValue({
+        id: "200",
+        sender_email: "lead@example.com",
+        content: "/deny write a new migration instead",
+        lastEventId: "1000",
+      });
+      const guard = createToolCallGuard(mockConfig, client);
+
+      expect(await guard(edit("migrations/001.sql"), ctx)).toEqual({
+        block: true,
+        reason: "Denied by lead@example.com: write a new migration instead",
+      });
+      expect(mockClient.postMessage.mock.calls[0]?.[2]).toContain(
+        "**Changes:**\nReplaces 1 lines with 2 lines",
+      );
+    });
+
+    it("should block when nobody approves in time", async () => {
+      vi.useFakeTimers();
+      mockClient.pollForReply.mockImplementation(
+        async (_queueId, _lastEventId, _botEmail, signal) =>
+          await new Promise((resolve) => {
+            signal.addEventListener("abort", () => resolve(null), {
+              once: true,
+            });
+          }),
+      );
+      const guard = createToolCallGuard(
+        { ...mockConfig, timeoutMs: 60000 },
+        client,
+      );
+
+      const resultPromise = guard(bash("rm -rf build"), ctx);
+      await vi.advanceTimersByTimeAsync(60000);
+
+      expect(await resultPromise).toEqual({
+        block: true,
+        reason: "No approval within 1 minute; the call was not run",
+      });
+      vi.useRealTimers();
+    });
+
+    it("should fail closed when the chat backend errors", async () => {
+      mockClient.postMessage.mockRejectedValue(new Error("Network down"));
+      const guard = createToolCallGuard(mockConfig, client);
+
+      expect(await guard(bash("rm -rf build"), ctx)).toEqual({
+        block: true,
+        reason: "Could not request human approval: Network down",
+      });
+    });
+
+    it("should ask in the terminal without a chat backend", async () => {
+      const confirm = vi
+        .fn()
+        .mockResolvedValueOnce(true)
+        .mockResolvedValueOnce(false);
+      const guard = createToolCallGuard(
+        { ...mockConfig, backend: "terminal" },
+        null,
+      );
+      const uiCtx = {
+        cwd,
+        hasUI: true,
+        ui: { confirm },
+      } as unknown as ExtensionContext;
+
+      expect(await guard(bash("rm -rf build"), uiCtx)).toBeUndefined();
+      expect(await guard(bash("rm -rf build"), uiCtx)).toEqual({
+        block: true,
+        reason: "Denied by terminal",
+      });
+      expect(confirm).toHaveBeenCalledWith(
+        "🛡️ Approve high-risk tool call?",
+        "Run a shell command (matches approval pattern `rm\\s+-rf`)\n\nrm -rf build",
+        undefined,
+      );
+    });
+
+    it("should block when there is nobody to ask", async () => {
+      const guard = createToolCallGuard(
+        { ...mockConfig, backend: "terminal" },
+        null,
+      );
+
+      expect(await guard(write("migrations/001.sql"), ctx)).toEqual({
+        block: true,
+        reason:
+          "This call requires human approval, but no chat backend or interactive UI is available",
+      });
+    });
+  });
+});
@@ -2,8 +2,18 @@
  * Tests for ask_human tool.
  */
 
+import { mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { type ChatClient, MAX_TOPIC_LENGTH } from "../src/chat-client.js";
+import { createConversationStore } from "../src/conversation-store.js";
+import {
+  clearSessionActivity,
+  getHistory,
+  getPendingQuestions,
+} from "../src/session-activity.js";
 import { createAskHumanTool } from "../src/tool.js";
-import type { ZulipClient } from "../src/zulip-client.js";
+import { createZulipClient, type ZulipClient } from "../src/zulip-client.js";
 
 type MockedZulipClient = {
   postMessage: ReturnType<typeof vi.fn<ZulipClient["postMessage"]>>;
@@ -16,6 +26,7 @@ type MockedZulipClient = {
 
 describe("tool", () => {
   const mockConfig = {
+    backend: "zulip" as const,
     serverUrl: "https://zulip.example.com",
     botEmail: "bot@example.com",
     botApiKey: "test-api-key",
@@ -505,4 +516,1686 @@ describe("tool", () => {
       "Configuration validation failed",
     );
   });
+
+  it("should report links from the reply in details", async () => {
+    mockZulipClient.postMessage.mockResolvedValue("123");
+    mockZulipClient.registerEventQueue.mockResolvedValue({
+      queueId: "queue-123",
+      lastEventId: "999",
+    });
+    mockZulipClient.pollForReply.mockResolvedValue({
+      id: "456",
+      sender_email: "human@example.com",
+      content: "See docs (https://docs.example.com)",
+      links: ["https://docs.example.com"],
+    });
+
+    const tool = createAskHumanTool(
+      mockConfig,
+      mockZulipClient as unknown as ZulipClient,
+    );
+    const result = await tool.execute(
+      "tool-call-123",
+      { question: "Where are the docs?", context: "", confidence: 25 },
+      new AbortController().signal,
+      undefined,
+      {} as any,
+    );
+
+    expect(result.details).toEqual({
+      thread_id: expect.any(String),
+      responder: "human@example.com",
+      links: ["https://docs.example.com"],
+    });
+  });
+
+  it("should use the client's thread ID when the backend provides one", async () => {
+    mockZulipClient.postMessage.mockResolvedValue("1700000000.000100");
+    mockZulipClient.registerEventQueue.mockResolvedValue({
+      queueId: "queue-123",
+      lastEventId: "999",
+    });
+    mockZulipClient.pollForReply.mockResolvedValue({
+      id: "456",
+      sender_email: "U123",
+      content: "Answer",
+    });
+    mockZulipClient.deregisterQueue.mockResolvedValue();
+    const resolveThreadId = vi.fn(
+      (_topic: string, postedMessageId: string) => postedMessageId,
+    );
+
+    const tool = createAskHumanTool(mockConfig, {
+      ...(mockZulipClient as unknown as ChatClient),
+      resolveThreadId,
+    });
+
+    const result = await tool.execute(
+      "tool-call-123",
+      {
+        question: "What should I do?",
+        context: "Context",
+        confidence: 25,
+      },
+      new AbortController().signal,
+      undefined,
+      {} as any,
+    );
+
+    expect(resolveThreadId).toHaveBeenCalledWith(
+      expect.stringContaining("Agent Q #"),
+      "1700000000.000100",
+    );
+    expect(mockZulipClient.registerEventQueue).toHaveBeenCalledWith(
+      "test-stream",
+      "1700000000.000100",
+    );
+    expect(result.details?.thread_id).toBe("1700000000.000100");
+  });
+
+  describe("terminal fallback", () => {
+    const uiContext = (answer: string | undefined) => ({
+      hasUI: true,
+      ui: { input: vi.fn().mockResolvedValue(answer) },
+    });
+
+    it("should ask through Pi's UI when configuration failed", async () => {
+      const ctx = uiContext("Use the second approach");
+      const tool = createAskHumanTool(
+        null,
+        null,
+        new Error("Configuration validation failed"),
+      );
+
+      const result = await tool.execute(
+        "tool-call-123",
+        {
+          question: "What should I do?",
+          context: "Context",
+          confidence: 25,
+        },
+        new AbortController().signal,
+        undefined,
+        ctx as any,
+      );
+
+      expect(result).toEqual({
+        content: [
+          { type: "text", text: "Human replied: Use the second approach" },
+        ],
+        isError: false,
+        details: {
+          thread_id: expect.stringContaining("Agent Q #"),
+          responder: "terminal",
+        },
+      });
+      expect(ctx.ui.input).toHaveBeenCalledWith(
+        expect.stringContaining("What should I do?"),
+        expect.any(String),
+        expect.anything(),
+      );
+    });
+
+    it("should keep the thread ID for terminal follow-ups", async () => {
+      const tool = createAskHumanTool(
+        { ...mockConfig, backend: "terminal" },
+        null,
+      );
+
+      const result = await tool.execute(
+        "tool-call-123",
+        {
+          question: "And now?",
+          context: "",
+          confidence: 50,
+          thread_id: "Agent Q #7 — earlier",
+        },
+        new AbortController().signal,
+        undefined,
+        uiContext("Carry on") as any,
+      );
+
+      expect(result.details?.thread_id).toBe("Agent Q #7 — earlier");
+      expect(tool.description).toContain("Pi terminal");
+    });
+
+    it("should return cancellation when the dialog is dismissed", async () => {
+      const tool = createAskHumanTool(null, null, new Error("not configured"));
+
+      const result = await tool.execute(
+        "tool-call-123",
+        {
+          question: "What should I do?",
+          context: "Context",
+          confidence: 25,
+        },
+        new AbortController().signal,
+        undefined,
+        uiContext(undefined) as any,
+      );
+
+      expect(result).toEqual({
+        content: [{ type: "text", text: "Human consultation cancelled." }],
+        isError: false,
+        details: {},
+      });
+    });
+
+    it("should return an error for the terminal backend in print mode", async () => {
+      const tool = createAskHumanTool(
+        { ...mockConfig, backend: "terminal" },
+        null,
+      );
+
+      const result = await tool.execute(
+        "tool-call-123",
+        {
+          question: "What should I do?",
+          context: "Context",
+          confidence: 25,
+        },
+        new AbortController().signal,
+        undefined,
+        { hasUI: false } as any,
+      );
+
+      expect(result.isError).toBe(true);
+      expect(result.content?.[0]?.text).toContain(
+        "terminal backend needs Pi's interactive UI",
+      );
+    });
+
+    it("should prefer the chat backend when one is configured", async () => {
+      mockZulipClient.postMessage.mockResolvedValue("123");
+      mockZulipClient.registerEventQueue.mockResolvedValue({
+        queueId: "queue-123",
+        lastEventId: "999",
+      });
+      mockZulipClient.pollForReply.mockResolvedValue({
+        id: "456",
+        sender_email: "human@example.com",
+        content: "From chat",
+      });
+      mockZulipClient.deregisterQueue.mockResolvedValue();
+      const ctx = uiContext("From terminal");
+
+      const tool = createAskHumanTool(
+        mockConfig,
+        mockZulipClient as unknown as ZulipClient,
+      );
+
+      const result = await tool.execute(
+        "tool-call-123",
+        {
+          question: "What should I do?",
+          context: "Context",
+          confidence: 25,
+        },
+        new AbortController().signal,
+        undefined,
+        ctx as any,
+      );
+
+      expect(result.content?.[0]?.text).toBe("Human replied: From chat");
+      expect(ctx.ui.input).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("multiple choice", () => {
+    const options = ["Keep the cache", "Drop the cache"];
+    let reactingClient: MockedZulipClient & {
+      addReaction: ReturnType<typeof vi.fn<ChatClient["addReaction"] & {}>>;
+    };
+
+    beforeEach(() => {
+      reactingClient = {
+        ...mockZulipClient,
+        addReaction: vi.fn<ChatClient["addReaction"] & {}>(),
+      };
+      reactingClient.postMessage.mockResolvedValue("123");
+      reactingClient.registerEventQueue.mockResolvedValue({
+        queueId: "queue-123",
+        lastEventId: "999",
+      });
+      reactingClient.deregisterQueue.mockResolvedValue();
+      reactingClient.addReaction.mockResolvedValue();
+    });
+
+    it("should list options, pre-add reactions and watch the question", async () => {
+      reactingClient.pollForReply.mockResolvedValue({
+        id: "123",
+        sender_email: "human@example.com",
+        content: "",
+        reaction: "two",
+      });
+      const tool = createAskHumanTool(
+        mockConfig,
+        reactingClient as unknown as ChatClient,
+      );
+
+      const result = await tool.execute(
+        "tool-call-123",
+        {
+          question: "Keep or drop the cache?",
+          context: "",
+          confidence: 40,
+          options,
+        },
+        new AbortController().signal,
+        undefined,
+        {} as any,
+      );
+
+      const message = reactingClient.postMessage.mock.calls[0]?.[2];
+      expect(message).toContain("1️⃣ Keep the cache\n2️⃣ Drop the cache");
+      expect(reactingClient.addReaction.mock.calls).toEqual([
+        ["test-stream", "123", "one"],
+        ["test-stream", "123", "two"],
+      ]);
+      expect(reactingClient.registerEventQueue).toHaveBeenCalledWith(
+        "test-stream",
+        expect.stringContaining("Agent Q #"),
+        "123",
+      );
+      expect(result.content[0]?.text).toBe(
+        "Human chose option 2: Drop the cache",
+      );
+      expect(result.details).toEqual({
+        thread_id: expect.stringContaining("Agent Q #"),
+        responder: "human@example.com",
+        option_index: 1,
+        option: "Drop the cache",
+      });
+    });
+
+    it("should resolve text replies matching an option", async () => {
+      reactingClient.pollForReply.mockResolvedValue({
+        id: "456",
+        sender_email: "human@example.com",
+        content: "1",
+      });
+      const tool = createAskHumanTool(
+        mockConfig,
+        reactingClient as unknown as ChatClient,
+      );
+
+      const result = await tool.execute(
+        "tool-call-123",
+        { question: "Keep or drop?", context: "", confidence: 40, options },
+        new AbortController().signal,
+        undefined,
+        {} as any,
+      );
+
+      expect(result.details?.option_index).toBe(0);
+      expect(result.details?.option).toBe("Keep the cache");
+    });
+
+    it("should return free-form replies that match no option", async () => {
+      reactingClient.addReaction.mockRejectedValue(new Error("no reactions"));
+      reactingClient.pollForReply.mockResolvedValue({
+        id: "456",
+        sender_email: "human@example.com",
+        content: "Neither, rebuild it",
+      });
+      const tool = createAskHumanTool(
+        mockConfig,
+        reactingClient as unknown as ChatClient,
+      );
+
+      const result = await tool.execute(
+        "tool-call-123",
+        { question: "Keep or drop?", context: "", confidence: 40, options },
+        new AbortController().signal,
+        undefined,
+        {} as any,
+      );
+
+      expect(result.content[0]?.text).toBe(
+        "Human replied: Neither, rebuild it",
+      );
+      expect(result.details).not.toHaveProperty("option_index");
+    });
+
+    it("should show options in the follow-up message", async () => {
+      reactingClient.pollForReply.mockResolvedValue({
+        id: "456",
+        sender_email: "human@example.com",
+        content: "",
+        reaction: "nine",
+      });
+      const tool = createAskHumanTool(
+        mockConfig,
+        reactingClient as unknown as ChatClient,
+      );
+
+      const result = await tool.execute(
+        "tool-call-123",
+        {
+          question: "Which one?",
+          context: "",
+          confidence: 40,
+          thread_id: "Agent Q #1 — cache",
+          options,
+        },
+        new AbortController().signal,
+        undefined,
+        {} as any,
+      );
+
+      expect(reactingClient.postMessage.mock.calls[0]?.[2]).toContain(
+        "🤖 **Follow-up:**\n\nWhich one?\n\n**Options:**",
+      );
+      expect(result.content[0]?.text).toBe("Human replied: :nine:");
+    });
+
+    it("should use the terminal selector without a chat backend", async () => {
+      const select = vi.fn().mockResolvedValue("Drop the cache");
+      const tool = createAskHumanTool(null, null, new Error("no config"));
+
+      const result = await tool.execute(
+        "tool-call-123",
+        { question: "Keep or drop?", context: "", confidence: 40, options },
+        undefined,
+        undefined,
+        { hasUI: true, ui: { select } } as any,
+      );
+
+      expect(result.details).toEqual({
+        thread_id: expect.stringContaining("Agent Q #"),
+        responder: "terminal",
+        option_index: 1,
+        option: "Drop the cache",
+      });
+    });
+  });
+
+  describe("timeouts", () => {
+    const waitUntilAborted: ZulipClient["pollForReply"] = async (
+      _queueId,
+      _lastEventId,
+      _botEmail,
+      signal,
+    ) =>
+      await new Promise((resolve) => {
+        signal.addEventListener("abort", () => resolve(null), { once: true });
+      });
+
+    beforeEach(() => {
+      vi.useFakeTimers();
+      mockZulipClient.postMessage.mockResolvedValue("123");
+      mockZulipClient.registerEventQueue.mockResolvedValue({
+        queueId: "queue-123",
+        lastEventId: "999",
+      });
+      mockZulipClient.pollForReply.mockImplementation(waitUntilAborted);
+      mockZulipClient.deregisterQueue.mockResolvedValue();
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it("should return timed_out after the configured timeout and post a notice", async () => {
+      const tool = createAskHumanTool(
+        { ...mockConfig, timeoutMs: 120000 },
+        mockZulipClient as unknown as ZulipClient,
+      );
+
+      const resultPromise = tool.execute(
+        "tool-call-123",
+        { question: "What should I do?", context: "", confidence: 25 },
+        new AbortController().signal,
+        undefined,
+        {} as any,
+      );
+      await vi.advanceTimersByTimeAsync(120000);
+      const result = await resultPromise;
+
+      expect(result).toEqual({
+        content: [
+          {
+            type: "text",
+            text: "No human replied within 2 minutes. Proceed using your best judgment.",
+          },
+        ],
+        isError: false,
+        details: {
+          thread_id: expect.stringContaining("Agent Q #"),
+          status: "timed_out",
+        },
+      });
+      expect(mockZulipClient.postMessage).toHaveBeenCalledTimes(2);
+      expect(mockZulipClient.postMessage).toHaveBeenLastCalledWith(
+        "test-stream",
+        result.details?.thread_id,
+        expect.stringContaining("no longer waiting"),
+      );
+      expect(mockZulipClient.deregisterQueue).toHaveBeenCalledWith("queue-123");
+    });
+
+    it("should let timeout_seconds override the configured timeout", async () => {
+      const tool = createAskHumanTool(
+        { ...mockConfig, timeoutMs: 600000, timeoutNotice: false },
+        mockZulipClient as unknown as ZulipClient,
+      );
+
+      const resultPromise = tool.execute(
+        "tool-call-123",
+        {
+          question: "What should I do?",
+          context: "",
+          confidence: 25,
+          timeout_seconds: 30,
+          default_answer: "use approach A",
+        },
+        new AbortController().signal,
+        undefined,
+        {} as any,
+      );
+      await vi.advanceTimersByTimeAsync(30000);
+      const result = await resultPromise;
+
+      expect(result.details?.status).toBe("timed_out");
+      expect(result.content[0]?.text).toBe(
+        "No human replied within 30 seconds. Proceed with your default answer: use approach A",
+      );
+      expect(mockZulipClient.postMessage).toHaveBeenCalledTimes(1);
+    });
+
+    it("should ignore notice failures", async () => {
+      mockZulipClient.postMessage
+        .mockResolvedValueOnce("123")
+        .mockRejectedValueOnce(new Error("Zulip down"));
+      const tool = createAskHumanTool(
+        mockConfig,
+        mockZulipClient as unknown as ZulipClient,
+      );
+
+      const resultPromise = tool.execute(
+        "tool-call-123",
+        {
+          question: "What should I do?",
+          context: "",
+          confidence: 25,
+          timeout_seconds: 1,
+        },
+        new AbortController().signal,
+        undefined,
+        {} as any,
+      );
+      await vi.advanceTimersByTimeAsync(1000);
+      const result = await resultPromise;
+
+      expect(result.isError).toBe(false);
+      expect(result.details?.status).toBe("timed_out");
+    });
+
+    it("should wait indefinitely without a timeout", async () => {
+      const abortController = new AbortController();
+      const tool = createAskHumanTool(
+        mockConfig,
+        mockZulipClient as unknown as ZulipClient,
+      );
+
+      const resultPromise = tool.execute(
+        "tool-call-123",
+        { question: "What should I do?", context: "", confidence: 25 },
+        abortController.signal,
+        undefined,
+        {} as any,
+      );
+      await vi.advanceTimersByTimeAsync(24 * 60 * 60 * 1000);
+      abortController.abort();
+      const result = await resultPromise;
+
+      expect(result.content[0]?.text).toBe("Human consultation cancelled.");
+    });
+
+    it("should report timed_out when the terminal dialog expires", async () => {
+      const input = vi.fn(async (_title, _placeholder, opts) => {
+        await vi.advanceTimersByTimeAsync(opts.timeout);
+        return undefined;
+      });
+      const tool = createAskHumanTool(
+        { ...mockConfig, backend: "terminal", timeoutMs: 60000 },
+        null,
+      );
+
+      const result = await tool.execute(
+        "tool-call-123",
+        { question: "What should I do?", context: "", confidence: 25 },
+        undefined,
+        undefined,
+        { hasUI: true, ui: { input } } as any,
+      );
+
+      expect(input).toHaveBeenCalledWith(
+        expect.any(String),
+        expect.any(String),
+        { timeout: 60000 },
+      );
+      expect(result.details?.status).toBe("timed_out");
+      expect(result.content[0]?.text).toContain("within 1 minute.");
+    });
+
+    it("should escalate while waiting and stop once the wait ends", async () => {
+      const tool = createAskHumanTool(
+        {
+          ...mockConfig,
+          timeoutMs: 20 * 60000,
+          timeoutNotice: false,
+          escalation: {
+            remindAfterMs: 10 * 60000,
+            mentionAfterMs: 30 * 60000,
+            mention: "@*oncall*",
+          },
+        },
+        mockZulipClient as unknown as ZulipClient,
+      );
+
+      const resultPromise = tool.execute(
+        "tool-call-123",
+        { question: "What should I do?", context: "", confidence: 25 },
+        new AbortController().signal,
+        undefined,
+        {} as any,
+      );
+      await vi.advanceTimersByTimeAsync(60 * 60000);
+      const result = await resultPromise;
+
+      expect(result.details?.status).toBe("timed_out");
+      expect(mockZulipClient.postMessage).toHaveBeenCalledTimes(2);
+      expect(mockZulipClient.postMessage).toHaveBeenLastCalledWith(
+        "test-stream",
+        result.details?.thread_id,
+        expect.stringContaining("Reminder"),
+      );
+    });
+  });
+
+  describe("resuming after restart", () => {
+    let cwd: string;
+    const question = {
+      question: "Which database should I use?",
+      context: "",
+      confidence: 30,
+    };
+
+    beforeEach(async () => {
+      cwd = await mkdtemp(path.join(tmpdir(), "human-loop-tool-"));
+      mockZulipClient.postMessage.mockResolvedValue("100");
+      mockZulipClient.registerEventQueue.mockResolvedValue({
+        queueId: "queue-1",
+        lastEventId: "5",
+      });
+      mockZulipClient.deregisterQueue.mockResolvedValue();
+    });
+
+    afterEach(async () => {
+      await rm(cwd, { recursive: true, force: true });
+    });
+
+    const createTool = () =>
+      createAskHumanTool(mockConfig, mockZulipClient as unknown as ZulipClient);
+
+    const cancel = async () => {
+      const abortController = new AbortController();
+      mockZulipClient.pollForReply.mockImplementationOnce(async () => {
+        abortController.abort();
+        return null;
+      });
+      await createTool().execute(
+        "tool-call-1",
+        question,
+        abortController.signal,
+        undefined,
+        { cwd } as any,
+      );
+    };
+
+    it("should keep a cancelled question open and resume it when asked again", async () => {
+      await cancel();
+      expect(await createConversationStore(cwd).list()).toEqual([
+        expect.objectContaining({
+          question: "Which database should I use?",
+          message_id: "100",
+          queue_id: "queue-1",
+          last_event_id: "5",
+        }),
+      ]);
+
+      mockZulipClient.postMessage.mockClear();
+      mockZulipClient.registerEventQueue.mockClear();
+      mockZulipClient.pollForReply.mockResolvedValueOnce({
+        id: "101",
+        sender_email: "human@example.com",
+        content: "Postgres",
+      });
+
+      const result = await createTool().execute(
+        "tool-call-2",
+        question,
+        new AbortController().signal,
+        undefined,
+        { cwd } as any,
+      );
+
+      expect(result.content[0]?.text).toBe("Human replied: Postgres");
+      expect(mockZulipClient.postMessage).not.toHaveBeenCalled();
+      expect(mockZulipClient.registerEventQueue).not.toHaveBeenCalled();
+      expect(mockZulipClient.pollForReply).toHaveBeenCalledWith(
+        "queue-1",
+        "5",
+        "bot@example.com",
+        expect.any(AbortSignal),
+        expect.any(Function),
+      );
+      expect(await createConversationStore(cwd).list()).toEqual([]);
+    });
+
+    it("should record the last event seen while waiting", async () => {
+      const abortController = new AbortController();
+      mockZulipClient.pollForReply.mockImplementationOnce(
+        async (_queueId, _lastEventId, _botEmail, _signal, onPosition) => {
+          onPosition?.("9");
+          abortController.abort();
+          return null;
+        },
+      );
+      await createTool().execute(
+        "tool-call-1",
+        question,
+        abortController.signal,
+        undefined,
+        { cwd } as any,
+      );
+
+      // The position is saved in the background
+      await vi.waitFor(async () =>
+        expect(await createConversationStore(cwd).list()).toEqual([
+          expect.objectContaining({ queue_id: "queue-1", last_event_id: "9" }),
+        ]),
+      );
+    });
+
+    it("should re-register when the stored subscription has expired", async () => {
+      await cancel();
+
+      mockZulipClient.registerEventQueue.mockResolvedValueOnce({
+        queueId: "queue-2",
+        lastEventId: "-1",
+      });
+      mockZulipClient.pollForReply
+        .mockRejectedValueOnce(new Error("Bad event queue ID: queue-1"))
+        .mockResolvedValueOnce({
+          id: "101",
+          sender_email: "human@example.com",
+          content: "Postgres",
+        });
+
+      const result = await createTool().execute(
+        "tool-call-2",
+        question,
+        new AbortController().signal,
+        undefined,
+        { cwd } as any,
+      );
+
+      expect(result.content[0]?.text).toBe("Human replied: Postgres");
+      expect(mockZulipClient.postMessage).toHaveBeenCalledTimes(1);
+      expect(mockZulipClient.pollForReply).toHaveBeenLastCalledWith(
+        "queue-2",
+        "-1",
+        "bot@example.com",
+        expect.any(AbortSignal),
+        expect.any(Function),
+      );
+    });
+
+    it("should forget questions that fail", async () => {
+      mockZulipClient.pollForReply.mockRejectedValueOnce(new Error("boom"));
+
+      const result = await createTool().execute(
+        "tool-call-1",
+        question,
+        new AbortController().signal,
+        undefined,
+        { cwd } as any,
+      );
+
+      expect(result.isError).toBe(true);
+      expect(await createConversationStore(cwd).list()).toEqual([]);
+    });
+
+    it("should post follow-ups even when they repeat an open question", async () => {
+      await cancel();
+      mockZulipClient.pollForReply.mockResolvedValueOnce({
+        id: "102",
+        sender_email: "human@example.com",
+        content: "ok",
+      });
+
+      await createTool().execute(
+        "tool-call-2",
+        { ...question, thread_id: "Agent Q #1 — Which database" },
+        new AbortController().signal,
+        undefined,
+        { cwd } as any,
+      );
+
+      expect(mockZulipClient.postMessage).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe("replies before registration", () => {
+    const originalFetch = global.fetch;
+
+    afterEach(() => {
+      global.fetch = originalFetch;
+    });
+
+    it("should return a reply that lands between post and register without polling", async () => {
+      const calls: string[] = [];
+      global.fetch = vi.fn(async (input: string | URL | Request, init) => {
+        const url = new URL(input.toString());
+        calls.push(`${init?.method} ${url.pathname}`);
+        const body = (data: unknown) => ({ ok: true, json: async () => data });
+        if (init?.method === "POST" && url.pathname === "/api/v1/messages") {
+          return body({ id: 123 });
+        }
+        if (url.pathname === "/api/v1/register") {
+          // The human answered before the queue existed
+          return body({ queue_id: "queue-1", last_event_id: 7 });
+        }
+        if (url.pathname === "/api/v1/messages") {
+          return body({
+            messages: [
+              {
+                id: 124,
+                sender_email: "human@example.com",
+                content: "Quick answer",
+              },
+            ],
+          });
+        }
+        return body({});
+      }) as unknown as typeof global.fetch;
+
+      const tool = createAskHumanTool(
+        mockConfig,
+        createZulipClient(mockConfig),
+      );
+      const result = await tool.execute(
+        "tool-call-1",
+        { question: "What should I do?", context: "", confidence: 25 },
+        new AbortController().signal,
+        undefined,
+        {} as any,
+      );
+
+      expect(result.content[0]?.text).toBe("Human replied: Quick answer");
+      expect(calls).toEqual([
+        "POST /api/v1/messages",
+        "POST /api/v1/register",
+        "GET /api/v1/messages",
+        "DELETE /api/v1/events",
+      ]);
+    });
+
+    it("should anchor follow-ups at the follow-up message", async () => {
+      const findReplySince = vi
+        .fn<NonNullable<ChatClient["findReplySince"]>>()
+        .mockResolvedValue(null);
+      mockZulipClient.postMessage.mockResolvedValue("321");
+      mockZulipClient.registerEventQueue.mockResolvedValue({
+        queueId: "queue-1",
+        lastEventId: "7",
+      });
+      mockZulipClient.pollForReply.mockResolvedValue({
+        id: "322",
+        sender_email: "human@example.com",
+        content: "Polled",
+      });
+
+      const tool = createAskHumanTool(mockConfig, {
+        ...mockZulipClient,
+        findReplySince,
+      } as unknown as ZulipClient);
+      const result = await tool.execute(
+        "tool-call-1",
+        {
+          question: "And then?",
+          context: "",
+          confidence: 25,
+          thread_id: "Agent Q #1 — Topic",
+        },
+        new AbortController().signal,
+        undefined,
+        {} as any,
+      );
+
+      expect(findReplySince).toHaveBeenCalledWith(
+        "test-stream",
+        "Agent Q #1 — Topic",
+        "321",
+        "bot@example.com",
+      );
+      expect(result.content[0]?.text).toBe("Human replied: Polled");
+    });
+
+    it("should fall back to polling when the lookup fails", async () => {
+      mockZulipClient.postMessage.mockResolvedValue("321");
+      mockZulipClient.registerEventQueue.mockResolvedValue({
+        queueId: "queue-1",
+        lastEventId: "7",
+      });
+      mockZulipClient.pollForReply.mockResolvedValue({
+        id: "322",
+        sender_email: "human@example.com",
+        content: "Polled",
+      });
+
+      const tool = createAskHumanTool(mockConfig, {
+        ...mockZulipClient,
+        findReplySince: vi.fn().mockRejectedValue(new Error("boom")),
+      } as unknown as ZulipClient);
+      const result = await tool.execute(
+        "tool-call-1",
+        { question: "What should I do?", context: "", confidence: 25 },
+        new AbortController().signal,
+        undefined,
+        {} as any,
+      );
+
+      expect(result.content[0]?.text).toBe("Human replied: Polled");
+    });
+  });
+
+  describe("reply collection", () => {
+    beforeEach(() => {
+      mockZulipClient.postMessage.mockResolvedValue("123");
+      mockZulipClient.registerEventQueue.mockResolvedValue({
+        queueId: "queue-1",
+        lastEventId: "7",
+      });
+      mockZulipClient.deregisterQueue.mockResolvedValue();
+    });
+
+    it("should watch the question and return every message until /done", async () => {
+      mockZulipClient.pollForReply
+        .mockResolvedValueOnce({
+          id: "124",
+          sender_email: "alice@example.com",
+          content: "Use Postgres",
+          lastEventId: "8",
+        })
+        .mockResolvedValueOnce({
+          id: "125",
+          sender_email: "bob@example.com",
+          content: "with pgbouncer /done",
+          lastEventId: "9",
+        });
+
+      const tool = createAskHumanTool(
+        { ...mockConfig, replyQuietMs: 60000 },
+        mockZulipClient as unknown as ZulipClient,
+      );
+      const result = await tool.execute(
+        "tool-call-1",
+        { question: "Which database?", context: "", confidence: 25 },
+        new AbortController().signal,
+        undefined,
+        {} as any,
+      );
+
+      expect(mockZulipClient.postMessage).toHaveBeenCalledWith(
+        "test-stream",
+        expect.any(String),
+        expect.stringContaining("send `/done` or react with ✅"),
+      );
+      expect(mockZulipClient.registerEventQueue).toHaveBeenCalledWith(
+        "test-stream",
+        expect.stringContaining("Agent Q #"),
+        "123",
+      );
+      expect(result.content[0]?.text).toBe(
+        "Human replied: alice@example.com: Use Postgres\n\nbob@example.com: with pgbouncer",
+      );
+      expect(result.details).toEqual({
+        thread_id: expect.stringContaining("Agent Q #"),
+        responder: "alice@example.com",
+        messages: [
+          { sender: "alice@example.com", content: "Use Postgres" },
+          { sender: "bob@example.com", content: "with pgbouncer" },
+        ],
+      });
+    });
+
+    it("should join one person's messages without attribution in the text", async () => {
+      mockZulipClient.pollForReply
+        .mockResolvedValueOnce({
+          id: "124",
+          sender_email: "alice@example.com",
+          content: "Part one",
+          lastEventId: "8",
+        })
+        .mockResolvedValueOnce({
+          id: "125",
+          sender_email: "alice@example.com",
+          content: "Part two",
+          lastEventId: "9",
+        })
+        .mockResolvedValueOnce({
+          id: "123",
+          sender_email: "alice@example.com",
+          content: "",
+          reaction: "approve",
+          lastEventId: "10",
+        });
+
+      const tool = createAskHumanTool(
+        { ...mockConfig, replyQuietMs: 60000 },
+        mockZulipClient as unknown as ZulipClient,
+      );
+      const result = await tool.execute(
+        "tool-call-1",
+        { question: "Which database?", context: "", confidence: 25 },
+        new AbortController().signal,
+        undefined,
+        {} as any,
+      );
+
+      expect(result.content[0]?.text).toBe(
+        "Human replied: Part one\n\nPart two",
+      );
+    });
+  });
+
+  describe("attachments", () => {
+    let cwd: string;
+
+    beforeEach(async () => {
+      cwd = await mkdtemp(path.join(tmpdir(), "tool-attachments-"));
+      mockZulipClient.postMessage.mockResolvedValue("123");
+      mockZulipClient.registerEventQueue.mockResolvedValue({
+        queueId: "queue-1",
+        lastEventId: "7",
+      });
+      mockZulipClient.deregisterQueue.mockResolvedValue();
+    });
+
+    afterEach(async () => {
+      await rm(cwd, { recursive: true, force: true });
+    });
+
+    it("should upload attachments and link them in the question", async () => {
+      await writeFile(path.join(cwd, "build.log"), "failed");
+      mockZulipClient.pollForReply.mockResolvedValue({
+        id: "124",
+        sender_email: "human@example.com",
+        content: "Looks flaky",
+      });
+      const uploadFile = vi
+        .fn<NonNullable<ChatClient["uploadFile"]>>()
+        .mockResolvedValue("/user_uploads/1/build.log");
+
+      const tool = createAskHumanTool(mockConfig, {
+        ...mockZulipClient,
+        uploadFile,
+      } as unknown as ChatClient);
+      await tool.execute(
+        "tool-call-1",
+        {
+          question: "Is this flaky?",
+          context: "",
+          confidence: 25,
+          attachments: ["build.log"],
+        },
+        new AbortController().signal,
+        undefined,
+        { cwd } as any,
+      );
+
+      expect(uploadFile).toHaveBeenCalledWith("build.log", expect.anything());
+      expect(mockZulipClient.postMessage).toHaveBeenCalledWith(
+        "test-stream",
+        expect.any(String),
+        expect.stringContaining(
+          "**Attachments:**\n- [build.log](/user_uploads/1/build.log)",
+        ),
+      );
+    });
+
+    it("should list attachments by path when the backend cannot upload", async () => {
+      mockZulipClient.pollForReply.mockResolvedValue({
+        id: "124",
+        sender_email: "human@example.com",
+        content: "OK",
+      });
+
+      const tool = createAskHumanTool(
+        mockConfig,
+        mockZulipClient as unknown as ZulipClient,
+      );
+      await tool.execute(
+        "tool-call-1",
+        {
+          question: "Is this flaky?",
+          context: "",
+          confidence: 25,
+          attachments: ["build.log"],
+        },
+        new AbortController().signal,
+        undefined,
+        { cwd } as any,
+      );
+
+      expect(mockZulipClient.postMessage).toHaveBeenCalledWith(
+        "test-stream",
+        expect.any(String),
+        expect.stringContaining("- `build.log` (on the agent's machine)"),
+      );
+    });
+
+    it("should report a missing attachment as an error", async () => {
+      const tool = createAskHumanTool(mockConfig, {
+        ...mockZulipClient,
+        uploadFile: vi.fn(),
+      } as unknown as ChatClient);
+      const result = await tool.execute(
+        "tool-call-1",
+        {
+          question: "Is this flaky?",
+          context: "",
+          confidence: 25,
+          attachments: ["missing.log"],
+        },
+        new AbortController().signal,
+        undefined,
+        { cwd } as any,
+      );
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0]?.text).toContain(
+        "Cannot read attachment missing.log",
+      );
+      expect(mockZulipClient.postMessage).not.toHaveBeenCalled();
+    });
+
+    it("should save files uploaded in the reply and return their paths", async () => {
+      mockZulipClient.pollForReply.mockResolvedValue({
+        id: "124",
+        sender_email: "human@example.com",
+        content:
+          "Here: trace.txt (https://zulip.example.com/user_uploads/1/trace.txt)",
+        links: ["https://zulip.example.com/user_uploads/1/trace.txt"],
+      });
+      const downloadFile = vi
+        .fn<NonNullable<ChatClient["downloadFile"]>>()
+        .mockResolvedValue({
+          name: "trace.txt",
+          data: new TextEncoder().encode("stack"),
+        });
+
+      const tool = createAskHumanTool(mockConfig, {
+        ...mockZulipClient,
+        downloadFile,
+      } as unknown as ChatClient);
+      const result = await tool.execute(
+        "tool-call-1",
+        { question: "Have a trace?", context: "", confidence: 25 },
+        new AbortController().signal,
+        undefined,
+        {} as any,
+      );
+
+      const files = result.details?.files ?? [];
+      expect(files).toHaveLength(1);
+      expect(path.basename(files[0]!)).toBe("trace.txt");
+      await expect(readFile(files[0]!, "utf8")).resolves.toBe("stack");
+      expect(result.content[0]?.text).toContain(
+        `Files from the human, saved locally:\n- ${files[0]}`,
+      );
+      await rm(path.dirname(files[0]!), { recursive: true, force: true });
+    });
+  });
+
+  describe("context rendering", () => {
+    const longContext = Array.from(
+      { length: 15 },
+      (_, i) => `line ${i + 1}`,
+    ).join("\n");
+
+    beforeEach(() => {
+      mockZulipClient.postMessage.mockResolvedValue("123");
+      mockZulipClient.registerEventQueue.mockResolvedValue({
+        queueId: "queue-1",
+        lastEventId: "7",
+      });
+      mockZulipClient.pollForReply.mockResolvedValue({
+        id: "124",
+        sender_email: "human@example.com",
+        content: "Answer",
+      });
+      mockZulipClient.deregisterQueue.mockResolvedValue();
+    });
+
+    it("should keep the full context in a collapsible block", async () => {
+      const tool = createAskHumanTool(mockConfig, {
+        ...mockZulipClient,
+        formatCollapsible: (summary: string, body: string) =>
+          `<${summary}>\n${body}`,
+      } as unknown as ChatClient);
+      const result = await tool.execute(
+        "tool-call-1",
+        { question: "Why?", context: longContext, confidence: 25 },
+        new AbortController().signal,
+        undefined,
+        {} as any,
+      );
+
+      expect(mockZulipClient.postMessage).toHaveBeenCalledWith(
+        "test-stream",
+        expect.any(String),
+        expect.stringContaining(
+          `line 10\n<Full context (15 lines)>\n${longContext}`,
+        ),
+      );
+      expect(result.content[0]?.text).toBe("Human replied: Answer");
+      expect(result.details?.context_truncated).toBeUndefined();
+    });
+
+    it("should tell the agent when its context was cut", async () => {
+      const tool = createAskHumanTool(
+        mockConfig,
+        mockZulipClient as unknown as ZulipClient,
+      );
+      const result = await tool.execute(
+        "tool-call-1",
+        { question: "Why?", context: longContext, confidence: 25 },
+        new AbortController().signal,
+        undefined,
+        {} as any,
+      );
+
+      const postedMessage = mockZulipClient.postMessage.mock.calls[0]?.[2];
+      expect(postedMessage).toContain("line 10\n_… 5 more lines not shown_");
+      expect(postedMessage).not.toContain("line 11");
+      expect(result.content[0]?.text).toContain(
+        "The human only saw the first 10 of 15 context lines",
+      );
+      expect(result.details?.context_truncated).toBe(true);
+    });
+
+    it("should tell the agent when a very long line was cut", async () => {
+      const tool = createAskHumanTool(
+        mockConfig,
+        mockZulipClient as unknown as ZulipClient,
+      );
+      const result = await tool.execute(
+        "tool-call-1",
+        {
+          question: "Why?",
+          context: `Log: ${"x".repeat(9995)}`,
+          confidence: 25,
+        },
+        new AbortController().signal,
+        undefined,
+        {} as any,
+      );
+
+      expect(result.content[0]?.text).toContain(
+        "The human only saw the first 2000 of 10000 context characters",
+      );
+      expect(result.details?.context_truncated).toBe(true);
+    });
+
+    it("should tell the agent its context was cut when nobody replies", async () => {
+      vi.useFakeTimers();
+      mockZulipClient.pollForReply.mockImplementation(
+        async (_queueId, _lastEventId, _botEmail, signal) =>
+          await new Promise((resolve) => {
+            signal.addEventListener("abort", () => resolve(null), {
+              once: true,
+            });
+          }),
+      );
+      const tool = createAskHumanTool(
+        { ...mockConfig, timeoutMs: 60000, timeoutNotice: false },
+        mockZulipClient as unknown as ZulipClient,
+      );
+
+      const resultPromise = tool.execute(
+        "tool-call-1",
+        { question: "Why?", context: longContext, confidence: 25 },
+        new AbortController().signal,
+        undefined,
+        {} as any,
+      );
+      await vi.advanceTimersByTimeAsync(60000);
+      const result = await resultPromise;
+      vi.useRealTimers();
+
+      expect(result.details?.status).toBe("timed_out");
+      expect(result.content[0]?.text).toContain(
+        "The human only saw the first 10 of 15 context lines",
+      );
+      expect(result.details?.context_truncated).toBe(true);
+    });
+
+    it("should tell the agent its context was cut when the wait is cancelled", async () => {
+      const abortController = new AbortController();
+      mockZulipClient.pollForReply.mockImplementation(async () => {
+        abortController.abort();
+        return null;
+      });
+      const tool = createAskHumanTool(
+        mockConfig,
+        mockZulipClient as unknown as ZulipClient,
+      );
+
+      const result = await tool.execute(
+        "tool-call-1",
+        { question: "Why?", context: longContext, confidence: 25 },
+        abortController.signal,
+        undefined,
+        {} as any,
+      );
+
+      expect(result.content[0]?.text).toBe(
+        "Human consultation cancelled.\n\n(The human only saw the first 10 of 15 context lines; attach a file to share the rest.)",
+      );
+      expect(result.details?.context_truncated).toBe(true);
+    });
+  });
+
+  describe("message templates", () => {
+    beforeEach(() => {
+      mockZulipClient.postMessage.mockResolvedValue("123");
+      mockZulipClient.registerEventQueue.mockResolvedValue({
+        queueId: "queue-1",
+        lastEventId: "7",
+      });
+      mockZulipClient.pollForReply.mockResolvedValue({
+        id: "124",
+        sender_email: "human@example.com",
+        content: "Answer",
+      });
+      mockZulipClient.deregisterQueue.mockResolvedValue();
+    });
+
+    it("should format questions and follow-ups with the team's templates", async () => {
+      const cwd = await mkdtemp(path.join(tmpdir(), "tool-templates-"));
+      const tool = createAskHumanTool(
+        {
+          ...mockConfig,
+          templates: {
+            question:
+              "❓ {{question}} ({{confidence}}%) [{{repository}} {{session_id}}]\n{{context}}",
+            followUp: "Follow-up {{follow_up_number}}: {{question}}",
+          },
+        },
+        mockZulipClient as unknown as ZulipClient,
+      );
+      const ctx = {
+        cwd,
+        sessionManager: { getSessionId: () => "session-1" },
+      } as any;
+
+      await tool.execute(
+        "tool-call-1",
+        { question: "Which DB?", context: "Tests fail", confidence: 40 },
+        new AbortController().signal,
+        undefined,
+        ctx,
+      );
+      for (const question of ["And the cache?", "And the queue?"]) {
+        await tool.execute(
+          "tool-call-2",
+          { question, context: "", confidence: 40, thread_id: "Agent Q #1" },
+          new AbortController().signal,
+          undefined,
+          ctx,
+        );
+      }
+      await rm(cwd, { recursive: true, force: true });
+
+      const messages = mockZulipClient.postMessage.mock.calls.map(
+        (call) => call[2],
+      );
+      expect(messages).toEqual([
+        `❓ Which DB? (40%) [${path.basename(cwd)} session-1]\nTests fail`,
+        "Follow-up 1: And the cache?",
+        "Follow-up 2: And the queue?",
+      ]);
+    });
+  });
+
+  describe("metadata", () => {
+    beforeEach(() => {
+      mockZulipClient.postMessage.mockResolvedValue("123");
+      mockZulipClient.registerEventQueue.mockResolvedValue({
+        queueId: "queue-1",
+        lastEventId: "7",
+      });
+      mockZulipClient.pollForReply.mockResolvedValue({
+        id: "124",
+        sender_email: "human@example.com",
+        content: "Answer",
+      });
+      mockZulipClient.deregisterQueue.mockResolvedValue();
+    });
+
+    it("should add the session's details under the question, minus redacted fields", async () => {
+      const tool = createAskHumanTool(
+        { ...mockConfig, redactMetadata: ["host"] },
+        mockZulipClient as unknown as ZulipClient,
+      );
+      await tool.execute(
+        "tool-call-1",
+        { question: "Which DB?", context: "", confidence: 40 },
+        new AbortController().signal,
+        undefined,
+        {
+          model: { id: "claude-sonnet" },
+          sessionManager: { getSessionId: () => "session-1" },
+        } as any,
+      );
+
+      const postedMessage = mockZulipClient.postMessage.mock.calls[0]?.[2];
+      expect(postedMessage).toMatch(
+        /waiting for your response\._\n\n_Asked from_ model `claude-sonnet` · session `session-1`$/,
+      );
+    });
+  });
+
+  describe("routing", () => {
+    const routes = [
+      {
+        cwd: [],
+        paths: ["services/payments/**"],
+        categories: ["payments"],
+        stream: "payments",
+        topicPrefix: "[payments]",
+      },
+    ];
+
+    beforeEach(() => {
+      mockZulipClient.postMessage.mockResolvedValue("123");
+      mockZulipClient.registerEventQueue.mockResolvedValue({
+        queueId: "queue-1",
+        lastEventId: "7",
+      });
+      mockZulipClient.pollForReply.mockResolvedValue({
+        id: "124",
+        sender_email: "human@example.com",
+        content: "Answer",
+      });
+      mockZulipClient.deregisterQueue.mockResolvedValue();
+    });
+
+    it("should post to the routed stream and keep follow-ups there", async () => {
+      const tool = createAskHumanTool(
+        { ...mockConfig, routes },
+        mockZulipClient as unknown as ZulipClient,
+      );
+
+      const result = await tool.execute(
+        "tool-call-1",
+        {
+          question: "Round or truncate?",
+          context: "services/payments/processor.py:142",
+          confidence: 40,
+        },
+        new AbortController().signal,
+        undefined,
+        {} as any,
+      );
+      const threadId = result.details?.thread_id ?? "";
+      await tool.execute(
+        "tool-call-2",
+        {
+          question: "And refunds?",
+          context: "",
+          confidence: 40,
+          thread_id: threadId,
+        },
+        new AbortController().signal,
+        undefined,
+        {} as any,
+      );
+
+      expect(threadId).toMatch(/^\[payments\] Agent Q #/);
+      expect(mockZulipClient.postMessage.mock.calls.map((c) => c[0])).toEqual([
+        "payments",
+        "payments",
+      ]);
+      expect(mockZulipClient.registerEventQueue).toHaveBeenCalledWith(
+        "payments",
+        threadId,
+      );
+    });
+
+    it("should keep follow-ups in the thread's stream after a restart", async () => {
+      const cwd = await mkdtemp(path.join(tmpdir(), "tool-routing-"));
+      try {
+        const result = await createAskHumanTool(
+          { ...mockConfig, routes },
+          mockZulipClient as unknown as ZulipClient,
+        ).execute(
+          "tool-call-1",
+          {
+            question: "Round or truncate?",
+            context: "services/payments/processor.py:142",
+            confidence: 40,
+          },
+          new AbortController().signal,
+          undefined,
+          { cwd } as any,
+        );
+        const threadId = result.details?.thread_id ?? "";
+
+        // A restarted Pi has no in-memory record of the thread
+        clearSessionActivity();
+        await createAskHumanTool(
+          { ...mockConfig, routes },
+          mockZulipClient as unknown as ZulipClient,
+        ).execute(
+          "tool-call-2",
+          {
+            question: "And refunds?",
+            context: "",
+            confidence: 40,
+            thread_id: threadId,
+          },
+          new AbortController().signal,
+          undefined,
+          { cwd } as any,
+        );
+
+        expect(mockZulipClient.postMessage.mock.calls.map((c) => c[0])).toEqual(
+          ["payments", "payments"],
+        );
+      } finally {
+        await rm(cwd, { recursive: true, force: true });
+      }
+    });
+
+    it("should keep prefixed topics within the chat's topic length", async () => {
+      const tool = createAskHumanTool(
+        {
+          ...mockConfig,
+          routes: [{ ...routes[0]!, topicPrefix: "[payments-platform team]" }],
+        },
+        mockZulipClient as unknown as ZulipClient,
+      );
+
+      const result = await tool.execute(
+        "tool-call-1",
+        {
+          question: "Should refunds be rounded or truncated to cents?",
+          context: "services/payments/processor.py:142",
+          confidence: 40,
+        },
+        new AbortController().signal,
+        undefined,
+        {} as any,
+      );
+
+      const threadId = result.details?.thread_id ?? "";
+      expect(threadId).toMatch(/^\[payments-platform team\] Agent Q #\w+ — /);
+      expect(threadId.length).toBeLessThanOrEqual(MAX_TOPIC_LENGTH);
+    });
+
+    it("should use the default stream when no rule matches", async () => {
+      const tool = createAskHumanTool(
+        { ...mockConfig, routes },
+        mockZulipClient as unknown as ZulipClient,
+      );
+
+      await tool.execute(
+        "tool-call-1",
+        { question: "Why?", context: "web/app.ts", confidence: 40 },
+        new AbortController().signal,
+        undefined,
+        {} as any,
+      );
+
+      expect(mockZulipClient.postMessage).toHaveBeenCalledWith(
+        "test-stream",
+        expect.stringMatching(/^Agent Q #/),
+        expect.any(String),
+      );
+    });
+
+    it("should list the configured categories in the parameter description", () => {
+      const tool = createAskHumanTool(
+        { ...mockConfig, routes },
+        mockZulipClient as unknown as ZulipClient,
+      );
+
+      expect(
+        (tool.parameters as any).properties.category.description,
+      ).toContain("one of payments");
+    });
+  });
+
+  describe("session activity", () => {
+    beforeEach(() => {
+      clearSessionActivity();
+      mockZulipClient.postMessage.mockResolvedValue("123");
+      mockZulipClient.registerEventQueue.mockResolvedValue({
+        queueId: "queue-1",
+        lastEventId: "7",
+      });
+      mockZulipClient.deregisterQueue.mockResolvedValue();
+    });
+
+    it("should record answered questions in the session history", async () => {
+      mockZulipClient.pollForReply.mockResolvedValue({
+        id: "124",
+        sender_email: "human@example.com",
+        content: "Use approach A",
+      });
+      const tool = createAskHumanTool(
+        mockConfig,
+        mockZulipClient as unknown as ZulipClient,
+      );
+
+      await tool.execute(
+        "tool-call-1",
+        { question: "Which approach?", context: "", confidence: 40 },
+        new AbortController().signal,
+        undefined,
+        {} as any,
+      );
+
+      expect(getPendingQuestions()).toEqual([]);
+      expect(getHistory()).toEqual([
+        expect.objectContaining({
+          question: "Which approach?",
+          threadId: expect.stringContaining("Agent Q #"),
+          outcome: "answered",
+          answer: "Human replied: Use approach A",
+          responder: "human@example.com",
+        }),
+      ]);
+    });
+
+    it("should record failures in the session history", async () => {
+      mockZulipClient.postMessage.mockRejectedValue(new Error("Network down"));
+      const tool = createAskHumanTool(
+        mockConfig,
+        mockZulipClient as unknown as ZulipClient,
+      );
+
+      await tool.execute(
+        "tool-call-1",
+        { question: "Which approach?", context: "", confidence: 40 },
+        new AbortController().signal,
+        undefined,
+        {} as any,
+      );
+
+      expect(getHistory()).toEqual([
+        expect.objectContaining({
+          question: "Which approach?",
+          outcome: "failed",
+        }),
+      ]);
+    });
+
+    it("should track the wait and stop it when cancelled", async () => {
+      mockZulipClient.pollForReply.mockImplementation(
+        async (_queueId, _lastEventId, _botEmail, signal) =>
+          await new Promise((resolve) => {
+            signal.addEventListener("abort", () => resolve(null), {
+              once: true,
+            });
+          }),
+      );
+      const tool = createAskHumanTool(
+        mockConfig,
+        mockZulipClient as unknown as ZulipClient,
+      );
+
+      const resultPromise = tool.execute(
+        "tool-call-1",
+        { question: "Which approach?", context: "", confidence: 40 },
+        new AbortController().signal,
+        undefined,
+        {} as any,
+      );
+      await vi.waitFor(() => expect(getPendingQuestions()).toHaveLength(1));
+      const [pending] = getPendingQuestions();
+      expect(pending).toMatchObject({
+        stream: "test-stream",
+        question: "Which approach?",
+      });
+      pending!.cancel();
+      const result = await resultPromise;
+
+      expect(result).toEqual({
+        content: [
+          {
+            type: "text",
+            text: "The user cancelled this question from Pi. Proceed without the human's answer.",
+          },
+        ],
+        isError: false,
+        details: { thread_id: pending!.threadId, status: "cancelled" },
+      });
+      expect(mockZulipClient.postMessage).toHaveBeenLastCalledWith(
+        "test-stream",
+        pending!.threadId,
+        expect.stringContaining("Cancelled from Pi"),
+      );
+      expect(mockZulipClient.deregisterQueue).toHaveBeenCalledWith("queue-1");
+      expect(getPendingQuestions()).toEqual([]);
+      expect(getHistory()).toEqual([
+        expect.objectContaining({ outcome: "cancelled" }),
+      ]);
+    });
+  });
 });
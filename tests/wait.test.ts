@@ -0,0 +1,78 @@
+/**
+ * Tests for abort and timeout helpers.
+ */
+
+import { waitWithAbort, withDeadline } from "../src/wait.js";
+
+describe("wait", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe("waitWithAbort", () => {
+    it("should resolve true once the delay elapses", async () => {
+      const promise = waitWithAbort(1000, new AbortController().signal);
+      await vi.advanceTimersByTimeAsync(1000);
+
+      expect(await promise).toBe(true);
+    });
+
+    it("should resolve false immediately when already aborted", async () => {
+      const controller = new AbortController();
+      controller.abort();
+
+      expect(await waitWithAbort(1000, controller.signal)).toBe(false);
+    });
+  });
+
+  describe("withDeadline", () => {
+    it("should abort and report a timeout when the deadline passes", async () => {
+      const deadline = withDeadline(new AbortController().signal, 5000);
+
+      await vi.advanceTimersByTimeAsync(4999);
+      expect(deadline.signal.aborted).toBe(false);
+
+      await vi.advanceTimersByTimeAsync(1);
+      expect(deadline.signal.aborted).toBe(true);
+      expect(deadline.timedOut()).toBe(true);
+    });
+
+    it("should follow the parent signal without reporting a timeout", () => {
+      const parent = new AbortController();
+      const deadline = withDeadline(parent.signal, 5000);
+
+      parent.abort();
+
+      expect(deadline.signal.aborted).toBe(true);
+      expect(deadline.timedOut()).toBe(false);
+    });
+
+    it("should start aborted when the parent already is", () => {
+      const parent = new AbortController();
+      parent.abort();
+
+      expect(withDeadline(parent.signal, undefined).signal.aborted).toBe(true);
+    });
+
+    it("should never time out without a deadline", async () => {
+      const deadline = withDeadline(undefined, undefined);
+
+      await vi.advanceTimersByTimeAsync(24 * 60 * 60 * 1000);
+
+      expect(deadline.signal.aborted).toBe(false);
+    });
+
+    it("should stop the timer when disposed", async () => {
+      const deadline = withDeadline(undefined, 1000);
+      deadline.dispose();
+
+      await vi.advanceTimersByTimeAsync(1000);
+
+      expect(deadline.signal.aborted).toBe(false);
+    });
+  });
+});
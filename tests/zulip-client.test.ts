@@ -9,6 +9,7 @@ describe("zulip-client", () => {
   let client: ZulipClient;
   const originalFetch = global.fetch;
   const config = {
+    backend: "zulip" as const,
     serverUrl: "https://zulip.example.com",
     botEmail: "bot@example.com",
     botApiKey: "test-api-key",
@@ -124,11 +125,18 @@ describe("zulip-client", () => {
     }
     const body = callArgs[1]?.body as string;
     expect(body).toContain("event_types=%5B%22message%22%5D"); // ["message"]
+    expect(body).toContain("apply_markdown=false");
     expect(body).toContain(
       "narrow=%5B%5B%22stream%22%2C%22my-stream%22%5D%2C%5B%22topic%22%2C%22my-topic%22%5D%5D",
     );
   });
 
+  it("should format topic links", () => {
+    expect(client.formatThreadLink?.("my-stream", "my-topic")).toBe(
+      "#**my-stream>my-topic**",
+    );
+  });
+
   it("should throw error when register queue fails", async () => {
     mockFetch.mockResolvedValue({
       ok: false,
@@ -142,6 +150,294 @@ describe("zulip-client", () => {
     );
   });
 
+  it("should fetch topic messages after the anchor and return the first human one", async () => {
+    mockFetch.mockResolvedValue({
+      ok: true,
+      json: async () => ({
+        messages: [
+          { id: 123, sender_email: "human@example.com", content: "anchor" },
+          { id: 124, sender_email: "bot@example.com", content: "Reminder" },
+          { id: 125, sender_email: "human@example.com", content: "Fast reply" },
+        ],
+      }),
+    });
+
+    const reply = await client.findReplySince?.(
+      "my-stream",
+      "my-topic",
+      "123",
+      "bot@example.com",
+    );
+
+    expect(reply).toEqual({
+      id: "125",
+      sender_email: "human@example.com",
+      content: "Fast reply",
+    });
+    const url = new URL(mockFetch.mock.calls[0]?.[0] as string);
+    expect(url.pathname).toBe("/api/v1/messages");
+    expect(url.searchParams.get("anchor")).toBe("123");
+    expect(url.searchParams.get("include_anchor")).toBe("false");
+    expect(url.searchParams.get("num_before")).toBe("0");
+    expect(url.searchParams.get("apply_markdown")).toBe("false");
+    expect(JSON.parse(url.searchParams.get("narrow") ?? "[]")).toEqual([
+      ["stream", "my-stream"],
+      ["topic", "my-topic"],
+    ]);
+  });
+
+  it("should skip messages the caller does not accept", async () => {
+    mockFetch.mockResolvedValue({
+      ok: true,
+      json: async () => ({
+        messages: [
+          { id: 124, sender_email: "ci@example.com", content: "Build passed" },
+          { id: 125, sender_email: "human@example.com", content: "Use B" },
+        ],
+      }),
+    });
+
+    const reply = await client.findReplySince?.(
+      "my-stream",
+      "my-topic",
+      "123",
+      "bot@example.com",
+      async (message) => message.sender_email !== "ci@example.com",
+    );
+
+    expect(reply?.content).toBe("Use B");
+  });
+
+  it("should return null when nobody has replied yet", async () => {
+    mockFetch.mockResolvedValue({
+      ok: true,
+      json: async () => ({ messages: [] }),
+    });
+
+    await expect(
+      client.findReplySince?.("s", "t", "123", "bot@example.com"),
+    ).resolves.toBeNull();
+  });
+
+  it("should throw error when fetching messages fails", async () => {
+    mockFetch.mockResolvedValue({
+      ok: false,
+      status: 400,
+      statusText: "Bad Request",
+      text: async () => "Invalid anchor",
+    });
+
+    await expect(
+      client.findReplySince?.("s", "t", "123", "bot@example.com"),
+    ).rejects.toThrow(/Failed to fetch messages: 400/);
+  });
+
+  it("should normalise raw markdown replies and report their links", async () => {
+    mockFetch.mockResolvedValue({
+      ok: true,
+      json: async () => ({
+        events: [
+          {
+            id: 1001,
+            message: {
+              id: 200,
+              sender_email: "human@example.com",
+              content:
+                "@_**Pi Agent|12** [said](https://zulip.example.com/#narrow/near/100):\n```quote\nShould I?\n```\nYes, ask @**Alice|3**. See [log](/user_uploads/1/log.txt)",
+            },
+          },
+        ],
+      }),
+    });
+
+    const reply = await client.pollForReply(
+      "queue-123",
+      "999",
+      "bot@example.com",
+      new AbortController().signal,
+    );
+
+    expect(reply?.content).toBe(
+      "Yes, ask @Alice. See log (https://zulip.example.com/user_uploads/1/log.txt)",
+    );
+    expect(reply?.links).toEqual([
+      "https://zulip.example.com/user_uploads/1/log.txt",
+    ]);
+  });
+
+  it("should report the sender's user ID when Zulip provides it", async () => {
+    mockFetch.mockResolvedValue({
+      ok: true,
+      json: async () => ({
+        events: [
+          {
+            id: 1001,
+            message: {
+              id: 200,
+              sender_id: 42,
+              sender_email: "human@example.com",
+              content: "Reply",
+            },
+          },
+        ],
+      }),
+    });
+
+    const reply = await client.pollForReply(
+      "queue-123",
+      "999",
+      "bot@example.com",
+      new AbortController().signal,
+    );
+
+    expect(reply?.sender_id).toBe("42");
+  });
+
+  it("should look up and cache whether a user is a bot", async () => {
+    mockFetch.mockResolvedValue({
+      ok: true,
+      json: async () => ({ result: "success", user: { is_bot: true } }),
+    });
+
+    await expect(client.isBotUser?.("42")).resolves.toBe(true);
+    await expect(client.isBotUser?.("42")).resolves.toBe(true);
+
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+    expect(mockFetch.mock.calls[0]?.[0]).toBe(
+      "https://zulip.example.com/api/v1/users/42",
+    );
+  });
+
+  it("should throw error when the user lookup fails", async () => {
+    mockFetch.mockResolvedValue({
+      ok: false,
+      status: 404,
+      statusText: "Not Found",
+      text: async () => "No such user",
+    });
+
+    await expect(client.isBotUser?.("42")).rejects.toThrow(
+      /Failed to look up user: 404/,
+    );
+  });
+
+  it("should list the members of a user group by name", async () => {
+    mockFetch.mockResolvedValue({
+      ok: true,
+      json: async () => ({
+        user_groups: [
+          { name: "frontend", members: [1] },
+          { name: "backend", members: [7, 8] },
+        ],
+      }),
+    });
+
+    await expect(client.getUserGroupMembers?.("backend")).resolves.toEqual([
+      "7",
+      "8",
+    ]);
+    await expect(client.getUserGroupMembers?.("ops")).rejects.toThrow(
+      /user group not found: ops/,
+    );
+  });
+
+  it("should throw error when listing user groups fails", async () => {
+    mockFetch.mockResolvedValue({
+      ok: false,
+      status: 401,
+      statusText: "Unauthorized",
+      text: async () => "",
+    });
+
+    await expect(client.getUserGroupMembers?.("backend")).rejects.toThrow(
+      /Failed to list user groups: 401/,
+    );
+  });
+
+  it("should upload a file as multipart form data", async () => {
+    mockFetch.mockResolvedValue({
+      ok: true,
+      json: async () => ({ uri: "/user_uploads/2/ab/build.log" }),
+    });
+
+    const uploaded = await client.uploadFile?.(
+      "build.log",
+      new TextEncoder().encode("log"),
+    );
+
+    expect(uploaded).toBe("/user_uploads/2/ab/build.log");
+    const [url, init] = mockFetch.mock.calls[0]!;
+    expect(url).toBe("https://zulip.example.com/api/v1/user_uploads");
+    expect(init.method).toBe("POST");
+    const file = (init.body as FormData).get("file") as File;
+    expect(file.name).toBe("build.log");
+    await expect(file.text()).resolves.toBe("log");
+  });
+
+  it("should throw error when an upload fails", async () => {
+    mockFetch.mockResolvedValue({
+      ok: false,
+      status: 413,
+      statusText: "Payload Too Large",
+      text: async () => "",
+    });
+
+    await expect(
+      client.uploadFile?.("big.bin", new Uint8Array(1)),
+    ).rejects.toThrow(/Failed to upload file: 413/);
+  });
+
+  it("should download an upload through its temporary URL", async () => {
+    mockFetch
+      .mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ url: "/user_uploads/temporary/abc" }),
+      })
+      .mockResolvedValueOnce({
+        ok: true,
+        arrayBuffer: async () => new TextEncoder().encode("data").buffer,
+      });
+
+    const file = await client.downloadFile?.(
+      "https://zulip.example.com/user_uploads/2/ab/my%20notes.txt",
+    );
+
+    expect(file?.name).toBe("my notes.txt");
+    expect(new TextDecoder().decode(file?.data)).toBe("data");
+    expect(mockFetch.mock.calls[0]?.[0]).toBe(
+      "https://zulip.example.com/api/v1/user_uploads/2/ab/my%20notes.txt",
+    );
+    expect(String(mockFetch.mock.calls[1]?.[0])).toBe(
+      "https://zulip.example.com/user_uploads/temporary/abc",
+    );
+  });
+
+  it("should not download links outside the server's uploads", async () => {
+    await expect(
+      client.downloadFile?.("https://example.com/user_uploads/1/a.txt"),
+    ).resolves.toBeNull();
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+
+  it("should throw error when an upload cannot be looked up", async () => {
+    mockFetch.mockResolvedValue({
+      ok: false,
+      status: 404,
+      statusText: "Not Found",
+      text: async () => "",
+    });
+
+    await expect(
+      client.downloadFile?.("https://zulip.example.com/user_uploads/1/a.txt"),
+    ).rejects.toThrow(/Failed to look up upload: 404/);
+  });
+
+  it("should collapse long content into a spoiler block", () => {
+    expect(client.formatCollapsible?.("Full context", "```\nx\n```")).toBe(
+      "````spoiler Full context\n```\nx\n```\n````",
+    );
+  });
+
   it("should poll for reply and return human message", async () => {
     const abortController = new AbortController();
 
@@ -172,9 +468,195 @@ describe("zulip-client", () => {
       id: "200",
       sender_email: "human@example.com",
       content: "Human's reply",
+      lastEventId: "1001",
     });
   });
 
+  it("should add a reaction to a message", async () => {
+    mockFetch.mockResolvedValue({ ok: true, json: async () => ({}) });
+
+    await client.addReaction?.("test-stream", "123", "one");
+
+    expect(mockFetch).toHaveBeenCalledWith(
+      "https://zulip.example.com/api/v1/messages/123/reactions",
+      expect.objectContaining({ method: "POST", body: "emoji_name=one" }),
+    );
+  });
+
+  it("should throw error when adding a reaction fails", async () => {
+    mockFetch.mockResolvedValue({
+      ok: false,
+      status: 400,
+      statusText: "Bad Request",
+      text: async () => "Invalid emoji name",
+    });
+
+    await expect(
+      client.addReaction?.("test-stream", "123", "one"),
+    ).rejects.toThrow(/Failed to add reaction: 400/);
+  });
+
+  it("should return option reactions on the watched message as replies", async () => {
+    mockFetch
+      .mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ queue_id: "queue-123", last_event_id: 999 }),
+      })
+      .mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({
+          events: [
+            {
+              id: 1000,
+              type: "reaction",
+              op: "add",
+              message_id: 123,
+              emoji_name: "one",
+              user: { email: "bot@example.com" },
+            },
+            {
+              id: 1001,
+              type: "reaction",
+              op: "add",
+              message_id: 456,
+              emoji_name: "two",
+              user: { email: "human@example.com" },
+            },
+            {
+              id: 1002,
+              type: "reaction",
+              op: "add",
+              message_id: 123,
+              emoji_name: "thumbs_up",
+              user: { email: "human@example.com" },
+            },
+            {
+              id: 1003,
+              type: "reaction",
+              op: "add",
+              message_id: 123,
+              emoji_name: "two",
+              user: { email: "human@example.com" },
+            },
+          ],
+        }),
+      });
+
+    const { queueId, lastEventId } = await client.registerEventQueue(
+      "test-stream",
+      "test-topic",
+      "123",
+    );
+    const reply = await client.pollForReply(
+      queueId,
+      lastEventId,
+      "bot@example.com",
+      new AbortController().signal,
+    );
+
+    const registerBody = mockFetch.mock.calls[0]?.[1]?.body as string;
+    expect(registerBody).toContain(
+      "event_types=%5B%22message%22%2C%22reaction%22%5D",
+    );
+    expect(reply).toEqual({
+      id: "123",
+      sender_email: "human@example.com",
+      content: "",
+      reaction: "two",
+      lastEventId: "1003",
+    });
+  });
+
+  it("should keep watching reactions when a restarted session resumes the queue", async () => {
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      json: async () => ({ queue_id: "1517975029:0", last_event_id: 999 }),
+    });
+    const { queueId } = await client.registerEventQueue(
+      "test-stream",
+      "test-topic",
+      "123",
+    );
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      json: async () => ({
+        events: [
+          {
+            id: 1000,
+            type: "reaction",
+            op: "add",
+            message_id: 123,
+            emoji_name: "one",
+            user: { email: "human@example.com" },
+          },
+        ],
+      }),
+    });
+
+    const reply = await createZulipClient(config).pollForReply(
+      queueId,
+      "999",
+      "bot@example.com",
+      new AbortController().signal,
+    );
+
+    expect(queueId).toBe("1517975029:0 123");
+    expect(reply?.reaction).toBe("one");
+    const url = new URL(mockFetch.mock.calls[1]?.[0] as string);
+    expect(url.searchParams.get("queue_id")).toBe("1517975029:0");
+  });
+
+  it("should deregister the Zulip queue of a reaction subscription", async () => {
+    mockFetch.mockResolvedValue({ ok: true, json: async () => ({}) });
+
+    await client.deregisterQueue("1517975029:0 123");
+
+    expect(mockFetch.mock.calls[0]?.[1]?.body).toBe("queue_id=1517975029%3A0");
+  });
+
+  it("should report the position after events that are not replies", async () => {
+    mockFetch
+      .mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({
+          events: [
+            {
+              id: 6,
+              type: "message",
+              message: { id: 1, sender_email: "bot@example.com", content: "" },
+            },
+          ],
+        }),
+      })
+      .mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({
+          events: [
+            {
+              id: 7,
+              type: "message",
+              message: {
+                id: 2,
+                sender_email: "human@example.com",
+                content: "Hi",
+              },
+            },
+          ],
+        }),
+      });
+    const onPosition = vi.fn();
+
+    await client.pollForReply(
+      "queue-1",
+      "5",
+      "bot@example.com",
+      new AbortController().signal,
+      onPosition,
+    );
+
+    expect(onPosition.mock.calls).toEqual([["6"]]);
+  });
+
   it("should filter out bot messages", async () => {
     const abortController = new AbortController();
 
@@ -228,6 +710,7 @@ describe("zulip-client", () => {
       id: "201",
       sender_email: "human@example.com",
       content: "Human's reply",
+      lastEventId: "1002",
     });
     expect(mockFetch).toHaveBeenCalledTimes(2);
   });
@@ -274,6 +757,7 @@ describe("zulip-client", () => {
       id: "200",
       sender_email: "human@example.com",
       content: "Human's reply",
+      lastEventId: "1001",
     });
     expect(mockFetch).toHaveBeenCalledTimes(3);
   });
@@ -316,6 +800,7 @@ describe("zulip-client", () => {
       id: "200",
       sender_email: "human1@example.com",
       content: "First reply",
+      lastEventId: "1001",
     });
   });
 
@@ -418,6 +903,7 @@ describe("zulip-client", () => {
       id: "200",
       sender_email: "human@example.com",
       content: "Human's reply",
+      lastEventId: "1001",
     });
     expect(mockFetch).toHaveBeenCalledTimes(3);
 
@@ -513,6 +999,7 @@ describe("zulip-client", () => {
       id: "200",
       sender_email: "human@example.com",
       content: "Human's reply",
+      lastEventId: "1001",
     });
     expect(mockFetch).toHaveBeenCalledTimes(2);
 
@@ -664,4 +1151,205 @@ describe("zulip-client", () => {
       expect.anything(),
     );
   });
+
+  it("should register a queue for a whole stream", async () => {
+    mockFetch.mockResolvedValue({
+      ok: true,
+      json: async () => ({ queue_id: "queue-9", last_event_id: 3 }),
+    });
+
+    await expect(client.registerStreamQueue?.("test-stream")).resolves.toEqual({
+      queueId: "queue-9",
+      lastEventId: "3",
+    });
+    const body = new URLSearchParams(mockFetch.mock.calls[0]?.[1].body);
+    expect(body.get("narrow")).toBe('[["stream","test-stream"]]');
+    expect(body.get("event_types")).toBe('["message"]');
+  });
+
+  it("should report the topic of polled messages", async () => {
+    mockFetch.mockResolvedValue({
+      ok: true,
+      json: async () => ({
+        events: [
+          {
+            id: 4,
+            type: "message",
+            message: {
+              id: 55,
+              sender_email: "lead@example.com",
+              content: "!pause",
+              subject: "Agent Q #abc",
+            },
+          },
+        ],
+      }),
+    });
+
+    const message = await client.pollForReply(
+      "queue-9",
+      "3",
+      "bot@example.com",
+      new AbortController().signal,
+    );
+
+    expect(message).toMatchObject({ content: "!pause", topic: "Agent Q #abc" });
+  });
+
+  describe("checkConnection", () => {
+    const respond = (status: number, body: unknown) => ({
+      ok: status >= 200 && status < 300,
+      status,
+      statusText: status === 200 ? "OK" : "Error",
+      json: async () => body,
+      text: async () => JSON.stringify(body),
+    });
+
+    // Routes each request to a response by path
+    const serve = (responses: Record<string, ReturnType<typeof respond>>) =>
+      mockFetch.mockImplementation(async (url: string) => {
+        const path = url.replace("https://zulip.example.com/api/v1", "");
+        const response = responses[path];
+        if (!response) {
+          throw new Error(`Unexpected request: ${path}`);
+        }
+        return response;
+      });
+
+    it("should report no problems for a subscribed bot", async () => {
+      serve({
+        "/users/me": respond(200, { user_id: 7 }),
+        "/get_stream_id?stream=test-stream": respond(200, { stream_id: 3 }),
+        "/users/7/subscriptions/3": respond(200, { is_subscribed: true }),
+      });
+
+      await expect(
+        client.checkConnection?.(["test-stream"], false),
+      ).resolves.toEqual([]);
+    });
+
+    it("should report an unreachable server", async () => {
+      mockFetch.mockRejectedValue(new Error("getaddrinfo ENOTFOUND"));
+
+      await expect(
+        client.checkConnection?.(["test-stream"], false),
+      ).resolves.toEqual([
+        {
+          type: "invalid_url",
+          var: "ZULIP_SERVER_URL",
+          message: expect.stringContaining(
+            "Cannot reach https://zulip.example.com: getaddrinfo ENOTFOUND",
+          ),
+        },
+      ]);
+    });
+
+    it("should report rejected credentials", async () => {
+      serve({ "/users/me": respond(401, { msg: "Invalid API key" }) });
+
+      await expect(
+        client.checkConnection?.(["test-stream"], false),
+      ).resolves.toEqual([
+        expect.objectContaining({
+          var: "ZULIP_BOT_API_KEY",
+          message: expect.stringContaining("rejected the credentials"),
+        }),
+      ]);
+    });
+
+    it("should report a server that is not Zulip", async () => {
+      serve({ "/users/me": respond(404, "Not Found") });
+
+      await expect(
+        client.checkConnection?.(["test-stream"], false),
+      ).resolves.toEqual([
+        expect.objectContaining({
+          type: "invalid_url",
+          var: "ZULIP_SERVER_URL",
+          message: expect.stringContaining("does not look like a Zulip server"),
+        }),
+      ]);
+    });
+
+    it("should name the setting of each missing stream", async () => {
+      client = createZulipClient({
+        ...config,
+        escalation: { crossPostAfterMs: 60000, crossPostStream: "oncall" },
+      });
+      serve({
+        "/users/me": respond(200, { user_id: 7 }),
+        "/get_stream_id?stream=test-stream": respond(400, { msg: "Invalid" }),
+        "/get_stream_id?stream=oncall": respond(400, { msg: "Invalid" }),
+        "/get_stream_id?stream=payments": respond(400, { msg: "Invalid" }),
+      });
+
+      const errors = await client.checkConnection?.(
+        ["test-stream", "oncall", "payments"],
+        false,
+      );
+
+      expect(errors?.map((error) => error.var)).toEqual([
+        "ZULIP_STREAM",
+        "HUMAN_LOOP_CROSSPOST_STREAM",
+        "HUMAN_LOOP_ROUTES",
+      ]);
+      expect(errors?.[0]?.message).toContain(
+        'Zulip stream "test-stream" does not exist',
+      );
+    });
+
+    it("should report a missing subscription", async () => {
+      serve({
+        "/users/me": respond(200, { user_id: 7 }),
+        "/get_stream_id?stream=test-stream": respond(200, { stream_id: 3 }),
+        "/users/7/subscriptions/3": respond(200, { is_subscribed: false }),
+      });
+
+      await expect(
+        client.checkConnection?.(["test-stream"], false),
+      ).resolves.toEqual([
+        expect.objectContaining({
+          var: "ZULIP_STREAM",
+          message: expect.stringContaining(
+            'bot@example.com is not subscribed to "test-stream"',
+          ),
+        }),
+      ]);
+    });
+
+    it("should subscribe the bot when asked to", async () => {
+      serve({
+        "/users/me": respond(200, { user_id: 7 }),
+        "/get_stream_id?stream=test-stream": respond(200, { stream_id: 3 }),
+        "/users/7/subscriptions/3": respond(200, { is_subscribed: false }),
+        "/users/me/subscriptions": respond(200, { result: "success" }),
+      });
+
+      await expect(
+        client.checkConnection?.(["test-stream"], true),
+      ).resolves.toEqual([]);
+      const [, init] = mockFetch.mock.calls.at(-1)!;
+      expect(init.method).toBe("POST");
+      expect(new URLSearchParams(init.body).get("subscriptions")).toBe(
+        '[{"name":"test-stream"}]',
+      );
+    });
+
+    it("should report a failed subscription", async () => {
+      serve({
+        "/users/me": respond(200, { user_id: 7 }),
+        "/get_stream_id?stream=test-stream": respond(200, { stream_id: 3 }),
+        "/users/7/subscriptions/3": respond(200, { is_subscribed: false }),
+        "/users/me/subscriptions": respond(403, { msg: "Not allowed" }),
+      });
+
+      await expect(
+        client.checkConnection?.(["test-stream"], true),
+      ).resolves.toEqual([
+        expect.objectContaining({
+          message: expect.stringContaining("subscribing it failed: 403"),
+        }),
+      ]);
+    });
+  });
 });
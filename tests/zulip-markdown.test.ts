@@ -0,0 +1,177 @@
+/**
+ * Tests for Zulip reply normalisation, on sample raw-markdown payloads.
+ */
+
+import { normalizeZulipReply } from "../src/zulip-markdown.js";
+
+describe("zulip-markdown", () => {
+  const serverUrl = "https://chat.example.com";
+
+  it("should leave plain text untouched", () => {
+    expect(normalizeZulipReply("Use approach B.")).toEqual({
+      text: "Use approach B.",
+      links: [],
+    });
+  });
+
+  it("should drop a quote-and-reply of the bot's question", () => {
+    const content = [
+      "@_**Pi Agent|12** [said](https://chat.example.com/#narrow/channel/5-agents/topic/Agent.20Q/near/100):",
+      "```quote",
+      "🤖 **Agent needs help**",
+      "",
+      "**Question:** Should I change the test or the code?",
+      "```",
+      "",
+      "Change the code.",
+    ].join("\n");
+
+    expect(normalizeZulipReply(content, serverUrl)).toEqual({
+      text: "Change the code.",
+      links: [],
+    });
+  });
+
+  it("should drop a quote-and-reply in a blockquote or a longer fence", () => {
+    const attribution =
+      "@_**Pi Agent|12** [said](https://chat.example.com/#narrow/near/100):";
+    const blockquote = [
+      attribution,
+      "> Should I change the test?",
+      "> Or the code?",
+      "",
+      "The code.",
+    ].join("\n");
+    const longerFence = [
+      attribution,
+      "````quote",
+      "```",
+      "nested fence",
+      "```",
+      "````",
+      "The code.",
+    ].join("\n");
+
+    expect(normalizeZulipReply(blockquote).text).toBe("The code.");
+    expect(normalizeZulipReply(longerFence).text).toBe("The code.");
+  });
+
+  it("should keep quotes that are not a quote-and-reply", () => {
+    const content = [
+      "> The docs say @**Alice|42** owns caching",
+      "",
+      "```quote",
+      "Ask #**design**",
+      "```",
+      "So ask her.",
+    ].join("\n");
+
+    expect(normalizeZulipReply(content).text).toBe(
+      [
+        "> The docs say @Alice owns caching",
+        "",
+        "```quote",
+        "Ask #design",
+        "```",
+        "So ask her.",
+      ].join("\n"),
+    );
+  });
+
+  it("should keep a later quote after the quoted question", () => {
+    const content = [
+      "@_**Pi Agent|12** [said](https://chat.example.com/#narrow/near/100):",
+      "```quote",
+      "**Question:** Which file?",
+      "```",
+      "This one:",
+      "> config.ts",
+    ].join("\n");
+
+    expect(normalizeZulipReply(content).text).toBe("This one:\n> config.ts");
+  });
+
+  it("should resolve user, silent and group mentions to names", () => {
+    expect(
+      normalizeZulipReply(
+        "Ask @**Alice Smith|42** or @_**Bob** — or ping @*backend-team* and @**all**",
+      ).text,
+    ).toBe("Ask @Alice Smith or @Bob — or ping @backend-team and @all");
+  });
+
+  it("should render channel and topic links readably", () => {
+    expect(
+      normalizeZulipReply("See #**design>caching** and #**announce**").text,
+    ).toBe("See #design > caching and #announce");
+  });
+
+  it("should keep code blocks and inline code verbatim", () => {
+    const content = [
+      "Run `grep @**x** [a](b)` first, then:",
+      "```python",
+      "print('@**Alice**')  # [link](http://example.com)",
+      "> not a quote",
+      "```",
+      "~~~",
+      "#**not>a link**",
+      "~~~",
+    ].join("\n");
+
+    expect(normalizeZulipReply(content)).toEqual({
+      text: content,
+      links: [],
+    });
+  });
+
+  it("should report links separately and keep their targets in the text", () => {
+    const content =
+      "Docs: [caching guide](https://docs.example.com/cache), also https://example.com/faq and [https://x.dev](https://x.dev).";
+
+    expect(normalizeZulipReply(content)).toEqual({
+      text: "Docs: caching guide (https://docs.example.com/cache), also https://example.com/faq and https://x.dev.",
+      links: [
+        "https://docs.example.com/cache",
+        "https://example.com/faq",
+        "https://x.dev",
+      ],
+    });
+  });
+
+  it("should make server-relative links absolute", () => {
+    expect(
+      normalizeZulipReply(
+        "Log: [build.log](/user_uploads/2/ab/build.log)",
+        serverUrl,
+      ),
+    ).toEqual({
+      text: "Log: build.log (https://chat.example.com/user_uploads/2/ab/build.log)",
+      links: ["https://chat.example.com/user_uploads/2/ab/build.log"],
+    });
+  });
+
+  it("should not report the same link twice", () => {
+    expect(
+      normalizeZulipReply(
+        "[a](https://example.com) and https://example.com again",
+      ).links,
+    ).toEqual(["https://example.com"]);
+  });
+
+  it("should collapse the blank lines left by removed quotes", () => {
+    const content = [
+      "First",
+      "",
+      "@_**Pi Agent|12** [said](https://chat.example.com/#narrow/near/100):",
+      "> quoted",
+      "",
+      "",
+      "Second",
+    ].join("\n");
+
+    expect(normalizeZulipReply(content).text).toBe("First\n\nSecond");
+  });
+
+  it("should keep an unterminated code block to the end", () => {
+    expect(normalizeZulipReply("```\n@**Alice**").text).toBe("```\n@**Alice**");
+  });
+});